@@ -14,6 +14,7 @@ import {
   LoadFixturesCommand,
   MakeFixturesCommand,
   MakeJobCommand,
+  MakeOpenApiCommand,
   MakeSchedulerCommand,
   MigrateMigrationCommand,
   RefreshMigrationCommand,
@@ -53,6 +54,7 @@ export class Kernel {
     "make:fixtures": MakeFixturesCommand,
     "make:job": MakeJobCommand,
     "make:migration": GenerateMigrationCommand,
+    "make:openapi": MakeOpenApiCommand,
     "make:routes": CreateRoutesCommand,
     "make:scheduler": MakeSchedulerCommand,
     "migration:fresh": FreshMigrationCommand,
@@ -29,6 +29,7 @@ export class HelpCommand {
       "make:fixtures        \u279E Creates new fixture file for database seeding",
       "make:job             \u279E Creates new scheduled job class in src/jobs",
       "make:migration       \u279E Generates incremental TypeScript migration from entity changes",
+      "make:openapi         \u279E Generates an OpenAPI 3.1 document from controllers and entities (use --output=FILE)",
       "make:routes          \u279E Creates a routes file based on a controller's methods",
       "make:scheduler       \u279E Adds a new scheduled method to an existing job class",
       "migration:fresh      \u279E Drops all tables and re-runs migrations (requires --force)",
@@ -0,0 +1,120 @@
+import "reflect-metadata"
+import fs from "fs"
+import path from "path"
+
+import { Config, SecurityConfig } from "@/core/config"
+import { LyraConsole } from "@/core/console/LyraConsole"
+import { RouterHelper } from "@/core/security"
+import { BUILTIN_PARSER_MIME_TYPES, buildOpenApiDocument, collectControllerRoutes, ParserType } from "@/core/server"
+
+const PARSER_TYPES = Object.keys(BUILTIN_PARSER_MIME_TYPES) as ParserType[]
+
+/**
+ * MakeOpenApiCommand class
+ * Generates an OpenAPI 3.1 document from the decorated controllers and the entities
+ * Security requirements come from the security.yaml access_control rules
+ */
+export class MakeOpenApiCommand {
+  /**
+   * Executes the make:openapi command
+   * Writes the document to openapi.json in the project root (or the --output path)
+   * @param {string[]} args - Command arguments [--output=openapi.json] [--parser=json]
+   * @returns {Promise<void>}
+   */
+  async execute(args: string[] = []) {
+    const outputArg = args.find((arg) => arg.startsWith("--output="))
+    const parserArg = args.find((arg) => arg.startsWith("--parser="))
+    const output = path.resolve(process.cwd(), outputArg ? outputArg.split("=")[1] : "openapi.json")
+    const parserType = (parserArg ? parserArg.split("=")[1] : "json") as ParserType
+
+    if (!PARSER_TYPES.includes(parserType)) {
+      LyraConsole.error(
+        "Invalid --parser value",
+        "Usage: npx maestro make:openapi [--output=openapi.json] [--parser=json|xml|urlencoded|text|raw|buffer|ndjson|msgpack|cbor|multipart]"
+      )
+      return
+    }
+
+    const basePath = new Config().get("router.base_path") || ""
+    const routes = (await RouterHelper.listControllers()).flatMap((controller) =>
+      collectControllerRoutes(controller, basePath)
+    )
+    const packageInfo = this.readPackageInfo()
+
+    const document = buildOpenApiDocument(routes, {
+      title: packageInfo.name,
+      version: packageInfo.version,
+      description: packageInfo.description,
+      parserType,
+      accessControl: this.readAccessControl(),
+      entities: await this.listEntities()
+    })
+
+    fs.writeFileSync(output, JSON.stringify(document, null, 2) + "\n")
+
+    LyraConsole.success(
+      "OpenAPI document generated successfully!",
+      `File: ${output}`,
+      `Operations: ${routes.length}, schemas: ${Object.keys(document.components.schemas).length}`
+    )
+  }
+
+  /**
+   * Reads the API title, version and description from the project package.json
+   * @returns {{ name?: string, version?: string, description?: string }} - Package information
+   * @private
+   */
+  private readPackageInfo(): { name?: string; version?: string; description?: string } {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(process.cwd(), "package.json"), "utf-8"))
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Reads the access_control rules, none when security.yaml is missing
+   * @returns {Array<{ path: string, roles: string[] }>} - Protected routes
+   * @private
+   */
+  private readAccessControl() {
+    try {
+      return new SecurityConfig().getConfig().access_control || []
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Lists entity classes exported from the entity folder
+   * @returns {Promise<Function[]>} - Classes decorated with @Table
+   * @private
+   */
+  private async listEntities(): Promise<Function[]> {
+    const entityFolder = path.join(process.cwd(), "src", "entity")
+    const entities: Function[] = []
+
+    if (!fs.existsSync(entityFolder)) {
+      return entities
+    }
+
+    for (const file of fs.readdirSync(entityFolder)) {
+      if (!file.endsWith(".ts") && !file.endsWith(".js")) continue
+
+      try {
+        const fileUrl = `file:///${path.join(entityFolder, file).replace(/\\/g, "/")}`
+        const module = await import(fileUrl)
+
+        for (const exportedItem of Object.values(module)) {
+          if (typeof exportedItem === "function" && Reflect.getMetadata("entity:table", exportedItem)) {
+            entities.push(exportedItem)
+          }
+        }
+      } catch {
+        // Skip files that can't be loaded
+      }
+    }
+
+    return entities
+  }
+}
@@ -4,7 +4,7 @@ import { RouterHelper } from "@/core/security"
 /**
  * ShowRoutesCommand class
  * Displays all registered API routes in a formatted table
- * Shows HTTP methods, paths, and controller handlers
+ * Shows HTTP methods, paths, controller handlers and the roles allowed to call them
  */
 export class ShowRoutesCommand {
   /**
@@ -19,24 +19,35 @@ export class ShowRoutesCommand {
     const methodColumnWidth = Math.max(...routes.map((r) => r.httpMethod.length))
     const pathColumnWidth = Math.max(...routes.map((r) => r.path.length))
     const controllerColumnWidth = Math.max(...routes.map((r) => r.controller.concat("()").length))
+    const rolesColumnWidth = Math.max("ROLES".length, ...routes.map((r) => this.formatRoles(r.roles).length))
 
     routesInfos.push(
-      `┌${"─".repeat(methodColumnWidth + 2)}┬${"─".repeat(pathColumnWidth + 2)}┬${"─".repeat(controllerColumnWidth + 2)}┐`
+      `┌${"─".repeat(methodColumnWidth + 2)}┬${"─".repeat(pathColumnWidth + 2)}┬${"─".repeat(controllerColumnWidth + 2)}┬${"─".repeat(rolesColumnWidth + 2)}┐`
     )
     routesInfos.push(
-      `│ ${"METHOD".padEnd(methodColumnWidth)} │ ${"PATH".padEnd(pathColumnWidth)} │ ${"HANDLER".padEnd(controllerColumnWidth)} │`
+      `│ ${"METHOD".padEnd(methodColumnWidth)} │ ${"PATH".padEnd(pathColumnWidth)} │ ${"HANDLER".padEnd(controllerColumnWidth)} │ ${"ROLES".padEnd(rolesColumnWidth)} │`
     )
     routesInfos.push(
-      `├${"─".repeat(methodColumnWidth + 2)}┼${"─".repeat(pathColumnWidth + 2)}┼${"─".repeat(controllerColumnWidth + 2)}┤`
+      `├${"─".repeat(methodColumnWidth + 2)}┼${"─".repeat(pathColumnWidth + 2)}┼${"─".repeat(controllerColumnWidth + 2)}┼${"─".repeat(rolesColumnWidth + 2)}┤`
     )
     for (const route of routes) {
       routesInfos.push(
-        `│ ${route.httpMethod.padEnd(methodColumnWidth)} │ ${route.path.padEnd(pathColumnWidth)} │ ${route.controller.concat("()").padEnd(controllerColumnWidth)} │`
+        `│ ${route.httpMethod.padEnd(methodColumnWidth)} │ ${route.path.padEnd(pathColumnWidth)} │ ${route.controller.concat("()").padEnd(controllerColumnWidth)} │ ${this.formatRoles(route.roles).padEnd(rolesColumnWidth)} │`
       )
     }
     routesInfos.push(
-      `└${"─".repeat(methodColumnWidth + 2)}┴${"─".repeat(pathColumnWidth + 2)}┴${"─".repeat(controllerColumnWidth + 2)}┘`
+      `└${"─".repeat(methodColumnWidth + 2)}┴${"─".repeat(pathColumnWidth + 2)}┴${"─".repeat(controllerColumnWidth + 2)}┴${"─".repeat(rolesColumnWidth + 2)}┘`
     )
     LyraConsole.success(...routesInfos)
   }
+
+  /**
+   * Formats the roles of a route for the ROLES column
+   * @param {string[]} [roles] - Allowed roles
+   * @returns {string} - Comma separated roles, "-" for public routes
+   * @private
+   */
+  private formatRoles(roles?: string[]): string {
+    return roles && roles.length > 0 ? roles.join(", ") : "-"
+  }
 }
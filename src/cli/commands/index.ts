@@ -10,6 +10,7 @@ export * from "./ShowBackupsCommand"
 export * from "./LoadFixturesCommand"
 export * from "./MakeFixturesCommand"
 export * from "./MakeJobCommand"
+export * from "./MakeOpenApiCommand"
 export * from "./MakeSchedulerCommand"
 export * from "./MigrateMigrationCommand"
 export * from "./RefreshMigrationCommand"
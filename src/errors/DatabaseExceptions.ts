@@ -0,0 +1,170 @@
+import { HTTP_STATUS, HttpStatus } from "@/core/errors/HttpStatus"
+import { HttpException } from "@/core/errors/HttpExceptions"
+
+/** Details extracted from a database driver error */
+export interface DatabaseErrorDetails {
+  /** Driver error code (ER_DUP_ENTRY, ER_LOCK_DEADLOCK...) */
+  code: string
+  /** Table the failing statement targeted, or the referencing table for foreign keys */
+  table?: string
+  /** Offending column */
+  column?: string
+  /** Offending index or constraint name */
+  constraint?: string
+}
+
+/**
+ * DatabaseException class
+ * Base class of the exceptions translated from database driver errors
+ * The message never contains SQL; the driver error is kept in errors for logging
+ */
+export class DatabaseException extends HttpException {
+  public code: string
+  public table?: string
+  public column?: string
+  public constraint?: string
+  public fields?: Record<string, string[]>
+
+  /**
+   * Creates a new DatabaseException
+   * @param {string} message - Client-safe error message
+   * @param {HttpStatus} status - HTTP status code
+   * @param {DatabaseErrorDetails} details - Driver code and offending table, column or constraint
+   * @param {Error} errors - Original driver error
+   * @example
+   * throw new DatabaseException('Database error', HTTP_STATUS.INTERNAL_SERVER_ERROR, { code: 'ER_UNKNOWN' }, error)
+   */
+  constructor(message: string, status: HttpStatus, details: DatabaseErrorDetails, errors?: Error) {
+    super(message, status, errors)
+    this.code = details.code
+    this.table = details.table
+    this.column = details.column
+    this.constraint = details.constraint
+    if (details.column) {
+      this.fields = { [details.column]: [message] }
+    }
+  }
+}
+
+/**
+ * UniqueConstraintViolationException class
+ * Thrown when an insert or update duplicates a unique key (409 Conflict)
+ */
+export class UniqueConstraintViolationException extends DatabaseException {
+  /**
+   * Creates a new UniqueConstraintViolationException
+   * @param {DatabaseErrorDetails} details - Offending unique key, and its column when known
+   * @param {Error} errors - Original driver error
+   * @example
+   * throw new UniqueConstraintViolationException({ code: 'ER_DUP_ENTRY', column: 'email', constraint: 'email' })
+   */
+  constructor(details: DatabaseErrorDetails, errors?: Error) {
+    super(
+      details.column ? `${details.column} already exists` : `Duplicate value for unique key ${details.constraint || "unknown"}`,
+      HTTP_STATUS.CONFLICT,
+      details,
+      errors
+    )
+  }
+}
+
+/**
+ * ForeignKeyConstraintViolationException class
+ * Thrown when an insert or update references a row that does not exist (422 Unprocessable Entity)
+ */
+export class ForeignKeyConstraintViolationException extends DatabaseException {
+  public referencedTable?: string
+
+  /**
+   * Creates a new ForeignKeyConstraintViolationException
+   * @param {DatabaseErrorDetails} details - Foreign key constraint and referencing column
+   * @param {string} referencedTable - Table the column references
+   * @param {Error} errors - Original driver error
+   * @example
+   * throw new ForeignKeyConstraintViolationException({ code: 'ER_NO_REFERENCED_ROW_2', column: 'author_id' }, 'users')
+   */
+  constructor(details: DatabaseErrorDetails, referencedTable?: string, errors?: Error) {
+    super(
+      `${details.column || "A column"} references a missing ${referencedTable || "row"}${referencedTable ? " row" : ""}`,
+      HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      details,
+      errors
+    )
+    this.referencedTable = referencedTable
+  }
+}
+
+/**
+ * RowReferencedException class
+ * Thrown when deleting or updating a row that other rows still reference (409 Conflict)
+ */
+export class RowReferencedException extends DatabaseException {
+  /**
+   * Creates a new RowReferencedException
+   * @param {DatabaseErrorDetails} details - Foreign key constraint and referencing table
+   * @param {Error} errors - Original driver error
+   * @example
+   * throw new RowReferencedException({ code: 'ER_ROW_IS_REFERENCED_2', table: 'posts', constraint: 'fk_posts_author' })
+   */
+  constructor(details: DatabaseErrorDetails, errors?: Error) {
+    super(
+      `Record is still referenced${details.table ? ` by ${details.table}` : ""}`,
+      HTTP_STATUS.CONFLICT,
+      details,
+      errors
+    )
+    // The referencing column belongs to another table, it is not a field of the request
+    this.fields = undefined
+  }
+}
+
+/**
+ * DataTooLongException class
+ * Thrown when a value exceeds the size of its column (422 Unprocessable Entity)
+ */
+export class DataTooLongException extends DatabaseException {
+  /**
+   * Creates a new DataTooLongException
+   * @param {DatabaseErrorDetails} details - Offending column
+   * @param {Error} errors - Original driver error
+   * @example
+   * throw new DataTooLongException({ code: 'ER_DATA_TOO_LONG', column: 'title' })
+   */
+  constructor(details: DatabaseErrorDetails, errors?: Error) {
+    super(`${details.column || "A value"} is too long`, HTTP_STATUS.UNPROCESSABLE_ENTITY, details, errors)
+  }
+}
+
+/**
+ * NotNullViolationException class
+ * Thrown when a NOT NULL column receives no value (422 Unprocessable Entity)
+ */
+export class NotNullViolationException extends DatabaseException {
+  /**
+   * Creates a new NotNullViolationException
+   * @param {DatabaseErrorDetails} details - Offending column
+   * @param {Error} errors - Original driver error
+   * @example
+   * throw new NotNullViolationException({ code: 'ER_BAD_NULL_ERROR', column: 'name' })
+   */
+  constructor(details: DatabaseErrorDetails, errors?: Error) {
+    super(`${details.column || "A column"} is required`, HTTP_STATUS.UNPROCESSABLE_ENTITY, details, errors)
+  }
+}
+
+/**
+ * DatabaseLockException class
+ * Thrown on deadlocks and lock wait timeouts; retrying the request may succeed (503 Service Unavailable)
+ */
+export class DatabaseLockException extends DatabaseException {
+  /**
+   * Creates a new DatabaseLockException
+   * @param {DatabaseErrorDetails} details - Driver code (ER_LOCK_DEADLOCK or ER_LOCK_WAIT_TIMEOUT)
+   * @param {Error} errors - Original driver error
+   * @example
+   * throw new DatabaseLockException({ code: 'ER_LOCK_DEADLOCK' })
+   */
+  constructor(details: DatabaseErrorDetails, errors?: Error) {
+    super("Database is busy, retry the request", HTTP_STATUS.SERVICE_UNAVAILABLE, details, errors)
+  }
+}
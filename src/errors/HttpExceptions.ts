@@ -26,20 +26,43 @@ export class HttpException extends Error {
   }
 }
 
+/**
+ * BadRequestException class
+ * Thrown when the request is malformed or cannot be processed as sent (400 Bad Request)
+ */
+export class BadRequestException extends HttpException {
+  /**
+   * Creates a new BadRequestException
+   * @param {string} message - Error message (default: 'Bad Request')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new BadRequestException('Malformed JSON body')
+   */
+  constructor(message: string = "Bad Request", errors?: Error) {
+    super(message, HTTP_STATUS.BAD_REQUEST, errors)
+  }
+}
+
 /**
  * ValidationException class
  * Thrown when request validation fails (400 Bad Request)
+ * Carries the failed constraints per field (dot paths for nested properties) when available
  */
-export class ValidationException extends HttpException {
+export class ValidationException extends BadRequestException {
+  public fields?: Record<string, string[]>
+
   /**
    * Creates a new ValidationException
    * @param {string} message - Validation error message (default: 'Validation Error')
    * @param {Error} errors - Optional nested error with validation details
+   * @param {Record<string, string[]>} fields - Optional error messages per field
    * @example
    * throw new ValidationException('Email format is invalid')
+   * throw new ValidationException('Validation Error', undefined, { email: ['email must be an email'] })
    */
-  constructor(message: string = "Validation Error", errors?: Error) {
-    super(message, HTTP_STATUS.BAD_REQUEST, errors)
+  constructor(message: string = "Validation Error", errors?: Error, fields?: Record<string, string[]>) {
+    super(message, errors)
+    this.fields = fields
   }
 }
 
@@ -111,6 +134,159 @@ export class MethodNotAllowedException extends HttpException {
   }
 }
 
+/**
+ * NotAcceptableException class
+ * Thrown when no representation matches the Accept header of the request (406 Not Acceptable)
+ */
+export class NotAcceptableException extends HttpException {
+  /**
+   * Creates a new NotAcceptableException
+   * @param {string} message - Error message (default: 'Not Acceptable')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new NotAcceptableException('Only application/json is available')
+   */
+  constructor(message: string = "Not Acceptable", errors?: Error) {
+    super(message, HTTP_STATUS.NOT_ACCEPTABLE, errors)
+  }
+}
+
+/**
+ * RequestTimeoutException class
+ * Thrown when the client took too long to send the request (408 Request Timeout)
+ */
+export class RequestTimeoutException extends HttpException {
+  /**
+   * Creates a new RequestTimeoutException
+   * @param {string} message - Error message (default: 'Request Timeout')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new RequestTimeoutException('Request body not received in time')
+   */
+  constructor(message: string = "Request Timeout", errors?: Error) {
+    super(message, HTTP_STATUS.REQUEST_TIMEOUT, errors)
+  }
+}
+
+/**
+ * ConflictException class
+ * Thrown when the request conflicts with the current state of the resource (409 Conflict)
+ */
+export class ConflictException extends HttpException {
+  /**
+   * Creates a new ConflictException
+   * @param {string} message - Error message (default: 'Conflict')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new ConflictException('Email already registered')
+   */
+  constructor(message: string = "Conflict", errors?: Error) {
+    super(message, HTTP_STATUS.CONFLICT, errors)
+  }
+}
+
+/**
+ * GoneException class
+ * Thrown when the resource existed but was permanently removed (410 Gone)
+ */
+export class GoneException extends HttpException {
+  /**
+   * Creates a new GoneException
+   * @param {string} message - Error message (default: 'Gone')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new GoneException('This invitation link was revoked')
+   */
+  constructor(message: string = "Gone", errors?: Error) {
+    super(message, HTTP_STATUS.GONE, errors)
+  }
+}
+
+/**
+ * PreconditionFailedException class
+ * Thrown when a conditional request header (If-Match, If-Unmodified-Since) does not match the current resource (412 Precondition Failed)
+ */
+export class PreconditionFailedException extends HttpException {
+  /**
+   * Creates a new PreconditionFailedException
+   * @param {string} message - Error message (default: 'Precondition Failed')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new PreconditionFailedException('Resource was modified by another request')
+   */
+  constructor(message: string = "Precondition Failed", errors?: Error) {
+    super(message, HTTP_STATUS.PRECONDITION_FAILED, errors)
+  }
+}
+
+/**
+ * PayloadTooLargeException class
+ * Thrown when the request body exceeds the accepted size (413 Payload Too Large)
+ */
+export class PayloadTooLargeException extends HttpException {
+  /**
+   * Creates a new PayloadTooLargeException
+   * @param {string} message - Error message (default: 'Payload Too Large')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new PayloadTooLargeException('Avatar must not exceed 2mb')
+   */
+  constructor(message: string = "Payload Too Large", errors?: Error) {
+    super(message, HTTP_STATUS.PAYLOAD_TOO_LARGE, errors)
+  }
+}
+
+/**
+ * UnsupportedMediaTypeException class
+ * Thrown when the request body has a content type the endpoint does not accept (415 Unsupported Media Type)
+ */
+export class UnsupportedMediaTypeException extends HttpException {
+  /**
+   * Creates a new UnsupportedMediaTypeException
+   * @param {string} message - Error message (default: 'Unsupported Media Type')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new UnsupportedMediaTypeException('Only application/json bodies are accepted')
+   */
+  constructor(message: string = "Unsupported Media Type", errors?: Error) {
+    super(message, HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE, errors)
+  }
+}
+
+/**
+ * UnprocessableEntityException class
+ * Thrown when the request is well-formed but semantically invalid (422 Unprocessable Entity)
+ */
+export class UnprocessableEntityException extends HttpException {
+  /**
+   * Creates a new UnprocessableEntityException
+   * @param {string} message - Error message (default: 'Unprocessable Entity')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new UnprocessableEntityException('End date must be after start date')
+   */
+  constructor(message: string = "Unprocessable Entity", errors?: Error) {
+    super(message, HTTP_STATUS.UNPROCESSABLE_ENTITY, errors)
+  }
+}
+
+/**
+ * TooManyRequestsException class
+ * Thrown when the client exceeded a rate limit (429 Too Many Requests)
+ */
+export class TooManyRequestsException extends HttpException {
+  /**
+   * Creates a new TooManyRequestsException
+   * @param {string} message - Error message (default: 'Too Many Requests')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new TooManyRequestsException('Too many login attempts, retry in a minute')
+   */
+  constructor(message: string = "Too Many Requests", errors?: Error) {
+    super(message, HTTP_STATUS.TOO_MANY_REQUESTS, errors)
+  }
+}
+
 /**
  * InternalServerErrorException class
  * Thrown when an unexpected server error occurs (500 Internal Server Error)
@@ -127,3 +303,71 @@ export class InternalServerErrorException extends HttpException {
     super(message, HTTP_STATUS.INTERNAL_SERVER_ERROR, errors)
   }
 }
+
+/**
+ * NotImplementedException class
+ * Thrown when the server does not support the requested functionality (501 Not Implemented)
+ */
+export class NotImplementedException extends HttpException {
+  /**
+   * Creates a new NotImplementedException
+   * @param {string} message - Error message (default: 'Not Implemented')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new NotImplementedException('Export to PDF is not available yet')
+   */
+  constructor(message: string = "Not Implemented", errors?: Error) {
+    super(message, HTTP_STATUS.NOT_IMPLEMENTED, errors)
+  }
+}
+
+/**
+ * BadGatewayException class
+ * Thrown when an upstream service answered with an invalid response (502 Bad Gateway)
+ */
+export class BadGatewayException extends HttpException {
+  /**
+   * Creates a new BadGatewayException
+   * @param {string} message - Error message (default: 'Bad Gateway')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new BadGatewayException('Payment provider returned an invalid response')
+   */
+  constructor(message: string = "Bad Gateway", errors?: Error) {
+    super(message, HTTP_STATUS.BAD_GATEWAY, errors)
+  }
+}
+
+/**
+ * ServiceUnavailableException class
+ * Thrown when the server is temporarily unable to handle the request (503 Service Unavailable)
+ */
+export class ServiceUnavailableException extends HttpException {
+  /**
+   * Creates a new ServiceUnavailableException
+   * @param {string} message - Error message (default: 'Service Unavailable')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new ServiceUnavailableException('Maintenance in progress')
+   */
+  constructor(message: string = "Service Unavailable", errors?: Error) {
+    super(message, HTTP_STATUS.SERVICE_UNAVAILABLE, errors)
+  }
+}
+
+/**
+ * GatewayTimeoutException class
+ * Thrown when an upstream service did not answer in time (504 Gateway Timeout)
+ */
+export class GatewayTimeoutException extends HttpException {
+  /**
+   * Creates a new GatewayTimeoutException
+   * @param {string} message - Error message (default: 'Gateway Timeout')
+   * @param {Error} errors - Optional nested error
+   * @example
+   * throw new GatewayTimeoutException('Payment provider did not answer in time')
+   */
+  constructor(message: string = "Gateway Timeout", errors?: Error) {
+    super(message, HTTP_STATUS.GATEWAY_TIMEOUT, errors)
+  }
+}
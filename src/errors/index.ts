@@ -1,2 +1,3 @@
+export * from "./DatabaseExceptions"
 export * from "./HttpExceptions"
 export * from "./HttpStatus"
@@ -2,6 +2,7 @@ import * as fs from "node:fs"
 import * as path from "node:path"
 import * as process from "node:process"
 import { LyraConsole } from "@/core/console/LyraConsole"
+import { RequestContext } from "@/core/server/RequestContext"
 
 type LogLevel = 'info' | 'warn' | 'error' | 'success' | 'debug' | 'log'
 
@@ -39,7 +40,7 @@ class Logger {
 
       // Format log message with timestamp and level
       const timestamp = new Date().toISOString()
-      const formattedMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`
+      const formattedMessage = `[${timestamp}] [${level.toUpperCase()}] ${this.withContext(message)}`
 
       // Append log message with newline
       fs.appendFileSync(logPath, formattedMessage + "\n", "utf8")
@@ -58,6 +59,8 @@ class Logger {
    * logger.toConsole('User logged in', 'success')
    */
   toConsole(message: string, level: LogLevel = 'log'): void {
+    message = this.withContext(message)
+
     switch (level) {
       case 'info':
         LyraConsole.info(message)
@@ -81,6 +84,23 @@ class Logger {
     }
   }
 
+  /**
+   * Prefixes a message with the current request context (request ID and user ID), if any
+   * @param {string} message - Message to stamp
+   * @returns {string} - Message prefixed with e.g. '[req:8f14e45f user:42]'
+   * @private
+   */
+  private withContext(message: string): string {
+    const context = RequestContext.get()
+    if (!context) {
+      return message
+    }
+
+    const userId = context.user?.id
+    const stamp = userId !== undefined ? `req:${context.requestId} user:${userId}` : `req:${context.requestId}`
+    return `[${stamp}] ${message}`
+  }
+
   /**
    * Logs a message to both file and console
    * @param {string} message - Message to log
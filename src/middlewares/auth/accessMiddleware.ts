@@ -5,8 +5,6 @@ import { UnauthorizedException } from "@/core/errors"
 import { AccessControl } from "@/core/security"
 import { ProtectedRouteType } from "@/core/types"
 
-import { getUserRepository } from "@/core/loader"
-
 /**
  * Access control middleware
  * Enforces role-based access control (RBAC) for protected routes
@@ -32,26 +30,12 @@ export const accessMiddleware = async (req: Request, res: Response, next: NextFu
     }
 
     // Try to get token from cookies first, then from Authorization header
-    let token = req.cookies.Token
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
+    const token = AccessControl.extractToken(req)
 
     if (!token) throw new UnauthorizedException("No token provided")
 
     try {
-      const decoded = AccessControl.isTokenValid(token)
-      const UserRepositoryClass = await getUserRepository()
-
-      if (!UserRepositoryClass) throw new UnauthorizedException("Repository not available")
-
-      const userRepository = new UserRepositoryClass()
-      const user = await userRepository.find(decoded.id)
-
-      if (!user) throw new UnauthorizedException("Invalid token")
+      const user = await AccessControl.authenticateToken(token)
 
       req.user = user
 
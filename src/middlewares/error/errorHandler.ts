@@ -1,9 +1,12 @@
+import { STATUS_CODES } from "http"
+
 import { NextFunction, Request, Response } from "@/core/server"
 
 import { Config } from "@/core/config"
 import { logger } from "@/core/logger"
-import { HttpException } from "@/core/errors"
-import { ErrorResponse, HttpExceptionType } from "@/core/types/Errors"
+import { DatabaseException, HttpException, ValidationException } from "@/core/errors"
+import { translateDatabaseError } from "@/core/orm/DatabaseErrorTranslator"
+import { ErrorResponse, HttpExceptionType, ProblemDetails } from "@/core/types/Errors"
 
 /**
  * Checks if the application is running in production mode
@@ -23,12 +26,86 @@ const isProduction = (): boolean => {
  * @private
  */
 const getErrorMessage = (error: HttpException): string => {
-  if (isProduction() && error.status === 500) {
+  if (isProduction() && (error.status || 500) === 500) {
     return "Internal Server Error"
   }
   return error.message || "An error occurred"
 }
 
+/**
+ * Gets the error messages per field carried by validation and database exceptions
+ * @param {HttpExceptionType} error - The error object
+ * @returns {Record<string, string[]> | undefined} - Error messages per field
+ * @private
+ */
+const getErrorFields = (error: HttpExceptionType): Record<string, string[]> | undefined => {
+  if (error instanceof ValidationException || error instanceof DatabaseException) {
+    return error.fields
+  }
+  return undefined
+}
+
+/**
+ * Checks if errors are sent as RFC 9457 problem details
+ * @returns {boolean} - True if error_format is 'problem' in parameters.yaml
+ * @example
+ * # config/parameters.yaml
+ * parameters:
+ *   error_format: problem
+ */
+export const isProblemDetailsEnabled = (): boolean => {
+  return new Config().getParam("error_format") === "problem"
+}
+
+/**
+ * Formats an error as RFC 9457 problem details
+ * The detail of 500 errors is masked in production like the default JSON response
+ * @param {HttpExceptionType} error - The error object
+ * @param {Request} req - Request the error occurred on
+ * @returns {ProblemDetails} - Problem details
+ * @example
+ * const problem = toProblemDetails(new NotFoundException('User not found'), req)
+ * // { type: 'about:blank', title: 'Not Found', status: 404, detail: 'User not found', instance: '/users/42' }
+ */
+export const toProblemDetails = (error: HttpExceptionType, req: Request): ProblemDetails => {
+  const httpError = error as HttpException
+  const status = httpError.status || 500
+
+  const problem: ProblemDetails = {
+    type: "about:blank",
+    title: STATUS_CODES[status] || "Error",
+    status,
+    detail: getErrorMessage(httpError),
+    instance: req.url || undefined
+  }
+
+  const fields = getErrorFields(error)
+  if (fields) {
+    problem.errors = fields
+  }
+
+  const requestId = req.requestId || (req.headers["x-request-id"] as string)
+  if (requestId) {
+    problem.requestId = requestId
+  }
+
+  return problem
+}
+
+/**
+ * Sends problem details with the application/problem+json content type
+ * @param {Response} res - Response to send on
+ * @param {ProblemDetails} problem - Problem details
+ * @example
+ * sendProblemDetails(res, toProblemDetails(error, req))
+ */
+export const sendProblemDetails = (res: Response, problem: ProblemDetails): void => {
+  (res as any)._responseSent = true
+  res.statusCode = problem.status
+  res.setHeader("Content-Type", "application/problem+json")
+  res.end(JSON.stringify(problem))
+}
+
 /**
  * Logs error details to the console and file
  * Includes request metadata and stack trace in non-production environments
@@ -42,7 +119,7 @@ const logError = (error: HttpException, req: Request): void => {
   const method = req.method
   const path = req.url || "unknown"
   const userAgent = req.headers["user-agent"] || "unknown"
-  const ip = req.socket.remoteAddress || "unknown"
+  const ip = req.ip || req.socket.remoteAddress || "unknown"
 
   const errorMessage = `[${timestamp}] ${method} ${path} - ${error.status} - ${error.message} | User-Agent: ${userAgent} | IP: ${ip}`
 
@@ -51,12 +128,20 @@ const logError = (error: HttpException, req: Request): void => {
   if (!isProduction() && error.stack) {
     logger.error(`Stack: ${error.stack}`)
   }
+
+  // Translated database errors keep the driver message (with SQL details) out of the response
+  if (!isProduction() && error instanceof DatabaseException && error.errors) {
+    logger.error(`Cause: ${error.errors.message}`)
+  }
 }
 
 /**
  * Global error handler middleware
- * Catches all errors thrown in the application and redirects to ErrorController routes or formats them as JSON responses
+ * Catches all errors thrown in the application and redirects to ErrorController routes or formats them as JSON responses,
+ * or answers with application/problem+json for every status code when error_format is 'problem'
  * Logs errors with request context and handles production/development differences
+ * Raw MySQL driver errors are translated first: duplicate keys and referenced rows answer 409,
+ * missing references, too long values and missing required columns 422, deadlocks and lock waits 503
  * @param {HttpExceptionType} error - The error object (HttpException or generic error)
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
@@ -66,6 +151,7 @@ const logError = (error: HttpException, req: Request): void => {
  * app.use(errorHandler) // Must be last middleware
  */
 export const errorHandler = async (error: HttpExceptionType, req: Request, res: Response, _next?: NextFunction): Promise<void> => {
+  error = translateDatabaseError(error)
   const httpError = error as HttpException
   const status = httpError.status || 500
 
@@ -76,6 +162,12 @@ export const errorHandler = async (error: HttpExceptionType, req: Request, res:
     return
   }
 
+  // Problem details replace both the ErrorController routes and the default JSON body
+  if (isProblemDetailsEnabled()) {
+    sendProblemDetails(res, toProblemDetails(error, req))
+    return
+  }
+
   // Try to internally forward to ErrorController route if it exists
   // Avoid infinite loop - don't forward if already on an error route
   const isErrorRoute = req.url?.startsWith('/error/') || req.url?.includes('/error/')
@@ -130,10 +222,15 @@ export const errorHandler = async (error: HttpExceptionType, req: Request, res:
     timestamp: new Date().toISOString()
   }
 
-  const requestId = req.headers["x-request-id"] as string
+  const requestId = req.requestId || (req.headers["x-request-id"] as string)
   if (requestId) {
     errorResponse.requestId = requestId
   }
 
+  const fields = getErrorFields(error)
+  if (fields) {
+    errorResponse.errors = fields
+  }
+
   res.status(status).json(errorResponse)
 }
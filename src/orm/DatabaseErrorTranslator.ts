@@ -0,0 +1,118 @@
+import {
+  DatabaseException,
+  DatabaseLockException,
+  DataTooLongException,
+  ForeignKeyConstraintViolationException,
+  NotNullViolationException,
+  RowReferencedException,
+  UniqueConstraintViolationException
+} from "@/core/errors"
+
+/** Context helping to name the offending column of a driver error */
+export interface DatabaseErrorContext {
+  /** Table the statement targeted */
+  table?: string
+  /** Known columns of the table, used to find the column of a unique key */
+  columns?: string[]
+  /** Primary key column of the table, reported for duplicate primary keys */
+  primaryKey?: string
+}
+
+/**
+ * Checks if an error was raised by the MySQL driver for a failing statement
+ * @param {any} error - Error to check
+ * @returns {boolean} - True if the error carries a MySQL error code and SQL state
+ * @example
+ * if (isDatabaseError(error)) throw translateDatabaseError(error)
+ */
+export function isDatabaseError(error: any): boolean {
+  return !!error && typeof error.code === "string" && error.code.startsWith("ER_") && typeof error.sqlState === "string"
+}
+
+/**
+ * Translates a MySQL driver error into a typed DatabaseException
+ * Handles duplicate unique keys, foreign key violations, too long values, NULL in NOT NULL columns,
+ * deadlocks and lock wait timeouts; any other error is returned unchanged
+ * @param {T} error - Error thrown by the driver
+ * @param {DatabaseErrorContext} [context={}] - Table, columns and primary key of the statement
+ * @returns {T | DatabaseException} - Typed exception, or the original error
+ * @example
+ * try {
+ *   await db.query('INSERT INTO `users` (`email`) VALUES (?)', [email])
+ * } catch (error) {
+ *   throw translateDatabaseError(error, { table: 'users', columns: ['id', 'email'], primaryKey: 'id' })
+ * }
+ */
+export function translateDatabaseError<T>(error: T, context: DatabaseErrorContext = {}): T | DatabaseException {
+  if (!isDatabaseError(error) || error instanceof DatabaseException) {
+    return error
+  }
+
+  const driverError = error as any
+  const code: string = driverError.code
+  const message: string = driverError.sqlMessage || driverError.message || ""
+
+  switch (code) {
+    case "ER_DUP_ENTRY": {
+      // Duplicate entry 'a@b.c' for key 'users.email' (MySQL 8 prefixes the key with the table)
+      const key = message.match(/for key '([^']+)'/)?.[1]
+      const constraint = key?.includes(".") ? key.slice(key.indexOf(".") + 1) : key
+      return new UniqueConstraintViolationException(
+        { code, table: context.table, constraint, column: uniqueKeyColumn(constraint, context) },
+        driverError
+      )
+    }
+    case "ER_NO_REFERENCED_ROW":
+    case "ER_NO_REFERENCED_ROW_2": {
+      const foreignKey = parseForeignKey(message)
+      return new ForeignKeyConstraintViolationException(
+        { code, table: foreignKey.table, column: foreignKey.column, constraint: foreignKey.constraint },
+        foreignKey.referencedTable,
+        driverError
+      )
+    }
+    case "ER_ROW_IS_REFERENCED":
+    case "ER_ROW_IS_REFERENCED_2": {
+      const foreignKey = parseForeignKey(message)
+      return new RowReferencedException(
+        { code, table: foreignKey.table, column: foreignKey.column, constraint: foreignKey.constraint },
+        driverError
+      )
+    }
+    case "ER_DATA_TOO_LONG":
+      // Data too long for column 'title' at row 1
+      return new DataTooLongException({ code, table: context.table, column: message.match(/column '([^']+)'/)?.[1] }, driverError)
+    case "ER_BAD_NULL_ERROR":
+      // Column 'name' cannot be null
+      return new NotNullViolationException({ code, table: context.table, column: message.match(/Column '([^']+)'/)?.[1] }, driverError)
+    case "ER_LOCK_DEADLOCK":
+    case "ER_LOCK_WAIT_TIMEOUT":
+      return new DatabaseLockException({ code, table: context.table }, driverError)
+    default:
+      return error
+  }
+}
+
+// a foreign key constraint fails (`db`.`posts`, CONSTRAINT `fk_posts_author` FOREIGN KEY (`author_id`) REFERENCES `users` (`id`))
+function parseForeignKey(message: string) {
+  return {
+    table: message.match(/fails \(`[^`]+`\.`([^`]+)`/)?.[1],
+    constraint: message.match(/CONSTRAINT `([^`]+)`/)?.[1],
+    column: message.match(/FOREIGN KEY \(`([^`]+)`\)/)?.[1],
+    referencedTable: message.match(/REFERENCES `([^`]+)`/)?.[1]
+  }
+}
+
+// Keys are named after their column (email), or embed it (users_email_unique, UQ_users_email),
+// the primary key is always named PRIMARY
+function uniqueKeyColumn(constraint: string | undefined, context: DatabaseErrorContext): string | undefined {
+  const columns = context.columns || []
+  if (!constraint) return undefined
+  if (constraint === "PRIMARY") return context.primaryKey
+  if (columns.includes(constraint)) return constraint
+
+  const embedded = columns
+    .filter((column) => new RegExp(`(^|_)${column}(_|$)`, "i").test(constraint))
+    .sort((a, b) => b.length - a.length)
+  return embedded[0]
+}
@@ -1,4 +1,5 @@
 import { db } from "@/core/orm/Database"
+import { translateDatabaseError } from "@/core/orm/DatabaseErrorTranslator"
 import { Entity } from "@/core/orm/Entity"
 import { EntityInterface, StdArray, StdConstructor, StdObject } from "@/core/types"
 
@@ -220,7 +221,9 @@ export class QueryBuilder {
   }
 
   execute = async () => {
-    const data = await db.query(this.sql, this.params)
+    const data = await db.query(this.sql, this.params).catch((error) => {
+      throw translateDatabaseError(error)
+    })
     if (data && this.entity && Array.isArray(data)) {
       const entityClass = this.entity
       return data.map((item: object) => {
@@ -1,5 +1,7 @@
 import { db } from "@/core/orm/Database"
+import { translateDatabaseError } from "@/core/orm/DatabaseErrorTranslator"
 import { DataFormatter } from "@/core/orm/DataFormatter"
+import { ColumnType } from "@/core/orm/types"
 import { StdArray, StdNativeType, StdObject } from "@/core/types"
 
 /**
@@ -7,6 +9,7 @@ import { StdArray, StdNativeType, StdObject } from "@/core/types"
  * Generic repository for database CRUD operations
  * Provides type-safe database access with automatic entity mapping
  * Implements SQL injection prevention through identifier sanitization and parameterized queries
+ * Driver errors (duplicate keys, foreign keys, too long values...) are thrown as typed DatabaseExceptions
  * @template T - Entity type that extends {id: number | string}
  * @example
  * class UserRepository extends Repository<User> {
@@ -46,6 +49,25 @@ export class Repository<T extends { id: number | string }> {
     return `\`${identifier}\``
   }
 
+  /**
+   * Runs a parameterized query, translating driver errors into DatabaseExceptions
+   * @param sql - SQL statement with ? placeholders
+   * @param values - Placeholder values
+   * @returns The driver result
+   */
+  private async runQuery(sql: string, values: unknown[]) {
+    try {
+      return await db.query(sql, values)
+    } catch (error) {
+      const columns: ColumnType[] = Reflect.getMetadata("entity:columns", this.entityClass.prototype) || []
+      throw translateDatabaseError(error, {
+        table: this.table,
+        columns: columns.map((column) => column.name as string),
+        primaryKey: columns.find((column) => column.pk)?.name
+      })
+    }
+  }
+
   /**
    * Finds a single entity by its primary key ID
    * @param {number | string} id - Primary key value
@@ -55,7 +77,7 @@ export class Repository<T extends { id: number | string }> {
    */
   find = async (id: number | string) => {
     const safeTable = this.sanitizeIdentifier(this.table)
-    const [rows] = await db.query(`SELECT * FROM ${safeTable} WHERE id = ?`, [id])
+    const [rows] = await this.runQuery(`SELECT * FROM ${safeTable} WHERE id = ?`, [id])
     const arrRows = rows as StdArray
     return arrRows.length === 0 ? null : Object.assign(new this.entityClass(), arrRows[0])
   }
@@ -80,7 +102,7 @@ export class Repository<T extends { id: number | string }> {
       if (typeof value !== "function") values.push(value)
     })
 
-    const [rows] = await db.query(`SELECT * FROM ${safeTable} WHERE ${strConstraints} LIMIT 1`, values)
+    const [rows] = await this.runQuery(`SELECT * FROM ${safeTable} WHERE ${strConstraints} LIMIT 1`, values)
     const arrRows = rows as StdArray
     return arrRows.length === 0 ? null : Object.assign(new this.entityClass(), arrRows[0])
   }
@@ -105,7 +127,7 @@ export class Repository<T extends { id: number | string }> {
     const whereClause = keys.map((key) => `${this.sanitizeIdentifier(key)} = ?`).join(" AND ")
     const values = keys.map((key) => (criteria as StdObject)[key])
 
-    const [rows] = await db.query(`SELECT * FROM ${safeTable} WHERE ${whereClause}`, values)
+    const [rows] = await this.runQuery(`SELECT * FROM ${safeTable} WHERE ${whereClause}`, values)
     return (rows as StdArray).map((row) => Object.assign(new this.entityClass(), row))
   }
 
@@ -117,7 +139,7 @@ export class Repository<T extends { id: number | string }> {
    */
   findAll = async () => {
     const safeTable = this.sanitizeIdentifier(this.table)
-    const [rows] = await db.query(`SELECT * FROM ${safeTable}`, [])
+    const [rows] = await this.runQuery(`SELECT * FROM ${safeTable}`, [])
     return (rows as StdArray).map((row) => Object.assign(new this.entityClass(), row))
   }
 
@@ -127,6 +149,8 @@ export class Repository<T extends { id: number | string }> {
    * Automatically formats data according to column metadata
    * @param {T | StdObject} entity - Entity to save
    * @returns {Promise<T>} - The saved entity
+   * @throws {UniqueConstraintViolationException} - If a unique column value already exists (409)
+   * @throws {ForeignKeyConstraintViolationException} - If a referenced row does not exist (422)
    * @example
    * const user = new User({ name: 'John', email: 'john@example.com' })
    * const savedUser = await userRepository.save(user) // INSERT
@@ -153,7 +177,7 @@ export class Repository<T extends { id: number | string }> {
 
       values.push(entityId)
 
-      await db.query(`UPDATE ${safeTable} SET ${updates} WHERE id = ?`, values)
+      await this.runQuery(`UPDATE ${safeTable} SET ${updates} WHERE id = ?`, values)
 
       return await this.find(entityId)
     } else {
@@ -166,7 +190,7 @@ export class Repository<T extends { id: number | string }> {
 
       const placeholders = columnNames.map(() => "?").join(", ")
 
-      const [result] = await db.query(`INSERT INTO ${safeTable} (${columnNames.join(", ")}) VALUES (${placeholders})`, values)
+      const [result] = await this.runQuery(`INSERT INTO ${safeTable} (${columnNames.join(", ")}) VALUES (${placeholders})`, values)
 
       // Get the insertId from the result
       const insertId = (result as any).insertId
@@ -180,11 +204,12 @@ export class Repository<T extends { id: number | string }> {
    * Deletes an entity by its primary key ID
    * @param {number | string} id - Primary key value of entity to delete
    * @returns {Promise<void>}
+   * @throws {RowReferencedException} - If other rows still reference the entity (409)
    * @example
    * await userRepository.delete(42)
    */
   delete = async (id: number | string) => {
     const safeTable = this.sanitizeIdentifier(this.table)
-    await db.query(`DELETE FROM ${safeTable} WHERE id = ?`, [id])
+    await this.runQuery(`DELETE FROM ${safeTable} WHERE id = ?`, [id])
   }
 }
@@ -1,5 +1,6 @@
 export * from "../console/LyraConsole"
 export * from "./Database"
+export * from "./DatabaseErrorTranslator"
 export * from "./DataFormatter"
 export * from "./decorator"
 export * from "./Entity"
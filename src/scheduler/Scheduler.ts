@@ -6,6 +6,7 @@ import { getAllSchedules } from './decorators/Schedule';
 import { JobInstance, ScheduledMethod, SchedulerOptions } from './types/SchedulerTypes';
 import { CronParser } from './CronParser';
 import { DIContainer } from '@/core/server';
+import { RequestContext } from '@/core/server/RequestContext';
 import { logger } from '@/core/logger';
 
 /**
@@ -15,6 +16,7 @@ import { logger } from '@/core/logger';
 export class Scheduler {
     private jobs: Map<string, JobInstance> = new Map();
     private intervals: Map<string, NodeJS.Timeout> = new Map();
+    private runningExecutions: Set<Promise<void>> = new Set();
     private diContainer: DIContainer;
     private options: SchedulerOptions;
     private isRunning: boolean = false;
@@ -152,7 +154,7 @@ export class Scheduler {
 
             if (intervalMs) {
                 const interval = setInterval(async () => {
-                    await this.executeMethod(jobInstance, schedule);
+                    await this.trackExecution(jobInstance, schedule);
                 }, intervalMs);
 
                 this.intervals.set(key, interval);
@@ -208,13 +210,30 @@ export class Scheduler {
 
             // If next execution is within the current minute, execute
             if (next.getTime() <= now.getTime() && next.getTime() > now.getTime() - 60000) {
-                await this.executeMethod(jobInstance, schedule);
+                await this.trackExecution(jobInstance, schedule);
             }
         }, 60 * 1000); // Check every minute
 
         this.intervals.set(key, interval);
     }
 
+    /**
+     * Execute a scheduled method and keep track of it until it settles
+     * Lets shutdown() wait for running jobs instead of cutting them off
+     * Each run gets its own RequestContext so its log lines can be correlated
+     */
+    private async trackExecution(jobInstance: JobInstance, schedule: ScheduledMethod): Promise<void> {
+        const values = new Map([['job', `${schedule.jobName}.${schedule.methodName}`]]);
+        const execution = RequestContext.run({ values }, () => this.executeMethod(jobInstance, schedule));
+        this.runningExecutions.add(execution);
+
+        try {
+            await execution;
+        } finally {
+            this.runningExecutions.delete(execution);
+        }
+    }
+
     /**
      * Execute a scheduled method
      */
@@ -269,6 +288,22 @@ export class Scheduler {
         logger.success('Scheduler stopped');
     }
 
+    /**
+     * Stop the scheduler and wait for running jobs to finish
+     * No new executions are started once this is called
+     * @returns {Promise<void>}
+     * @example
+     * await scheduler.shutdown()
+     */
+    async shutdown(): Promise<void> {
+        this.stop();
+
+        if (this.runningExecutions.size > 0) {
+            logger.info(`Waiting for ${this.runningExecutions.size} running job(s) to finish...`);
+            await Promise.allSettled(Array.from(this.runningExecutions));
+        }
+    }
+
     /**
      * Get all registered jobs and their schedules
      */
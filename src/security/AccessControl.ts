@@ -1,9 +1,10 @@
+import { IncomingHttpHeaders } from "http"
 import jwt from "jsonwebtoken"
 
 import { SecurityConfig } from "@/core/config"
 import { UnauthorizedException } from "@/core/errors"
 import { ProtectedRouteType } from "@/core/types"
-import { User } from "@/core/loader"
+import { getUserRepository, User } from "@/core/loader"
 
 /**
  * AccessControl class
@@ -75,14 +76,26 @@ export class AccessControl {
   static async canAccessRoute(user: typeof User, route: ProtectedRouteType) {
     if (!user || !user.role || !route) throw new UnauthorizedException("No user or route provided")
 
-    const roleMap = AccessControl.getRoleMap()
+    return AccessControl.hasAnyRole(user, route.roles)
+  }
+
+  /**
+   * Checks if user has one of the roles, directly or through the role hierarchy
+   * @param {typeof User} user - User object with role property
+   * @param {string[]} roles - Allowed roles
+   * @returns {boolean} - True if user has at least one of the roles
+   * @example
+   * const canEdit = AccessControl.hasAnyRole(req.user, ['ROLE_EDITOR'])
+   */
+  static hasAnyRole(user: typeof User, roles: string[]): boolean {
+    if (!user || !user.role) return false
+
     const userRoles = new Set<string>([user.role])
-    const inheritedRoles = roleMap[user.role]
+    const inheritedRoles = AccessControl.getRoleMap()[user.role]
     if (inheritedRoles) {
       for (const r of inheritedRoles) userRoles.add(r)
     }
-    const allowedRoles = route.roles
-    return allowedRoles.some((role: string) => userRoles.has(role))
+    return roles.some((role: string) => userRoles.has(role))
   }
 
   /**
@@ -110,6 +123,49 @@ export class AccessControl {
     return jwt.verify(token, securityConfig.jwt.secret_key, { algorithms: [securityConfig.jwt.algorithm] }) as jwt.JwtPayload
   }
 
+  /**
+   * Extracts the access token of a request
+   * Looks for the Token cookie first, then for an Authorization: Bearer header
+   * @param {{ cookies?: Record<string, string>, headers: IncomingHttpHeaders }} req - Request with parsed cookies
+   * @returns {string | undefined} - Access token, undefined if none was sent
+   * @example
+   * const token = AccessControl.extractToken(req)
+   */
+  static extractToken(req: { cookies?: Record<string, string>, headers: IncomingHttpHeaders }): string | undefined {
+    const token = req.cookies?.Token
+    if (token) return token
+
+    const authHeader = req.headers.authorization
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      return authHeader.substring(7)
+    }
+
+    return undefined
+  }
+
+  /**
+   * Validates an access token and loads the user it was issued for
+   * @param {string} token - JWT access token
+   * @returns {Promise<typeof User>} - Authenticated user
+   * @throws {Error} - If token invalid or expired
+   * @throws {UnauthorizedException} - If the user repository is missing or the user no longer exists
+   * @example
+   * const user = await AccessControl.authenticateToken(token)
+   */
+  static async authenticateToken(token: string) {
+    const decoded = AccessControl.isTokenValid(token)
+    const UserRepositoryClass = await getUserRepository()
+
+    if (!UserRepositoryClass) throw new UnauthorizedException("Repository not available")
+
+    const userRepository = new UserRepositoryClass()
+    const user = await userRepository.find(decoded.id)
+
+    if (!user) throw new UnauthorizedException("Invalid token")
+
+    return user
+  }
+
   /**
    * Validates a JWT refresh token
    * Verifies signature and expiration using configured refresh secret
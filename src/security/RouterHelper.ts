@@ -1,8 +1,9 @@
 import fs from "fs"
 import path from "path"
 
-import { Config } from "@/core/config"
-import { RouteInfo } from "@/core/types"
+import { Config, SecurityConfig } from "@/core/config"
+import { ProtectedRouteType, RouteInfo } from "@/core/types"
+import { getRoles } from "@/core/server/decorators/GuardDecorator"
 import { getRoutePrefix, getRoutes, RouteMetadata } from "@/core/server/decorators/RouteDecorator"
 
 /**
@@ -61,10 +62,12 @@ export class RouterHelper {
       for (const routeDetails of fileRoutesDetails) {
         const [httpMethod, path, controller] = routeDetails
 
+        const fullPath = `${routerBasePath}/${routesBasePath}${path}`
         routes.push({
           httpMethod,
           controller,
-          path: `${routerBasePath}/${routesBasePath}${path}`
+          path: fullPath,
+          roles: this.accessControlRoles(fullPath)
         })
       }
     }
@@ -74,19 +77,49 @@ export class RouterHelper {
 
   /**
    * Lists routes from decorator-based controllers
-   * Scans controller folder and extracts @Route decorator metadata
-   * Uses dynamic import to avoid circular dependencies
+   * Extracts @Route and @Roles decorator metadata from the controllers found by listControllers()
    * @returns {Promise<RouteInfo[]>} - Array of decorator route information
    * @private
    */
   private static async listDecoratorRoutes(): Promise<RouteInfo[]> {
     const routes: RouteInfo[] = []
-    const controllersPath = path.join(process.cwd(), "src", "controller")
     const routerBasePath = new Config().get("router.base_path")
 
+    for (const controller of await this.listControllers()) {
+      const prefix = getRoutePrefix(controller)
+      const controllerName = controller.name
+
+      // Add each route from this controller
+      getRoutes(controller).forEach((route: RouteMetadata) => {
+        const fullPath = routerBasePath + prefix + route.path
+        const roles = getRoles(controller, route.methodName)
+        routes.push({
+          httpMethod: route.method,
+          controller: `${controllerName}.${route.methodName}`,
+          path: fullPath,
+          roles: roles.length > 0 ? roles : this.accessControlRoles(fullPath)
+        })
+      })
+    }
+
+    return routes
+  }
+
+  /**
+   * Lists decorator-based controller classes
+   * Scans controller folder for exported classes with @Route decorated methods
+   * Uses dynamic import to avoid circular dependencies
+   * @returns {Promise<Function[]>} - Controller classes
+   * @example
+   * const controllers = await RouterHelper.listControllers()
+   */
+  static async listControllers(): Promise<Function[]> {
+    const controllers: Function[] = []
+    const controllersPath = path.join(process.cwd(), "src", "controller")
+
     // Check if controller folder exists
     if (!fs.existsSync(controllersPath)) {
-      return routes
+      return controllers
     }
 
     const files = fs.readdirSync(controllersPath)
@@ -103,22 +136,8 @@ export class RouterHelper {
           // Check all exports for decorated controllers
           for (const key of Object.keys(module)) {
             const exportedItem = module[key]
-            if (typeof exportedItem === 'function') {
-              const controllerRoutes = getRoutes(exportedItem)
-              if (controllerRoutes && controllerRoutes.length > 0) {
-                const prefix = getRoutePrefix(exportedItem)
-                const controllerName = exportedItem.name
-
-                // Add each route from this controller
-                controllerRoutes.forEach((route: RouteMetadata) => {
-                  const fullPath = routerBasePath + prefix + route.path
-                  routes.push({
-                    httpMethod: route.method,
-                    controller: `${controllerName}.${route.methodName}`,
-                    path: fullPath
-                  })
-                })
-              }
+            if (typeof exportedItem === 'function' && getRoutes(exportedItem).length > 0) {
+              controllers.push(exportedItem)
             }
           }
         } catch (error) {
@@ -128,7 +147,30 @@ export class RouterHelper {
       }
     }
 
-    return routes
+    return controllers
+  }
+
+  /**
+   * Lists the roles of the security.yaml access_control rules covering a path
+   * @param {string} routePath - Route path
+   * @returns {string[] | undefined} - Allowed roles, undefined if no rule covers the path
+   * @private
+   */
+  private static accessControlRoles(routePath: string): string[] | undefined {
+    let rules: ProtectedRouteType[]
+    try {
+      rules = new SecurityConfig().getConfig().access_control || []
+    } catch {
+      // No security.yaml: routes are only restricted by @Roles
+      return undefined
+    }
+
+    const matching = rules.filter((rule) => {
+      const prefix = rule.path.replace(/\/+$/, "")
+      return routePath === rule.path || routePath === prefix || routePath.startsWith(prefix + "/")
+    })
+
+    return matching.length > 0 ? [...new Set(matching.flatMap((rule) => rule.roles || []))] : undefined
   }
 
   /**
@@ -1,12 +1,15 @@
 import 'reflect-metadata';
 import { Container, Service } from '@/core/server';
 import { Repository as RepositoryBase } from "@/core/orm";
+import { logger } from '@/core/logger';
 
 /** Dependency injection container for managing services, repositories, and controllers */
 export class DIContainer extends Container {
     private instances = new Map<any, any>();
     private services = new Map<string, any>();
     private repositories = new Map<string, any>();
+    private overridden = new Set<string>();
+    private injectedInstances = new Set<any>();
 
     /**
      * Register a class as a service or repository
@@ -20,6 +23,10 @@ export class DIContainer extends Container {
 
         const propertyName = ClassType.name.charAt(0).toLowerCase() + ClassType.name.slice(1);
 
+        if (this.overridden.has(propertyName)) {
+            return;
+        }
+
         if (type === 'service') {
             this.services.set(propertyName, instance);
             (this as any)[propertyName] = instance;
@@ -50,29 +57,35 @@ export class DIContainer extends Container {
 
     /**
      * Inject services and repositories into an instance as direct properties
+     * Properties are read-only getters resolved from the container, so overrides apply to already injected instances
      * @param {any} instance - Instance to inject dependencies into
      * @returns {void}
      */
     private injectDependencies(instance: any): void {
-        this.services.forEach((serviceInstance, propertyName) => {
-            Object.defineProperty(instance, propertyName, {
-                value: serviceInstance,
-                writable: false,
-                enumerable: false,
-                configurable: false
-            });
-        });
+        this.services.forEach((_, propertyName) => this.defineDependency(instance, propertyName));
+        this.repositories.forEach((_, propertyName) => this.defineDependency(instance, propertyName));
+        this.injectedInstances.add(instance);
+    }
 
-        this.repositories.forEach((repositoryInstance, propertyName) => {
-            Object.defineProperty(instance, propertyName, {
-                value: repositoryInstance,
-                writable: false,
-                enumerable: false,
-                configurable: false
-            });
+    // Define a read-only property resolving the named registration (no-op if already injected)
+    private defineDependency(instance: any, propertyName: string): void {
+        const existing = Object.getOwnPropertyDescriptor(instance, propertyName);
+        if (existing && !existing.configurable) {
+            return;
+        }
+
+        Object.defineProperty(instance, propertyName, {
+            get: () => this.lookup(propertyName),
+            enumerable: false,
+            configurable: false
         });
     }
 
+    // Current instance registered under a name (service or repository)
+    private lookup(name: string): any {
+        return this.services.has(name) ? this.services.get(name) : this.repositories.get(name);
+    }
+
     /**
      * Register a custom instance with a specific name
      * @param {string} name - Property name (e.g., 'stripeService')
@@ -81,6 +94,10 @@ export class DIContainer extends Container {
      * @returns {void}
      */
     registerInstance(name: string, instance: any, type: 'service' | 'repository' = 'service'): void {
+        if (this.overridden.has(name)) {
+            return;
+        }
+
         if (type === 'service') {
             this.services.set(name, instance);
         } else {
@@ -89,6 +106,33 @@ export class DIContainer extends Container {
         (this as any)[name] = instance;
     }
 
+    /**
+     * Replace a registration with another instance (e.g. a fake repository in tests)
+     * The override wins over any later registration under the same name
+     * and is visible from instances that were injected before it
+     * @param {string} name - Property name (e.g., 'userRepository')
+     * @param {any} instance - Replacement instance
+     * @param {'service' | 'repository'} [type] - Instance type (defaults to the type of the replaced registration, or 'service')
+     * @returns {void}
+     */
+    override(name: string, instance: any, type?: 'service' | 'repository'): void {
+        const resolvedType = type || (this.repositories.has(name) ? 'repository' : 'service');
+
+        if (resolvedType === 'service') {
+            this.repositories.delete(name);
+            this.services.set(name, instance);
+        } else {
+            this.services.delete(name);
+            this.repositories.set(name, instance);
+        }
+
+        this.overridden.add(name);
+        (this as any)[name] = instance;
+
+        // Expose names that did not exist yet on instances injected earlier
+        this.injectedInstances.forEach((injected) => this.defineDependency(injected, name));
+    }
+
     /**
      * Resolve a class with its dependencies
      * @param {new (...args: any[]) => T} ClassType - Class constructor to resolve
@@ -129,6 +173,25 @@ export class DIContainer extends Container {
         this.injectDependencies(controller);
     }
 
+    /**
+     * Call the onShutdown() hook of every registered service and repository
+     * Hooks run in reverse registration order; a failing hook is logged and does not stop the others
+     * @returns {Promise<void>}
+     */
+    async shutdown(): Promise<void> {
+        const instances = new Set<any>([...this.services.values(), ...this.repositories.values()]);
+
+        for (const instance of Array.from(instances).reverse()) {
+            if (instance && typeof instance.onShutdown === 'function') {
+                try {
+                    await instance.onShutdown();
+                } catch (error) {
+                    logger.error(`onShutdown failed for ${instance.constructor?.name || 'instance'}: ${String(error)}`);
+                }
+            }
+        }
+    }
+
     /**
      * Check if a class extends a specific base class
      * @param {any} ClassType - Class to check
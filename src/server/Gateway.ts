@@ -0,0 +1,44 @@
+import { Container } from './Container';
+import { GatewayServer, WebSocketClient } from './WebSocketServer';
+
+/**
+ * Abstract base class for WebSocket gateways
+ * Services and repositories are injected like in DI controllers; this.server gives access to
+ * connected clients, rooms and broadcast helpers
+ * @example
+ * @WebSocketGateway({ path: '/ws/chat', auth: true })
+ * export class ChatGateway extends Gateway {
+ *     onConnect(client: WebSocketClient) {
+ *         client.join(`user:${client.user.id}`);
+ *     }
+ *
+ *     @OnMessage('message')
+ *     async message(client: WebSocketClient, data: { room: string, text: string }) {
+ *         const message = await this.messageService.create(client.user, data);
+ *         this.server.to(data.room).emit('message', message);
+ *     }
+ * }
+ */
+export abstract class Gateway extends Container {
+    /**
+     * Clients, rooms and broadcast helpers of the gateway (automatically injected)
+     */
+    protected server!: GatewayServer
+
+    /**
+     * Optional hook called when a client connects
+     * Throw an HttpException to close the connection with 1008 (Policy Violation)
+     * @param {WebSocketClient} client - Connected client
+     * @returns {void | Promise<void>}
+     */
+    onConnect?(client: WebSocketClient): void | Promise<void>;
+
+    /**
+     * Optional hook called when a client disconnects
+     * @param {WebSocketClient} client - Disconnected client
+     * @param {number} code - Close code
+     * @param {string} reason - Close reason
+     * @returns {void | Promise<void>}
+     */
+    onDisconnect?(client: WebSocketClient, code: number, reason: string): void | Promise<void>;
+}
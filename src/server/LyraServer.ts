@@ -1,52 +1,193 @@
 import 'reflect-metadata';
 import * as http from "http";
+import * as https from "https";
+import * as http2 from "http2";
+import * as net from "net";
+import {AsyncResource} from "async_hooks";
 import * as fs from "fs";
 import * as path from "path";
-import {accessMiddleware, errorHandler, httpRequestMiddleware} from "@/core/middlewares"
-import {Config} from "@/core/config"
+import {randomBytes} from "crypto";
+import {Readable} from "stream";
 import {
+  accessMiddleware,
+  errorHandler,
+  httpRequestMiddleware,
+  isProblemDetailsEnabled
+} from "@/core/middlewares"
+import {Config, SecurityConfig} from "@/core/config"
+import {
+  appendVary,
+  applyPipes,
+  BodyParserRegistry,
+  buildOpenApiDocument,
+  BUILTIN_PARSER_MIME_TYPES,
+  CanActivate,
+  collectControllerRoutes,
+  ContentTypeParser,
+  ContentTypeParserOptions,
   Controller,
+  coerceQuery,
+  compileTrust,
+  checkPreconditions,
   CookieOptions,
+  encodeCbor,
+  encodeMsgPack,
+  DEFAULT_QUERY_STRING_OPTIONS,
+  destroyRateLimiters,
   DIContainer,
-  getParamMetadata,
+  ExceptionContext,
+  ExceptionFilter,
+  ExecutionContext,
+  filterCatches,
+  FORMAT_MIME_TYPES,
+  formatMimeTypes,
+  formatOf,
+  FilterType,
+  generateETag,
+  getFilters,
+  getGatewayOptions,
+  getGuards,
+  getConsumes,
+  getHandlerParams,
+  getHooks,
+  getInterceptors,
+  getMessageHandlers,
+  getProduces,
+  getRoles,
   getRoutePrefix,
   getRoutes,
+  getUploadOptions,
+  HookName,
   HttpMethod,
+  injectRequest,
+  Interceptor,
+  InterceptorType,
+  InjectOptions,
+  InjectResponse,
   IRouter,
+  isMediaTypeAllowed,
+  isFresh,
+  isImmutableFile,
+  isRangeFresh,
+  LifecycleHookMap,
+  LifecycleHooks,
+  ListenOptions,
   logger,
+  lookupMimeType,
+  LyraHttpServer,
   MatchedRoute,
   Middleware,
   MiddlewareRoute,
+  MimeLookup,
+  multipartBodyParser,
+  multipartByteranges,
   multipartMiddleware,
+  MultipartOptions,
+  negotiate,
+  NEGOTIATED_FORMATS,
   MultipartParser,
   NextFunction,
-  ParamMetadata,
+  OpenApiServeOptions,
+  HandlerParamMetadata,
   ParsedQuery,
+  parseQueryString,
+  parseRange,
+  ParserType,
+  PrecompressedEncoding,
+  QuerySchema,
+  readDirectory,
+  removeTempFiles,
+  renderDirectoryListing,
+  renderOpenApiUi,
   Request,
+  RequestContext,
+  RequestContextData,
+  RegisteredBodyParser,
+  resolvePrecompressed,
+  resolveProxyInfo,
+  ResourceValidators,
   Response,
   RouteHandler,
   RouteParams,
-  Routes
+  RouteParamValue,
+  RouteParamType,
+  Routes,
+  RouteTree,
+  SseOptions,
+  SseStream,
+  rejectUpgrade,
+  statETag,
+  StreamContentTypeParser,
+  StaticOptions,
+  statFile,
+  streamFile,
+  TlsOptions,
+  TrustFunction,
+  urlencodedBodyParser,
+  WebSocketServer,
+  xmlBodyParser
 } from '@/core/server';
 import {SSRConfig, TemplateRenderer} from '@/core/ssr';
-import {parseXML, serializeToXML} from './xmlParser';
+import {serializeToXML} from './xmlParser';
 import {Scheduler, SchedulerOptions} from '@/core/scheduler';
 import {logger as loggerSingleton} from '@/core/logger';
 import {mailer} from '@/core/mailer';
 import {FileManager} from "@/core/services";
+import {
+  ForbiddenException,
+  HttpException,
+  MethodNotAllowedException,
+  NotAcceptableException,
+  NotFoundException,
+  PayloadTooLargeException,
+  PreconditionFailedException,
+  UnauthorizedException,
+  UnsupportedMediaTypeException,
+  ValidationException
+} from "@/core/errors";
+import {db} from "@/core/orm";
+import {AccessControl} from "@/core/security";
+import {User} from "@/core/loader";
+import {DtoClass, validateDto, ValidationErrors} from "@/core/validator";
+
+/** Handler parameter receiving an entity of the route-level resolve option */
+interface ResolvedEntityParam {
+    routeParamName: string;
+    entityType: any;
+    parameterIndex: number;
+}
 
 /** Main HTTP server class with routing, middleware, and dependency injection */
 class LyraServer {
 
     private routes: Routes;
+    private routeTree: RouteTree;
     private middlewares: MiddlewareRoute[];
     private diContainer: DIContainer;
     private basePath: string;
     private settings: Map<string, any>;
     private scheduler?: Scheduler;
+    private httpServer?: LyraHttpServer;
+    private redirectServer?: http.Server;
+    private activeResponses: Set<http.ServerResponse | http2.Http2ServerResponse> = new Set();
+    private openSockets: Set<net.Socket> = new Set();
+    private http2Sessions: Set<http2.Http2Session> = new Set();
+    private closingPromise?: Promise<void>;
+    private signalHandlers: Map<NodeJS.Signals, () => void> = new Map();
+    private hooks: LifecycleHookMap = {};
+    private trustProxy: TrustFunction = compileTrust(false);
+    private webSockets: WebSocketServer | null = null;
+    private sseStreams: Set<SseStream> = new Set();
+    private registeredControllers: Array<{ controller: Function; basePath: string }> = [];
+    // One instance per guard or interceptor class, shared by every route using it
+    private injectableInstances: Map<Function, any> = new Map();
+    private globalInterceptors: InterceptorType[] = [];
+    private globalFilters: FilterType[] = [];
+    private bodyParsers: BodyParserRegistry = new BodyParserRegistry();
 
     private controllersLoaded: boolean = false;
     private servicesRegistered: boolean = false;
+    private coreServicesRegistered: boolean = false;
     private schedulerEnabled: boolean = false;
 
     constructor() {
@@ -59,6 +200,7 @@ class LyraServer {
             PATCH: {},
             OPTIONS: {}
         };
+        this.routeTree = new RouteTree();
         this.middlewares = [];
         this.settings = new Map();
 
@@ -72,6 +214,11 @@ class LyraServer {
         // Default settings
         this.settings.set('trust proxy', false);
         this.settings.set('request max size', '10mb');
+        this.settings.set('query limits', DEFAULT_QUERY_STRING_OPTIONS);
+        this.settings.set('shutdown timeout', 10000);
+        this.settings.set('etag', 'weak');
+        this.settings.set('content negotiation', false);
+        this.settings.set('websocket ping interval', 30000);
 
         // Register global middlewares (run before routing)
         this.middlewares.push({ path: '', middleware: logger });
@@ -87,12 +234,41 @@ class LyraServer {
      * @returns {this} - Server instance for chaining
      * @example
      * app.setSetting('trust proxy', true)
+     * app.setSetting('trust proxy', 1) // trust the first hop only
+     * app.setSetting('trust proxy', 'loopback, 10.0.0.0/8')
      * app.setSetting('request max size', '50mb')
+     * app.setSetting('query limits', { depth: 3, parameterLimit: 100, arrayLimit: 50 })
+     * app.setSetting('urlencoded limits', { depth: 3, parameterLimit: 200 })
+     * app.setSetting('xml options', { stripNamespaces: true, maxDepth: 32 }) // XML bodies, and res.xml mapping
+     * app.setSetting('upload options', { storage: 'disk', dest: './uploads', maxFileSize: 50 * 1024 * 1024 })
+     * app.setSetting('etag', 'strong') // or false to disable ETags on buffered responses
+     * app.setSetting('content negotiation', true) // res.send(object) answers JSON, XML, MessagePack or CBOR per Accept
+     * app.setSetting('websocket ping interval', 15000) // 0 disables the WebSocket keepalive
      * app.setSetting('ssr', { engine: 'ejs', templates: './templates' })
      */
     setSetting(key: string, value: any): this {
         this.settings.set(key, value);
 
+        // Compile 'trust proxy' once (boolean, hop count, CIDR list or function)
+        if (key === 'trust proxy') {
+            this.trustProxy = compileTrust(value);
+        }
+
+        // Rebuild the urlencoded parser with the new depth and parameter limits
+        if (key === 'urlencoded limits') {
+            this.bodyParsers.add(BUILTIN_PARSER_MIME_TYPES.urlencoded, urlencodedBodyParser(value), { name: 'urlencoded' });
+        }
+
+        // Rebuild the XML parser with the new mapping and limits
+        if (key === 'xml options') {
+            this.bodyParsers.add(BUILTIN_PARSER_MIME_TYPES.xml, xmlBodyParser(value), { name: 'xml' });
+        }
+
+        // Rebuild the multipart parser with the new storage and limits (@Upload options still override them)
+        if (key === 'upload options') {
+            this.bodyParsers.add(BUILTIN_PARSER_MIME_TYPES.multipart, multipartBodyParser(value), { name: 'multipart', stream: true });
+        }
+
         // Configure SSR if setting is 'ssr'
         if (key === 'ssr') {
             const renderer = TemplateRenderer.getInstance();
@@ -134,6 +310,160 @@ class LyraServer {
         return this.scheduler;
     }
 
+    /**
+     * Enable graceful shutdown on process signals
+     * On SIGTERM/SIGINT the server stops accepting connections, waits for in-flight requests,
+     * stops the scheduler, runs service onShutdown hooks and ends the database pool before exiting
+     * @param {object} [options] - Graceful shutdown options
+     * @param {NodeJS.Signals[]} [options.signals=['SIGTERM', 'SIGINT']] - Signals to listen to
+     * @param {number} [options.timeout] - Max time in ms to wait for in-flight requests (sets 'shutdown timeout')
+     * @returns {this} - Server instance for chaining
+     * @example
+     * app.enableGracefulShutdown()
+     * app.enableGracefulShutdown({ timeout: 30000, signals: ['SIGTERM'] })
+     */
+    enableGracefulShutdown(options?: { signals?: NodeJS.Signals[]; timeout?: number }): this {
+        if (options?.timeout !== undefined) {
+            this.setSetting('shutdown timeout', options.timeout);
+        }
+
+        const signals = options?.signals || ['SIGTERM', 'SIGINT'];
+
+        for (const signal of signals) {
+            if (this.signalHandlers.has(signal)) {
+                continue;
+            }
+
+            const handler = () => {
+                loggerSingleton.info(`Received ${signal}, shutting down gracefully...`);
+                this.close()
+                    .then(() => process.exit(0))
+                    .catch((error) => {
+                        loggerSingleton.error(`Graceful shutdown failed: ${String(error)}`);
+                        process.exit(1);
+                    });
+            };
+
+            this.signalHandlers.set(signal, handler);
+            process.once(signal, handler);
+        }
+
+        return this;
+    }
+
+    /**
+     * Gracefully stop the server
+     * Stops accepting connections, waits for in-flight requests up to the 'shutdown timeout' setting,
+     * stops the scheduler once running jobs finish, calls onShutdown() on DI services,
+     * stops rate limiter timers and ends the database pool
+     * Calling it more than once returns the same shutdown promise
+     * @returns {Promise<void>}
+     * @example
+     * await app.close()
+     */
+    close(): Promise<void> {
+        if (!this.closingPromise) {
+            this.closingPromise = this.shutdown();
+        }
+        return this.closingPromise;
+    }
+
+    // Run the shutdown sequence (see close())
+    private async shutdown(): Promise<void> {
+        const timeout = Number(this.getSetting('shutdown timeout')) || 0;
+
+        // Step 1: Stop accepting connections and drain in-flight requests
+        if (this.redirectServer) {
+            this.redirectServer.close();
+            this.redirectServer.closeAllConnections();
+        }
+        // Long-lived responses would otherwise keep the server open until the deadline:
+        // SSE streams are ended and WebSocket clients get a 1001 close frame
+        for (const stream of this.sseStreams) {
+            stream.close();
+        }
+        const closingWebSockets = this.webSockets ? this.webSockets.close() : Promise.resolve();
+        if (this.httpServer) {
+            await this.closeHttpServer(this.httpServer, timeout);
+        }
+        await closingWebSockets;
+
+        // Step 2: Stop the scheduler after running jobs finish
+        if (this.scheduler) {
+            await this.scheduler.shutdown();
+        }
+
+        // Step 3: Let services and repositories release their resources
+        await this.diContainer.shutdown();
+
+        // Step 4: Stop background timers
+        destroyRateLimiters();
+
+        // Step 5: End the database pool
+        try {
+            await db.end();
+        } catch (error) {
+            loggerSingleton.error(`Error closing database pool: ${String(error)}`);
+        }
+
+        for (const [signal, handler] of this.signalHandlers) {
+            process.removeListener(signal, handler);
+        }
+        this.signalHandlers.clear();
+
+        loggerSingleton.success('Server stopped');
+    }
+
+    // Close the HTTP server, forcing remaining connections closed once the deadline is reached
+    private closeHttpServer(server: LyraHttpServer, timeout: number): Promise<void> {
+        return new Promise((resolve) => {
+            // Ask HTTP/1 clients of in-flight requests not to reuse their connection
+            for (const res of this.activeResponses) {
+                if (res instanceof http.ServerResponse && !res.headersSent) {
+                    res.setHeader('Connection', 'close');
+                }
+            }
+
+            if (this.activeResponses.size > 0) {
+                loggerSingleton.info(`Waiting for ${this.activeResponses.size} in-flight request(s)...`);
+            }
+
+            const deadline = setTimeout(() => {
+                loggerSingleton.warn(`Shutdown timeout reached, closing ${this.activeResponses.size} remaining request(s)`);
+                for (const socket of this.openSockets) {
+                    socket.destroy();
+                }
+            }, timeout);
+
+            server.close(() => {
+                clearTimeout(deadline);
+                resolve();
+            });
+
+            // Idle keep-alive connections and HTTP/2 sessions would otherwise hold close() open,
+            // https.Server has closeIdleConnections() too but does not extend http.Server
+            if ('closeIdleConnections' in server && typeof server.closeIdleConnections === 'function') {
+                server.closeIdleConnections();
+            }
+            for (const session of this.http2Sessions) {
+                session.close();
+            }
+        });
+    }
+
+    // Track a response until it completes so shutdown can wait for it
+    private trackResponse(res: http.ServerResponse | http2.Http2ServerResponse): void {
+        // HTTP/2 forbids connection-specific headers, sessions are closed with GOAWAY instead
+        if (this.closingPromise && res instanceof http.ServerResponse) {
+            res.setHeader('Connection', 'close');
+        }
+
+        this.activeResponses.add(res);
+        const release = () => this.activeResponses.delete(res);
+        res.once('finish', release);
+        res.once('close', release);
+    }
+
     /**
      * Load controllers asynchronously
      * @returns {Promise<void>}
@@ -141,12 +471,56 @@ class LyraServer {
     private async loadControllersAsync(): Promise<void> {
         try {
             await this.getControllersAsync();
+            await this.getControllersAsync('src/gateway');
             this.controllersLoaded = true;
         } catch (error) {
             console.error('Error loading controllers:', error);
         }
     }
 
+    /**
+     * Register interceptors wrapping every controller handler, before controller and handler interceptors
+     * @param {...InterceptorType} interceptors - Interceptor classes or instances
+     * @returns {this} - Server instance for chaining
+     * @example
+     * app.useGlobalInterceptors(TimingInterceptor, new EnvelopeInterceptor())
+     */
+    useGlobalInterceptors(...interceptors: InterceptorType[]): this {
+        this.globalInterceptors.push(...interceptors);
+        return this;
+    }
+
+    /**
+     * Register exception filters handling errors of every request, after controller and handler filters
+     * @param {...FilterType} filters - Filter classes or instances decorated with @Catch
+     * @returns {this} - Server instance for chaining
+     * @example
+     * app.useGlobalFilters(DatabaseFilter, new PaymentFilter())
+     */
+    useGlobalFilters(...filters: FilterType[]): this {
+        this.globalFilters.push(...filters);
+        return this;
+    }
+
+    /**
+     * Register a request body parser for one or more content types
+     * The parser receives the buffered body, or the request stream with { stream: true }; its name can be
+     * used as a route parserType. Parsers registered later take precedence over built-in ones
+     * @param {string | string[]} mimeTypes - MIME types, wildcards allowed ('text/*', '*\/*')
+     * @param {ContentTypeParser | StreamContentTypeParser} parser - Parser returning the body (or a promise)
+     * @param {ContentTypeParserOptions} [options] - Parser name (default: the first MIME type) and streaming mode
+     * @returns {this} - Server instance for chaining
+     * @example
+     * app.addContentTypeParser('application/msgpack', (body) => decode(body), { name: 'msgpack' })
+     * app.addContentTypeParser('text/csv', (req) => parseCsvStream(req), { stream: true })
+     */
+    addContentTypeParser(mimeTypes: string | string[], parser: ContentTypeParser, options?: ContentTypeParserOptions & { stream?: false }): this;
+    addContentTypeParser(mimeTypes: string | string[], parser: StreamContentTypeParser, options: ContentTypeParserOptions & { stream: true }): this;
+    addContentTypeParser(mimeTypes: string | string[], parser: ContentTypeParser | StreamContentTypeParser, options: ContentTypeParserOptions = {}): this {
+        this.bodyParsers.add(mimeTypes, parser, options);
+        return this;
+    }
+
     /**
      * Register middleware or router
      * @param {string | Middleware | IRouter} pathOrHandler - Path, middleware, or router
@@ -180,12 +554,21 @@ class LyraServer {
 
     /**
      * Serve static files from a directory with security protection against directory traversal
+     * Supports conditional requests, Range requests (206, single and multi-range), precompressed
+     * '.br' / '.gz' siblings, directory index files and optional directory listings
      * @param {string} urlPrefix - URL path prefix (e.g., '/public', '/static', '/assets')
-     * @param {object} [options] - Static file serving options
+     * @param {StaticOptions} [options] - Static file serving options
      * @param {string} [options.root='public'] - Root directory to serve files from (relative to project root)
      * @param {number} [options.maxAge=0] - Cache-Control max-age in seconds
+     * @param {boolean|RegExp} [options.immutable] - Cache fingerprinted files ('app.3f9a2c1d.js') as immutable
      * @param {string[]} [options.allowedExtensions] - Array of allowed file extensions (e.g., ['.css', '.js', '.png'])
      * @param {'allow'|'deny'|'ignore'} [options.dotfiles='deny'] - How to handle dotfiles
+     * @param {string[]|false} [options.index=['index.html']] - Index files tried for directory requests
+     * @param {boolean} [options.listing=false] - Render a listing for directories without an index file
+     * @param {boolean|string[]} [options.precompressed=['br', 'gzip']] - Serve precompressed siblings
+     * @param {boolean} [options.acceptRanges=true] - Answer Range requests with 206 Partial Content
+     * @param {Record<string, string>} [options.mimeTypes] - Extra MIME types by extension
+     * @param {MimeLookup} [options.mimeLookup] - Custom MIME lookup
      * @returns {this} - Server instance for chaining
      * @example
      * // Basic usage (serves from 'public' folder by default)
@@ -194,54 +577,34 @@ class LyraServer {
      * // Custom root directory
      * app.serveStatic('/assets', { root: 'public/assets' })
      *
-     * // With caching
-     * app.serveStatic('/public', { maxAge: 86400 })
+     * // With caching, fingerprinted bundles cached forever
+     * app.serveStatic('/public', { maxAge: 86400, immutable: true })
+     *
+     * // Browsable downloads folder
+     * app.serveStatic('/files', { root: 'storage/files', listing: true, mimeTypes: { '.glb': 'model/gltf-binary' } })
      *
      * // Important: In HTML templates, always use absolute paths with leading slash
      * // Correct:   <link rel="stylesheet" href="/assets/style/app.css" />
      * // Wrong:     <link rel="stylesheet" href="assets/style/app.css" />
      * // Or use <base href="/"> in your HTML head to make relative paths work from root
      */
-    serveStatic(urlPrefix: string, options: {
-        root?: string;
-        maxAge?: number;
-        allowedExtensions?: string[];
-        dotfiles?: 'allow' | 'deny' | 'ignore';
-    } = {}): this {
+    serveStatic(urlPrefix: string, options: StaticOptions = {}): this {
         const {
             root = 'public',
             maxAge = 0,
+            immutable = false,
             allowedExtensions,
-            dotfiles = 'deny'
+            dotfiles = 'deny',
+            index = ['index.html'],
+            listing = false,
+            precompressed = true,
+            acceptRanges = true,
+            maxRanges = 16
         } = options;
 
-        // MIME type mapping
-        const MIME_TYPES: Record<string, string> = {
-            '.html': 'text/html',
-            '.css': 'text/css',
-            '.js': 'application/javascript',
-            '.json': 'application/json',
-            '.png': 'image/png',
-            '.jpg': 'image/jpeg',
-            '.jpeg': 'image/jpeg',
-            '.gif': 'image/gif',
-            '.svg': 'image/svg+xml',
-            '.ico': 'image/x-icon',
-            '.webp': 'image/webp',
-            '.woff': 'font/woff',
-            '.woff2': 'font/woff2',
-            '.ttf': 'font/ttf',
-            '.eot': 'application/vnd.ms-fontobject',
-            '.otf': 'font/otf',
-            '.mp4': 'video/mp4',
-            '.webm': 'video/webm',
-            '.mp3': 'audio/mpeg',
-            '.wav': 'audio/wav',
-            '.pdf': 'application/pdf',
-            '.txt': 'text/plain',
-            '.xml': 'application/xml',
-            '.zip': 'application/zip'
-        };
+        const encodings: PrecompressedEncoding[] = precompressed === true
+            ? ['br', 'gzip']
+            : (precompressed || []);
 
         // Normalize URL prefix
         const normalizedPrefix = urlPrefix.endsWith('/') ? urlPrefix.slice(0, -1) : urlPrefix;
@@ -249,11 +612,11 @@ class LyraServer {
         // Resolve root directory to absolute path
         const rootDir = path.resolve(process.cwd(), root);
 
-        // Create middleware for static file serving
-        const staticMiddleware: Middleware = (req: Request, res: Response, next: NextFunction) => {
+        // Serve the requested file, resolves to false when there is nothing to serve (404)
+        const serveFile = async (req: Request, res: Response): Promise<boolean> => {
             // Only handle requests matching the prefix
             if (!req.url?.startsWith(normalizedPrefix)) {
-                return next();
+                return false;
             }
 
             // Extract the file path after the prefix
@@ -261,21 +624,27 @@ class LyraServer {
 
             // Remove query string
             const queryIndex = requestedPath.indexOf('?');
+            const search = queryIndex !== -1 ? requestedPath.slice(queryIndex) : '';
             if (queryIndex !== -1) {
                 requestedPath = requestedPath.slice(0, queryIndex);
             }
 
-            // Default to index.html for directory requests
-            if (requestedPath === '' || requestedPath === '/') {
-                requestedPath = '/index.html';
+            try {
+                requestedPath = decodeURIComponent(requestedPath);
+            } catch {
+                return false;
+            }
+
+            if (requestedPath.includes('\0')) {
+                return false;
             }
 
             // SECURITY: Prevent directory traversal
             // Replace all occurrences of ../ and ..\
             const sanitizedPath = requestedPath
                 .replace(/\.\./g, '') // Remove all ..
-                .replace(/\/\//g, '/') // Remove double slashes
-                .replace(/\\/g, '/'); // Normalize backslashes to forward slashes
+                .replace(/\\/g, '/') // Normalize backslashes to forward slashes
+                .replace(/\/{2,}/g, '/'); // Remove double slashes
 
             // Check for dotfiles
             const pathSegments = sanitizedPath.split('/').filter(Boolean);
@@ -285,17 +654,17 @@ class LyraServer {
                         if (dotfiles === 'deny') {
                             res.statusCode = 403;
                             res.end('403 Forbidden');
-                            return;
+                            return true;
                         } else {
                             // ignore: treat as not found
-                            return next();
+                            return false;
                         }
                     }
                 }
             }
 
             // Build absolute file path
-            const filePath = path.join(rootDir, sanitizedPath);
+            let filePath = path.join(rootDir, sanitizedPath);
 
             // SECURITY: Ensure the resolved path is still within rootDir
             const normalizedFilePath = path.normalize(filePath);
@@ -304,18 +673,53 @@ class LyraServer {
             if (!normalizedFilePath.startsWith(normalizedRootDir)) {
                 res.statusCode = 403;
                 res.end('403 Forbidden');
-                return;
+                return true;
+            }
+
+            let stats = await statFile(filePath);
+            if (!stats) {
+                return false;
             }
 
-            // Check if file exists
-            if (!fs.existsSync(filePath)) {
-                return next();
+            // Directories: redirect to the trailing slash URL, then index file or listing
+            if (stats.isDirectory()) {
+                if (requestedPath !== '' && !requestedPath.endsWith('/')) {
+                    res.statusCode = 301;
+                    res.setHeader('Location', `${normalizedPrefix}${encodeURI(sanitizedPath)}/${search}`);
+                    res.end();
+                    return true;
+                }
+
+                const dirPath = filePath;
+                let indexStats: fs.Stats | null = null;
+
+                for (const indexFile of index || []) {
+                    indexStats = await statFile(path.join(dirPath, indexFile));
+                    if (indexStats?.isFile()) {
+                        filePath = path.join(dirPath, indexFile);
+                        break;
+                    }
+                    indexStats = null;
+                }
+
+                if (!indexStats) {
+                    if (!listing) {
+                        return false;
+                    }
+
+                    const entries = await readDirectory(dirPath, dotfiles === 'allow');
+                    res.statusCode = 200;
+                    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+                    res.setHeader('Cache-Control', 'no-cache');
+                    res.end(renderDirectoryListing(`${normalizedPrefix}${sanitizedPath || '/'}`, entries));
+                    return true;
+                }
+
+                stats = indexStats;
             }
 
-            // Check if it's a file (not a directory)
-            const stats = fs.statSync(filePath);
             if (!stats.isFile()) {
-                return next();
+                return false;
             }
 
             // Get file extension
@@ -325,34 +729,105 @@ class LyraServer {
             if (allowedExtensions && !allowedExtensions.includes(ext)) {
                 res.statusCode = 403;
                 res.end('403 Forbidden');
-                return;
+                return true;
             }
 
             // Get MIME type
-            const mimeType = MIME_TYPES[ext] || 'application/octet-stream';
+            const mimeType = lookupMimeType(filePath, options);
+
+            // Pick a precompressed sibling when the client accepts it
+            const file = encodings.length > 0
+                ? await resolvePrecompressed(filePath, stats, req.headers['accept-encoding'] as string | undefined, encodings)
+                : { path: filePath, stats };
 
             // Set response headers
             res.setHeader('Content-Type', mimeType);
 
-            if (maxAge > 0) {
+            if (encodings.length > 0) {
+                res.setHeader('Vary', 'Accept-Encoding');
+            }
+            if (file.encoding) {
+                res.setHeader('Content-Encoding', file.encoding);
+            }
+
+            if (isImmutableFile(filePath, immutable)) {
+                res.setHeader('Cache-Control', `public, max-age=${maxAge > 0 ? maxAge : 31536000}, immutable`);
+            } else if (maxAge > 0) {
                 res.setHeader('Cache-Control', `public, max-age=${maxAge}`);
             } else {
                 res.setHeader('Cache-Control', 'no-cache');
             }
 
-            // Set content length
-            res.setHeader('Content-Length', stats.size);
+            res.setHeader('Accept-Ranges', acceptRanges ? 'bytes' : 'none');
+
+            // Validators for conditional requests
+            res.setHeader('Last-Modified', file.stats.mtime.toUTCString());
+            if (this.getSetting('etag')) {
+                res.setHeader('ETag', statETag(file.stats));
+            }
+
+            const validators = { etag: res.getHeader('ETag') as string | undefined, lastModified: file.stats.mtime };
+            if (!checkPreconditions(req.headers, validators)) {
+                res.statusCode = 412;
+                res.end('412 Precondition Failed');
+                return true;
+            }
+
+            if (isFresh(req.headers, res.getHeaders())) {
+                res.statusCode = 304;
+                res.removeHeader('Content-Type');
+                res.end();
+                return true;
+            }
 
-            // Read and send file
-            const fileStream = fs.createReadStream(filePath);
+            const size = file.stats.size;
+            const rangeHeader = req.headers.range;
+            const ranges = acceptRanges && rangeHeader && isRangeFresh(req.headers, res.getHeaders())
+                ? parseRange(rangeHeader, size, maxRanges)
+                : null;
 
-            fileStream.on('error', (error) => {
+            try {
+                if (ranges && ranges.length === 0) {
+                    res.statusCode = 416;
+                    res.setHeader('Content-Range', `bytes */${size}`);
+                    res.end('416 Range Not Satisfiable');
+                } else if (ranges && ranges.length === 1) {
+                    const [range] = ranges;
+                    res.statusCode = 206;
+                    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+                    res.setHeader('Content-Length', range.end - range.start + 1);
+                    await streamFile(res, file.path, range);
+                } else if (ranges) {
+                    const boundary = randomBytes(12).toString('hex');
+                    const multipart = multipartByteranges(ranges, size, mimeType, boundary);
+
+                    res.statusCode = 206;
+                    res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+                    res.setHeader('Content-Length', multipart.length);
+
+                    for (let i = 0; i < ranges.length && !res.destroyed; i++) {
+                        res.write(multipart.headers[i]);
+                        await streamFile(res, file.path, ranges[i], false);
+                    }
+                    res.end(multipart.trailer);
+                } else {
+                    // Set content length
+                    res.setHeader('Content-Length', size);
+                    await streamFile(res, file.path);
+                }
+            } catch (error) {
                 console.error('Error reading file:', error);
-                res.statusCode = 500;
-                res.end('500 Internal Server Error');
-            });
+                if (res.headersSent) {
+                    res.destroy();
+                } else {
+                    res.statusCode = 500;
+                    res.removeHeader('Content-Length');
+                    res.removeHeader('Content-Encoding');
+                    res.end('500 Internal Server Error');
+                }
+            }
 
-            fileStream.pipe(res);
+            return true;
         };
 
         // Register as a GET route with wildcard parameter
@@ -361,21 +836,13 @@ class LyraServer {
 
         // Create route handler wrapper that properly handles the static file logic
         const routeHandler: RouteHandler = async (req: Request, res: Response) => {
-            // Call the static middleware directly
-            return new Promise<void>((resolve, reject) => {
-                staticMiddleware(req, res, (error?: any) => {
-                    if (error) {
-                        reject(error);
-                    } else {
-                        // If next() was called (file not found), send 404
-                        if (!res.writableEnded) {
-                            res.statusCode = 404;
-                            res.end('404 Not Found');
-                        }
-                        resolve();
-                    }
-                });
-            });
+            const served = await serveFile(req, res);
+
+            // Nothing to serve (file not found), send 404
+            if (!served && !res.writableEnded) {
+                res.statusCode = 404;
+                res.end('404 Not Found');
+            }
         };
 
         // Add metadata for show:routes command
@@ -388,6 +855,53 @@ class LyraServer {
         return this;
     }
 
+    /**
+     * Serve the OpenAPI 3.1 document of the registered controllers, with a Swagger UI page
+     * The document is built on each request from the controller routes, router.base_path, the
+     * 'parserType' setting, entity @Column metadata and the security.yaml access_control rules.
+     * The Swagger UI page loads a pinned swagger-ui-dist from the unpkg CDN with SRI hashes: set swaggerUiUrl to serve it yourself
+     * @param {string} [urlPath='/docs'] - UI path, the JSON document is served at `${urlPath}/openapi.json`
+     * @param {OpenApiServeOptions} [options={}] - Document options (title, version, description, servers, entities...)
+     * and the Swagger UI asset URL
+     * @returns {this} - Server instance for chaining
+     * @example
+     * app.serveOpenApi('/docs', { title: 'Shop API', version: '2.1.0', entities: [Product] })
+     * // GET /docs -> Swagger UI, GET /docs/openapi.json -> OpenAPI document
+     *
+     * app.serveStatic('/vendor/swagger-ui', { root: 'node_modules/swagger-ui-dist' })
+     * app.serveOpenApi('/docs', { swaggerUiUrl: '/vendor/swagger-ui' })
+     */
+    serveOpenApi(urlPath: string = '/docs', options: OpenApiServeOptions = {}): this {
+        const normalizedPath = urlPath.length > 1 && urlPath.endsWith('/') ? urlPath.slice(0, -1) : urlPath;
+        const specPath = `${normalizedPath === '/' ? '' : normalizedPath}/openapi.json`;
+        const { swaggerUiUrl, ...documentOptions } = options;
+
+        this.addRoute('GET', specPath, [(req: Request, res: Response) => {
+            const routes = this.registeredControllers.flatMap(({ controller, basePath }) =>
+                collectControllerRoutes(controller, this.basePath + basePath)
+            );
+            res.json(buildOpenApiDocument(routes, {
+                ...documentOptions,
+                parserType: documentOptions.parserType ?? this.getSetting('parserType'),
+                accessControl: documentOptions.accessControl ?? this.getAccessControlRules()
+            }));
+        }]);
+        this.addRoute('GET', normalizedPath, [(req: Request, res: Response) => {
+            res.html(renderOpenApiUi(specPath, options.title, swaggerUiUrl));
+        }]);
+
+        return this;
+    }
+
+    // security.yaml access_control rules, none when the security config is missing
+    private getAccessControlRules() {
+        try {
+            return new SecurityConfig().getConfig().access_control || [];
+        } catch {
+            return [];
+        }
+    }
+
     // Check if handler is a router
     private isRouter(handler: any): handler is IRouter {
         return handler && typeof handler.getRoutes === 'function';
@@ -439,6 +953,8 @@ class LyraServer {
         let controllerInstance: any = null;
 
         if (extendsController) {
+            this.registerCoreServices();
+
             // Create controller instance with DI
             controllerInstance = new (controller as any)();
 
@@ -446,6 +962,8 @@ class LyraServer {
             this.diContainer.injectIntoController(controllerInstance);
         }
 
+        this.registeredControllers.push({ controller, basePath });
+
         routes.forEach(route => {
             const fullPath = this.basePath + basePath + prefix + route.path;
             const methodName = route.methodName;
@@ -456,6 +974,11 @@ class LyraServer {
             const isStaticMethod = typeof (controller as any)[methodName] === 'function';
             const isInstanceMethod = controllerInstance && typeof controllerInstance[methodName] === 'function';
 
+            // Resolved entities are placed once, an ambiguous resolve option fails here rather than per request
+            const resolvedEntities = route.resolve && (isStaticMethod || isInstanceMethod)
+                ? this.placeResolvedEntities(controller, isStaticMethod ? controller : controller.prototype, methodName, route.resolve)
+                : [];
+
             if (isInstanceMethod && !isStaticMethod) {
                 // Instance method (DI-enabled controller)
                 const originalHandler = controllerInstance[methodName];
@@ -474,7 +997,8 @@ class LyraServer {
                     handler = this.wrapHandlerWithParameterResolution(
                         originalHandler,
                         controllerInstance,
-                        methodName
+                        methodName,
+                        resolvedEntities
                     );
                 } else {
                     // No parameter resolution needed - create request-scoped context
@@ -500,26 +1024,341 @@ class LyraServer {
                         `Make sure the method is static.`
                     );
                 }
+
+                // Parameter decorators on static methods are stored on the class
+                if (getHandlerParams(controller, methodName).length > 0 || resolvedEntities.length > 0) {
+                    const staticHandler = handler;
+                    handler = async (req: Request, res: Response, next: NextFunction) => {
+                        const params = await this.resolveParameters(methodName, controller, req, res, next, resolvedEntities);
+                        return (staticHandler as Function).apply(controller, params);
+                    };
+                }
             } else {
                 throw new Error(
                     `Method ${methodName} not found on controller ${controller.name}.`
                 );
             }
 
+            handler = this.wrapHandlerWithInterceptors(handler, controller, methodName);
+
+            // @Sse routes stream the iterable returned by the handler, other routes send the returned value
+            handler = route.sse ? this.wrapSseHandler(handler, route.sse) : this.wrapResultHandler(handler);
+
+            // @Roles and @UseGuards run once the route middlewares ran, before DTO validation
+            const guard = this.createGuardHandler(controller, methodName);
+
+            // The query schema is applied, then body and query DTOs are validated, once the route middlewares ran
+            const validators: RouteHandler[] = [
+                ...(route.querySchema ? [this.createQueryCoercer(route.querySchema)] : []),
+                ...(route.body || route.query ? [this.createDtoValidator(route.body, route.query)] : [])
+            ];
+
             // Combine class middlewares, route middlewares, and the handler
-            const handlers: RouteHandler[] = [
+            let handlers: RouteHandler[] = [
                 ...classMiddlewares as RouteHandler[],
                 ...(route.middlewares || []) as RouteHandler[],
+                ...(guard ? [guard] : []),
+                ...validators,
                 handler as RouteHandler
             ];
 
+            // Controller and handler filters see the errors of the whole chain, global filters run in handleRequest
+            const filters = getFilters(controller, methodName);
+            if (filters.length > 0) {
+                handlers = handlers.map(routeHandler => this.wrapHandlerWithFilters(routeHandler, filters, controller, methodName));
+            }
+
+            // @Produces / @Consumes are checked and @Upload options set before the body is parsed,
+            // then controller hooks run before route hooks
+            const formatHook = this.createFormatHook(controller, methodName);
+            const uploadHook = this.createUploadHook(controller, methodName);
+            const hooks = this.mergeHooks(
+                formatHook ? { onRequest: [formatHook] } : undefined,
+                uploadHook ? { onRequest: [uploadHook] } : undefined,
+                getHooks(controller),
+                getHooks(controller, methodName)
+            );
+
             // Register the route based on HTTP method
-            this.addRoute(route.method, fullPath, handlers, route.parserType);
+            this.addRoute(route.method, fullPath, handlers, route.parserType, route.params, hooks);
         });
 
         return this;
     }
 
+    // Answer 406 when the Accept header matches no @Produces type, 415 when the body matches no @Consumes type
+    private createFormatHook(controller: Function, methodName: string): LifecycleHooks['onRequest'] | undefined {
+        const produces = getProduces(controller, methodName).flatMap(format => formatMimeTypes(format));
+        const consumes = getConsumes(controller, methodName).flatMap(format => formatMimeTypes(format));
+
+        if (produces.length === 0 && consumes.length === 0) {
+            return undefined;
+        }
+
+        return (req: Request, res: Response) => {
+            if (produces.length > 0) {
+                this.negotiateType(res, produces);
+                req._produces = produces;
+            }
+
+            const hasBody = req.headers['transfer-encoding'] !== undefined || parseInt(String(req.headers['content-length'] || '0'), 10) > 0;
+            if (consumes.length > 0 && hasBody && !isMediaTypeAllowed(req.headers['content-type'] || '', consumes)) {
+                throw new UnsupportedMediaTypeException(`Unsupported Content-Type, expected ${consumes.join(', ')}`);
+            }
+        };
+    }
+
+    // Hand the @Upload options to the multipart body parser
+    private createUploadHook(controller: Function, methodName: string): LifecycleHooks['onRequest'] | undefined {
+        const options: MultipartOptions | undefined = getUploadOptions(controller, methodName);
+        if (!options) {
+            return undefined;
+        }
+
+        return (req: Request) => {
+            req._upload = options;
+        };
+    }
+
+    // Check @Roles against req.user, then run the @UseGuards guards
+    private createGuardHandler(controller: Function, methodName: string): RouteHandler | undefined {
+        const roles = getRoles(controller, methodName);
+        const guards = getGuards(controller, methodName).map(guard => this.getInjectableInstance<CanActivate>(guard));
+
+        if (roles.length === 0 && guards.length === 0) {
+            return undefined;
+        }
+
+        return async (req: Request, res: Response, next: NextFunction) => {
+            if (roles.length > 0) {
+                // accessMiddleware only authenticates access_control paths, other @Roles routes authenticate here
+                if (!req.user) {
+                    req.user = await this.authenticateRequest(req);
+                }
+                if (!AccessControl.hasAnyRole(req.user, roles)) {
+                    throw new ForbiddenException('Access denied');
+                }
+            }
+
+            const context: ExecutionContext = { req, res, controller, methodName, roles };
+            for (const guard of guards) {
+                if (!(await guard.canActivate(context))) {
+                    throw new ForbiddenException('Access denied');
+                }
+            }
+            next();
+        };
+    }
+
+    // Load the user of the request token, same lookup as accessMiddleware: Token cookie, then Authorization: Bearer
+    private async authenticateRequest(req: Request): Promise<typeof User> {
+        const token = AccessControl.extractToken(req);
+        if (!token) {
+            throw new UnauthorizedException('No token provided');
+        }
+
+        try {
+            return await AccessControl.authenticateToken(token);
+        } catch {
+            throw new UnauthorizedException('Invalid token');
+        }
+    }
+
+    // Guard and interceptor classes are instantiated once and receive services and repositories like DI controllers
+    private getInjectableInstance<T>(type: (new () => T) | T): T {
+        if (typeof type !== 'function') {
+            return type;
+        }
+
+        let instance = this.injectableInstances.get(type);
+        if (!instance) {
+            this.registerCoreServices();
+            instance = new (type as new () => T)();
+            this.diContainer.injectIntoController(instance);
+            this.injectableInstances.set(type, instance);
+        }
+        return instance;
+    }
+
+    // Run global, controller and handler interceptors around the handler, outermost first
+    private wrapHandlerWithInterceptors(handler: RouteHandler, controller: Function, methodName: string): RouteHandler {
+        const routeInterceptors = getInterceptors(controller, methodName);
+
+        return async (req: Request, res: Response, next: NextFunction) => {
+            // Global interceptors are read per request, app.useGlobalInterceptors() may run after the controllers were registered
+            const interceptors = [...this.globalInterceptors, ...routeInterceptors]
+                .map(interceptor => this.getInjectableInstance<Interceptor>(interceptor));
+
+            if (interceptors.length === 0) {
+                return handler(req, res, next);
+            }
+
+            const context: ExecutionContext = { req, res, controller, methodName, roles: getRoles(controller, methodName) };
+            const call = async (index: number): Promise<any> => index < interceptors.length
+                ? interceptors[index].intercept(context, () => call(index + 1))
+                : handler(req, res, next);
+
+            return call(0);
+        };
+    }
+
+    // Let controller and handler filters answer errors thrown or passed to next() by a route handler
+    private wrapHandlerWithFilters(
+        handler: RouteHandler,
+        filters: FilterType[],
+        controller: Function,
+        methodName: string
+    ): RouteHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            const context: ExceptionContext = { req, res, controller, methodName };
+            const handleError = async (error: any) => {
+                if (!(await this.runExceptionFilters(error, filters, context))) {
+                    throw error;
+                }
+            };
+
+            try {
+                // Errors passed to next() are filtered before the chain moves on
+                let filtering: Promise<void> | undefined;
+                const result = await handler(req, res, (error?: any) => {
+                    if (!error) {
+                        return next();
+                    }
+                    filtering = handleError(error).catch(next);
+                });
+                await filtering;
+                return result;
+            } catch (error) {
+                await handleError(error);
+            }
+        };
+    }
+
+    // Run the first exception filter catching the error, true when it answered; an error thrown by the filter replaces the original
+    private async runExceptionFilters(error: any, filters: FilterType[], context: ExceptionContext): Promise<boolean> {
+        const { res } = context;
+
+        for (const filterType of filters) {
+            const filter = this.getInjectableInstance<ExceptionFilter>(filterType);
+            if (!filterCatches(filter, error)) {
+                continue;
+            }
+
+            await filter.catch(error, context);
+            return !!((res as any)._responseSent || res.headersSent || res.writableEnded);
+        }
+        return false;
+    }
+
+    // Send the value returned by a handler that did not answer by itself
+    private wrapResultHandler(handler: RouteHandler): RouteHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            // A handler passing the request on with next() keeps its return value to itself
+            let nextCalled = false;
+            const result: any = await handler(req, res, (error?: any) => {
+                nextCalled = true;
+                next(error);
+            });
+
+            if (result === undefined || result === res || nextCalled || (res as any)._responseSent || res.headersSent || res.writableEnded) {
+                return result;
+            }
+
+            if (result instanceof Readable) {
+                (res as any)._responseSent = true;
+                result.once('error', (error) => res.destroy(error));
+                result.pipe(res);
+            } else if (Buffer.isBuffer(result)) {
+                (res as any)._responseSent = true;
+                if (!res.getHeader('Content-Type')) {
+                    res.setHeader('Content-Type', 'application/octet-stream');
+                }
+                res.end(result);
+            } else if (typeof result === 'string' || (typeof result === 'object' && result !== null)) {
+                // Objects go through res.send to be negotiated like explicit res.send calls
+                res.send(result);
+            } else {
+                res.json(result);
+            }
+            return result;
+        };
+    }
+
+    // Coerce the query parameters declared by the route query schema
+    private createQueryCoercer(schema: QuerySchema): RouteHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            req.query = coerceQuery(req.query, schema);
+            next();
+        };
+    }
+
+    // Replace req.body and req.query by validated DTO instances, reporting the errors of both at once
+    // under body.* and query.* keys so a field present in both DTOs keeps both messages
+    private createDtoValidator(bodyDto?: Function, queryDto?: Function): RouteHandler {
+        const addErrors = (errors: ValidationErrors, source: 'body' | 'query', found: ValidationErrors) => {
+            for (const [field, messages] of Object.entries(found)) {
+                errors[`${source}.${field}`] = messages;
+            }
+        };
+
+        return async (req: Request, res: Response, next: NextFunction) => {
+            const errors: ValidationErrors = {};
+
+            if (bodyDto) {
+                const result = await validateDto(bodyDto as DtoClass, req.body);
+                addErrors(errors, 'body', result.errors);
+                req.body = result.value;
+            }
+            if (queryDto) {
+                const result = await validateDto(queryDto as DtoClass, req.query);
+                addErrors(errors, 'query', result.errors);
+                req.query = result.value;
+            }
+
+            if (Object.keys(errors).length > 0) {
+                throw new ValidationException('Validation Error', undefined, errors);
+            }
+            next();
+        };
+    }
+
+    /**
+     * Register a WebSocket gateway class decorated with @WebSocketGateway
+     * The gateway is instantiated once and receives services and repositories like DI controllers
+     * @param {Function} gateway - Gateway class
+     * @returns {this} - Server instance for chaining
+     * @throws {Error} - If the class is not decorated or its path is already used
+     * @example
+     * app.registerGateway(ChatGateway)
+     */
+    registerGateway(gateway: Function): this {
+        const options = getGatewayOptions(gateway);
+        if (!options) {
+            throw new Error(`${gateway.name} is not decorated with @WebSocketGateway`);
+        }
+
+        this.registerCoreServices();
+
+        if (!this.webSockets) {
+            // Same token lookup as accessMiddleware: Token cookie, then Authorization: Bearer
+            this.webSockets = new WebSocketServer(async (req) => {
+                const token = AccessControl.extractToken({ cookies: this.parseCookies(req as Request), headers: req.headers });
+                return token ? AccessControl.authenticateToken(token) : undefined;
+            });
+        }
+
+        const instance = new (gateway as any)();
+        this.diContainer.injectIntoController(instance);
+
+        instance.server = this.webSockets.addGateway(
+            instance,
+            { ...options, path: this.basePath + options.path },
+            getMessageHandlers(gateway)
+        );
+
+        return this;
+    }
+
     // Async version - Automatically discover and register controllers from a directory
     async getControllersAsync(controllersPath: string = 'src/controller'): Promise<void> {
         // Resolve the absolute path
@@ -553,6 +1392,8 @@ class LyraServer {
 
                             if (routes && routes.length > 0) {
                                 this.registerController(exportedItem);
+                            } else if (getGatewayOptions(exportedItem)) {
+                                this.registerGateway(exportedItem);
                             }
                         }
                     }
@@ -626,6 +1467,39 @@ class LyraServer {
         return this;
     }
 
+    /**
+     * Replace a registered service or repository with another instance
+     * Meant for tests: the override wins over later registrations and applies to already registered controllers
+     * @param {string} name - Property name of the registration (e.g., 'userRepository')
+     * @param {any} instance - Replacement instance
+     * @param {'service' | 'repository'} [type] - Instance type (defaults to the type of the replaced registration)
+     * @returns {this} - Server instance for chaining
+     * @example
+     * app.override('userRepository', { findOneBy: async () => ({ id: 1, email: 'test@example.com' }) })
+     */
+    override(name: string, instance: any, type?: 'service' | 'repository'): this {
+        this.diContainer.override(name, instance, type);
+        return this;
+    }
+
+    /**
+     * Inject a request through the full request pipeline without opening a socket
+     * Services and controllers are not auto-discovered: register what the test needs beforehand
+     * @param {InjectOptions} options - Request to inject (method, url, query, headers, body, cookies)
+     * @returns {Promise<InjectResponse>} - Status, headers, parsed body and cookies of the response
+     * @example
+     * const app = createServer().registerController(UserController)
+     * app.override('userRepository', fakeUserRepository)
+     *
+     * const res = await app.inject({ method: 'POST', url: '/users', body: { email: 'a@b.c' } })
+     * assert.strictEqual(res.statusCode, 201)
+     * assert.strictEqual(res.body.email, 'a@b.c')
+     */
+    inject(options: InjectOptions): Promise<InjectResponse> {
+        this.registerCoreServices();
+        return injectRequest((req, res) => this.handleRequest(req as Request, res as Response), options);
+    }
+
     /**
      * Extract property name from instance constructor
      * Stripe instance -> 'stripe', Redis instance -> 'redis'
@@ -821,20 +1695,40 @@ class LyraServer {
         return this;
     }
 
-    addRoute(method: HttpMethod, path: string, handlers: RouteHandler[], parserType?: 'json' | 'xml' | 'urlencoded' | 'raw'): void {
-        const pattern = this.pathToRegex(path);
-        const paramNames = this.extractParamNames(path);
-
-        this.routes[method][path] = {
-            pattern,
-            paramNames,
+    /**
+     * Register a route
+     * @param {HttpMethod} method - HTTP method
+     * @param {string} path - Route path (supports ':id', ':id(\d+)', ':page?' and ':filepath*')
+     * @param {RouteHandler[]} handlers - Route handlers
+     * @param {ParserType} [parserType] - Body parser for this route (built-in or registered with addContentTypeParser)
+     * @param {Record<string, RouteParamType>} [paramTypes] - Param types to enforce and coerce
+     * @param {LifecycleHookMap} [hooks] - Lifecycle hooks for this route (run after global hooks)
+     * @returns {void}
+     */
+    addRoute(
+        method: HttpMethod,
+        path: string,
+        handlers: RouteHandler[],
+        parserType?: ParserType,
+        paramTypes?: Record<string, RouteParamType>,
+        hooks?: LifecycleHookMap
+    ): void {
+        const route = {
+            path,
+            paramNames: this.extractParamNames(path),
             handlers,
-            parserType
+            parserType,
+            paramTypes,
+            hooks
         };
+
+        this.routes[method][path] = route;
+        this.routeTree.insert(method, route);
     }
 
     // Convert route path to regex (e.g., /users/:id -> regex)
     // Supports :param for single segment and :param* for wildcard (multiple segments)
+    // Kept for external callers - request matching uses the compiled route tree
     pathToRegex(path: string): RegExp {
         const pattern = path
             .replace(/\//g, '\\/')
@@ -844,30 +1738,53 @@ class LyraServer {
     }
 
     // Extract parameter names from path
-    // Handles both :param and :param* syntax
+    // Handles :param, :param(regex), :param? and :param* syntax
     extractParamNames(path: string): string[] {
-        const matches = path.match(/:(\w+)\*?/g);
-        return matches ? matches.map(m => m.slice(1).replace('*', '')) : [];
+        return RouteTree.paramNames(path);
     }
 
     // Match incoming request to route
+    // Static segments win over params, and params over wildcards, whatever the registration order
     matchRoute(method: HttpMethod, pathname: string): MatchedRoute | null {
-        const methodRoutes = this.routes[method];
-
-        for (const [path, route] of Object.entries(methodRoutes)) {
-            const match = pathname.match(route.pattern);
+        const match = this.routeTree.match(method, pathname);
 
-            if (match) {
-                const params: RouteParams = {};
-                route.paramNames.forEach((name, index) => {
-                    params[name] = match[index + 1];
-                });
+        if (!match) {
+            return null;
+        }
 
-                return { handlers: route.handlers, params, parserType: route.parserType };
+        const params: Record<string, RouteParamValue> = { ...match.params };
+        for (const [name, type] of Object.entries(match.route.paramTypes || {})) {
+            if (match.params[name] !== undefined) {
+                params[name] = this.coerceParam(match.params[name], type);
             }
         }
 
-        return null;
+        // Typed as strings: handlers of routes declaring param types type the coerced values with Request<P>
+        return { handlers: match.route.handlers, params: params as RouteParams, parserType: match.route.parserType, hooks: match.route.hooks };
+    }
+
+    // Coerce a raw param value to its declared type (values already passed the type constraint)
+    private coerceParam(value: string, type: RouteParamType): RouteParamValue {
+        switch (type) {
+            case 'int':
+                return parseInt(value, 10);
+            case 'float':
+            case 'number':
+                return parseFloat(value);
+            case 'boolean':
+                return value === 'true' || value === '1';
+            default:
+                return value;
+        }
+    }
+
+    /**
+     * Get the HTTP methods registered for a pathname
+     * @param {string} pathname - Request pathname
+     * @returns {HttpMethod[]} - Registered methods (empty when no route matches the path)
+     */
+    allowedMethods(pathname: string): HttpMethod[] {
+        return this.routeTree.allowedMethods(pathname);
     }
 
     // Parse size string (e.g., "10mb", "1kb") to bytes
@@ -888,105 +1805,261 @@ class LyraServer {
         return value * (units[unit] || 1);
     }
 
-    // Parse request body
-    async parseBody(req: Request, parserType?: 'json' | 'xml' | 'urlencoded' | 'raw'): Promise<any> {
+    /**
+     * Parse the request body with the route parser, the 'parserType' setting, or the parser of its Content-Type
+     * Requests without a Content-Type are parsed as JSON; multipart bodies are streamed to req.multipartData
+     * @param {Request} req - Request
+     * @param {ParserType} [parserType] - Route body parser name
+     * @returns {Promise<any>} - Parsed body
+     * @throws {UnsupportedMediaTypeException} - 415 when no parser handles the Content-Type
+     * @throws {PayloadTooLargeException} - 413 when the body exceeds the 'request max size' setting, or an upload limit
+     */
+    async parseBody(req: Request, parserType?: ParserType): Promise<any> {
+        const contentType = req.headers['content-type'] || '';
+        const name = parserType || this.getSetting('parserType');
+
+        let entry: RegisteredBodyParser | undefined;
+        if (name) {
+            entry = this.bodyParsers.get(name);
+            if (!entry) {
+                throw new Error(`Unknown body parser "${name}"`);
+            }
+        } else {
+            entry = contentType ? this.bodyParsers.match(contentType) : this.bodyParsers.get('json');
+            if (!entry) {
+                throw new UnsupportedMediaTypeException(`Unsupported Content-Type ${contentType.split(';')[0].trim()}`);
+            }
+        }
+
+        if (entry.stream) {
+            return (entry.parser as StreamContentTypeParser)(req);
+        }
+        return (entry.parser as ContentTypeParser)(await this.readBody(req), req);
+    }
+
+    // Buffer the request body, rejecting bodies larger than the 'request max size' setting
+    private readBody(req: Request): Promise<Buffer> {
         return new Promise((resolve, reject) => {
-            let body = '';
+            const chunks: Buffer[] = [];
             let receivedBytes = 0;
             const maxSize = this.parseSizeToBytes(this.getSetting('request max size') || '10mb');
+            const tooLarge = () => new PayloadTooLargeException(`Request body too large. Maximum size is ${this.getSetting('request max size')}`);
+
+            if (parseInt(String(req.headers['content-length'] || '0'), 10) > maxSize) {
+                reject(tooLarge());
+                return;
+            }
 
-            req.on('data', chunk => {
+            req.on('data', (chunk: Buffer | string) => {
                 receivedBytes += chunk.length;
 
                 // Check if size limit exceeded
                 if (receivedBytes > maxSize) {
                     req.removeAllListeners();
-                    reject(new Error(`Request body too large. Maximum size is ${this.getSetting('request max size')}`));
+                    reject(tooLarge());
                     return;
                 }
 
-                body += chunk.toString();
+                chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
             });
 
-            req.on('end', () => {
-                try {
-                    const contentType = req.headers['content-type'] || '';
-                    const globalParserType = this.getSetting('parserType') || 'json';
-                    const effectiveParserType = parserType || globalParserType;
-
-                    // Determine parser type from content-type header if not explicitly set
-                    let detectedType = effectiveParserType;
-                    if (!parserType && !this.getSetting('parserType')) {
-                        if (contentType.includes('application/json')) {
-                            detectedType = 'json';
-                        } else if (contentType.includes('application/xml') || contentType.includes('text/xml')) {
-                            detectedType = 'xml';
-                        } else if (contentType.includes('application/x-www-form-urlencoded')) {
-                            detectedType = 'urlencoded';
-                        }
-                    }
+            req.on('end', () => resolve(Buffer.concat(chunks)));
+            req.on('error', reject);
+        });
+    }
 
-                    // Parse based on parser type
-                    switch (detectedType) {
-                        case 'json':
-                            resolve(body ? JSON.parse(body) : {});
-                            break;
-                        case 'xml':
-                            resolve(body ? parseXML(body) : {});
-                            break;
-                        case 'urlencoded':
-                            const parsed: any = {};
-                            if (body) {
-                                body.split('&').forEach(pair => {
-                                    const [key, value] = pair.split('=');
-                                    parsed[decodeURIComponent(key)] = decodeURIComponent(value);
-                                });
-                            }
-                            resolve(parsed);
-                            break;
-                        case 'raw':
-                        default:
-                            resolve(body);
-                            break;
-                    }
-                } catch (error) {
-                    reject(error);
+    // Parse MultipartFormData
+    // async parseMultipartFormData(req: Request): Promise<ParsedMultipartData> {
+    //   const multipartParser = new MultipartParser();
+    //   const { fields, files } = await multipartParser.parse(req)
+    //   return {
+    //     fields
+    //   }
+    // }
+
+    // Parse cookies from request headers
+    parseCookies(req: Request): { [key: string]: string } {
+        const cookieHeader = req.headers.cookie;
+        const cookies: { [key: string]: string } = {};
+
+        if (!cookieHeader) {
+            return cookies;
+        }
+
+        // Parse cookie header: "name1=value1; name2=value2"
+        cookieHeader.split(';').forEach(cookie => {
+            const parts = cookie.trim().split('=');
+            if (parts.length === 2) {
+                const name = decodeURIComponent(parts[0]);
+                const value = decodeURIComponent(parts[1]);
+                cookies[name] = value;
+            }
+        });
+
+        return cookies;
+    }
+
+    /**
+     * Register a request lifecycle hook
+     * - onRequest: after routing, before the body is parsed
+     * - preHandler: after the body is parsed, right before the route handlers
+     * - onSend: before res.json / res.send / res.xml / res.html / res.text serialize their payload (return a value to replace it)
+     * - onResponse: after the response has been sent
+     * - onError: when the request pipeline throws, before the error handler
+     * onRequest and preHandler hooks may send a response to short-circuit the route handlers
+     * @param {HookName} name - Lifecycle point
+     * @param {Function} hook - Hook function
+     * @returns {this} - Server instance for chaining
+     * @example
+     * app.addHook('onRequest', (req) => { req.startedAt = Date.now() })
+     * app.addHook('onSend', (req, res, payload) => ({ data: payload }))
+     * app.addHook('onError', (error, req) => sentry.captureException(error))
+     */
+    addHook<K extends HookName>(name: K, hook: LifecycleHooks[K]): this {
+        const hooks = (this.hooks[name] || []) as LifecycleHooks[K][];
+        hooks.push(hook);
+        this.hooks[name] = hooks as LifecycleHookMap[K];
+        return this;
+    }
+
+    // Concatenate hook maps, keeping the order of the given maps
+    private mergeHooks(...maps: (LifecycleHookMap | undefined)[]): LifecycleHookMap {
+        const merged: Record<string, Function[]> = {};
+
+        for (const map of maps) {
+            for (const [name, hooks] of Object.entries(map || {})) {
+                merged[name] = [...(merged[name] || []), ...(hooks as Function[])];
+            }
+        }
+
+        return merged as LifecycleHookMap;
+    }
+
+    // Run onRequest / preHandler hooks in order; returns true when one of them sent a response
+    private async runRequestHooks(name: 'onRequest' | 'preHandler', req: Request, res: Response): Promise<boolean> {
+        for (const hook of req._hooks?.[name] || []) {
+            await hook(req, res);
+
+            if ((res as any)._responseSent || res.headersSent) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Run onSend hooks on a response payload, then serialize it
+    private sendPayload(res: Response, data: any, serialize: (payload: any) => void): void {
+        const req = res.req as Request;
+        const hooks = req?._hooks?.onSend || [];
+
+        // Hooks run once per response: error responses sent from a failing hook are serialized as-is
+        if (hooks.length === 0 || (res as any)._onSendDone) {
+            serialize(data);
+            return;
+        }
+        (res as any)._onSendDone = true;
+
+        (async () => {
+            let payload = data;
+            for (const hook of hooks) {
+                const result = await hook(req, res, payload);
+                if (result !== undefined) {
+                    payload = result;
+                }
+            }
+            return payload;
+        })()
+            .then((payload) => {
+                if (!res.headersSent) {
+                    serialize(payload);
                 }
+            })
+            .catch((error) => {
+                errorHandler(error, req, res);
             });
+    }
 
-            req.on('error', reject);
-        });
+    // Response MIME types res.send negotiates between: the route @Produces types, or every negotiated format
+    private negotiableTypes(req: Request | undefined): string[] | undefined {
+        if (req?._produces) {
+            return req._produces;
+        }
+        return this.getSetting('content negotiation') ? NEGOTIATED_FORMATS.flatMap(format => FORMAT_MIME_TYPES[format]) : undefined;
     }
 
-    // Parse MultipartFormData
-    // async parseMultipartFormData(req: Request): Promise<ParsedMultipartData> {
-    //   const multipartParser = new MultipartParser();
-    //   const { fields, files } = await multipartParser.parse(req)
-    //   return {
-    //     fields
-    //   }
-    // }
+    // Pick the type preferred by the Accept header, throwing 406 when none is acceptable (unless optional)
+    private negotiateType(res: Response, types: string[], optional: boolean = false): string | undefined {
+        const type = negotiate((res.req as Request)?.headers.accept, types);
+        appendVary(res, 'Accept');
 
-    // Parse cookies from request headers
-    parseCookies(req: Request): { [key: string]: string } {
-        const cookieHeader = req.headers.cookie;
-        const cookies: { [key: string]: string } = {};
+        if (!type && !optional) {
+            throw new NotAcceptableException(`Not Acceptable, available types: ${types.join(', ')}`);
+        }
+        return type;
+    }
 
-        if (!cookieHeader) {
-            return cookies;
+    // Serialize a payload for a negotiated MIME type (structured syntax suffixes such as +json included)
+    private serializeAs(type: string, payload: any): string | Buffer {
+        const suffix = type.includes('+') ? `application/${type.slice(type.lastIndexOf('+') + 1)}` : type;
+        switch (formatOf(type) || formatOf(suffix)) {
+            case 'xml':
+                return serializeToXML(payload, undefined, this.getSetting('xml options'));
+            case 'msgpack':
+                return encodeMsgPack(payload);
+            case 'cbor':
+                return encodeCbor(payload);
+            case 'html':
+            case 'text':
+                return String(payload);
+            default:
+                return JSON.stringify(payload) ?? '';
         }
+    }
 
-        // Parse cookie header: "name1=value1; name2=value2"
-        cookieHeader.split(';').forEach(cookie => {
-            const parts = cookie.trim().split('=');
-            if (parts.length === 2) {
-                const name = decodeURIComponent(parts[0]);
-                const value = decodeURIComponent(parts[1]);
-                cookies[name] = value;
+    // Write a buffered body, adding an ETag and answering 304 when the client copy is still fresh
+    private sendBody(res: Response, body: string | Buffer, contentType: string): void {
+        const req = res.req as Request;
+        const etag = this.getSetting('etag');
+        const cacheable = !!req && (req.method === 'GET' || req.method === 'HEAD')
+            && res.statusCode >= 200 && res.statusCode < 300;
+
+        res.setHeader('Content-Type', contentType);
+
+        if (cacheable && etag && !res.getHeader('ETag')) {
+            res.setHeader('ETag', generateETag(body, etag !== 'strong'));
+        }
+
+        if (cacheable && isFresh(req.headers, res.getHeaders())) {
+            res.statusCode = 304;
+            res.removeHeader('Content-Type');
+            res.removeHeader('Content-Length');
+            res.end();
+            return;
+        }
+
+        res.end(body);
+    }
+
+    // Run onError hooks; hook failures are logged so the original error still reaches the error handler
+    private async runErrorHooks(error: any, req: Request, res: Response): Promise<void> {
+        for (const hook of req._hooks?.onError || []) {
+            try {
+                await hook(error, req, res);
+            } catch (hookError) {
+                loggerSingleton.error(`onError hook failed: ${String(hookError)}`);
             }
-        });
+        }
+    }
 
-        return cookies;
+    // Run onResponse hooks once the response is finished
+    private async runResponseHooks(req: Request, res: Response): Promise<void> {
+        for (const hook of req._hooks?.onResponse || []) {
+            try {
+                await hook(req, res);
+            } catch (error) {
+                loggerSingleton.error(`onResponse hook failed: ${String(error)}`);
+            }
+        }
     }
 
     // Enhanced request object
@@ -994,6 +2067,13 @@ class LyraServer {
         req.params = params;
         req.query = query;
 
+        // Conditional request check for optimistic concurrency (If-Match / If-Unmodified-Since)
+        req.assertPreconditions = (current: ResourceValidators) => {
+            if (!checkPreconditions(req.headers, current)) {
+                throw new PreconditionFailedException('Resource has been modified');
+            }
+        };
+
         return req;
     }
 
@@ -1015,8 +2095,9 @@ class LyraServer {
                 return;
             }
             (res as any)._responseSent = true;
-            res.setHeader('Content-Type', 'application/json');
-            res.end(JSON.stringify(data));
+            this.sendPayload(res, data, (payload) => {
+                this.sendBody(res, JSON.stringify(payload) ?? '', 'application/json');
+            });
         };
 
         // XML response
@@ -1025,8 +2106,9 @@ class LyraServer {
                 return;
             }
             (res as any)._responseSent = true;
-            res.setHeader('Content-Type', 'application/xml');
-            res.end(serializeToXML(data));
+            this.sendPayload(res, data, (payload) => {
+                this.sendBody(res, serializeToXML(payload, undefined, this.getSetting('xml options')), 'application/xml');
+            });
         };
 
         // HTML response
@@ -1035,8 +2117,9 @@ class LyraServer {
                 return;
             }
             (res as any)._responseSent = true;
-            res.setHeader('Content-Type', 'text/html');
-            res.end(String(data));
+            this.sendPayload(res, data, (payload) => {
+                this.sendBody(res, String(payload), 'text/html');
+            });
         };
 
         // Text response
@@ -1045,22 +2128,73 @@ class LyraServer {
                 return;
             }
             (res as any)._responseSent = true;
-            res.setHeader('Content-Type', 'text/plain');
-            res.end(String(data));
+            this.sendPayload(res, data, (payload) => {
+                this.sendBody(res, String(payload), 'text/plain');
+            });
+        };
+
+        // MessagePack response
+        res.msgpack = (data) => {
+            if (res.headersSent) {
+                return;
+            }
+            (res as any)._responseSent = true;
+            this.sendPayload(res, data, (payload) => {
+                this.sendBody(res, encodeMsgPack(payload), 'application/msgpack');
+            });
+        };
+
+        // CBOR response
+        res.cbor = (data) => {
+            if (res.headersSent) {
+                return;
+            }
+            (res as any)._responseSent = true;
+            this.sendPayload(res, data, (payload) => {
+                this.sendBody(res, encodeCbor(payload), 'application/cbor');
+            });
         };
 
-        // Send response
+        // Send response, objects in the negotiated format when the route or the 'content negotiation' setting asks for it
         res.send = (data) => {
             if (res.headersSent) {
                 return;
             }
+
+            const types = typeof data === 'object' && data !== null ? this.negotiableTypes(res.req as Request) : undefined;
+            const type = types ? this.negotiateType(res, types) : undefined;
+
             (res as any)._responseSent = true;
-            if (typeof data === 'object') {
-                res.json(data);
-            } else {
-                res.setHeader('Content-Type', 'text/html');
-                res.end(String(data));
+            this.sendPayload(res, data, (payload) => {
+                if (type) {
+                    this.sendBody(res, this.serializeAs(type, payload), type);
+                } else if (typeof payload === 'object') {
+                    this.sendBody(res, JSON.stringify(payload) ?? '', 'application/json');
+                } else {
+                    this.sendBody(res, String(payload), 'text/html');
+                }
+            });
+        };
+
+        // Call the callback of the preferred format, or the default one
+        res.format = (handlers) => {
+            const { default: fallback, ...formats } = handlers;
+            const keys = Object.keys(formats);
+            const type = this.negotiateType(res, keys.flatMap(key => formatMimeTypes(key)), !!fallback);
+
+            if (!type) {
+                return fallback!();
             }
+            const key = keys.find(format => formatMimeTypes(format).includes(type))!;
+            return formats[key]();
+        };
+
+        // Server-Sent Events stream, closed on shutdown
+        res.sse = (options?: SseOptions) => {
+            const stream = new SseStream(res.req, res, options);
+            this.sseStreams.add(stream);
+            stream.onClose(() => this.sseStreams.delete(stream));
+            return stream;
         };
 
         // Set status code
@@ -1152,6 +2286,19 @@ class LyraServer {
         return res;
     }
 
+    // Build the Allow header value (HEAD follows GET, OPTIONS is always answered automatically)
+    private formatAllowHeader(methods: HttpMethod[]): string {
+        const allowed = new Set<string>();
+        for (const method of methods) {
+            allowed.add(method);
+            if (method === 'GET') {
+                allowed.add('HEAD');
+            }
+        }
+        allowed.add('OPTIONS');
+        return Array.from(allowed).join(', ');
+    }
+
     // Check if a pathname matches a middleware path
     private matchMiddlewarePath(middlewarePath: string, requestPath: string): boolean {
         // Empty path means global middleware - matches everything
@@ -1174,7 +2321,7 @@ class LyraServer {
 
     /**
      * Check if a route handler needs parameter resolution
-     * Returns true if the route has resolve config or @Param decorators
+     * Returns true if the route has resolve config or parameter decorators
      */
     private needsParameterResolution(route: any, controllerInstance: any, methodName: string): boolean {
         // Check if route has resolve configuration
@@ -1182,15 +2329,9 @@ class LyraServer {
             return true;
         }
 
-        // Check if method has @Param decorator metadata
+        // Check if method has parameter decorator metadata (@Param, @Body, @Query...)
         const proto = Object.getPrototypeOf(controllerInstance);
-        const paramMetadata: ParamMetadata[] = getParamMetadata(proto, methodName);
-
-        if (paramMetadata && paramMetadata.length > 0) {
-            return true;
-        }
-
-        return false;
+        return getHandlerParams(proto, methodName).length > 0;
     }
 
     /**
@@ -1200,7 +2341,8 @@ class LyraServer {
     private wrapHandlerWithParameterResolution(
         originalHandler: Function,
         controllerInstance: any,
-        methodName: string
+        methodName: string,
+        resolvedEntities: ResolvedEntityParam[]
     ): RouteHandler {
         const self = this;
 
@@ -1218,7 +2360,8 @@ class LyraServer {
                 requestContext,
                 req,
                 res,
-                next
+                next,
+                resolvedEntities
             );
 
             // Call original handler with request-scoped context
@@ -1226,6 +2369,65 @@ class LyraServer {
         };
     }
 
+    // Stream the (async) iterable returned by an @Sse handler as Server-Sent Events
+    private wrapSseHandler(handler: RouteHandler, options: SseOptions): RouteHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            const result: any = await handler(req, res, next);
+
+            // The handler answered by itself (error response, redirect, res.sse())
+            if (result === undefined || res.headersSent || res.writableEnded) {
+                return;
+            }
+
+            const iterate = result[Symbol.asyncIterator] || result[Symbol.iterator];
+            if (typeof iterate !== 'function') {
+                throw new Error(`@Sse handler for ${req.url} must return an async iterable`);
+            }
+
+            const iterator = iterate.call(result);
+            const stream = res.sse(options);
+
+            // Pending back-pressure wait, released by 'drain' or by the close listener
+            let wake: (() => void) | undefined;
+
+            // Let the generator run its finally blocks when the client goes away
+            stream.onClose(() => {
+                wake?.();
+                Promise.resolve(iterator.return?.()).catch(() => undefined);
+            });
+
+            try {
+                while (!stream.closed) {
+                    const { value, done } = await iterator.next();
+                    if (done || stream.closed) {
+                        break;
+                    }
+
+                    // Respect back-pressure from slow clients
+                    if (!stream.send(value) && !stream.closed) {
+                        await new Promise<void>((resolve) => {
+                            wake = resolve;
+                            res.once('drain', resolve);
+                        });
+                        res.removeListener('drain', wake!);
+                        wake = undefined;
+                    }
+                }
+            } catch (error) {
+                // Headers are already sent: report the failure as an error event
+                if (!(error instanceof HttpException)) {
+                    loggerSingleton.error(`SSE stream ${req.url} failed: ${String(error)}`);
+                }
+                stream.send({
+                    event: 'error',
+                    data: { message: error instanceof HttpException ? error.message : 'Internal server error' }
+                });
+            } finally {
+                stream.close();
+            }
+        };
+    }
+
     /**
      * Extract parameter names from a function signature
      * Works with compiled TypeScript code
@@ -1248,110 +2450,147 @@ class LyraServer {
             .filter(Boolean);
     }
 
+    /**
+     * Find the handler parameter of each route-level resolve entry
+     * The only parameter typed with the entity (design:paramtypes) is used first, then the parameter
+     * named after the route param, names being parsed from the source and lost in minified code
+     * @throws {Error} - If an entry matches no parameter, or two entries the same parameter
+     */
+    private placeResolvedEntities(
+        controller: Function,
+        metadataTarget: any,
+        methodName: string,
+        resolve: Record<string, any>
+    ): ResolvedEntityParam[] {
+        const entries = Object.entries(resolve);
+        const paramTypes: any[] = Reflect.getMetadata('design:paramtypes', metadataTarget, methodName) || [];
+        const paramNames = this.getParameterNames(metadataTarget[methodName]);
+
+        const placed = entries.map(([routeParamName, entityType]) => {
+            // Type metadata only tells entries apart when no other entry resolves the same entity
+            const typed = paramTypes.flatMap((type, index) => type === entityType ? [index] : []);
+            const shared = entries.filter(([, type]) => type === entityType).length > 1;
+            const parameterIndex = typed.length === 1 && !shared ? typed[0] : paramNames.indexOf(routeParamName);
+
+            if (parameterIndex < 0) {
+                throw new Error(
+                    `Cannot resolve '${routeParamName}' on ${controller.name}.${methodName}: no parameter is named after it ` +
+                    `or is the only one typed ${entityType?.name}, use @Param('${routeParamName}', ${entityType?.name}) instead`
+                );
+            }
+
+            return { routeParamName, entityType, parameterIndex };
+        });
+
+        for (const entity of placed) {
+            const other = placed.find(candidate => candidate !== entity && candidate.parameterIndex === entity.parameterIndex);
+            if (other) {
+                throw new Error(
+                    `Cannot resolve '${entity.routeParamName}' on ${controller.name}.${methodName}: ` +
+                    `'${other.routeParamName}' resolves to the same parameter`
+                );
+            }
+        }
+
+        return placed;
+    }
+
     /**
      * Resolve route handler parameters automatically
-     * Supports both @Param decorators and route-level resolve configuration
+     * Supports parameter decorators and route-level resolve configuration; undecorated positions
+     * receive req, res and next
      *
-     * @example Using route-level resolve (recommended for compiled code):
+     * @example Using route-level resolve:
      * @Get({ path: '/:user', resolve: { user: User } })
      * async getUser(req, res, next, user) { ... }
      *
-     * @example Using @Param decorator (legacy):
+     * @example Using parameter decorators:
      * @Get({ path: '/:userId' })
-     * async getUser(req, res, @Param('userId', User) user) { ... }
+     * async getUser(@Param('userId', User) user: User, @Query('fields') fields?: string) { ... }
      */
     private async resolveParameters(
         methodName: string,
         target: any,
         req: Request,
         res: Response,
-        next: NextFunction
+        next: NextFunction,
+        resolvedEntities: ResolvedEntityParam[] = []
     ): Promise<any[]> {
         // Start with req, res, next
         const resolvedParams: any[] = [req, res, next];
 
-        // Get route metadata for this method
-        const constructor = target.constructor;
-        const routes = getRoutes(constructor);
-        const routeMetadata = routes.find(r => r.methodName === methodName);
-
-        // Approach 1: Use route-level resolve configuration (new approach)
-        if (routeMetadata?.resolve && Object.keys(routeMetadata.resolve).length > 0) {
-            // Get parameter names from the method
-            const method = target[methodName];
-            const paramNames = this.getParameterNames(method);
-
-            // Resolve each entity specified in the resolve config
-            for (const [routeParamName, EntityType] of Object.entries(routeMetadata.resolve)) {
-                // Find which parameter position this should go to
-                const paramIndex = paramNames.indexOf(routeParamName);
-
-                if (paramIndex >= 0) {
-                    // Get the route parameter value
-                    const paramValue = req.params?.[routeParamName];
-
-                    if (paramValue) {
-                        // Find repository for this entity type
-                        const repository = this.findRepositoryForEntity(target, EntityType);
-
-                        if (repository) {
-                            // Resolve entity using repository.find()
-                            const entity = await repository.find(paramValue);
-
-                            // Ensure array is large enough
-                            while (resolvedParams.length <= paramIndex) {
-                                resolvedParams.push(undefined);
-                            }
-
-                            resolvedParams[paramIndex] = entity;
-                        }
-                    }
-                }
-            }
+        // Static handlers get the class itself, instance handlers a request context inheriting from the instance
+        const metadataTarget = typeof target === 'function' ? target : Object.getPrototypeOf(target);
 
-            return resolvedParams;
+        // Route-level resolve configuration, placed when the controller was registered
+        for (const { routeParamName, entityType, parameterIndex } of resolvedEntities) {
+            resolvedParams[parameterIndex] = await this.resolveEntity(target, entityType, req.params?.[routeParamName]);
         }
 
-        // Approach 2: Fall back to @Param decorator metadata (legacy)
-        const proto = Object.getPrototypeOf(target);
-        const paramMetadata: ParamMetadata[] = getParamMetadata(proto, methodName);
+        // Parameter decorators
+        for (const param of getHandlerParams(metadataTarget, methodName)) {
+            // Fill in any gaps with undefined
+            while (resolvedParams.length < param.parameterIndex) {
+                resolvedParams.push(undefined);
+            }
+
+            if (param.entityType) {
+                resolvedParams[param.parameterIndex] = await this.resolveEntity(target, param.entityType, req.params?.[param.name!]);
+                continue;
+            }
 
-        if (paramMetadata.length === 0) {
-            return resolvedParams;
+            const value = this.readParameter(param, req, res, next);
+            resolvedParams[param.parameterIndex] = await applyPipes(value, param.pipes, { source: param.source, name: param.name });
         }
 
-        // Sort by parameter index to maintain order
-        paramMetadata.sort((a, b) => a.parameterIndex - b.parameterIndex);
-
-        // Resolve each decorated parameter
-        for (const metadata of paramMetadata) {
-            const { routeParamName, entityType, parameterIndex } = metadata;
+        return resolvedParams;
+    }
 
-            // Fill in any gaps with undefined (for req, res, next, etc.)
-            while (resolvedParams.length < parameterIndex) {
-                resolvedParams.push(undefined);
+    // Raw value of a decorated parameter, before pipes
+    private readParameter(param: HandlerParamMetadata, req: Request, res: Response, next: NextFunction): any {
+        const pick = (source: any) => param.name === undefined ? source : source?.[param.name];
+
+        switch (param.source) {
+            case 'req':
+                return req;
+            case 'res':
+                return res;
+            case 'next':
+                return next;
+            case 'param':
+                return pick(req.params);
+            case 'query':
+                return pick(req.query);
+            case 'body':
+                return pick(req.body);
+            case 'headers':
+                return pick(req.headers);
+            case 'cookie':
+                return pick(req.cookies);
+            case 'user':
+                return pick((req as any).user);
+            case 'file':
+                return req.multipartData?.files.find(file => file.fieldname === param.name);
+            case 'files': {
+                const files = req.multipartData?.files || [];
+                return param.name === undefined ? files : files.filter(file => file.fieldname === param.name);
             }
+        }
+    }
 
-            // Get the route parameter value
-            const paramValue = req.params?.[routeParamName];
-
-            if (paramValue) {
-                // Find repository for this entity type
-                const repository = this.findRepositoryForEntity(target, entityType);
+    // Load an entity from a route param value, undefined when missing or not found
+    private async resolveEntity(target: any, entityType: any, paramValue: any): Promise<any> {
+        if (!paramValue) {
+            return undefined;
+        }
 
-                if (repository) {
-                    // Resolve entity using repository.find()
-                    const entity = await repository.find(paramValue);
-                    resolvedParams[parameterIndex] = entity;
-                } else {
-                    resolvedParams[parameterIndex] = undefined;
-                }
-            } else {
-                resolvedParams[parameterIndex] = undefined;
-            }
+        const repository = this.findRepositoryForEntity(target, entityType);
+        if (!repository) {
+            return undefined;
         }
 
-        return resolvedParams;
+        const entity = await repository.find(paramValue);
+        return entity ?? undefined;
     }
 
     /**
@@ -1398,6 +2637,7 @@ class LyraServer {
                     const result = mw.middleware(req, res, next);
 
                     // Helper to check if response was sent
+                    // Long-lived responses (res.sse()) count as sent as soon as they are opened
                     const isResponseSent = () => {
                         return (res as any)._responseSent || res.writableEnded || res.headersSent;
                     };
@@ -1502,8 +2742,36 @@ class LyraServer {
         }
     }
 
-    // Main request handler
+    /**
+     * Main request handler
+     * Opens a RequestContext for the request: the request ID comes from a valid X-Request-Id header
+     * or is generated, and is echoed in the X-Request-Id response header
+     * @param {Request} req - HTTP request
+     * @param {Response} res - HTTP response
+     * @param {NextFunction} [next] - Next function when mounted as a middleware
+     * @returns {Promise<void>}
+     */
     async handleRequest(req: Request, res: Response, next?: NextFunction): Promise<void> {
+        const requestId = RequestContext.resolveRequestId(req.headers['x-request-id']);
+        req.requestId = requestId;
+        if (!res.headersSent) {
+            res.setHeader('X-Request-Id', requestId);
+        }
+
+        const context: Partial<RequestContextData> = { requestId, method: req.method, path: req.url };
+
+        // The context user follows req.user, which auth middlewares set after the context is created
+        Object.defineProperty(context, 'user', {
+            get: () => req.user,
+            set: (user) => { req.user = user; },
+            enumerable: true
+        });
+
+        return RequestContext.run(context, () => this.processRequest(req, res, next));
+    }
+
+    // Run a request through middlewares, routing, hooks and handlers
+    private async processRequest(req: Request, res: Response, next?: NextFunction): Promise<void> {
         try {
             // Capture original URL before any modifications
             if (!req.originalUrl) {
@@ -1518,16 +2786,23 @@ class LyraServer {
             const parsedUrl = new URL(req.url || '/', 'http://localhost');
             const pathname = parsedUrl.pathname;
 
-            // Convert URLSearchParams to plain object
-            const query: ParsedQuery = {};
-            parsedUrl.searchParams.forEach((value, key) => {
-                query[key] = value;
-            });
+            // Repeated keys become arrays and bracket keys nested objects, within the 'query limits' setting
+            const query: ParsedQuery = parseQueryString(parsedUrl.search, this.getSetting('query limits'));
 
             // Enhance request and response early
             req = this.createRequest(req, {}, query);
             res = this.createResponse(res);
 
+            // Resolve client IP, protocol and hostname through trusted proxies
+            Object.assign(req, resolveProxyInfo(req, this.trustProxy));
+
+            // Global hooks apply until a route is matched
+            req._hooks = this.hooks;
+            res.once('finish', AsyncResource.bind(() => this.runResponseHooks(req, res)));
+
+            // 'temp' upload files live until the response is sent or the connection closes
+            res.once('close', () => removeTempFiles(req));
+
             // Parse cookies
             req.cookies = this.parseCookies(req);
 
@@ -1539,6 +2814,10 @@ class LyraServer {
 
             // Automatic OPTIONS request handling (CORS preflight)
             if (req.method === 'OPTIONS') {
+                const allowed = this.allowedMethods(pathname);
+                if (allowed.length > 0) {
+                    res.setHeader('Allow', this.formatAllowHeader(allowed));
+                }
                 res.statusCode = 204;
                 res.setHeader('Content-Length', '0');
                 res.end();
@@ -1546,9 +2825,17 @@ class LyraServer {
             }
 
             // Match route early to get parser type
-            const route = this.matchRoute(req.method as HttpMethod, pathname);
+            // HEAD runs the GET route: the response keeps its headers and Node drops the body
+            const route = this.matchRoute((req.method === 'HEAD' ? 'GET' : req.method) as HttpMethod, pathname);
 
             if (!route) {
+                // Path exists but not for this method: 405 with the list of allowed methods
+                const allowed = this.allowedMethods(pathname);
+                if (allowed.length > 0) {
+                    res.setHeader('Allow', this.formatAllowHeader(allowed));
+                    throw new MethodNotAllowedException(`${req.method} method not allowed on ${pathname}`);
+                }
+
                 // Avoid infinite loop - don't try to handle error if already on an error route
                 if (pathname.includes('/error/')) {
                     res.statusCode = 404;
@@ -1570,14 +2857,24 @@ class LyraServer {
                     return;
                 }
 
+                // Global filters and problem details handle unmatched routes like any other error
+                if (this.globalFilters.length > 0 || isProblemDetailsEnabled()) {
+                    throw new NotFoundException(`Route ${req.method} ${pathname}`);
+                }
+
                 // Fallback if no error route exists
                 res.statusCode = 404;
                 res.end('Not Found');
                 return;
             }
 
-            // Update request with route params
+            // Update request with route params and hooks
             req.params = route.params;
+            req._hooks = this.mergeHooks(this.hooks, route.hooks);
+
+            if (await this.runRequestHooks('onRequest', req, res)) {
+                return;
+            }
 
             // Parse body for POST/PUT/PATCH with route-specific or global parser type
             req.body = {};
@@ -1585,38 +2882,56 @@ class LyraServer {
                 req.body = await this.parseBody(req, route.parserType);
             }
 
+            if (await this.runRequestHooks('preHandler', req, res)) {
+                return;
+            }
+
             // Execute route handlers (middlewares already executed above)
             await this.executeHandlers(route.handlers, req, res);
 
         } catch (error: any) {
+            // An onError hook sending a response takes over error handling
+            const sentBefore = (res as any)._responseSent || res.headersSent;
+            await this.runErrorHooks(error, req, res);
+            if (!sentBefore && ((res as any)._responseSent || res.headersSent)) {
+                return;
+            }
+
+            // Global exception filters, then the default error handler
+            if (!sentBefore) {
+                try {
+                    if (await this.runExceptionFilters(error, this.globalFilters, { req, res })) {
+                        return;
+                    }
+                } catch (filterError) {
+                    error = filterError;
+                }
+            }
+
             errorHandler(error, req, res, next);
         }
     }
 
     // Start the server
     /**
-     * Start HTTP server on specified port
-     * @param {number|string} port - Port number to listen on
+     * Start HTTP, HTTPS or HTTP/2 server
+     * Options not given explicitly are read from config/server.yaml when it exists
+     * (port, host, http2, tls.key, tls.cert, tls.ca, tls.passphrase, redirect_http), with %env()% interpolation
+     * @param {number|string|ListenOptions} [portOrOptions] - Port number to listen on, or listen options
      * @param {() => void} [callback] - Optional callback when server starts
-     * @returns {Promise<http.Server>} - HTTP server instance
+     * @returns {Promise<LyraHttpServer>} - Server instance
+     * @example
+     * await app.listen(3000)
+     * await app.listen() // everything from config/server.yaml
+     * await app.listen({ port: 443, tls: { key: 'certs/server.key', cert: 'certs/server.crt' }, http2: true, redirectHttp: 80 })
      */
-    async listen(port: number|string, callback?: () => void): Promise<http.Server> {
+    async listen(portOrOptions: number | string | ListenOptions = {}, callback?: () => void): Promise<LyraHttpServer> {
+        const options = this.resolveListenOptions(portOrOptions);
+
         // Step 1: Auto-register services and repositories
         if (!this.servicesRegistered) {
             await this.autoRegister();
-
-            // Auto-register logger singleton for DI
-            this.diContainer.registerInstance('logger', loggerSingleton, 'service');
-
-            // Auto-register mailer singleton for DI
-            this.diContainer.registerInstance('mailer', mailer, 'service');
-
-            // Auto-register multpartParser singleton for DI
-            this.diContainer.registerInstance('multipartParser', new MultipartParser(), 'service');
-
-            // Auto-register fileManager singleton for DI
-            this.diContainer.registerInstance('fileManager', new FileManager(), 'service');
-
+            this.registerCoreServices();
             this.servicesRegistered = true;
         }
 
@@ -1626,22 +2941,183 @@ class LyraServer {
             this.controllersLoaded = true;
         }
 
+        this.webSockets?.start(Number(this.getSetting('websocket ping interval')) || 0);
+
         // Step 3: Discover and start scheduler jobs (if enabled)
         if (this.schedulerEnabled && this.scheduler) {
             await this.scheduler.discoverJobs('src/jobs');
             await this.scheduler.start();
         }
 
-        // Step 4: Start the HTTP server
-        const server = http.createServer((req, res) => {
-            this.handleRequest(req as Request, res as Response);
+        // Step 4: Start the HTTP(S) server
+        const server = this.createHttpServer(options);
+        this.httpServer = server;
+
+        if (options.redirectHttp !== undefined) {
+            this.redirectServer = this.createRedirectServer();
+            await this.startServer(this.redirectServer, options.redirectHttp, options.host);
+        }
+
+        await this.startServer(server, options.port!, options.host);
+        if (callback) callback();
+
+        return server;
+    }
+
+    // Register the framework singletons available to every controller and service
+    private registerCoreServices(): void {
+        if (this.coreServicesRegistered) {
+            return;
+        }
+
+        // Auto-register logger singleton for DI
+        this.diContainer.registerInstance('logger', loggerSingleton, 'service');
+
+        // Auto-register mailer singleton for DI
+        this.diContainer.registerInstance('mailer', mailer, 'service');
+
+        // Auto-register multpartParser singleton for DI
+        this.diContainer.registerInstance('multipartParser', new MultipartParser(), 'service');
+
+        // Auto-register fileManager singleton for DI
+        this.diContainer.registerInstance('fileManager', new FileManager(), 'service');
+
+        this.coreServicesRegistered = true;
+    }
+
+    // Merge listen() arguments over the optional server.yaml configuration
+    private resolveListenOptions(portOrOptions: number | string | ListenOptions): ListenOptions {
+        const explicit: ListenOptions = typeof portOrOptions === 'object' ? portOrOptions : { port: portOrOptions };
+
+        let config: any = {};
+        try {
+            config = new Config().get('server') || {};
+        } catch (error) {
+            config = {};
+        }
+
+        const options: ListenOptions = {
+            port: explicit.port ?? config.port,
+            host: explicit.host ?? config.host,
+            http2: explicit.http2 ?? this.configFlag(config.http2),
+            tls: explicit.tls ?? config.tls,
+            redirectHttp: explicit.redirectHttp ?? (config.redirect_http === '' ? undefined : config.redirect_http)
+        };
+
+        if (options.port === undefined || options.port === '') {
+            throw new Error('No port to listen on: pass a port to listen() or set server.port in config/server.yaml');
+        }
+
+        if (options.tls && (!options.tls.key || !options.tls.cert)) {
+            throw new Error('TLS requires both a key and a cert');
+        }
+
+        if (options.redirectHttp !== undefined && !options.tls) {
+            throw new Error('redirectHttp requires TLS to be configured');
+        }
+
+        return options;
+    }
+
+    // server.yaml values interpolated with %env()% are strings: only 'true' and '1' enable a flag
+    private configFlag(value: unknown): boolean {
+        if (typeof value === 'string') {
+            const normalized = value.trim().toLowerCase();
+            return normalized === 'true' || normalized === '1';
+        }
+        return value === true || value === 1;
+    }
+
+    // Create the server matching the listen options, tracking its connections for shutdown
+    private createHttpServer(options: ListenOptions): LyraHttpServer {
+        const handler = (
+            req: http.IncomingMessage | http2.Http2ServerRequest,
+            res: http.ServerResponse | http2.Http2ServerResponse
+        ) => {
+            this.trackResponse(res);
+            // The HTTP/2 compatibility API exposes the same surface the enhanced Request/Response rely on
+            this.handleRequest(req as unknown as Request, res as unknown as Response);
+        };
+
+        let server: LyraHttpServer;
+
+        if (options.tls) {
+            const tls = this.loadTlsOptions(options.tls);
+            server = options.http2
+                ? http2.createSecureServer({ ...tls, allowHTTP1: true }, handler)
+                : https.createServer(tls, handler);
+        } else {
+            server = options.http2 ? http2.createServer(handler) : http.createServer(handler);
+        }
+
+        server.on('connection', (socket: net.Socket) => {
+            this.openSockets.add(socket);
+            socket.once('close', () => this.openSockets.delete(socket));
         });
 
-        return new Promise((resolve) => {
-            server.listen(port, () => {
-                if (callback) callback();
-                resolve(server);
-            });
+        server.on('upgrade', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+            // Leave unknown paths to other upgrade listeners (e.g. a separate ws server) if there are any
+            if (!this.webSockets?.handleUpgrade(req, socket, head) && server.listenerCount('upgrade') === 1) {
+                rejectUpgrade(socket, 404);
+            }
+        });
+
+        server.on('session', (session: http2.Http2Session) => {
+            this.http2Sessions.add(session);
+            session.once('close', () => this.http2Sessions.delete(session));
+        });
+
+        return server;
+    }
+
+    // Resolve TLS values given as file paths (relative to cwd) into their contents
+    private loadTlsOptions(tls: TlsOptions): TlsOptions {
+        const read = (value: string | Buffer): string | Buffer => {
+            if (Buffer.isBuffer(value) || value.includes('-----BEGIN')) {
+                return value;
+            }
+            return fs.readFileSync(path.resolve(process.cwd(), value));
+        };
+
+        return {
+            key: read(tls.key),
+            cert: read(tls.cert),
+            ...(tls.ca ? { ca: read(tls.ca) } : {}),
+            ...(tls.passphrase ? { passphrase: tls.passphrase } : {})
+        };
+    }
+
+    // Plain HTTP server redirecting every request to the HTTPS server
+    private createRedirectServer(): http.Server {
+        return http.createServer((req, res) => {
+            const host = (req.headers.host || 'localhost').replace(/:\d+$/, '');
+            const address = this.httpServer?.address();
+            const port = address && typeof address === 'object' ? address.port : 443;
+            const authority = port === 443 ? host : `${host}:${port}`;
+
+            // 308 keeps the method and body of non-idempotent requests
+            res.statusCode = req.method === 'GET' || req.method === 'HEAD' ? 301 : 308;
+            res.setHeader('Location', `https://${authority}${req.url || '/'}`);
+            res.end();
+        });
+    }
+
+    // Start listening, rejecting on bind errors such as EADDRINUSE
+    private startServer(server: LyraHttpServer, port: number | string, host?: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const onError = (error: Error) => reject(error);
+            server.once('error', onError);
+
+            const onListening = () => {
+                server.removeListener('error', onError);
+                resolve();
+            };
+
+            if (host) {
+                server.listen(Number(port), host, onListening);
+            } else {
+                server.listen(port, onListening);
+            }
         });
     }
 }
@@ -1,14 +1,22 @@
 import { Service } from "../server/Service"
 
+/** File of a multipart request */
+export interface UploadedFileData {
+  fieldname: string
+  /** Filename sent by the client */
+  name: string
+  encoding: string
+  mimetype: string
+  size: number
+  /** Content, with the 'memory' upload storage */
+  data?: Buffer
+  /** File holding the content, with the 'temp' and 'disk' upload storages */
+  path?: string
+}
+
 export interface ParsedMultipartData {
   fields: Record<string, string>
-  files: Array<{
-    fieldname: string
-    name: string
-    data: Buffer
-    mimetype: string
-    size: number
-  }>
+  files: UploadedFileData[]
 }
 
 export class MultipartParser extends Service {
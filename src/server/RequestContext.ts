@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/** Data carried by a request context */
+export interface RequestContextData {
+    requestId: string;
+    method?: string;
+    path?: string;
+    /** Authenticated user (kept in sync with req.user for HTTP requests) */
+    user?: any;
+    /** Arbitrary values stored with RequestContext.set() */
+    values: Map<string, any>;
+}
+
+// Incoming request IDs are echoed in headers and logs: only accept short, printable tokens
+const REQUEST_ID_PATTERN = /^[\w\-.:@]{1,128}$/;
+
+/**
+ * Request-scoped context built on AsyncLocalStorage
+ * A context is opened for every HTTP request (and every scheduled job run) and follows
+ * all async work started from it, so services, repositories and the logger can read it
+ * without receiving the request object
+ * @example
+ * // Anywhere in a service
+ * const requestId = RequestContext.getRequestId()
+ * RequestContext.set('tenant', tenantId)
+ * RequestContext.get()?.user
+ */
+export class RequestContext {
+    private static storage = new AsyncLocalStorage<RequestContextData>();
+
+    /**
+     * Run a function inside a new context
+     * @param {Partial<RequestContextData>} data - Initial context data (a request ID is generated if missing)
+     * @param {() => T} fn - Function to run
+     * @returns {T} - Result of fn
+     * @template T
+     * @example
+     * RequestContext.run({ requestId: 'import-42' }, () => importer.run())
+     */
+    static run<T>(data: Partial<RequestContextData>, fn: () => T): T {
+        const context = data as RequestContextData;
+        if (!context.requestId) context.requestId = RequestContext.generateId();
+        if (!context.values) context.values = new Map();
+
+        return RequestContext.storage.run(context, fn);
+    }
+
+    /**
+     * Get the current context
+     * @returns {RequestContextData | undefined} - Current context, undefined outside of a request or job
+     */
+    static get(): RequestContextData | undefined {
+        return RequestContext.storage.getStore();
+    }
+
+    /**
+     * Get the current request ID
+     * @returns {string | undefined} - Request ID, undefined outside of a context
+     */
+    static getRequestId(): string | undefined {
+        return RequestContext.storage.getStore()?.requestId;
+    }
+
+    /**
+     * Get the authenticated user of the current request
+     * @returns {any} - User, undefined outside of a context or for anonymous requests
+     */
+    static getUser(): any {
+        return RequestContext.storage.getStore()?.user;
+    }
+
+    /**
+     * Store a value in the current context (no-op outside of a context)
+     * @param {string} key - Value name
+     * @param {any} value - Value
+     * @returns {void}
+     */
+    static set(key: string, value: any): void {
+        RequestContext.storage.getStore()?.values.set(key, value);
+    }
+
+    /**
+     * Read a value stored in the current context
+     * @param {string} key - Value name
+     * @returns {T | undefined} - Stored value
+     * @template T
+     */
+    static getValue<T = any>(key: string): T | undefined {
+        return RequestContext.storage.getStore()?.values.get(key);
+    }
+
+    /**
+     * Resolve the request ID for an incoming request
+     * Reuses a well-formed X-Request-Id header value, otherwise generates a new ID
+     * @param {string | string[] | undefined} header - X-Request-Id header value
+     * @returns {string} - Request ID
+     */
+    static resolveRequestId(header: string | string[] | undefined): string {
+        const value = Array.isArray(header) ? header[0] : header;
+        return value && REQUEST_ID_PATTERN.test(value) ? value : RequestContext.generateId();
+    }
+
+    /**
+     * Generate a new request ID
+     * @returns {string} - Random UUID
+     */
+    static generateId(): string {
+        return randomUUID();
+    }
+}
@@ -0,0 +1,375 @@
+import { HttpMethod, RouteEntry, RouteParamType } from './serverTypes';
+
+/** Result of a successful tree lookup */
+export interface RouteTreeMatch {
+    route: RouteEntry;
+    params: Record<string, string>;
+}
+
+/** Token of a parsed path segment */
+type SegmentToken =
+    | { type: 'static'; text: string }
+    | { type: 'param'; name: string; pattern?: string; optional: boolean; wildcard: boolean };
+
+/** Child edge for a constrained or mixed segment (e.g. ':id(\d+)' or ':name.:ext') */
+interface PatternEdge {
+    source: string;
+    regex: RegExp;
+    node: RouteNode;
+}
+
+/** Route stored on a node, with the param names captured along this exact branch */
+interface RouteLeaf {
+    route: RouteEntry;
+    paramNames: string[];
+}
+
+/** Single node of the routing tree, one per path segment */
+class RouteNode {
+    staticChildren: Map<string, RouteNode> = new Map();
+    patternChildren: PatternEdge[] = [];
+    paramChild: RouteNode | null = null;
+    wildcardChild: RouteNode | null = null;
+    routes: Partial<Record<HttpMethod, RouteLeaf>> = {};
+}
+
+/** Default constraints implied by declared param types */
+const PARAM_TYPE_PATTERNS: Record<RouteParamType, string | undefined> = {
+    int: '-?\\d+',
+    float: '-?\\d+(?:\\.\\d+)?',
+    number: '-?\\d+(?:\\.\\d+)?',
+    boolean: 'true|false|1|0',
+    uuid: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+    string: undefined
+};
+
+/**
+ * Compiled routing tree
+ * Paths are split into segments and stored in a trie so lookups only walk the request path
+ * Priority at each segment, independent of registration order:
+ * static segment > constrained or mixed segment (':id(\d+)', ':name.:ext') > ':param' > ':param*' wildcard
+ * A segment failing its constraint is a non-match, so lower-priority routes are tried next
+ *
+ * Supported segment syntax:
+ * - `:id` - one non-empty segment
+ * - `:id(\d+)` - one segment matching the inline regex
+ * - `:page?` - optional segment (`/posts/:page?` matches `/posts` and `/posts/2`)
+ * - `:filepath*` - one or more segments
+ * @example
+ * const tree = new RouteTree()
+ * tree.insert('GET', { path: '/users/:id(\\d+)', paramNames: ['id'], handlers })
+ * tree.insert('GET', { path: '/users/me', paramNames: [], handlers })
+ * tree.match('GET', '/users/me') // -> '/users/me' route, even though registered last
+ * tree.match('GET', '/users/abc') // -> null
+ * tree.allowedMethods('/users/42') // -> ['GET']
+ */
+export class RouteTree {
+    private root: RouteNode = new RouteNode();
+
+    /**
+     * Extract parameter names from a route path, in path order
+     * @param {string} path - Route path
+     * @returns {string[]} - Parameter names
+     * @example
+     * RouteTree.paramNames('/posts/:id(\\d+)/:page?') // ['id', 'page']
+     */
+    static paramNames(path: string): string[] {
+        const names: string[] = [];
+        for (const segment of RouteTree.splitPath(path)) {
+            for (const token of RouteTree.parseSegment(segment)) {
+                if (token.type === 'param') names.push(token.name);
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Insert a route into the tree (replaces any route with the same method and path)
+     * Optional segments are expanded into one branch per combination
+     * @param {HttpMethod} method - HTTP method
+     * @param {RouteEntry} route - Route entry to store
+     * @returns {void}
+     */
+    insert(method: HttpMethod, route: RouteEntry): void {
+        const segments = RouteTree.splitPath(route.path).map(segment => RouteTree.parseSegment(segment));
+
+        for (const variant of this.expandOptionalSegments(segments)) {
+            let node = this.root;
+            const paramNames: string[] = [];
+
+            for (const tokens of variant) {
+                node = this.getOrCreateChild(node, tokens, route.paramTypes || {});
+                for (const token of tokens) {
+                    if (token.type === 'param') paramNames.push(token.name);
+                }
+            }
+
+            node.routes[method] = { route, paramNames };
+        }
+    }
+
+    /**
+     * Find the route matching a method and pathname
+     * @param {HttpMethod} method - HTTP method
+     * @param {string} pathname - Request pathname (without query string)
+     * @returns {RouteTreeMatch | null} - Matched route and raw (uncoerced) param values
+     */
+    match(method: HttpMethod, pathname: string): RouteTreeMatch | null {
+        const values: string[] = [];
+        const node = this.find(this.root, RouteTree.splitPath(pathname), 0, values, n => !!n.routes[method]);
+
+        if (!node) {
+            return null;
+        }
+
+        const leaf = node.routes[method]!;
+        const params: Record<string, string> = {};
+        leaf.paramNames.forEach((name, index) => {
+            params[name] = values[index];
+        });
+
+        return { route: leaf.route, params };
+    }
+
+    /**
+     * List the HTTP methods registered for a pathname, across every matching route
+     * Used to tell a wrong method (405) apart from a missing path (404)
+     * @param {string} pathname - Request pathname
+     * @returns {HttpMethod[]} - Registered methods, empty if no route matches the path
+     */
+    allowedMethods(pathname: string): HttpMethod[] {
+        const methods = new Set<HttpMethod>();
+
+        this.find(this.root, RouteTree.splitPath(pathname), 0, [], node => {
+            for (const method of Object.keys(node.routes)) {
+                methods.add(method as HttpMethod);
+            }
+            // Keep exploring so lower-priority routes contribute their methods too
+            return false;
+        });
+
+        return Array.from(methods);
+    }
+
+    // Split a path into segments, keeping a trailing empty segment so '/users/' stays distinct from '/users'
+    private static splitPath(path: string): string[] {
+        if (path === '') {
+            return [];
+        }
+        const segments = path.split('/');
+        return segments[0] === '' ? segments.slice(1) : segments;
+    }
+
+    // Tokenize a segment into static text and params (':name', ':name(regex)', ':name?', ':name*')
+    private static parseSegment(segment: string): SegmentToken[] {
+        const tokens: SegmentToken[] = [];
+        let text = '';
+        let i = 0;
+
+        while (i < segment.length) {
+            const nameMatch = segment[i] === ':' ? segment.slice(i + 1).match(/^\w+/) : null;
+
+            if (!nameMatch) {
+                text += segment[i++];
+                continue;
+            }
+
+            if (text) {
+                tokens.push({ type: 'static', text });
+                text = '';
+            }
+
+            const name = nameMatch[0];
+            i += name.length + 1;
+
+            let pattern: string | undefined;
+            if (segment[i] === '(') {
+                const end = RouteTree.findClosingParen(segment, i);
+                pattern = segment.slice(i + 1, end);
+                i = end + 1;
+            }
+
+            const wildcard = segment[i] === '*';
+            if (wildcard) i++;
+
+            const optional = segment[i] === '?';
+            if (optional) i++;
+
+            tokens.push({ type: 'param', name, pattern, optional, wildcard });
+        }
+
+        if (text) {
+            tokens.push({ type: 'static', text });
+        }
+
+        const isSingleParam = tokens.length === 1 && tokens[0].type === 'param';
+        if (!isSingleParam && tokens.some(t => t.type === 'param' && (t.optional || t.wildcard))) {
+            throw new Error(`Optional and wildcard parameters must span a whole path segment: '${segment}'`);
+        }
+
+        return tokens;
+    }
+
+    // Find the parenthesis closing the constraint opened at `start`, honouring escapes and nesting
+    private static findClosingParen(segment: string, start: number): number {
+        let depth = 0;
+        for (let i = start; i < segment.length; i++) {
+            if (segment[i] === '\\') {
+                i++;
+            } else if (segment[i] === '(') {
+                depth++;
+            } else if (segment[i] === ')') {
+                depth--;
+                if (depth === 0) return i;
+            }
+        }
+        throw new Error(`Unterminated parameter constraint in route segment '${segment}'`);
+    }
+
+    // Expand optional segments into every present/absent combination
+    private expandOptionalSegments(segments: SegmentToken[][]): SegmentToken[][][] {
+        let variants: SegmentToken[][][] = [[]];
+
+        for (const tokens of segments) {
+            const token = tokens[0];
+            const optional = tokens.length === 1 && token.type === 'param' && token.optional;
+
+            variants = variants.flatMap(variant => optional
+                ? [variant, [...variant, tokens]]
+                : [[...variant, tokens]]);
+        }
+
+        return variants;
+    }
+
+    // Get (or create) the child node for a parsed route segment
+    private getOrCreateChild(node: RouteNode, tokens: SegmentToken[], paramTypes: Record<string, RouteParamType>): RouteNode {
+        const single = tokens.length === 1 ? tokens[0] : null;
+
+        // :param* wildcard (matches one or more segments)
+        if (single?.type === 'param' && single.wildcard) {
+            if (!node.wildcardChild) node.wildcardChild = new RouteNode();
+            return node.wildcardChild;
+        }
+
+        // Plain :param (matches exactly one non-empty segment)
+        if (single?.type === 'param' && !this.constraintFor(single, paramTypes)) {
+            if (!node.paramChild) node.paramChild = new RouteNode();
+            return node.paramChild;
+        }
+
+        // Constrained param or mixed segment such as ':name.:ext' or 'v:version(\d+)'
+        if (tokens.some(t => t.type === 'param')) {
+            const regex = this.compileSegment(tokens, paramTypes);
+            let edge = node.patternChildren.find(e => e.source === regex.source);
+            if (!edge) {
+                edge = { source: regex.source, regex, node: new RouteNode() };
+                node.patternChildren.push(edge);
+            }
+            return edge.node;
+        }
+
+        const text = tokens.map(t => t.type === 'static' ? t.text : '').join('');
+        let child = node.staticChildren.get(text);
+        if (!child) {
+            child = new RouteNode();
+            node.staticChildren.set(text, child);
+        }
+        return child;
+    }
+
+    // Inline constraint wins over the one implied by the declared param type
+    private constraintFor(token: { name: string; pattern?: string }, paramTypes: Record<string, RouteParamType>): string | undefined {
+        return token.pattern || PARAM_TYPE_PATTERNS[paramTypes[token.name]];
+    }
+
+    // Compile a segment to a regex with exactly one capture group per parameter
+    private compileSegment(tokens: SegmentToken[], paramTypes: Record<string, RouteParamType>): RegExp {
+        const pattern = tokens
+            .map(token => {
+                if (token.type === 'static') {
+                    return token.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                }
+                const constraint = this.constraintFor(token, paramTypes);
+                return constraint ? `(${this.toNonCapturing(constraint)})` : '([^/]+?)';
+            })
+            .join('');
+        return new RegExp(`^${pattern}$`);
+    }
+
+    // Turn capture groups inside a user constraint into non-capturing groups so param positions stay stable
+    private toNonCapturing(pattern: string): string {
+        let result = '';
+        let inClass = false;
+
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+
+            if (char === '\\') {
+                result += char + (pattern[i + 1] ?? '');
+                i++;
+                continue;
+            }
+
+            if (char === '[') inClass = true;
+            else if (char === ']') inClass = false;
+
+            result += !inClass && char === '(' && pattern[i + 1] !== '?' ? '(?:' : char;
+        }
+
+        return result;
+    }
+
+    // Depth-first search in priority order; backtracks when a branch has no accepted route
+    private find(
+        node: RouteNode,
+        segments: string[],
+        index: number,
+        values: string[],
+        accept: (node: RouteNode) => boolean
+    ): RouteNode | null {
+        if (index === segments.length) {
+            return accept(node) ? node : null;
+        }
+
+        const segment = segments[index];
+        const depth = values.length;
+
+        const staticChild = node.staticChildren.get(segment);
+        if (staticChild) {
+            const found = this.find(staticChild, segments, index + 1, values, accept);
+            if (found) return found;
+        }
+
+        for (const edge of node.patternChildren) {
+            const match = segment.match(edge.regex);
+            if (match) {
+                values.push(...match.slice(1));
+                const found = this.find(edge.node, segments, index + 1, values, accept);
+                if (found) return found;
+                values.length = depth;
+            }
+        }
+
+        if (node.paramChild && segment !== '') {
+            values.push(segment);
+            const found = this.find(node.paramChild, segments, index + 1, values, accept);
+            if (found) return found;
+            values.length = depth;
+        }
+
+        if (node.wildcardChild) {
+            // Greedy: consume as many segments as possible, then give back one at a time
+            for (let end = segments.length; end > index; end--) {
+                const captured = segments.slice(index, end).join('/');
+                if (captured === '') continue;
+                values.push(captured);
+                const found = this.find(node.wildcardChild, segments, end, values, accept);
+                if (found) return found;
+                values.length = depth;
+            }
+        }
+
+        return null;
+    }
+}
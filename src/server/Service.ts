@@ -11,4 +11,11 @@ import { Container } from './Container';
  *     }
  * }
  */
-export abstract class Service extends Container {}
+export abstract class Service extends Container {
+    /**
+     * Optional lifecycle hook called when the server shuts down
+     * Use it to flush buffers or close connections opened by the service
+     * @returns {Promise<void>}
+     */
+    async onShutdown?(): Promise<void>;
+}
@@ -0,0 +1,212 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+/** Server-Sent Event */
+export interface SseEvent {
+    /** Event data: strings are sent as-is, anything else as JSON */
+    data: any;
+    /** Event ID, echoed by the browser in Last-Event-ID when it reconnects */
+    id?: string | number;
+    /** Event name (listened to with eventSource.addEventListener(name)) */
+    event?: string;
+    /** Reconnection delay the browser should use, in ms */
+    retry?: number;
+}
+
+/** SSE stream configuration */
+export interface SseOptions {
+    /** Interval between heartbeat comments keeping proxies from closing the connection, in ms (default: 15000, 0 disables) */
+    heartbeat?: number;
+    /** Reconnection delay sent to the browser when the stream opens, in ms */
+    retry?: number;
+}
+
+/**
+ * Format an event in the text/event-stream format
+ * Multi-line data is split into several data fields; line breaks are stripped from id and event
+ * @param {SseEvent} event - Event to format
+ * @returns {string} - Event block, terminated by a blank line
+ * @example
+ * formatSseEvent({ id: 7, event: 'price', data: { eur: 12.5 } })
+ * // 'id: 7\nevent: price\ndata: {"eur":12.5}\n\n'
+ */
+export function formatSseEvent(event: SseEvent): string {
+    let output = '';
+
+    if (event.id !== undefined) {
+        output += `id: ${singleLine(String(event.id))}\n`;
+    }
+    if (event.event) {
+        output += `event: ${singleLine(event.event)}\n`;
+    }
+    if (event.retry !== undefined) {
+        output += `retry: ${Math.max(0, Math.floor(event.retry))}\n`;
+    }
+
+    const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data ?? null);
+    for (const line of data.split(/\r\n|\r|\n/)) {
+        output += `data: ${line}\n`;
+    }
+
+    return output + '\n';
+}
+
+/**
+ * Read the ID of the last event received by a reconnecting client
+ * Uses the Last-Event-ID header, falling back to the lastEventId query parameter used by EventSource polyfills
+ * @param {IncomingMessage} req - HTTP request
+ * @returns {string | undefined} - Last event ID, undefined on a first connection
+ */
+export function getLastEventId(req: IncomingMessage): string | undefined {
+    const header = req.headers['last-event-id'];
+    if (typeof header === 'string' && header !== '') {
+        return header;
+    }
+
+    const query = (req as any).query?.lastEventId;
+    return typeof query === 'string' && query !== '' ? query : undefined;
+}
+
+/**
+ * Server-Sent Events stream over an HTTP response
+ * Created by res.sse(): sends the text/event-stream headers right away, writes events and
+ * heartbeat comments, and closes itself when the client goes away
+ * @example
+ * const stream = res.sse({ retry: 5000 })
+ * const unsubscribe = prices.subscribe(price => stream.send({ id: price.id, event: 'price', data: price }))
+ * stream.onClose(unsubscribe)
+ */
+export class SseStream {
+    /** ID of the last event received by a reconnecting client */
+    readonly lastEventId?: string;
+    /** Aborted when the stream closes, for cancelling pending work */
+    readonly signal: AbortSignal;
+
+    private readonly controller = new AbortController();
+    private readonly closeListeners: Array<() => void> = [];
+    private heartbeatTimer?: NodeJS.Timeout;
+    private isClosed = false;
+
+    /**
+     * Open the stream (use res.sse() instead of calling the constructor directly)
+     * @param {IncomingMessage} req - HTTP request
+     * @param {ServerResponse} res - HTTP response
+     * @param {SseOptions} [options={}] - Stream options
+     */
+    constructor(req: IncomingMessage, private readonly res: ServerResponse, options: SseOptions = {}) {
+        const { heartbeat = 15000, retry } = options;
+
+        this.lastEventId = getLastEventId(req);
+        this.signal = this.controller.signal;
+
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+        res.setHeader('Cache-Control', 'no-cache, no-transform');
+        // Stop nginx from buffering the stream
+        res.setHeader('X-Accel-Buffering', 'no');
+        // HTTP/2 forbids connection-specific headers
+        if (req.httpVersionMajor < 2) {
+            res.setHeader('Connection', 'keep-alive');
+        }
+        res.removeHeader('Content-Length');
+
+        // The response is sent as far as the handler pipeline is concerned
+        (res as any)._responseSent = true;
+        res.flushHeaders();
+
+        if (retry !== undefined) {
+            res.write(`retry: ${Math.max(0, Math.floor(retry))}\n\n`);
+        }
+
+        if (heartbeat > 0) {
+            this.heartbeatTimer = setInterval(() => this.comment('heartbeat'), heartbeat);
+            this.heartbeatTimer.unref();
+        }
+
+        res.once('close', () => this.finalize());
+    }
+
+    /**
+     * True once the stream is closed (by the server or the client)
+     * @returns {boolean}
+     */
+    get closed(): boolean {
+        return this.isClosed;
+    }
+
+    /**
+     * Send an event
+     * @param {SseEvent | any} eventOrData - Event, or data for an unnamed event
+     * @returns {boolean} - False if the stream is closed or the socket buffer is full
+     * @example
+     * stream.send({ event: 'progress', data: { done: 40 } })
+     * stream.send('plain message')
+     */
+    send(eventOrData: SseEvent | any): boolean {
+        if (this.isClosed) {
+            return false;
+        }
+        const event = isSseEvent(eventOrData) ? eventOrData : { data: eventOrData };
+        return this.res.write(formatSseEvent(event));
+    }
+
+    /**
+     * Send a comment line, ignored by EventSource clients
+     * @param {string} text - Comment text
+     * @returns {boolean} - False if the stream is closed
+     */
+    comment(text: string): boolean {
+        if (this.isClosed) {
+            return false;
+        }
+        return this.res.write(`: ${singleLine(text)}\n\n`);
+    }
+
+    /**
+     * Register a callback run once when the stream closes
+     * @param {() => void} listener - Callback
+     * @returns {void}
+     */
+    onClose(listener: () => void): void {
+        if (this.isClosed) {
+            listener();
+            return;
+        }
+        this.closeListeners.push(listener);
+    }
+
+    /**
+     * End the stream
+     * @returns {void}
+     */
+    close(): void {
+        if (this.isClosed) {
+            return;
+        }
+        this.finalize();
+        this.res.end();
+    }
+
+    private finalize(): void {
+        if (this.isClosed) {
+            return;
+        }
+
+        this.isClosed = true;
+        clearInterval(this.heartbeatTimer);
+        this.controller.abort();
+
+        for (const listener of this.closeListeners.splice(0)) {
+            listener();
+        }
+    }
+}
+
+// Events are objects carrying data plus only SSE fields; anything else is data
+function isSseEvent(value: any): value is SseEvent {
+    return !!value && typeof value === 'object' && !Array.isArray(value) && 'data' in value
+        && Object.keys(value).every(key => ['data', 'id', 'event', 'retry'].includes(key));
+}
+
+function singleLine(value: string): string {
+    return value.replace(/[\r\n]/g, '');
+}
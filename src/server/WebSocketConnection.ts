@@ -0,0 +1,553 @@
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import { IncomingMessage, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
+
+/** Close codes defined by RFC 6455 */
+export const WS_CLOSE_CODES = {
+    NORMAL: 1000,
+    GOING_AWAY: 1001,
+    PROTOCOL_ERROR: 1002,
+    UNSUPPORTED_DATA: 1003,
+    NO_STATUS: 1005,
+    ABNORMAL: 1006,
+    INVALID_PAYLOAD: 1007,
+    POLICY_VIOLATION: 1008,
+    MESSAGE_TOO_BIG: 1009,
+    INTERNAL_ERROR: 1011
+} as const;
+
+/** Connection state */
+export type WebSocketReadyState = 'open' | 'closing' | 'closed';
+
+/** WebSocket connection configuration */
+export interface WebSocketOptions {
+    /** Maximum message size in bytes, larger messages close the connection with 1009 (default: 1 MiB) */
+    maxPayload?: number;
+    /** Time to wait for the peer close frame before destroying the socket, in ms (default: 5000) */
+    closeTimeout?: number;
+}
+
+/** Handshake rejection: HTTP status to answer the upgrade request with */
+export interface HandshakeError {
+    statusCode: number;
+    message: string;
+    headers?: Record<string, string>;
+}
+
+// GUID appended to the client key to build Sec-WebSocket-Accept (RFC 6455 section 1.3)
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODES = {
+    CONTINUATION: 0x0,
+    TEXT: 0x1,
+    BINARY: 0x2,
+    CLOSE: 0x8,
+    PING: 0x9,
+    PONG: 0xa
+} as const;
+
+/** Decoded frame */
+interface Frame {
+    fin: boolean;
+    opcode: number;
+    payload: Buffer;
+}
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Compute the Sec-WebSocket-Accept value for a client key
+ * @param {string} key - Sec-WebSocket-Key request header
+ * @returns {string} - Base64 SHA-1 of the key and the WebSocket GUID
+ * @example
+ * computeAcceptKey('dGhlIHNhbXBsZSBub25jZQ==') // 's3pPLMBiTxaQ9kYGzzhZRbK+xOo='
+ */
+export function computeAcceptKey(key: string): string {
+    return createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+}
+
+/**
+ * Validate a WebSocket upgrade request
+ * @param {IncomingMessage} req - Upgrade request
+ * @returns {HandshakeError | null} - Rejection to send, null if the handshake is valid
+ */
+export function validateHandshake(req: IncomingMessage): HandshakeError | null {
+    if (req.method !== 'GET') {
+        return { statusCode: 400, message: 'WebSocket handshake must use GET' };
+    }
+
+    if (String(req.headers.upgrade || '').toLowerCase() !== 'websocket') {
+        return { statusCode: 400, message: 'Missing Upgrade: websocket header' };
+    }
+
+    if (req.headers['sec-websocket-version'] !== '13') {
+        return {
+            statusCode: 426,
+            message: 'Unsupported WebSocket version',
+            headers: { 'Sec-WebSocket-Version': '13' }
+        };
+    }
+
+    const key = req.headers['sec-websocket-key'];
+    if (!key || !/^[A-Za-z0-9+/]{22}==$/.test(key.trim())) {
+        return { statusCode: 400, message: 'Invalid Sec-WebSocket-Key header' };
+    }
+
+    return null;
+}
+
+/**
+ * Pick the subprotocol to use from the Sec-WebSocket-Protocol header
+ * @param {string | undefined} header - Sec-WebSocket-Protocol request header
+ * @param {string[]} supported - Subprotocols supported by the server, in preference order
+ * @returns {string | undefined} - Selected subprotocol
+ */
+export function selectProtocol(header: string | undefined, supported: string[]): string | undefined {
+    if (!header || supported.length === 0) {
+        return undefined;
+    }
+    const requested = header.split(',').map(protocol => protocol.trim());
+    return supported.find(protocol => requested.includes(protocol));
+}
+
+/**
+ * Complete the opening handshake and wrap the socket in a WebSocketConnection
+ * @param {IncomingMessage} req - Validated upgrade request
+ * @param {Duplex} socket - Upgraded socket
+ * @param {Buffer} head - First bytes received after the request headers
+ * @param {WebSocketOptions & { protocol?: string }} [options={}] - Connection options and selected subprotocol
+ * @returns {WebSocketConnection} - Open connection
+ */
+export function acceptWebSocket(
+    req: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+    options: WebSocketOptions & { protocol?: string } = {}
+): WebSocketConnection {
+    const lines = [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${computeAcceptKey(String(req.headers['sec-websocket-key']).trim())}`
+    ];
+    if (options.protocol) {
+        lines.push(`Sec-WebSocket-Protocol: ${options.protocol}`);
+    }
+
+    socket.write(lines.join('\r\n') + '\r\n\r\n');
+
+    return new WebSocketConnection(socket, options, head);
+}
+
+/**
+ * Answer an upgrade request with a plain HTTP error and close the socket
+ * @param {Duplex} socket - Socket of the upgrade request
+ * @param {number} statusCode - HTTP status code
+ * @param {string} [message] - Response body
+ * @param {Record<string, string>} [headers] - Extra response headers
+ * @returns {void}
+ */
+export function rejectUpgrade(socket: Duplex, statusCode: number, message?: string, headers: Record<string, string> = {}): void {
+    if (!socket.writable) {
+        socket.destroy();
+        return;
+    }
+
+    const body = message ?? STATUS_CODES[statusCode] ?? '';
+    const lines = [
+        `HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode] || ''}`,
+        'Connection: close',
+        'Content-Type: text/plain',
+        `Content-Length: ${Buffer.byteLength(body)}`,
+        ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`)
+    ];
+
+    socket.end(lines.join('\r\n') + '\r\n\r\n' + body);
+}
+
+/**
+ * Server side of an RFC 6455 WebSocket connection
+ * Handles framing, fragmentation, masking, control frames and the closing handshake
+ * Events: 'message' (data: string | Buffer, isBinary: boolean), 'ping' (payload), 'pong' (payload),
+ * 'close' (code: number, reason: string), 'error' (error)
+ * @example
+ * const connection = acceptWebSocket(req, socket, head)
+ * connection.on('message', (data) => connection.send(`echo: ${data}`))
+ */
+export class WebSocketConnection extends EventEmitter {
+    /** Current state */
+    readyState: WebSocketReadyState = 'open';
+    /** Negotiated subprotocol */
+    readonly protocol?: string;
+
+    private readonly maxPayload: number;
+    private readonly closeTimeout: number;
+    private buffer: Buffer = Buffer.alloc(0);
+    private fragments: Buffer[] = [];
+    private fragmentOpcode: number | null = null;
+    private fragmentSize = 0;
+    private receiving = true;
+    private closeCode?: number;
+    private closeReason = '';
+    private closeTimer?: NodeJS.Timeout;
+
+    /**
+     * Wrap an upgraded socket (use acceptWebSocket() to perform the handshake)
+     * @param {Duplex} socket - Upgraded socket
+     * @param {WebSocketOptions & { protocol?: string }} [options={}] - Connection options
+     * @param {Buffer} [head] - Bytes already received after the handshake
+     */
+    constructor(private readonly socket: Duplex, options: WebSocketOptions & { protocol?: string } = {}, head?: Buffer) {
+        super();
+        this.maxPayload = options.maxPayload ?? 1024 * 1024;
+        this.closeTimeout = options.closeTimeout ?? 5000;
+        this.protocol = options.protocol;
+
+        (socket as any).setNoDelay?.(true);
+        (socket as any).setTimeout?.(0);
+
+        socket.on('data', (chunk: Buffer) => this.receive(chunk));
+        socket.on('end', () => socket.end());
+        socket.on('close', () => this.finalize());
+        socket.on('error', (error) => {
+            if (this.listenerCount('error') > 0) {
+                this.emit('error', error);
+            }
+            socket.destroy();
+        });
+
+        // Deferred so listeners attached after the handshake see the first messages
+        if (head && head.length > 0) {
+            process.nextTick(() => this.receive(head));
+        }
+    }
+
+    /**
+     * Bytes queued on the socket and not yet sent
+     * @returns {number}
+     */
+    get bufferedAmount(): number {
+        return this.socket.writableLength;
+    }
+
+    /**
+     * Send a message: strings as text frames, Buffers as binary frames
+     * @param {string | Buffer} data - Message
+     * @param {(error?: Error | null) => void} [callback] - Called once the data is flushed
+     * @returns {boolean} - False if the connection is not open or the socket buffer is full
+     */
+    send(data: string | Buffer, callback?: (error?: Error | null) => void): boolean {
+        if (this.readyState !== 'open') {
+            return false;
+        }
+        const binary = Buffer.isBuffer(data);
+        return this.sendFrame(binary ? OPCODES.BINARY : OPCODES.TEXT, binary ? data : Buffer.from(data), callback);
+    }
+
+    /**
+     * Send a ping frame
+     * @param {string | Buffer} [data] - Application data (at most 125 bytes)
+     * @returns {boolean} - False if the connection is not open
+     */
+    ping(data: string | Buffer = Buffer.alloc(0)): boolean {
+        if (this.readyState !== 'open') {
+            return false;
+        }
+        return this.sendFrame(OPCODES.PING, toControlPayload(data));
+    }
+
+    /**
+     * Start the closing handshake
+     * @param {number} [code=1000] - Close code
+     * @param {string} [reason=''] - Close reason (truncated to fit a control frame)
+     * @returns {void}
+     */
+    close(code: number = WS_CLOSE_CODES.NORMAL, reason: string = ''): void {
+        if (this.readyState !== 'open') {
+            return;
+        }
+
+        this.readyState = 'closing';
+        this.closeCode = code;
+        this.closeReason = reason;
+        this.sendFrame(OPCODES.CLOSE, encodeClosePayload(code, reason));
+
+        // The peer answers with its own close frame; do not wait forever for it
+        this.closeTimer = setTimeout(() => this.socket.destroy(), this.closeTimeout);
+        this.closeTimer.unref();
+    }
+
+    /**
+     * Destroy the socket without a closing handshake
+     * @returns {void}
+     */
+    terminate(): void {
+        this.socket.destroy();
+    }
+
+    // Buffer incoming bytes and handle every complete frame
+    private receive(chunk: Buffer): void {
+        if (!this.receiving) {
+            return;
+        }
+
+        this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+        let frame: Frame | null;
+        while (this.receiving && (frame = this.parseFrame())) {
+            this.handleFrame(frame);
+        }
+    }
+
+    // Decode the next frame, null if more bytes are needed or the connection failed
+    private parseFrame(): Frame | null {
+        const buffer = this.buffer;
+        if (buffer.length < 2) {
+            return null;
+        }
+
+        const fin = (buffer[0] & 0x80) !== 0;
+        const rsv = buffer[0] & 0x70;
+        const opcode = buffer[0] & 0x0f;
+        const masked = (buffer[1] & 0x80) !== 0;
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+
+        if (length === 126) {
+            if (buffer.length < 4) return null;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (buffer.length < 10) return null;
+            const high = buffer.readUInt32BE(2);
+            // Payloads above 2^53 cannot be represented, they are far beyond any limit anyway
+            if (high > 0x1fffff) {
+                this.fail(WS_CLOSE_CODES.MESSAGE_TOO_BIG, 'Message too big');
+                return null;
+            }
+            length = high * 2 ** 32 + buffer.readUInt32BE(6);
+            offset = 10;
+        }
+
+        const isControl = (opcode & 0x8) !== 0;
+
+        // Extensions are not negotiated, so reserved bits must be clear; clients must mask their frames
+        if (rsv !== 0 || !masked) {
+            this.fail(WS_CLOSE_CODES.PROTOCOL_ERROR, rsv !== 0 ? 'Reserved bits set' : 'Client frames must be masked');
+            return null;
+        }
+
+        if (isControl && (!fin || length > 125)) {
+            this.fail(WS_CLOSE_CODES.PROTOCOL_ERROR, 'Invalid control frame');
+            return null;
+        }
+
+        if (!isControl && this.fragmentSize + length > this.maxPayload) {
+            this.fail(WS_CLOSE_CODES.MESSAGE_TOO_BIG, 'Message too big');
+            return null;
+        }
+
+        if (buffer.length < offset + 4 + length) {
+            return null;
+        }
+
+        const mask = buffer.subarray(offset, offset + 4);
+        const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+        for (let i = 0; i < payload.length; i++) {
+            payload[i] ^= mask[i & 3];
+        }
+
+        this.buffer = buffer.subarray(offset + 4 + length);
+        return { fin, opcode, payload };
+    }
+
+    private handleFrame(frame: Frame): void {
+        switch (frame.opcode) {
+            case OPCODES.CONTINUATION:
+                if (this.fragmentOpcode === null) {
+                    this.fail(WS_CLOSE_CODES.PROTOCOL_ERROR, 'Unexpected continuation frame');
+                    return;
+                }
+                this.fragments.push(frame.payload);
+                this.fragmentSize += frame.payload.length;
+                if (frame.fin) {
+                    const opcode = this.fragmentOpcode;
+                    const payload = Buffer.concat(this.fragments);
+                    this.fragments = [];
+                    this.fragmentOpcode = null;
+                    this.fragmentSize = 0;
+                    this.deliver(opcode, payload);
+                }
+                return;
+
+            case OPCODES.TEXT:
+            case OPCODES.BINARY:
+                if (this.fragmentOpcode !== null) {
+                    this.fail(WS_CLOSE_CODES.PROTOCOL_ERROR, 'Expected continuation frame');
+                    return;
+                }
+                if (frame.fin) {
+                    this.deliver(frame.opcode, frame.payload);
+                } else {
+                    this.fragmentOpcode = frame.opcode;
+                    this.fragments = [frame.payload];
+                    this.fragmentSize = frame.payload.length;
+                }
+                return;
+
+            case OPCODES.CLOSE:
+                this.handleClose(frame.payload);
+                return;
+
+            case OPCODES.PING:
+                if (this.readyState === 'open') {
+                    this.sendFrame(OPCODES.PONG, frame.payload);
+                }
+                this.emit('ping', frame.payload);
+                return;
+
+            case OPCODES.PONG:
+                this.emit('pong', frame.payload);
+                return;
+
+            default:
+                this.fail(WS_CLOSE_CODES.PROTOCOL_ERROR, 'Unknown opcode');
+        }
+    }
+
+    // Emit a complete message, text messages must be valid UTF-8
+    private deliver(opcode: number, payload: Buffer): void {
+        if (this.readyState !== 'open') {
+            return;
+        }
+
+        if (opcode === OPCODES.BINARY) {
+            this.emit('message', payload, true);
+            return;
+        }
+
+        let text: string;
+        try {
+            text = utf8Decoder.decode(payload);
+        } catch {
+            this.fail(WS_CLOSE_CODES.INVALID_PAYLOAD, 'Invalid UTF-8');
+            return;
+        }
+        this.emit('message', text, false);
+    }
+
+    // Peer close frame: answer it (or complete our own handshake), then end the TCP connection
+    private handleClose(payload: Buffer): void {
+        let code: number = WS_CLOSE_CODES.NO_STATUS;
+        let reason = '';
+
+        if (payload.length === 1) {
+            this.fail(WS_CLOSE_CODES.PROTOCOL_ERROR, 'Invalid close frame');
+            return;
+        }
+
+        if (payload.length >= 2) {
+            code = payload.readUInt16BE(0);
+            if (!isValidCloseCode(code)) {
+                this.fail(WS_CLOSE_CODES.PROTOCOL_ERROR, 'Invalid close code');
+                return;
+            }
+            try {
+                reason = utf8Decoder.decode(payload.subarray(2));
+            } catch {
+                this.fail(WS_CLOSE_CODES.INVALID_PAYLOAD, 'Invalid UTF-8');
+                return;
+            }
+        }
+
+        if (this.readyState === 'open') {
+            this.readyState = 'closing';
+            this.closeCode = code;
+            this.closeReason = reason;
+            this.sendFrame(OPCODES.CLOSE, code === WS_CLOSE_CODES.NO_STATUS ? Buffer.alloc(0) : encodeClosePayload(code, ''));
+        }
+
+        this.receiving = false;
+        this.socket.end();
+    }
+
+    // Fail the connection: send a close frame with the error and stop reading
+    private fail(code: number, reason: string): void {
+        this.receiving = false;
+        this.buffer = Buffer.alloc(0);
+
+        if (this.readyState === 'open') {
+            this.readyState = 'closing';
+            this.closeCode = code;
+            this.closeReason = reason;
+            this.sendFrame(OPCODES.CLOSE, encodeClosePayload(code, reason));
+        }
+
+        this.socket.end();
+        this.closeTimer = setTimeout(() => this.socket.destroy(), this.closeTimeout);
+        this.closeTimer.unref();
+    }
+
+    private finalize(): void {
+        if (this.readyState === 'closed') {
+            return;
+        }
+
+        clearTimeout(this.closeTimer);
+        const code = this.readyState === 'open' ? WS_CLOSE_CODES.ABNORMAL : (this.closeCode ?? WS_CLOSE_CODES.NO_STATUS);
+        this.readyState = 'closed';
+        this.receiving = false;
+        this.emit('close', code, this.closeReason);
+    }
+
+    // Write an unmasked frame (server frames are never masked)
+    private sendFrame(opcode: number, payload: Buffer, callback?: (error?: Error | null) => void): boolean {
+        if (!this.socket.writable) {
+            return false;
+        }
+
+        const length = payload.length;
+        let header: Buffer;
+
+        if (length < 126) {
+            header = Buffer.alloc(2);
+            header[1] = length;
+        } else if (length < 65536) {
+            header = Buffer.alloc(4);
+            header[1] = 126;
+            header.writeUInt16BE(length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header[1] = 127;
+            header.writeUInt32BE(Math.floor(length / 2 ** 32), 2);
+            header.writeUInt32BE(length >>> 0, 6);
+        }
+
+        header[0] = 0x80 | opcode;
+        return this.socket.write(Buffer.concat([header, payload]), callback);
+    }
+}
+
+// Close codes a peer may send (RFC 6455 section 7.4)
+function isValidCloseCode(code: number): boolean {
+    return (code >= 1000 && code <= 1003) || (code >= 1007 && code <= 1014) || (code >= 3000 && code <= 4999);
+}
+
+function encodeClosePayload(code: number, reason: string): Buffer {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    return Buffer.concat([payload, toControlPayload(reason, 123)]);
+}
+
+// Control frame payloads are limited to 125 bytes
+function toControlPayload(data: string | Buffer, max: number = 125): Buffer {
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    if (buffer.length <= max) {
+        return buffer;
+    }
+    // Do not cut a multi-byte character in half
+    let end = max;
+    while (end > 0 && (buffer[end] & 0xc0) === 0x80) end--;
+    return buffer.subarray(0, end);
+}
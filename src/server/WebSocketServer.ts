@@ -0,0 +1,514 @@
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { HttpException } from '@/core/errors';
+import { logger } from '@/core/logger';
+import { MessageHandlerMetadata, WebSocketGatewayOptions } from './decorators/WebSocketDecorator';
+import { RequestContext } from './RequestContext';
+import {
+    acceptWebSocket,
+    rejectUpgrade,
+    selectProtocol,
+    validateHandshake,
+    WebSocketConnection,
+    WS_CLOSE_CODES
+} from './WebSocketConnection';
+
+/** Resolve the user of an upgrade request, throwing (or returning nothing) if it is not authenticated */
+export type WebSocketAuthenticator = (req: IncomingMessage) => Promise<any>;
+
+/** Registered gateway */
+interface GatewayEntry {
+    instance: any;
+    options: WebSocketGatewayOptions;
+    handlers: Map<string, string>;
+    server: GatewayServer;
+}
+
+/**
+ * Client connected to a gateway
+ * Messages are sent as JSON { event, data } envelopes
+ */
+export class WebSocketClient {
+    /** Unique client ID */
+    readonly id: string = randomUUID();
+    /** Rooms the client joined */
+    readonly rooms: Set<string> = new Set();
+    /** Per-connection storage for gateway state */
+    readonly data: Record<string, any> = {};
+
+    /**
+     * @param {WebSocketConnection} connection - Underlying connection
+     * @param {IncomingMessage} request - Upgrade request (headers, url, socket address)
+     * @param {GatewayServer} server - Gateway the client is connected to
+     * @param {any} [user] - Authenticated user
+     */
+    constructor(
+        readonly connection: WebSocketConnection,
+        readonly request: IncomingMessage,
+        private readonly server: GatewayServer,
+        public user?: any
+    ) {}
+
+    /**
+     * Send an event to the client
+     * @param {string} event - Event name
+     * @param {any} [data] - Event data (JSON serializable)
+     * @returns {boolean} - False if the connection is not open
+     */
+    send(event: string, data?: any): boolean {
+        return this.connection.send(JSON.stringify({ event, data }));
+    }
+
+    /**
+     * Send a raw text or binary message, without the event envelope
+     * @param {string | Buffer} message - Message
+     * @returns {boolean} - False if the connection is not open
+     */
+    sendRaw(message: string | Buffer): boolean {
+        return this.connection.send(message);
+    }
+
+    /**
+     * Join a room
+     * @param {string} room - Room name
+     * @returns {void}
+     */
+    join(room: string): void {
+        this.server.join(this, room);
+    }
+
+    /**
+     * Leave a room
+     * @param {string} room - Room name
+     * @returns {void}
+     */
+    leave(room: string): void {
+        this.server.leave(this, room);
+    }
+
+    /**
+     * Close the connection
+     * @param {number} [code=1000] - Close code
+     * @param {string} [reason=''] - Close reason
+     * @returns {void}
+     */
+    close(code: number = WS_CLOSE_CODES.NORMAL, reason: string = ''): void {
+        this.connection.close(code, reason);
+    }
+}
+
+/** Target of a room broadcast */
+export interface RoomBroadcast {
+    /**
+     * Send an event to every client of the room(s)
+     * @param {string} event - Event name
+     * @param {any} [data] - Event data
+     * @param {WebSocketClient} [except] - Client to skip (usually the sender)
+     * @returns {number} - Number of clients the event was sent to
+     */
+    emit(event: string, data?: any, except?: WebSocketClient): number;
+}
+
+/**
+ * Connected clients and rooms of a gateway, available as this.server in gateways
+ * @example
+ * this.server.broadcast('announcement', { text: 'Maintenance at 22:00' })
+ * this.server.to('room:42').emit('message', payload, client)
+ */
+export class GatewayServer {
+    /** Connected clients by ID */
+    readonly clients: Map<string, WebSocketClient> = new Map();
+    private rooms: Map<string, Set<WebSocketClient>> = new Map();
+
+    /**
+     * @param {string} path - Gateway path
+     */
+    constructor(readonly path: string) {}
+
+    /**
+     * Send an event to every connected client
+     * @param {string} event - Event name
+     * @param {any} [data] - Event data
+     * @param {WebSocketClient} [except] - Client to skip (usually the sender)
+     * @returns {number} - Number of clients the event was sent to
+     */
+    broadcast(event: string, data?: any, except?: WebSocketClient): number {
+        return this.sendTo(this.clients.values(), event, data, except);
+    }
+
+    /**
+     * Target the clients of one or more rooms
+     * @param {string | string[]} rooms - Room name(s)
+     * @returns {RoomBroadcast} - Broadcast target
+     */
+    to(rooms: string | string[]): RoomBroadcast {
+        return {
+            emit: (event: string, data?: any, except?: WebSocketClient) => {
+                const targets = new Set<WebSocketClient>();
+                for (const room of Array.isArray(rooms) ? rooms : [rooms]) {
+                    for (const client of this.rooms.get(room) || []) targets.add(client);
+                }
+                return this.sendTo(targets, event, data, except);
+            }
+        };
+    }
+
+    /**
+     * Get the clients of a room, or every connected client
+     * @param {string} [room] - Room name
+     * @returns {WebSocketClient[]} - Clients
+     */
+    getClients(room?: string): WebSocketClient[] {
+        return room === undefined
+            ? Array.from(this.clients.values())
+            : Array.from(this.rooms.get(room) || []);
+    }
+
+    /**
+     * Add a client to a room
+     * @param {WebSocketClient} client - Client
+     * @param {string} room - Room name
+     * @returns {void}
+     */
+    join(client: WebSocketClient, room: string): void {
+        if (!this.rooms.has(room)) {
+            this.rooms.set(room, new Set());
+        }
+        this.rooms.get(room)!.add(client);
+        client.rooms.add(room);
+    }
+
+    /**
+     * Remove a client from a room, dropping the room once empty
+     * @param {WebSocketClient} client - Client
+     * @param {string} room - Room name
+     * @returns {void}
+     */
+    leave(client: WebSocketClient, room: string): void {
+        const members = this.rooms.get(room);
+        members?.delete(client);
+        if (members && members.size === 0) {
+            this.rooms.delete(room);
+        }
+        client.rooms.delete(room);
+    }
+
+    /**
+     * Track a newly connected client
+     * @param {WebSocketClient} client - Client
+     * @returns {void}
+     */
+    add(client: WebSocketClient): void {
+        this.clients.set(client.id, client);
+    }
+
+    /**
+     * Forget a disconnected client and remove it from its rooms
+     * @param {WebSocketClient} client - Client
+     * @returns {void}
+     */
+    remove(client: WebSocketClient): void {
+        for (const room of Array.from(client.rooms)) {
+            this.leave(client, room);
+        }
+        this.clients.delete(client.id);
+    }
+
+    // Serialize once and send to every target
+    private sendTo(clients: Iterable<WebSocketClient>, event: string, data: any, except?: WebSocketClient): number {
+        const message = JSON.stringify({ event, data });
+        let sent = 0;
+
+        for (const client of clients) {
+            if (client !== except && client.sendRaw(message)) {
+                sent++;
+            }
+        }
+
+        return sent;
+    }
+}
+
+/**
+ * WebSocket endpoint of a LyraServer
+ * Routes upgrade requests to gateways, authenticates them, dispatches messages to
+ * @OnMessage handlers and keeps connections alive with ping/pong
+ */
+export class WebSocketServer {
+    private gateways: Map<string, GatewayEntry> = new Map();
+    private awaitingPong: Set<WebSocketClient> = new Set();
+    private pingTimer: NodeJS.Timeout | null = null;
+    private closing = false;
+
+    /**
+     * @param {WebSocketAuthenticator} [authenticate] - User resolution for gateways with auth enabled
+     */
+    constructor(private readonly authenticate?: WebSocketAuthenticator) {}
+
+    /**
+     * Register a gateway instance
+     * @param {any} instance - Gateway instance (dependencies already injected)
+     * @param {WebSocketGatewayOptions} options - Gateway configuration (path already prefixed)
+     * @param {MessageHandlerMetadata[]} handlers - Message handlers
+     * @returns {GatewayServer} - Clients and rooms of the gateway
+     * @throws {Error} - If another gateway already uses the path
+     */
+    addGateway(instance: any, options: WebSocketGatewayOptions, handlers: MessageHandlerMetadata[]): GatewayServer {
+        const path = normalizePath(options.path);
+        if (this.gateways.has(path)) {
+            throw new Error(`A WebSocket gateway is already registered on ${path}`);
+        }
+
+        const server = new GatewayServer(path);
+        this.gateways.set(path, {
+            instance,
+            options,
+            handlers: new Map(handlers.map(handler => [handler.event, handler.methodName])),
+            server
+        });
+
+        return server;
+    }
+
+    /**
+     * Get the paths of the registered gateways
+     * @returns {string[]} - Gateway paths
+     */
+    getPaths(): string[] {
+        return Array.from(this.gateways.keys());
+    }
+
+    /**
+     * Handle an HTTP upgrade request
+     * @param {IncomingMessage} req - Upgrade request
+     * @param {Duplex} socket - Client socket
+     * @param {Buffer} head - First bytes after the request headers
+     * @returns {boolean} - False if no gateway is registered on the request path
+     */
+    handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+        const gateway = this.gateways.get(normalizePath((req.url || '/').split('?')[0]));
+        if (!gateway) {
+            return false;
+        }
+
+        this.upgrade(gateway, req, socket, head).catch((error) => {
+            logger.error(`WebSocket upgrade failed on ${gateway.server.path}: ${String(error)}`);
+            rejectUpgrade(socket, 500);
+        });
+
+        return true;
+    }
+
+    /**
+     * Start the ping/pong keepalive: clients that did not answer the previous ping are terminated
+     * @param {number} interval - Ping interval in ms (0 disables the keepalive)
+     * @returns {void}
+     */
+    start(interval: number): void {
+        if (this.pingTimer || interval <= 0) {
+            return;
+        }
+
+        this.pingTimer = setInterval(() => {
+            for (const { server } of this.gateways.values()) {
+                for (const client of server.clients.values()) {
+                    if (this.awaitingPong.has(client)) {
+                        client.connection.terminate();
+                        continue;
+                    }
+                    this.awaitingPong.add(client);
+                    client.connection.ping();
+                }
+            }
+        }, interval);
+        this.pingTimer.unref();
+    }
+
+    /**
+     * Close every connection with 1001 (Going Away) and stop the keepalive
+     * @returns {Promise<void>} - Resolves once all connections are closed
+     */
+    close(): Promise<void> {
+        this.closing = true;
+
+        if (this.pingTimer) {
+            clearInterval(this.pingTimer);
+            this.pingTimer = null;
+        }
+
+        const closed: Promise<void>[] = [];
+        for (const { server } of this.gateways.values()) {
+            for (const client of server.clients.values()) {
+                closed.push(new Promise(resolve => client.connection.once('close', () => resolve())));
+                client.close(WS_CLOSE_CODES.GOING_AWAY, 'Server shutting down');
+            }
+        }
+
+        return Promise.all(closed).then(() => undefined);
+    }
+
+    // Validate, authenticate and accept an upgrade request
+    private async upgrade(gateway: GatewayEntry, req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+        const handshakeError = validateHandshake(req);
+        if (handshakeError) {
+            rejectUpgrade(socket, handshakeError.statusCode, handshakeError.message, handshakeError.headers);
+            return;
+        }
+
+        if (this.closing) {
+            rejectUpgrade(socket, 503);
+            return;
+        }
+
+        // Browsers send cookies with cross-site upgrades: refuse foreign origins before authenticating
+        if (!isOriginAllowed(req, gateway.options)) {
+            rejectUpgrade(socket, 403);
+            return;
+        }
+
+        let user: any;
+        if (gateway.options.auth) {
+            try {
+                user = this.authenticate ? await this.authenticate(req) : undefined;
+            } catch (error) {
+                user = undefined;
+            }
+
+            if (!user) {
+                rejectUpgrade(socket, 401);
+                return;
+            }
+        }
+
+        // The client may have given up while the user was loaded
+        if (socket.destroyed) {
+            return;
+        }
+
+        const connection = acceptWebSocket(req, socket, head, {
+            maxPayload: gateway.options.maxPayload,
+            protocol: selectProtocol(req.headers['sec-websocket-protocol'] as string | undefined, gateway.options.protocols || [])
+        });
+
+        const client = new WebSocketClient(connection, req, gateway.server, user);
+        gateway.server.add(client);
+
+        // Messages of a client are handled one after the other, in the order they arrived
+        let pending: Promise<void> = Promise.resolve();
+
+        connection.on('pong', () => this.awaitingPong.delete(client));
+        connection.on('message', (data: string | Buffer, isBinary: boolean) => {
+            this.awaitingPong.delete(client);
+            pending = pending
+                .then(() => this.dispatch(gateway, client, data, isBinary))
+                .catch((error) => {
+                    logger.error(`WebSocket message dispatch failed on ${gateway.server.path}: ${String(error)}`);
+                });
+        });
+        connection.once('close', (code: number, reason: string) => {
+            gateway.server.remove(client);
+            this.awaitingPong.delete(client);
+            this.invoke(gateway, client, 'onDisconnect', [client, code, reason]).catch((error) => {
+                logger.error(`onDisconnect failed on ${gateway.server.path}: ${String(error)}`);
+            });
+        });
+
+        try {
+            await this.invoke(gateway, client, 'onConnect', [client]);
+        } catch (error) {
+            // A gateway rejects a client by throwing from onConnect
+            if (error instanceof HttpException) {
+                client.close(WS_CLOSE_CODES.POLICY_VIOLATION, error.message);
+            } else {
+                logger.error(`onConnect failed on ${gateway.server.path}: ${String(error)}`);
+                client.close(WS_CLOSE_CODES.INTERNAL_ERROR, 'Internal server error');
+            }
+        }
+    }
+
+    // Route a message to its @OnMessage handler and send back the returned value
+    private async dispatch(gateway: GatewayEntry, client: WebSocketClient, message: string | Buffer, isBinary: boolean): Promise<void> {
+        let event = 'message';
+        let data: any = message;
+
+        if (!isBinary) {
+            try {
+                const parsed = JSON.parse(message as string);
+                if (parsed && typeof parsed === 'object' && typeof parsed.event === 'string') {
+                    event = parsed.event;
+                    data = parsed.data;
+                }
+            } catch {
+                // Not an envelope: delivered as a raw 'message' event
+            }
+        }
+
+        const methodName = gateway.handlers.get(event);
+        if (!methodName) {
+            client.send('error', { event, message: `Unknown event '${event}'` });
+            return;
+        }
+
+        try {
+            const result = await this.invoke(gateway, client, methodName, [client, data]);
+            if (result !== undefined) {
+                client.send(event, result);
+            }
+        } catch (error: any) {
+            if (!(error instanceof HttpException)) {
+                logger.error(`WebSocket handler ${event} failed on ${gateway.server.path}: ${String(error)}`);
+            }
+            client.send('error', {
+                event,
+                status: error instanceof HttpException ? error.status : 500,
+                message: error instanceof HttpException ? error.message : 'Internal server error'
+            });
+        }
+    }
+
+    // Call a gateway method inside a request context carrying the client user
+    private async invoke(gateway: GatewayEntry, client: WebSocketClient, methodName: string, args: any[]): Promise<any> {
+        const method = gateway.instance[methodName];
+        if (typeof method !== 'function') {
+            return undefined;
+        }
+
+        return RequestContext.run({
+            method: 'WS',
+            path: gateway.server.path,
+            user: client.user,
+            values: new Map([['websocketClient', client.id]])
+        }, () => method.apply(gateway.instance, args));
+    }
+}
+
+// Check the Origin header against the gateway origins, or against the Host header for authenticated gateways
+function isOriginAllowed(req: IncomingMessage, options: WebSocketGatewayOptions): boolean {
+    if (!options.origins && !options.auth) {
+        return true;
+    }
+
+    const origin = req.headers.origin;
+    if (!origin) {
+        return false;
+    }
+
+    if (typeof options.origins === 'function') {
+        return options.origins(origin);
+    }
+    if (options.origins) {
+        return options.origins.includes(origin);
+    }
+
+    try {
+        return new URL(origin).host === req.headers.host;
+    } catch {
+        return false;
+    }
+}
+
+// Ignore a trailing slash when matching gateway paths
+function normalizePath(path: string): string {
+    return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
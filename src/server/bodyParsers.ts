@@ -0,0 +1,285 @@
+import {BadRequestException, UnsupportedMediaTypeException} from '@/core/errors';
+import {decodeCbor} from './cbor';
+import {decodeMsgPack} from './msgpack';
+import {MultipartOptions, parseMultipart} from './multipart';
+import {parseQueryString, QueryStringOptions} from './qs';
+import {Request} from './serverTypes';
+import {parseXML, XmlOptions, XmlParseError} from './xmlParser';
+
+/** Built-in body parser names */
+export type BuiltinParserType = 'json' | 'xml' | 'urlencoded' | 'text' | 'raw' | 'buffer' | 'ndjson' | 'msgpack' | 'cbor' | 'multipart';
+
+/** Parser type for request body parsing: a built-in or a registered parser name */
+export type ParserType = BuiltinParserType | (string & {});
+
+/** Parser receiving the buffered body, limited by the 'request max size' setting */
+export type ContentTypeParser = (body: Buffer, req: Request) => any;
+
+/** Parser consuming the request stream by itself, it is responsible for limiting the body size */
+export type StreamContentTypeParser = (req: Request) => any;
+
+/** Content type parser registration options */
+export interface ContentTypeParserOptions {
+    /** Name used by the route parserType option (default: the first MIME type) */
+    name?: string;
+    /** Hand the request stream to the parser instead of the buffered body */
+    stream?: boolean;
+}
+
+/** Registered content type parser */
+export interface RegisteredBodyParser {
+    name: string;
+    mimeTypes: string[];
+    parser: ContentTypeParser | StreamContentTypeParser;
+    stream: boolean;
+}
+
+/** MIME types handled by the built-in parsers */
+export const BUILTIN_PARSER_MIME_TYPES: Record<BuiltinParserType, string[]> = {
+    json: ['application/json'],
+    xml: ['application/xml', 'text/xml'],
+    urlencoded: ['application/x-www-form-urlencoded'],
+    text: ['text/*'],
+    raw: [],
+    buffer: ['application/octet-stream'],
+    ndjson: ['application/x-ndjson', 'application/ndjson'],
+    msgpack: ['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'],
+    cbor: ['application/cbor'],
+    multipart: ['multipart/form-data']
+};
+
+/**
+ * Registry of the body parsers, looked up by route parserType name or by request Content-Type
+ * Content types match exactly first, then by structured syntax suffix (application/vnd.api+json
+ * uses the application/json parser), then by wildcard (text/*, then *\/*)
+ */
+export class BodyParserRegistry {
+    private parsers: RegisteredBodyParser[] = [];
+
+    /**
+     * Create a registry holding the built-in parsers
+     * @param {QueryStringOptions} [urlencodedOptions] - Limits of the urlencoded parser
+     * @param {XmlOptions} [xmlOptions] - Mapping and limits of the XML parser
+     */
+    constructor(urlencodedOptions?: QueryStringOptions, xmlOptions?: XmlOptions) {
+        this.add(BUILTIN_PARSER_MIME_TYPES.json, jsonBodyParser, { name: 'json' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.xml, xmlBodyParser(xmlOptions), { name: 'xml' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.urlencoded, urlencodedBodyParser(urlencodedOptions), { name: 'urlencoded' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.text, textBodyParser, { name: 'text' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.raw, textBodyParser, { name: 'raw' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.buffer, bufferBodyParser, { name: 'buffer' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.ndjson, ndjsonBodyParser, { name: 'ndjson' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.msgpack, msgpackBodyParser, { name: 'msgpack' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.cbor, cborBodyParser, { name: 'cbor' });
+        this.add(BUILTIN_PARSER_MIME_TYPES.multipart, multipartBodyParser(), { name: 'multipart', stream: true });
+    }
+
+    /**
+     * Register a parser, replacing the parser registered under the same name
+     * Parsers registered later take precedence for the MIME types they share with earlier ones
+     * @param {string | string[]} mimeTypes - MIME types (wildcards such as 'text/*' allowed)
+     * @param {ContentTypeParser | StreamContentTypeParser} parser - Parser
+     * @param {ContentTypeParserOptions} [options] - Name and streaming mode
+     * @returns {this} - Registry for chaining
+     */
+    add(mimeTypes: string | string[], parser: ContentTypeParser | StreamContentTypeParser, options: ContentTypeParserOptions = {}): this {
+        const types = (Array.isArray(mimeTypes) ? mimeTypes : [mimeTypes]).map(type => type.trim().toLowerCase());
+        const name = options.name || types[0];
+        if (!name) {
+            throw new Error('A content type parser needs a MIME type or a name');
+        }
+
+        this.parsers = this.parsers.filter(entry => entry.name !== name);
+        this.parsers.push({ name, mimeTypes: types, parser, stream: options.stream === true });
+        return this;
+    }
+
+    /**
+     * Find a parser by name (or by one of its MIME types)
+     * @param {string} name - Parser name
+     * @returns {RegisteredBodyParser | undefined} - Registered parser
+     */
+    get(name: string): RegisteredBodyParser | undefined {
+        return this.parsers.find(entry => entry.name === name)
+            || this.findLast(entry => entry.mimeTypes.includes(name.toLowerCase()));
+    }
+
+    /**
+     * Find the parser handling a Content-Type header
+     * @param {string} contentType - Content-Type header, parameters included
+     * @returns {RegisteredBodyParser | undefined} - Best matching parser
+     */
+    match(contentType: string): RegisteredBodyParser | undefined {
+        const mimeType = contentType.split(';')[0].trim().toLowerCase();
+        if (!mimeType) return undefined;
+
+        const [type, subtype = ''] = mimeType.split('/');
+        const suffix = subtype.includes('+') ? `${type}/${subtype.slice(subtype.lastIndexOf('+') + 1)}` : undefined;
+
+        return this.findLast(entry => entry.mimeTypes.includes(mimeType))
+            || (suffix ? this.findLast(entry => entry.mimeTypes.includes(suffix)) : undefined)
+            || this.findLast(entry => entry.mimeTypes.includes(`${type}/*`))
+            || this.findLast(entry => entry.mimeTypes.includes('*/*'));
+    }
+
+    // Latest registration wins
+    private findLast(predicate: (entry: RegisteredBodyParser) => boolean): RegisteredBodyParser | undefined {
+        for (let i = this.parsers.length - 1; i >= 0; i--) {
+            if (predicate(this.parsers[i])) return this.parsers[i];
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Decode a body using the charset of its Content-Type (default: utf-8)
+ * @param {Buffer} body - Raw body
+ * @param {string} [contentType] - Content-Type header
+ * @returns {string} - Decoded text
+ * @throws {UnsupportedMediaTypeException} - 415 when the charset is unknown
+ * @example
+ * decodeBody(body, 'text/plain; charset=iso-8859-1')
+ */
+export function decodeBody(body: Buffer, contentType?: string): string {
+    const charset = /;\s*charset\s*=\s*"?([^";\s]+)"?/i.exec(contentType || '')?.[1] || 'utf-8';
+    try {
+        return new TextDecoder(charset.toLowerCase()).decode(body);
+    } catch {
+        throw new UnsupportedMediaTypeException(`Unsupported charset "${charset}"`);
+    }
+}
+
+/**
+ * Parse a JSON body (empty bodies give {})
+ * @param {Buffer} body - Raw body
+ * @param {Request} req - Request
+ * @returns {any} - Parsed JSON
+ * @throws {BadRequestException} - 400 when the body is not valid JSON
+ */
+export function jsonBodyParser(body: Buffer, req: Request): any {
+    const text = decodeBody(body, req.headers['content-type']);
+    if (!text.trim()) return {};
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new BadRequestException('Invalid JSON body');
+    }
+}
+
+/**
+ * Create a parser for XML bodies (empty bodies give {})
+ * @param {XmlOptions} [options] - Attribute and text mapping, depth and size limits
+ * @returns {ContentTypeParser} - Parser, throwing BadRequestException (400) for malformed documents and DOCTYPEs
+ * @example
+ * xmlBodyParser({ stripNamespaces: true, maxDepth: 32 })
+ */
+export function xmlBodyParser(options?: XmlOptions): ContentTypeParser {
+    return (body: Buffer, req: Request) => {
+        const text = decodeBody(body, req.headers['content-type']);
+        if (!text.trim()) return {};
+        try {
+            return parseXML(text, options);
+        } catch (error) {
+            if (error instanceof XmlParseError) {
+                throw new BadRequestException(`Invalid XML body: ${error.message}`);
+            }
+            throw error;
+        }
+    };
+}
+
+/**
+ * Create a parser for application/x-www-form-urlencoded bodies, with qs semantics
+ * @param {QueryStringOptions} [options] - Depth, parameter and array index limits
+ * @returns {ContentTypeParser} - Parser
+ * @example
+ * urlencodedBodyParser({ depth: 2, parameterLimit: 100 })
+ */
+export function urlencodedBodyParser(options?: QueryStringOptions): ContentTypeParser {
+    return (body: Buffer) => parseQueryString(body.toString('utf-8'), options);
+}
+
+/**
+ * Parse a text body, decoded with its charset
+ * @param {Buffer} body - Raw body
+ * @param {Request} req - Request
+ * @returns {string} - Decoded text
+ */
+export function textBodyParser(body: Buffer, req: Request): string {
+    return decodeBody(body, req.headers['content-type']);
+}
+
+/**
+ * Keep a body as a Buffer (application/octet-stream)
+ * @param {Buffer} body - Raw body
+ * @returns {Buffer} - The body itself
+ */
+export function bufferBodyParser(body: Buffer): Buffer {
+    return body;
+}
+
+/**
+ * Parse a newline delimited JSON body into an array, one item per non-empty line
+ * @param {Buffer} body - Raw body
+ * @param {Request} req - Request
+ * @returns {any[]} - Parsed lines
+ * @throws {BadRequestException} - 400 naming the first invalid line
+ */
+export function ndjsonBodyParser(body: Buffer, req: Request): any[] {
+    const lines = decodeBody(body, req.headers['content-type']).split(/\r?\n/);
+    const items: any[] = [];
+    lines.forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+            items.push(JSON.parse(line));
+        } catch {
+            throw new BadRequestException(`Invalid JSON on line ${index + 1}`);
+        }
+    });
+    return items;
+}
+
+/**
+ * Parse a MessagePack body (empty bodies give {})
+ * @param {Buffer} body - Raw body
+ * @returns {any} - Decoded value
+ * @throws {BadRequestException} - 400 when the body is not valid MessagePack
+ */
+export function msgpackBodyParser(body: Buffer): any {
+    if (body.length === 0) return {};
+    try {
+        return decodeMsgPack(body);
+    } catch {
+        throw new BadRequestException('Invalid MessagePack body');
+    }
+}
+
+/**
+ * Parse a CBOR body (empty bodies give {})
+ * @param {Buffer} body - Raw body
+ * @returns {any} - Decoded value
+ * @throws {BadRequestException} - 400 when the body is not valid CBOR
+ */
+export function cborBodyParser(body: Buffer): any {
+    if (body.length === 0) return {};
+    try {
+        return decodeCbor(body);
+    } catch {
+        throw new BadRequestException('Invalid CBOR body');
+    }
+}
+
+/**
+ * Create a streaming parser for multipart/form-data bodies
+ * Fields and files go to req.multipartData and the body is {}; @Upload options of the route override the given ones
+ * @param {MultipartOptions} [options] - Storage and limits
+ * @returns {StreamContentTypeParser} - Parser, throwing PayloadTooLargeException (413) when a limit is exceeded
+ * @example
+ * multipartBodyParser({ storage: 'disk', dest: './uploads', maxFiles: 3 })
+ */
+export function multipartBodyParser(options?: MultipartOptions): StreamContentTypeParser {
+    return async (req: Request) => {
+        req.multipartData = await parseMultipart(req, { ...options, ...req._upload });
+        return {};
+    };
+}
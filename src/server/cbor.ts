@@ -0,0 +1,319 @@
+/**
+ * Built-in CBOR (RFC 8949) encoder and decoder for LyraJS
+ * Dates are encoded as epoch-based date/time (tag 1), Buffers as byte strings; objects are encoded like
+ * JSON.stringify encodes them (toJSON() is honoured, undefined and function properties are skipped)
+ */
+
+/** Maximum nesting of arrays, maps and tags, protecting against cyclic values and hostile payloads */
+const MAX_DEPTH = 512;
+
+// Major types
+const UNSIGNED = 0;
+const NEGATIVE = 1;
+const BYTES = 2;
+const TEXT = 3;
+const ARRAY = 4;
+const MAP = 5;
+const TAG = 6;
+const SIMPLE = 7;
+
+// Breaks an indefinite-length item
+const BREAK = 0xff;
+
+// 64-bit integer bound (BigInt literals need ES2020)
+const UINT64_MAX = BigInt('0xffffffffffffffff');
+
+/**
+ * Encode a value as CBOR
+ * @param {any} value - Value to encode
+ * @returns {Buffer} - Encoded bytes
+ * @throws {RangeError} - When the value nests too deeply (or is cyclic), or a bigint does not fit 64 bits
+ * @example
+ * res.end(encodeCbor({ id: 1, tags: ['a'], createdAt: new Date() }))
+ */
+export function encodeCbor(value: any): Buffer {
+    const parts: Buffer[] = [];
+    encodeValue(value, parts, 0);
+    return Buffer.concat(parts);
+}
+
+/**
+ * Decode a CBOR document
+ * Tags 0 and 1 give Dates, tags 2 and 3 bigints; other tags are skipped and give their content
+ * @param {Buffer} data - Encoded bytes, holding exactly one data item
+ * @returns {any} - Decoded value (64-bit integers outside the safe range become bigints)
+ * @throws {RangeError} - When the data is truncated, malformed or followed by trailing bytes
+ * @example
+ * const body = decodeCbor(buffer)
+ */
+export function decodeCbor(data: Buffer): any {
+    const reader = { data, offset: 0 };
+    const value = decodeValue(reader, 0);
+    if (reader.offset !== data.length) {
+        throw new RangeError('Unexpected trailing bytes after CBOR data item');
+    }
+    return value;
+}
+
+function encodeValue(value: any, parts: Buffer[], depth: number): void {
+    if (depth > MAX_DEPTH) {
+        throw new RangeError('CBOR value is nested too deeply');
+    }
+
+    if (value === null || value === undefined) {
+        parts.push(Buffer.from([0xf6]));
+    } else if (typeof value === 'boolean') {
+        parts.push(Buffer.from([value ? 0xf5 : 0xf4]));
+    } else if (typeof value === 'number') {
+        encodeNumber(value, parts);
+    } else if (typeof value === 'bigint') {
+        if (value > UINT64_MAX || -value - BigInt(1) > UINT64_MAX) {
+            throw new RangeError(`${value} does not fit a 64-bit CBOR integer`);
+        }
+        parts.push(value >= BigInt(0) ? head(UNSIGNED, value) : head(NEGATIVE, -value - BigInt(1)));
+    } else if (typeof value === 'string') {
+        const bytes = Buffer.from(value, 'utf-8');
+        parts.push(head(TEXT, bytes.length), bytes);
+    } else if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+        parts.push(head(BYTES, value.length), Buffer.from(value));
+    } else if (value instanceof Date) {
+        parts.push(head(TAG, 1));
+        encodeNumber(value.getTime() / 1000, parts);
+    } else if (Array.isArray(value)) {
+        parts.push(head(ARRAY, value.length));
+        value.forEach(item => encodeValue(item, parts, depth + 1));
+    } else if (value instanceof Map) {
+        parts.push(head(MAP, value.size));
+        value.forEach((item, key) => {
+            encodeValue(key, parts, depth + 1);
+            encodeValue(item, parts, depth + 1);
+        });
+    } else if (typeof value.toJSON === 'function') {
+        encodeValue(value.toJSON(), parts, depth + 1);
+    } else if (typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined && typeof item !== 'function');
+        parts.push(head(MAP, entries.length));
+        for (const [key, item] of entries) {
+            encodeValue(key, parts, depth + 1);
+            encodeValue(item, parts, depth + 1);
+        }
+    } else {
+        // Functions and symbols have no CBOR representation
+        parts.push(Buffer.from([0xf6]));
+    }
+}
+
+// Integers use the shortest head, other numbers a float32 when lossless, else a float64
+function encodeNumber(value: number, parts: Buffer[]): void {
+    if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+        parts.push(value >= 0 ? head(UNSIGNED, value) : head(NEGATIVE, -value - 1));
+    } else if (Math.fround(value) === value || Number.isNaN(value)) {
+        const buffer = Buffer.alloc(5);
+        buffer[0] = 0xfa;
+        buffer.writeFloatBE(value, 1);
+        parts.push(buffer);
+    } else {
+        const buffer = Buffer.alloc(9);
+        buffer[0] = 0xfb;
+        buffer.writeDoubleBE(value, 1);
+        parts.push(buffer);
+    }
+}
+
+// Initial byte and argument of a data item
+function head(major: number, argument: number | bigint): Buffer {
+    const initial = major << 5;
+    if (argument < 24) return Buffer.from([initial | Number(argument)]);
+    if (argument <= 0xff) return Buffer.from([initial | 24, Number(argument)]);
+
+    if (argument <= 0xffff) {
+        const buffer = Buffer.alloc(3);
+        buffer[0] = initial | 25;
+        buffer.writeUInt16BE(Number(argument), 1);
+        return buffer;
+    }
+    if (argument <= 0xffffffff) {
+        const buffer = Buffer.alloc(5);
+        buffer[0] = initial | 26;
+        buffer.writeUInt32BE(Number(argument), 1);
+        return buffer;
+    }
+    const buffer = Buffer.alloc(9);
+    buffer[0] = initial | 27;
+    buffer.writeBigUInt64BE(BigInt(argument), 1);
+    return buffer;
+}
+
+interface Reader {
+    data: Buffer;
+    offset: number;
+}
+
+// Reserve bytes of the input, failing on truncated data
+function take(reader: Reader, size: number): number {
+    if (reader.offset + size > reader.data.length) {
+        throw new RangeError('Unexpected end of CBOR data');
+    }
+    const offset = reader.offset;
+    reader.offset += size;
+    return offset;
+}
+
+// Read the argument following an initial byte; undefined for indefinite lengths
+function readArgument(reader: Reader, info: number): number | bigint | undefined {
+    const { data } = reader;
+    if (info < 24) return info;
+
+    switch (info) {
+        case 24: return data.readUInt8(take(reader, 1));
+        case 25: return data.readUInt16BE(take(reader, 2));
+        case 26: return data.readUInt32BE(take(reader, 4));
+        case 27: {
+            const value = data.readBigUInt64BE(take(reader, 8));
+            return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+        }
+        case 31: return undefined;
+        default:
+            throw new RangeError(`Invalid CBOR additional information ${info}`);
+    }
+}
+
+// Lengths must be definite numbers that the remaining input can hold
+function readLength(reader: Reader, info: number, minimumItemSize: number): number | undefined {
+    const length = readArgument(reader, info);
+    if (length === undefined) return undefined;
+    if (typeof length === 'bigint' || length * minimumItemSize > reader.data.length - reader.offset) {
+        throw new RangeError('Unexpected end of CBOR data');
+    }
+    return length;
+}
+
+function decodeValue(reader: Reader, depth: number): any {
+    if (depth > MAX_DEPTH) {
+        throw new RangeError('CBOR value is nested too deeply');
+    }
+
+    const initial = reader.data[take(reader, 1)];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+        case UNSIGNED: {
+            const value = readArgument(reader, info);
+            if (value === undefined) throw new RangeError('Invalid indefinite-length integer');
+            return value;
+        }
+        case NEGATIVE: {
+            const value = readArgument(reader, info);
+            if (value === undefined) throw new RangeError('Invalid indefinite-length integer');
+            return typeof value === 'bigint' ? -value - BigInt(1) : -value - 1;
+        }
+        case BYTES:
+            return decodeString(reader, info, BYTES);
+        case TEXT:
+            return decodeString(reader, info, TEXT).toString('utf-8');
+        case ARRAY: {
+            const length = readLength(reader, info, 1);
+            const items: any[] = [];
+            while (length === undefined ? !isBreak(reader) : items.length < length) {
+                items.push(decodeValue(reader, depth + 1));
+            }
+            return items;
+        }
+        case MAP: {
+            const length = readLength(reader, info, 2);
+            const map: Record<string, any> = {};
+            for (let count = 0; length === undefined ? !isBreak(reader) : count < length; count++) {
+                const key = String(decodeValue(reader, depth + 1));
+                const value = decodeValue(reader, depth + 1);
+                // Define the property so a '__proto__' key cannot replace the prototype
+                Object.defineProperty(map, key, { value, enumerable: true, writable: true, configurable: true });
+            }
+            return map;
+        }
+        case TAG:
+            return decodeTag(readArgument(reader, info), decodeValue(reader, depth + 1));
+        default:
+            return decodeSimple(reader, info);
+    }
+}
+
+// Consume the break code ending an indefinite-length item
+function isBreak(reader: Reader): boolean {
+    if (reader.offset >= reader.data.length) {
+        throw new RangeError('Unexpected end of CBOR data');
+    }
+    if (reader.data[reader.offset] === BREAK) {
+        reader.offset++;
+        return true;
+    }
+    return false;
+}
+
+// Byte and text strings, indefinite ones being a sequence of definite chunks of the same type
+function decodeString(reader: Reader, info: number, major: number): Buffer {
+    const length = readLength(reader, info, 1);
+    if (length !== undefined) {
+        const offset = take(reader, length);
+        return Buffer.from(reader.data.subarray(offset, offset + length));
+    }
+
+    const chunks: Buffer[] = [];
+    while (!isBreak(reader)) {
+        const initial = reader.data[take(reader, 1)];
+        if (initial >> 5 !== major || (initial & 0x1f) === 31) {
+            throw new RangeError('Invalid chunk in indefinite-length CBOR string');
+        }
+        chunks.push(decodeString(reader, initial & 0x1f, major));
+    }
+    return Buffer.concat(chunks);
+}
+
+function decodeTag(tag: number | bigint | undefined, content: any): any {
+    switch (tag) {
+        case 0:
+            return new Date(content);
+        case 1:
+            return new Date(Number(content) * 1000);
+        case 2:
+        case 3: {
+            if (!Buffer.isBuffer(content)) throw new RangeError('Invalid CBOR bignum');
+            const value = BigInt(content.length > 0 ? `0x${content.toString('hex')}` : 0);
+            return tag === 2 ? value : -value - BigInt(1);
+        }
+        default:
+            return content;
+    }
+}
+
+function decodeSimple(reader: Reader, info: number): any {
+    const { data } = reader;
+    switch (info) {
+        case 20: return false;
+        case 21: return true;
+        case 22: return null;
+        case 23: return undefined;
+        case 24:
+            take(reader, 1);
+            return undefined;
+        case 25: return decodeHalf(data.readUInt16BE(take(reader, 2)));
+        case 26: return data.readFloatBE(take(reader, 4));
+        case 27: return data.readDoubleBE(take(reader, 8));
+        case 31: throw new RangeError('Unexpected CBOR break');
+        default:
+            // Unassigned simple values
+            if (info < 20) return undefined;
+            throw new RangeError(`Invalid CBOR simple value ${info}`);
+    }
+}
+
+// IEEE 754 half precision
+function decodeHalf(half: number): number {
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+
+    if (exponent === 0) return sign * Math.pow(2, -14) * (mantissa / 1024);
+    if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+    return sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+}
@@ -0,0 +1,144 @@
+import {Response} from './serverTypes';
+
+/** Response formats known to res.format, res.send negotiation and @Produces / @Consumes */
+export type ResponseFormat = 'json' | 'xml' | 'msgpack' | 'cbor' | 'html' | 'text';
+
+/** MIME types of each format, the first one being sent as Content-Type */
+export const FORMAT_MIME_TYPES: Record<ResponseFormat, string[]> = {
+    json: ['application/json'],
+    xml: ['application/xml', 'text/xml'],
+    msgpack: ['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'],
+    cbor: ['application/cbor'],
+    html: ['text/html'],
+    text: ['text/plain']
+};
+
+/** Formats res.send negotiates between for objects when the route does not restrict them */
+export const NEGOTIATED_FORMATS: ResponseFormat[] = ['json', 'xml', 'msgpack', 'cbor'];
+
+/** Media range of an Accept header */
+export interface MediaRange {
+    type: string;
+    subtype: string;
+    /** Quality weight, 0 excludes the range */
+    q: number;
+}
+
+/**
+ * Resolve a format name or MIME type to its MIME types
+ * @param {string} format - Format name ('json', 'msgpack'...) or MIME type ('application/vnd.api+json')
+ * @returns {string[]} - MIME types, the preferred one first
+ * @example
+ * formatMimeTypes('xml') // ['application/xml', 'text/xml']
+ */
+export function formatMimeTypes(format: string): string[] {
+    return FORMAT_MIME_TYPES[format as ResponseFormat] || [format.toLowerCase()];
+}
+
+/**
+ * Find the format name of a MIME type
+ * @param {string} mimeType - MIME type, parameters allowed
+ * @returns {ResponseFormat | undefined} - Format name, undefined for other types
+ */
+export function formatOf(mimeType: string): ResponseFormat | undefined {
+    const type = mimeType.split(';')[0].trim().toLowerCase();
+    return (Object.keys(FORMAT_MIME_TYPES) as ResponseFormat[]).find(format => FORMAT_MIME_TYPES[format].includes(type));
+}
+
+/**
+ * Parse an Accept header into media ranges
+ * @param {string} header - Accept header
+ * @returns {MediaRange[]} - Media ranges in header order
+ */
+export function parseAccept(header: string): MediaRange[] {
+    return header.split(',').map(part => {
+        const [range, ...params] = part.trim().toLowerCase().split(';');
+        const [type = '', subtype = ''] = range.trim().split('/');
+        const qParam = params.map(param => param.trim()).find(param => param.startsWith('q='));
+        const q = qParam ? parseFloat(qParam.slice(2)) : 1;
+        return { type, subtype, q: Number.isNaN(q) ? 0 : Math.min(Math.max(q, 0), 1) };
+    }).filter(range => range.type && range.subtype);
+}
+
+/**
+ * Pick the type the client prefers among the types the server can send
+ * Each type gets the weight of the most specific matching range; equal weights keep the server order.
+ * A missing or empty Accept header accepts the first type
+ * @param {string | undefined} accept - Accept header
+ * @param {string[]} types - Candidate MIME types, in server preference order
+ * @returns {string | undefined} - Chosen type, undefined when the client accepts none (406)
+ * @example
+ * negotiate('application/msgpack, application/json;q=0.5', ['application/json', 'application/msgpack'])
+ * // 'application/msgpack'
+ */
+export function negotiate(accept: string | undefined, types: string[]): string | undefined {
+    if (!accept || !accept.trim()) {
+        return types[0];
+    }
+
+    const ranges = parseAccept(accept);
+    let best: string | undefined;
+    let bestQ = 0;
+
+    for (const candidate of types) {
+        const q = weight(candidate, ranges);
+        if (q > bestQ) {
+            best = candidate;
+            bestQ = q;
+        }
+    }
+    return best;
+}
+
+/**
+ * Add a field to the Vary header without duplicating it
+ * @param {Response} res - Response
+ * @param {string} field - Request header the response varies on
+ * @returns {void}
+ */
+export function appendVary(res: Response, field: string): void {
+    const current = res.getHeader('Vary');
+    const values = (Array.isArray(current) ? current.join(',') : String(current ?? ''))
+        .split(',')
+        .map(value => value.trim())
+        .filter(Boolean);
+
+    if (values.includes('*') || values.some(value => value.toLowerCase() === field.toLowerCase())) {
+        return;
+    }
+
+    res.setHeader('Vary', [...values, field].join(', '));
+}
+
+/**
+ * Check whether a Content-Type is one of the allowed MIME types (wildcards such as 'text/*' allowed)
+ * @param {string} contentType - Content-Type header, parameters allowed
+ * @param {string[]} types - Allowed MIME types
+ * @returns {boolean} - True if the type is allowed
+ */
+export function isMediaTypeAllowed(contentType: string, types: string[]): boolean {
+    const [type, subtype] = contentType.split(';')[0].trim().toLowerCase().split('/');
+    return types.some(allowed => {
+        const [allowedType, allowedSubtype] = allowed.split('/');
+        return (allowedType === '*' || allowedType === type) && (allowedSubtype === '*' || allowedSubtype === subtype);
+    });
+}
+
+// Weight of the most specific range matching a type (exact, then type/*, then */*)
+function weight(mimeType: string, ranges: MediaRange[]): number {
+    const [type, subtype] = mimeType.split(';')[0].toLowerCase().split('/');
+    let specificity = -1;
+    let q = 0;
+
+    for (const range of ranges) {
+        const rangeSpecificity = range.type === type && range.subtype === subtype ? 2
+            : range.type === type && range.subtype === '*' ? 1
+            : range.type === '*' && range.subtype === '*' ? 0
+            : -1;
+        if (rangeSpecificity > specificity) {
+            specificity = rangeSpecificity;
+            q = range.q;
+        }
+    }
+    return q;
+}
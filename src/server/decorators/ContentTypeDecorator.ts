@@ -0,0 +1,74 @@
+import 'reflect-metadata';
+import {ResponseFormat} from '../contentNegotiation';
+import {controllerOf} from './controllerOf';
+
+const PRODUCES_KEY = Symbol('produces');
+const CONSUMES_KEY = Symbol('consumes');
+
+/** Format accepted by @Produces and @Consumes: a format name or a MIME type */
+export type MediaFormat = ResponseFormat | (string & {});
+
+/**
+ * Restrict the response formats of a controller's handlers or a single handler
+ * res.send and returned values are serialized in the format the Accept header prefers among them;
+ * requests accepting none of them are answered 406 Not Acceptable before the handler runs.
+ * Formats on a method replace the formats of its controller
+ * @param {...MediaFormat} formats - Format names ('json', 'xml', 'msgpack', 'cbor', 'html', 'text') or MIME types
+ * @returns {ClassDecorator & MethodDecorator} - Class or method decorator
+ * @example
+ * @Produces('json', 'msgpack')
+ * @Get('/:id')
+ * async show() { ... }
+ */
+export function Produces(...formats: MediaFormat[]): ClassDecorator & MethodDecorator {
+    return defineFormats(PRODUCES_KEY, formats);
+}
+
+/**
+ * Restrict the request body formats of a controller's handlers or a single handler
+ * Requests with a body of another Content-Type are answered 415 Unsupported Media Type before it is parsed.
+ * Formats on a method replace the formats of its controller
+ * @param {...MediaFormat} formats - Format names or MIME types (wildcards such as 'text/*' allowed)
+ * @returns {ClassDecorator & MethodDecorator} - Class or method decorator
+ * @example
+ * @Consumes('json', 'cbor')
+ * @Post('/')
+ * async create() { ... }
+ */
+export function Consumes(...formats: MediaFormat[]): ClassDecorator & MethodDecorator {
+    return defineFormats(CONSUMES_KEY, formats);
+}
+
+/**
+ * Get the response formats of a handler: its own @Produces, else those of its controller
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {MediaFormat[]} - Formats, empty when unrestricted
+ */
+export function getProduces(controller: Function, methodName: string): MediaFormat[] {
+    return Reflect.getMetadata(PRODUCES_KEY, controller, methodName)
+        || Reflect.getMetadata(PRODUCES_KEY, controller)
+        || [];
+}
+
+/**
+ * Get the request body formats of a handler: its own @Consumes, else those of its controller
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {MediaFormat[]} - Formats, empty when unrestricted
+ */
+export function getConsumes(controller: Function, methodName: string): MediaFormat[] {
+    return Reflect.getMetadata(CONSUMES_KEY, controller, methodName)
+        || Reflect.getMetadata(CONSUMES_KEY, controller)
+        || [];
+}
+
+function defineFormats(key: symbol, formats: MediaFormat[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        if (propertyKey === undefined) {
+            Reflect.defineMetadata(key, formats, target);
+        } else {
+            Reflect.defineMetadata(key, formats, controllerOf(target), propertyKey);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
@@ -0,0 +1,96 @@
+import 'reflect-metadata';
+import {Request, Response} from '../serverTypes';
+import {controllerOf} from './controllerOf';
+
+const CATCH_KEY = Symbol('catch');
+const FILTERS_KEY = Symbol('filters');
+
+/** Request whose error is being handled by an exception filter */
+export interface ExceptionContext {
+    req: Request;
+    res: Response;
+    /** Controller class and handler method name, undefined for errors raised outside controllers (404, middlewares) */
+    controller?: Function;
+    methodName?: string;
+}
+
+/**
+ * Exception filter mapping errors to responses
+ * catch() answers with res; throwing hands a (possibly different) error over to the next filters
+ * and the default error handler, returning without answering leaves the original error to them
+ * @example
+ * @Catch(InsufficientFundsError)
+ * class InsufficientFundsFilter implements ExceptionFilter<InsufficientFundsError> {
+ *     catch(error: InsufficientFundsError, ctx: ExceptionContext) {
+ *         ctx.res.status(402).json({ message: error.message, balance: error.balance });
+ *     }
+ * }
+ */
+export interface ExceptionFilter<T = any> {
+    catch(exception: T, ctx: ExceptionContext): void | Promise<void>;
+}
+
+/** Filter accepted by @UseFilters: a filter class (instantiated once, with dependency injection) or instance */
+export type FilterType = (new () => ExceptionFilter) | ExceptionFilter;
+
+/**
+ * Declare the exception types an exception filter handles (every error when none is given)
+ * @param {...Function} exceptionTypes - Error classes, subclasses match too
+ * @returns {ClassDecorator} - Class decorator
+ * @example
+ * @Catch(QueryFailedError, ConnectionError)
+ * class DatabaseFilter implements ExceptionFilter { ... }
+ */
+export function Catch(...exceptionTypes: Function[]): ClassDecorator {
+    return function (constructor: Function) {
+        Reflect.defineMetadata(CATCH_KEY, exceptionTypes, constructor);
+    };
+}
+
+/**
+ * Handle the errors of a controller's handlers or a single handler with exception filters
+ * Handler filters are tried before controller filters, then global filters; the first filter
+ * catching the error handles it
+ * @param {...FilterType} filters - Filter classes or instances
+ * @returns {ClassDecorator & MethodDecorator} - Class or method decorator
+ * @example
+ * @UseFilters(PaymentFilter)
+ * @Route({ path: '/payments' })
+ * class PaymentController extends Controller {}
+ */
+export function UseFilters(...filters: FilterType[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        // Copy so filters inherited from a parent controller are not mutated
+        if (propertyKey === undefined) {
+            Reflect.defineMetadata(FILTERS_KEY, [...(Reflect.getMetadata(FILTERS_KEY, target) || []), ...filters], target);
+        } else {
+            const constructor = controllerOf(target);
+            const existing: FilterType[] = Reflect.getMetadata(FILTERS_KEY, constructor, propertyKey) || [];
+            Reflect.defineMetadata(FILTERS_KEY, [...existing, ...filters], constructor, propertyKey);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Get the exception filters of a handler: its own first, then those of its controller
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {FilterType[]} - Filter classes or instances
+ */
+export function getFilters(controller: Function, methodName: string): FilterType[] {
+    return [
+        ...(Reflect.getMetadata(FILTERS_KEY, controller, methodName) || []),
+        ...(Reflect.getMetadata(FILTERS_KEY, controller) || [])
+    ];
+}
+
+/**
+ * Check whether an exception filter handles an error
+ * @param {ExceptionFilter} filter - Filter instance
+ * @param {any} error - Thrown error
+ * @returns {boolean} - True if the filter's @Catch types match, or it declares none
+ */
+export function filterCatches(filter: ExceptionFilter, error: any): boolean {
+    const exceptionTypes: Function[] = Reflect.getMetadata(CATCH_KEY, filter.constructor) || [];
+    return exceptionTypes.length === 0 || exceptionTypes.some(type => error instanceof type);
+}
@@ -0,0 +1,112 @@
+import 'reflect-metadata';
+import {Request, Response} from '../serverTypes';
+import {controllerOf} from './controllerOf';
+
+const ROLES_KEY = Symbol('roles');
+const GUARDS_KEY = Symbol('guards');
+
+/** Request being authorized by a guard */
+export interface ExecutionContext {
+    req: Request;
+    res: Response;
+    /** Controller class handling the request */
+    controller: Function;
+    /** Handler method name */
+    methodName: string;
+    /** Effective roles of the route (@Roles), empty when the route declares none */
+    roles: string[];
+}
+
+/**
+ * Guard deciding whether a request may reach its handler
+ * Guards run after authentication (req.user is set), returning false answers 403 Forbidden;
+ * throwing an HttpException answers with that exception instead
+ * @example
+ * class OwnerGuard implements CanActivate {
+ *     postRepository!: PostRepository;
+ *
+ *     async canActivate(ctx: ExecutionContext) {
+ *         const post = await this.postRepository.find(ctx.req.params.id);
+ *         return AccessControl.isOwner(ctx.req.user, post?.authorId);
+ *     }
+ * }
+ */
+export interface CanActivate {
+    canActivate(ctx: ExecutionContext): boolean | Promise<boolean>;
+}
+
+/** Guard accepted by @UseGuards: a guard class (instantiated once, with dependency injection) or instance */
+export type Guard = (new () => CanActivate) | CanActivate;
+
+/**
+ * Restrict a controller or a handler to users having one of the roles
+ * Roles are evaluated through the security.yaml role_hierarchy, so ROLE_ADMIN satisfies ROLE_EDITOR
+ * when it inherits it. Roles on a method replace the roles of its controller
+ * @param {...string} roles - Allowed roles
+ * @returns {ClassDecorator & MethodDecorator} - Class or method decorator
+ * @example
+ * @Roles('ROLE_EDITOR')
+ * @Route({ path: '/articles' })
+ * class ArticleController extends Controller {
+ *     @Roles('ROLE_ADMIN')
+ *     @Delete('/:id')
+ *     async remove() { ... }
+ * }
+ */
+export function Roles(...roles: string[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        if (propertyKey === undefined) {
+            Reflect.defineMetadata(ROLES_KEY, roles, target);
+        } else {
+            Reflect.defineMetadata(ROLES_KEY, roles, controllerOf(target), propertyKey);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Run guards before a controller's handlers or a single handler
+ * Controller guards run before handler guards, each in declaration order
+ * @param {...Guard} guards - Guard classes or instances
+ * @returns {ClassDecorator & MethodDecorator} - Class or method decorator
+ * @example
+ * @UseGuards(OwnerGuard)
+ * @Put('/:id')
+ * async update() { ... }
+ */
+export function UseGuards(...guards: Guard[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        // Copy so guards inherited from a parent controller are not mutated
+        if (propertyKey === undefined) {
+            Reflect.defineMetadata(GUARDS_KEY, [...(Reflect.getMetadata(GUARDS_KEY, target) || []), ...guards], target);
+        } else {
+            const constructor = controllerOf(target);
+            const existing: Guard[] = Reflect.getMetadata(GUARDS_KEY, constructor, propertyKey) || [];
+            Reflect.defineMetadata(GUARDS_KEY, [...existing, ...guards], constructor, propertyKey);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Get the effective roles of a handler: its own @Roles, else those of its controller
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {string[]} - Allowed roles, empty when unrestricted
+ */
+export function getRoles(controller: Function, methodName: string): string[] {
+    return Reflect.getMetadata(ROLES_KEY, controller, methodName)
+        || Reflect.getMetadata(ROLES_KEY, controller)
+        || [];
+}
+
+/**
+ * Get the guards of a handler: controller guards first, then its own
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {Guard[]} - Guard classes or instances
+ */
+export function getGuards(controller: Function, methodName: string): Guard[] {
+    return [
+        ...(Reflect.getMetadata(GUARDS_KEY, controller) || []),
+        ...(Reflect.getMetadata(GUARDS_KEY, controller, methodName) || [])
+    ];
+}
@@ -0,0 +1,55 @@
+import 'reflect-metadata';
+import {HookName, LifecycleHookMap, LifecycleHooks} from '../serverTypes';
+import {controllerOf} from './controllerOf';
+
+const HOOKS_KEY = Symbol('hooks');
+
+/**
+ * Lifecycle hook decorator for controllers and route methods
+ * On a class, the hook applies to every route of the controller; on a method, to that route only
+ * Hooks run after global hooks (app.addHook), controller hooks before route hooks, in declaration order
+ * @param {HookName} name - Lifecycle point ('onRequest', 'preHandler', 'onSend', 'onResponse', 'onError')
+ * @param {Function} hook - Hook function
+ * @returns {ClassDecorator & MethodDecorator} - Decorator function
+ * @example
+ * @Route({ path: '/admin' })
+ * @Hook('onResponse', (req, res) => audit.log(req, res.statusCode))
+ * class AdminController extends Controller {
+ *   @Get('/stats')
+ *   @Hook('onSend', (req, res, payload) => ({ data: payload }))
+ *   async stats() { ... }
+ * }
+ */
+export function Hook<K extends HookName>(name: K, hook: LifecycleHooks[K]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        const constructor = controllerOf(target);
+        // Copy so hooks inherited from a parent controller are not mutated
+        const hooks: LifecycleHookMap = {
+            ...(propertyKey !== undefined
+                ? Reflect.getMetadata(HOOKS_KEY, constructor, propertyKey)
+                : Reflect.getMetadata(HOOKS_KEY, constructor))
+        };
+
+        // Decorators are applied bottom-up: prepend to keep declaration order
+        const list = (hooks[name] || []) as LifecycleHooks[K][];
+        hooks[name] = [hook, ...list] as LifecycleHookMap[K];
+
+        if (propertyKey !== undefined) {
+            Reflect.defineMetadata(HOOKS_KEY, hooks, constructor, propertyKey);
+        } else {
+            Reflect.defineMetadata(HOOKS_KEY, hooks, constructor);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Get lifecycle hooks declared on a controller class or one of its methods
+ * @param {Function} controller - Controller class
+ * @param {string} [methodName] - Route method name (omit for controller-level hooks)
+ * @returns {LifecycleHookMap} - Hooks grouped by name
+ */
+export function getHooks(controller: Function, methodName?: string): LifecycleHookMap {
+    return (methodName !== undefined
+        ? Reflect.getMetadata(HOOKS_KEY, controller, methodName)
+        : Reflect.getMetadata(HOOKS_KEY, controller)) || {};
+}
@@ -0,0 +1,75 @@
+import 'reflect-metadata';
+import {ExecutionContext} from './GuardDecorator';
+import {controllerOf} from './controllerOf';
+
+const INTERCEPTORS_KEY = Symbol('interceptors');
+
+/** Invoke the next interceptor, and finally the handler; resolves with the handler's return value */
+export type CallHandler = () => Promise<any>;
+
+/**
+ * Interceptor wrapping a controller handler
+ * The value resolved by intercept() replaces the handler's return value, which is sent as the
+ * response when the handler did not answer by itself; errors thrown by next() can be caught or rethrown
+ * @example
+ * class TimingInterceptor implements Interceptor {
+ *     logger!: Logger;
+ *
+ *     async intercept(ctx: ExecutionContext, next: CallHandler) {
+ *         const start = Date.now();
+ *         try {
+ *             return await next();
+ *         } finally {
+ *             this.logger.info(`${ctx.controller.name}.${ctx.methodName} took ${Date.now() - start}ms`);
+ *         }
+ *     }
+ * }
+ */
+export interface Interceptor {
+    intercept(ctx: ExecutionContext, next: CallHandler): any | Promise<any>;
+}
+
+/** Interceptor accepted by @UseInterceptors: an interceptor class (instantiated once, with dependency injection) or instance */
+export type InterceptorType = (new () => Interceptor) | Interceptor;
+
+/**
+ * Wrap a controller's handlers or a single handler with interceptors
+ * Global interceptors run first, then controller interceptors, then handler interceptors, each in declaration order
+ * @param {...InterceptorType} interceptors - Interceptor classes or instances
+ * @returns {ClassDecorator & MethodDecorator} - Class or method decorator
+ * @example
+ * @UseInterceptors(EnvelopeInterceptor)
+ * @Route({ path: '/articles' })
+ * class ArticleController extends Controller {
+ *     @UseInterceptors(new CacheInterceptor(60))
+ *     @Get('/')
+ *     async list() {
+ *         return this.articleRepository.findAll();
+ *     }
+ * }
+ */
+export function UseInterceptors(...interceptors: InterceptorType[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        // Copy so interceptors inherited from a parent controller are not mutated
+        if (propertyKey === undefined) {
+            Reflect.defineMetadata(INTERCEPTORS_KEY, [...(Reflect.getMetadata(INTERCEPTORS_KEY, target) || []), ...interceptors], target);
+        } else {
+            const constructor = controllerOf(target);
+            const existing: InterceptorType[] = Reflect.getMetadata(INTERCEPTORS_KEY, constructor, propertyKey) || [];
+            Reflect.defineMetadata(INTERCEPTORS_KEY, [...existing, ...interceptors], constructor, propertyKey);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Get the interceptors of a handler: controller interceptors first, then its own
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {InterceptorType[]} - Interceptor classes or instances
+ */
+export function getInterceptors(controller: Function, methodName: string): InterceptorType[] {
+    return [
+        ...(Reflect.getMetadata(INTERCEPTORS_KEY, controller) || []),
+        ...(Reflect.getMetadata(INTERCEPTORS_KEY, controller, methodName) || [])
+    ];
+}
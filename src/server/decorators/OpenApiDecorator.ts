@@ -0,0 +1,154 @@
+import 'reflect-metadata';
+import {controllerOf} from './controllerOf';
+
+const API_TAGS_KEY = Symbol('apiTags');
+const API_OPERATION_KEY = Symbol('apiOperation');
+const API_BODY_KEY = Symbol('apiBody');
+const API_RESPONSES_KEY = Symbol('apiResponses');
+
+/**
+ * Schema accepted by the OpenAPI decorators
+ * An entity class is documented from its @Column metadata and referenced as a component,
+ * a one-element array of an entity class documents a list of entities
+ */
+export type ApiSchema = Record<string, any> | Function | [Function];
+
+/** Operation documentation */
+export interface ApiOperationOptions {
+    summary?: string;
+    description?: string;
+    operationId?: string;
+    tags?: string[];
+    deprecated?: boolean;
+}
+
+/** Request body documentation */
+export interface ApiBodyOptions {
+    schema: ApiSchema;
+    description?: string;
+    /** Default: true */
+    required?: boolean;
+}
+
+/** Response documentation */
+export interface ApiResponseOptions {
+    description?: string;
+    schema?: ApiSchema;
+}
+
+/**
+ * Tag every operation of a controller
+ * @param {...string} tags - Tag names
+ * @returns {ClassDecorator} - Class decorator
+ * @example
+ * @ApiTags('Users')
+ * @Route({ path: '/users' })
+ * class UserController extends Controller {}
+ */
+export function ApiTags(...tags: string[]): ClassDecorator {
+    return function (constructor: Function) {
+        Reflect.defineMetadata(API_TAGS_KEY, tags, constructor);
+    };
+}
+
+/**
+ * Document an operation
+ * @param {string | ApiOperationOptions} summaryOrOptions - Summary or operation documentation
+ * @returns {MethodDecorator} - Method decorator
+ * @example
+ * @ApiOperation({ summary: 'List users', description: 'Paginated, 20 users per page' })
+ * @Get('/')
+ * async list() { ... }
+ */
+export function ApiOperation(summaryOrOptions: string | ApiOperationOptions): MethodDecorator {
+    const options = typeof summaryOrOptions === 'string' ? { summary: summaryOrOptions } : summaryOrOptions;
+
+    return function (target: any, propertyKey: string | symbol) {
+        Reflect.defineMetadata(API_OPERATION_KEY, options, controllerOf(target), propertyKey);
+    };
+}
+
+/**
+ * Document the request body of an operation
+ * @param {ApiSchema | ApiBodyOptions} schemaOrOptions - Schema, entity class or body documentation
+ * @returns {MethodDecorator} - Method decorator
+ * @example
+ * @ApiBody(User)
+ * @Post('/')
+ * async create() { ... }
+ */
+export function ApiBody(schemaOrOptions: ApiSchema | ApiBodyOptions): MethodDecorator {
+    const options = isBodyOptions(schemaOrOptions) ? schemaOrOptions : { schema: schemaOrOptions };
+
+    return function (target: any, propertyKey: string | symbol) {
+        Reflect.defineMetadata(API_BODY_KEY, options, controllerOf(target), propertyKey);
+    };
+}
+
+/**
+ * Document a response of an operation (stackable, one per status code)
+ * @param {number} status - HTTP status code
+ * @param {ApiResponseOptions} [options={}] - Response documentation
+ * @returns {MethodDecorator} - Method decorator
+ * @example
+ * @ApiResponse(200, { description: 'The user', schema: User })
+ * @ApiResponse(404, { description: 'User not found' })
+ * @Get('/:id')
+ * async show() { ... }
+ */
+export function ApiResponse(status: number, options: ApiResponseOptions = {}): MethodDecorator {
+    return function (target: any, propertyKey: string | symbol) {
+        const constructor = controllerOf(target);
+        // Copy so responses inherited from a parent controller are not mutated
+        const responses: Record<number, ApiResponseOptions> = {
+            ...Reflect.getMetadata(API_RESPONSES_KEY, constructor, propertyKey)
+        };
+
+        responses[status] = options;
+        Reflect.defineMetadata(API_RESPONSES_KEY, responses, constructor, propertyKey);
+    };
+}
+
+/**
+ * Get the tags declared on a controller
+ * @param {Function} controller - Controller class
+ * @returns {string[]} - Tag names
+ */
+export function getApiTags(controller: Function): string[] {
+    return Reflect.getMetadata(API_TAGS_KEY, controller) || [];
+}
+
+/**
+ * Get the operation documentation of a controller method
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {ApiOperationOptions | undefined} - Operation documentation
+ */
+export function getApiOperation(controller: Function, methodName: string): ApiOperationOptions | undefined {
+    return Reflect.getMetadata(API_OPERATION_KEY, controller, methodName);
+}
+
+/**
+ * Get the request body documentation of a controller method
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {ApiBodyOptions | undefined} - Body documentation
+ */
+export function getApiBody(controller: Function, methodName: string): ApiBodyOptions | undefined {
+    return Reflect.getMetadata(API_BODY_KEY, controller, methodName);
+}
+
+/**
+ * Get the responses documented on a controller method
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {Record<number, ApiResponseOptions>} - Response documentation by status code
+ */
+export function getApiResponses(controller: Function, methodName: string): Record<number, ApiResponseOptions> {
+    return Reflect.getMetadata(API_RESPONSES_KEY, controller, methodName) || {};
+}
+
+// Body options carry a schema key; a schema object with a 'schema' property is not expected
+function isBodyOptions(value: ApiSchema | ApiBodyOptions): value is ApiBodyOptions {
+    return typeof value === 'object' && !Array.isArray(value) && 'schema' in value;
+}
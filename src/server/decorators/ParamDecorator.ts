@@ -1,4 +1,6 @@
 import 'reflect-metadata';
+import {ParamSource, Pipe, PipeTransform, toPipe} from '../pipes';
+import {getValidationMetadata} from '../../validator/ValidationDecorators';
 
 /** Parameter metadata stored by @Param decorator */
 export interface ParamMetadata {
@@ -7,43 +9,214 @@ export interface ParamMetadata {
     entityType: any;
 }
 
+/** Handler parameter metadata stored by the parameter decorators */
+export interface HandlerParamMetadata {
+    parameterIndex: number;
+    source: ParamSource;
+    /** Field read from the source, the whole source when undefined */
+    name?: string;
+    /** Entity resolved from a route param through its repository (@Param(name, Entity)) */
+    entityType?: any;
+    pipes: PipeTransform[];
+}
+
 const PARAM_METADATA_KEY = Symbol('paramMetadata');
 
 /**
- * Parameter decorator for automatic entity resolution from route parameters
- * Resolves entities from route parameters using repositories (legacy approach)
+ * Parameter decorator injecting a route parameter
+ * With an entity class as second argument, the entity is loaded through the controller's repository
+ * (userRepository for User) and undefined is injected when it does not exist; otherwise the raw value
+ * goes through the given pipes (pipe instances, pipe classes or DTO classes)
  * @param {string} routeParamName - The name of the route parameter (e.g., 'userId' for /:userId)
- * @param {any} entityType - The entity class type (e.g., User)
+ * @param {any} [entityTypeOrPipe] - The entity class type (e.g., User), or a first pipe
+ * @param {...Pipe} pipes - Pipes transforming the value
  * @returns {ParameterDecorator} - Parameter decorator function
  * @example
  * @Get({ path: '/:userId' })
- * async getUser(
- *     req: Request,
- *     res: Response,
- *     @Param('userId', User) user: User
- * ) {
- *     if (!user) return this.notFound(res, 'User not found');
- *     this.ok(res, user);
+ * async getUser(@Param('userId', User) user: User) {
+ *     if (!user) return this.notFound(this.res, 'User not found');
+ *     this.ok(this.res, user);
  * }
+ *
+ * @Get({ path: '/:page' })
+ * async list(@Param('page', ParseIntPipe) page: number) { ... }
+ */
+export function Param(routeParamName: string, entityTypeOrPipe?: any, ...pipes: Pipe[]): ParameterDecorator {
+    if (entityTypeOrPipe !== undefined && isEntity(entityTypeOrPipe)) {
+        return defineParam({ source: 'param', name: routeParamName, entityType: entityTypeOrPipe }, pipes);
+    }
+    return defineParam(
+        { source: 'param', name: routeParamName },
+        entityTypeOrPipe !== undefined ? [entityTypeOrPipe, ...pipes] : pipes
+    );
+}
+
+/**
+ * Parameter decorator injecting the parsed body, or one of its fields
+ * @param {string | Pipe} [fieldOrPipe] - Body field, or a first pipe (a DTO class validates the whole body)
+ * @param {...Pipe} pipes - Pipes transforming the value
+ * @returns {ParameterDecorator} - Parameter decorator function
+ * @example
+ * async create(@Body(CreateUserDto) dto: CreateUserDto) { ... }
+ * async rename(@Body('name') name: string) { ... }
+ */
+export function Body(fieldOrPipe?: string | Pipe, ...pipes: Pipe[]): ParameterDecorator {
+    return fieldDecorator('body', fieldOrPipe, pipes);
+}
+
+/**
+ * Parameter decorator injecting the parsed query string, or one of its keys
+ * @param {string | Pipe} [keyOrPipe] - Query key, or a first pipe (a DTO class validates the whole query)
+ * @param {...Pipe} pipes - Pipes transforming the value
+ * @returns {ParameterDecorator} - Parameter decorator function
+ * @example
+ * async list(@Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number) { ... }
+ */
+export function Query(keyOrPipe?: string | Pipe, ...pipes: Pipe[]): ParameterDecorator {
+    return fieldDecorator('query', keyOrPipe, pipes);
+}
+
+/**
+ * Parameter decorator injecting the request headers, or one header (case-insensitive)
+ * @param {string} [name] - Header name
+ * @param {...Pipe} pipes - Pipes transforming the value
+ * @returns {ParameterDecorator} - Parameter decorator function
+ * @example
+ * async webhook(@Headers('x-signature') signature: string) { ... }
  */
-export function Param(routeParamName: string, entityType: any): ParameterDecorator {
+export function Headers(name?: string, ...pipes: Pipe[]): ParameterDecorator {
+    return defineParam({ source: 'headers', name: name?.toLowerCase() }, pipes);
+}
+
+/**
+ * Alias of @Headers
+ * @param {string} [name] - Header name
+ * @param {...Pipe} pipes - Pipes transforming the value
+ * @returns {ParameterDecorator} - Parameter decorator function
+ */
+export function Header(name?: string, ...pipes: Pipe[]): ParameterDecorator {
+    return Headers(name, ...pipes);
+}
+
+/**
+ * Parameter decorator injecting the request cookies, or one cookie
+ * @param {string} [name] - Cookie name
+ * @param {...Pipe} pipes - Pipes transforming the value
+ * @returns {ParameterDecorator} - Parameter decorator function
+ * @example
+ * async refresh(@Cookie('RefreshToken') refreshToken: string) { ... }
+ */
+export function Cookie(name?: string, ...pipes: Pipe[]): ParameterDecorator {
+    return defineParam({ source: 'cookie', name }, pipes);
+}
+
+/**
+ * Parameter decorator injecting the authenticated user (req.user), or one of its properties
+ * @param {string} [property] - User property
+ * @returns {ParameterDecorator} - Parameter decorator function
+ * @example
+ * async profile(@CurrentUser() user: User) { ... }
+ */
+export function CurrentUser(property?: string): ParameterDecorator {
+    return defineParam({ source: 'user', name: property }, []);
+}
+
+/**
+ * Parameter decorator injecting the request
+ * @returns {ParameterDecorator} - Parameter decorator function
+ */
+export function Req(): ParameterDecorator {
+    return defineParam({ source: 'req' }, []);
+}
+
+/**
+ * Parameter decorator injecting the response
+ * @returns {ParameterDecorator} - Parameter decorator function
+ */
+export function Res(): ParameterDecorator {
+    return defineParam({ source: 'res' }, []);
+}
+
+/**
+ * Parameter decorator injecting the next function
+ * @returns {ParameterDecorator} - Parameter decorator function
+ */
+export function Next(): ParameterDecorator {
+    return defineParam({ source: 'next' }, []);
+}
+
+/**
+ * Parameter decorator injecting the first uploaded file of a multipart field
+ * @param {string} field - Multipart field name
+ * @param {...Pipe} pipes - Pipes transforming the file
+ * @returns {ParameterDecorator} - Parameter decorator function
+ * @example
+ * async upload(@UploadedFile('avatar') avatar: UploadedFileData | undefined) { ... }
+ */
+export function UploadedFile(field: string, ...pipes: Pipe[]): ParameterDecorator {
+    return defineParam({ source: 'file', name: field }, pipes);
+}
+
+/**
+ * Parameter decorator injecting the uploaded files, all of them or those of one multipart field
+ * @param {string} [field] - Multipart field name
+ * @param {...Pipe} pipes - Pipes transforming the file list
+ * @returns {ParameterDecorator} - Parameter decorator function
+ */
+export function UploadedFiles(field?: string, ...pipes: Pipe[]): ParameterDecorator {
+    return defineParam({ source: 'files', name: field }, pipes);
+}
+
+/**
+ * Retrieve parameter metadata for a method
+ * @param {any} target - Target class prototype
+ * @param {string} methodName - Method name
+ * @returns {ParamMetadata[]} - Array of parameter metadata
+ */
+export function getParamMetadata(target: any, methodName: string): ParamMetadata[] {
+    return getHandlerParams(target, methodName)
+        .filter(param => param.source === 'param' && param.entityType)
+        .map(param => ({ parameterIndex: param.parameterIndex, routeParamName: param.name!, entityType: param.entityType }));
+}
+
+/**
+ * Retrieve the handler parameters declared with parameter decorators
+ * @param {any} target - Target class prototype (the class for static methods)
+ * @param {string} methodName - Method name
+ * @returns {HandlerParamMetadata[]} - Parameter metadata sorted by parameter index
+ */
+export function getHandlerParams(target: any, methodName: string): HandlerParamMetadata[] {
+    const params: HandlerParamMetadata[] = Reflect.getMetadata(PARAM_METADATA_KEY, target, methodName) || [];
+    return [...params].sort((a, b) => a.parameterIndex - b.parameterIndex);
+}
+
+// Body and query decorators take an optional field name before their pipes
+function fieldDecorator(source: ParamSource, fieldOrPipe: string | Pipe | undefined, pipes: Pipe[]): ParameterDecorator {
+    if (typeof fieldOrPipe === 'string' || fieldOrPipe === undefined) {
+        return defineParam({ source, name: fieldOrPipe }, pipes);
+    }
+    return defineParam({ source }, [fieldOrPipe, ...pipes]);
+}
+
+function defineParam(
+    param: Omit<HandlerParamMetadata, 'parameterIndex' | 'pipes'>,
+    pipes: Pipe[]
+): ParameterDecorator {
+    // Pipe classes are instantiated once, when the decorator is evaluated
+    const instances = pipes.map(toPipe);
+
     return function (target: any, propertyKey: string | symbol | undefined, parameterIndex: number) {
         // Parameter decorators on methods should always have a propertyKey
         if (!propertyKey) {
-            throw new Error('@Param decorator can only be used on method parameters');
+            throw new Error('Parameter decorators can only be used on method parameters');
         }
 
-        const existingMetadata: ParamMetadata[] = Reflect.getMetadata(
-            PARAM_METADATA_KEY,
-            target,
-            propertyKey
-        ) || [];
+        // Copy so parameters inherited from a parent controller are not mutated
+        const existingMetadata: HandlerParamMetadata[] = [
+            ...(Reflect.getMetadata(PARAM_METADATA_KEY, target, propertyKey) || [])
+        ].filter((existing: HandlerParamMetadata) => existing.parameterIndex !== parameterIndex);
 
-        existingMetadata.push({
-            parameterIndex,
-            routeParamName,
-            entityType
-        });
+        existingMetadata.push({ ...param, parameterIndex, pipes: instances });
 
         Reflect.defineMetadata(
             PARAM_METADATA_KEY,
@@ -54,12 +227,9 @@ export function Param(routeParamName: string, entityType: any): ParameterDecorat
     };
 }
 
-/**
- * Retrieve parameter metadata for a method
- * @param {any} target - Target class prototype
- * @param {string} methodName - Method name
- * @returns {ParamMetadata[]} - Array of parameter metadata
- */
-export function getParamMetadata(target: any, methodName: string): ParamMetadata[] {
-    return Reflect.getMetadata(PARAM_METADATA_KEY, target, methodName) || [];
+// Any class other than a pipe class or a DTO (validation decorators) is an entity, as before pipes existed
+function isEntity(value: any): boolean {
+    return typeof value === 'function'
+        && typeof value.prototype?.transform !== 'function'
+        && Object.keys(getValidationMetadata(value)).length === 0;
 }
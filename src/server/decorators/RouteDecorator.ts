@@ -1,12 +1,13 @@
 import 'reflect-metadata';
-import {HttpMethod, Middleware} from '../serverTypes';
+import {ParserType} from '../bodyParsers';
+import {QuerySchema} from '../querySchema';
+import {HttpMethod, Middleware, RouteParamType} from '../serverTypes';
+import {SseOptions} from '../SseStream';
+import {controllerOf} from './controllerOf';
 
 const ROUTE_PREFIX_KEY = Symbol('routePrefix');
 const ROUTES_KEY = Symbol('routes');
 
-/** Parser type for request body parsing */
-export type ParserType = 'json' | 'xml' | 'urlencoded' | 'raw';
-
 /** Route metadata stored for each route method */
 export interface RouteMetadata {
     path: string;
@@ -15,6 +16,11 @@ export interface RouteMetadata {
     middlewares?: Middleware[];
     resolve?: Record<string, any>;
     parserType?: ParserType;
+    params?: Record<string, RouteParamType>;
+    sse?: SseOptions;
+    body?: Function;
+    query?: Function;
+    querySchema?: QuerySchema;
 }
 
 /** Route decorator options for class-level routing */
@@ -30,6 +36,11 @@ export interface MethodRouteOptions {
     middlewares?: Middleware[];
     resolve?: Record<string, any>;
     parserType?: ParserType;
+    params?: Record<string, RouteParamType>;
+    sse?: SseOptions;
+    body?: Function;
+    query?: Function;
+    querySchema?: QuerySchema;
 }
 
 /** Combined route options type */
@@ -45,7 +56,7 @@ export function Route(options: MethodRouteOptions): MethodDecorator;
 export function Route(options: RouteOptions): ClassDecorator | MethodDecorator {
     if ('method' in options && options.method) {
         return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) {
-            const constructor = typeof target === 'function' ? target : target.constructor;
+            const constructor = controllerOf(target);
 
             const routes: RouteMetadata[] = Reflect.getMetadata(ROUTES_KEY, constructor) || [];
 
@@ -55,7 +66,12 @@ export function Route(options: RouteOptions): ClassDecorator | MethodDecorator {
                 methodName: propertyKey.toString(),
                 middlewares: options.middlewares,
                 resolve: options.resolve,
-                parserType: options.parserType
+                parserType: options.parserType,
+                params: options.params,
+                sse: options.sse,
+                body: options.body,
+                query: options.query,
+                querySchema: options.querySchema
             });
 
             Reflect.defineMetadata(ROUTES_KEY, routes, constructor);
@@ -71,12 +87,30 @@ export function Route(options: RouteOptions): ClassDecorator | MethodDecorator {
     }
 }
 
-/** HTTP method decorator configuration options */
+/**
+ * HTTP method decorator configuration options
+ * `params` declares route param types: values are coerced before the handler runs (typed with Request<{ id: number }>),
+ * and a value that does not fit its type makes the route a non-match.
+ * `body` and `query` are DTO classes: req.body and req.query are validated against them and replaced
+ * by DTO instances before the handler runs, a ValidationException is thrown otherwise, its fields
+ * prefixed with their source (body.email, query.page).
+ * `querySchema` coerces query parameters (numbers, booleans, ISO dates, lists and nested objects)
+ * before DTO validation, an invalid value throws a ValidationException
+ * @example
+ * @Get({ path: '/:id', params: { id: 'int' } })
+ * @Post({ path: '/', body: CreateUserDto })
+ * @Get({ path: '/', query: ListQueryDto })
+ * @Get({ path: '/', querySchema: { page: 'int', tags: 'string[]', filter: { since: 'date' } } })
+ */
 export interface HttpMethodOptions {
     path?: string;
     middlewares?: Middleware[];
     resolve?: Record<string, any>;
     parserType?: ParserType;
+    params?: Record<string, RouteParamType>;
+    body?: Function;
+    query?: Function;
+    querySchema?: QuerySchema;
 }
 
 /**
@@ -87,7 +121,7 @@ export interface HttpMethodOptions {
 export function Get(options?: string | HttpMethodOptions): MethodDecorator {
     const opts = typeof options === 'string'
         ? { path: options, method: 'GET' as HttpMethod }
-        : { path: options?.path || '', method: 'GET' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType };
+        : { path: options?.path || '', method: 'GET' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType, params: options?.params, body: options?.body, query: options?.query, querySchema: options?.querySchema };
     return Route(opts) as MethodDecorator;
 }
 
@@ -99,7 +133,7 @@ export function Get(options?: string | HttpMethodOptions): MethodDecorator {
 export function Post(options?: string | HttpMethodOptions): MethodDecorator {
     const opts = typeof options === 'string'
         ? { path: options, method: 'POST' as HttpMethod }
-        : { path: options?.path || '', method: 'POST' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType };
+        : { path: options?.path || '', method: 'POST' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType, params: options?.params, body: options?.body, query: options?.query, querySchema: options?.querySchema };
     return Route(opts) as MethodDecorator;
 }
 
@@ -111,7 +145,7 @@ export function Post(options?: string | HttpMethodOptions): MethodDecorator {
 export function Put(options?: string | HttpMethodOptions): MethodDecorator {
     const opts = typeof options === 'string'
         ? { path: options, method: 'PUT' as HttpMethod }
-        : { path: options?.path || '', method: 'PUT' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType };
+        : { path: options?.path || '', method: 'PUT' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType, params: options?.params, body: options?.body, query: options?.query, querySchema: options?.querySchema };
     return Route(opts) as MethodDecorator;
 }
 
@@ -123,7 +157,7 @@ export function Put(options?: string | HttpMethodOptions): MethodDecorator {
 export function Delete(options?: string | HttpMethodOptions): MethodDecorator {
     const opts = typeof options === 'string'
         ? { path: options, method: 'DELETE' as HttpMethod }
-        : { path: options?.path || '', method: 'DELETE' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType };
+        : { path: options?.path || '', method: 'DELETE' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType, params: options?.params, body: options?.body, query: options?.query, querySchema: options?.querySchema };
     return Route(opts) as MethodDecorator;
 }
 
@@ -135,7 +169,40 @@ export function Delete(options?: string | HttpMethodOptions): MethodDecorator {
 export function Patch(options?: string | HttpMethodOptions): MethodDecorator {
     const opts = typeof options === 'string'
         ? { path: options, method: 'PATCH' as HttpMethod }
-        : { path: options?.path || '', method: 'PATCH' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType };
+        : { path: options?.path || '', method: 'PATCH' as HttpMethod, middlewares: options?.middlewares, resolve: options?.resolve, parserType: options?.parserType, params: options?.params, body: options?.body, query: options?.query, querySchema: options?.querySchema };
+    return Route(opts) as MethodDecorator;
+}
+
+/**
+ * Server-Sent Events route options
+ * @example
+ * @Sse({ path: '/prices', heartbeat: 10000, retry: 3000 })
+ */
+export interface SseRouteOptions extends SseOptions {
+    path?: string;
+    middlewares?: Middleware[];
+    params?: Record<string, RouteParamType>;
+    query?: Function;
+}
+
+/**
+ * Server-Sent Events decorator: registers a GET route streaming the async iterable returned by the method
+ * Each yielded value is sent as an event; values shaped as { data, id?, event?, retry? } set the event fields.
+ * The iteration stops when the client disconnects
+ * @param {string | SseRouteOptions} [options] - Path string or configuration object
+ * @returns {MethodDecorator} - Method decorator
+ * @example
+ * @Sse('/orders/live')
+ * async *liveOrders() {
+ *     for await (const order of this.orderService.watch(getLastEventId(this.req))) {
+ *         yield { id: order.id, event: 'order', data: order };
+ *     }
+ * }
+ */
+export function Sse(options?: string | SseRouteOptions): MethodDecorator {
+    const opts = typeof options === 'string'
+        ? { path: options, method: 'GET' as HttpMethod, sse: {} }
+        : { path: options?.path || '', method: 'GET' as HttpMethod, middlewares: options?.middlewares, params: options?.params, query: options?.query, sse: { heartbeat: options?.heartbeat, retry: options?.retry } };
     return Route(opts) as MethodDecorator;
 }
 
@@ -0,0 +1,41 @@
+import 'reflect-metadata';
+import {MultipartOptions} from '../multipart';
+import {controllerOf} from './controllerOf';
+
+const UPLOAD_KEY = Symbol('upload');
+
+/**
+ * Set the multipart storage and limits of a controller's handlers or a single handler
+ * Options override the 'upload options' setting; options on a method override those of its controller
+ * @param {MultipartOptions} options - Storage ('temp', 'disk', 'memory'), destination and limits
+ * @returns {ClassDecorator & MethodDecorator} - Class or method decorator
+ * @example
+ * @Upload({ storage: 'disk', dest: './storage/videos', maxFileSize: 500 * 1024 * 1024, maxFiles: 1 })
+ * @Post('/videos')
+ * async upload(@UploadedFile('video') video: UploadedFileData) { ... }
+ */
+export function Upload(options: MultipartOptions): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        if (propertyKey === undefined) {
+            Reflect.defineMetadata(UPLOAD_KEY, options, target);
+        } else {
+            Reflect.defineMetadata(UPLOAD_KEY, options, controllerOf(target), propertyKey);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Get the multipart options of a handler: those of its controller merged with its own
+ * @param {Function} controller - Controller class
+ * @param {string} methodName - Method name
+ * @returns {MultipartOptions | undefined} - Options, undefined when neither is decorated
+ */
+export function getUploadOptions(controller: Function, methodName: string): MultipartOptions | undefined {
+    const classOptions: MultipartOptions | undefined = Reflect.getMetadata(UPLOAD_KEY, controller);
+    const methodOptions: MultipartOptions | undefined = Reflect.getMetadata(UPLOAD_KEY, controller, methodName);
+
+    if (!classOptions && !methodOptions) {
+        return undefined;
+    }
+    return { ...classOptions, ...methodOptions };
+}
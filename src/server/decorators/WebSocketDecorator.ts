@@ -0,0 +1,94 @@
+import 'reflect-metadata';
+
+const GATEWAY_KEY = Symbol('webSocketGateway');
+const MESSAGE_HANDLERS_KEY = Symbol('webSocketMessageHandlers');
+
+/** WebSocket gateway configuration */
+export interface WebSocketGatewayOptions {
+    /** URL path clients connect to (e.g. '/ws/chat') */
+    path: string;
+    /** Require a valid JWT (Token cookie or Authorization: Bearer) to connect (default: false) */
+    auth?: boolean;
+    /**
+     * Origins allowed to connect (e.g. ['https://app.example.com']), or a predicate receiving the Origin header.
+     * When set, upgrades with a missing or other Origin are refused with 403. Gateways with auth enabled and no
+     * origins only accept their own origin (the Origin host must match the Host header)
+     */
+    origins?: string[] | ((origin: string) => boolean);
+    /** Supported subprotocols, in preference order */
+    protocols?: string[];
+    /** Maximum message size in bytes (default: 1 MiB) */
+    maxPayload?: number;
+}
+
+/** Message handler metadata: event name to gateway method */
+export interface MessageHandlerMetadata {
+    event: string;
+    methodName: string;
+}
+
+/**
+ * WebSocket gateway class decorator
+ * Gateways are instantiated once, receive services and repositories like DI controllers, and
+ * exchange JSON messages shaped as { event, data } with their clients
+ * @param {string | WebSocketGatewayOptions} pathOrOptions - Path or gateway configuration
+ * @returns {ClassDecorator} - Class decorator
+ * @example
+ * @WebSocketGateway({ path: '/ws/chat', auth: true, origins: ['https://chat.example.com'] })
+ * class ChatGateway extends Gateway {
+ *   @OnMessage('join')
+ *   join(client: WebSocketClient, room: string) {
+ *     client.join(room)
+ *     this.server.to(room).emit('joined', { user: client.user.id })
+ *   }
+ * }
+ */
+export function WebSocketGateway(pathOrOptions: string | WebSocketGatewayOptions): ClassDecorator {
+    const options = typeof pathOrOptions === 'string' ? { path: pathOrOptions } : pathOrOptions;
+
+    return function (constructor: Function) {
+        Reflect.defineMetadata(GATEWAY_KEY, options, constructor);
+    };
+}
+
+/**
+ * Message handler decorator for gateway methods
+ * The method receives the client and the message data; a returned value (or resolved promise)
+ * is sent back to the client under the same event name.
+ * Messages that are not { event, data } JSON envelopes (including binary messages) go to the 'message' event
+ * @param {string} event - Event name
+ * @returns {MethodDecorator} - Method decorator
+ * @example
+ * @OnMessage('ping')
+ * ping(client: WebSocketClient, data: any) {
+ *   return { time: Date.now() }
+ * }
+ */
+export function OnMessage(event: string): MethodDecorator {
+    return function (target: any, propertyKey: string | symbol) {
+        const constructor = target.constructor;
+        // Copy so handlers inherited from a parent gateway are not mutated
+        const handlers: MessageHandlerMetadata[] = [...(Reflect.getMetadata(MESSAGE_HANDLERS_KEY, constructor) || [])];
+
+        handlers.push({ event, methodName: propertyKey.toString() });
+        Reflect.defineMetadata(MESSAGE_HANDLERS_KEY, handlers, constructor);
+    };
+}
+
+/**
+ * Get the gateway configuration of a class
+ * @param {Function} gateway - Gateway class
+ * @returns {WebSocketGatewayOptions | undefined} - Configuration, undefined if the class is not a gateway
+ */
+export function getGatewayOptions(gateway: Function): WebSocketGatewayOptions | undefined {
+    return Reflect.getMetadata(GATEWAY_KEY, gateway);
+}
+
+/**
+ * Get the message handlers declared on a gateway class
+ * @param {Function} gateway - Gateway class
+ * @returns {MessageHandlerMetadata[]} - Handlers in declaration order
+ */
+export function getMessageHandlers(gateway: Function): MessageHandlerMetadata[] {
+    return Reflect.getMetadata(MESSAGE_HANDLERS_KEY, gateway) || [];
+}
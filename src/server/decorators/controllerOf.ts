@@ -0,0 +1,9 @@
+/**
+ * Get the controller class targeted by a method decorator
+ * Static handlers are decorated on the class, instance handlers on its prototype
+ * @param {any} target - Decorator target (the class or its prototype)
+ * @returns {Function} - Controller class
+ */
+export function controllerOf(target: any): Function {
+    return typeof target === 'function' ? target : target.constructor;
+}
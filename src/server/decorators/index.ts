@@ -1,4 +1,13 @@
+export * from './ContentTypeDecorator';
+export * from './controllerOf';
+export * from './FilterDecorator';
+export * from './GuardDecorator';
+export * from './HookDecorator';
 export * from './Injectable';
+export * from './InterceptorDecorator';
+export * from './OpenApiDecorator';
 export * from './RouteDecorator';
 export * from './ParamDecorator';
-export * from './registerController';
\ No newline at end of file
+export * from './registerController';
+export * from './UploadDecorator';
+export * from './WebSocketDecorator';
@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
+import { Stats } from 'fs';
+
+/** Value of the 'etag' setting: weak validators (default), strong validators, or disabled */
+export type ETagSetting = 'weak' | 'strong' | boolean;
+
+/** Current validators of a resource, used to evaluate If-Match / If-Unmodified-Since */
+export interface ResourceValidators {
+    etag?: string;
+    lastModified?: Date | string | number;
+}
+
+/**
+ * Generate an ETag from a response body
+ * @param {string | Buffer} body - Response body
+ * @param {boolean} [weak=true] - Generate a weak validator (W/"...")
+ * @returns {string} - Quoted ETag
+ * @example
+ * generateETag(JSON.stringify(user)) // 'W/"1a-2jmj7l5rSw0yVb/vlWAYkK/YBwk"'
+ */
+export function generateETag(body: string | Buffer, weak: boolean = true): string {
+    const buffer = typeof body === 'string' ? Buffer.from(body) : body;
+    const hash = createHash('sha1').update(buffer).digest('base64').slice(0, 27);
+    const tag = `"${buffer.length.toString(16)}-${hash}"`;
+    return weak ? `W/${tag}` : tag;
+}
+
+/**
+ * Generate a strong ETag from file stats (size and modification time)
+ * Strong so If-Range can resume downloads, precompressed siblings get their own tag from their own stats
+ * @param {Stats} stats - File stats
+ * @returns {string} - Quoted ETag
+ */
+export function statETag(stats: Stats): string {
+    return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+/**
+ * Check whether the client cache is fresh for a GET/HEAD request (the response can be a 304)
+ * If-None-Match takes precedence over If-Modified-Since, as required by RFC 9110
+ * @param {IncomingHttpHeaders} reqHeaders - Request headers
+ * @param {OutgoingHttpHeaders} resHeaders - Response headers (ETag, Last-Modified)
+ * @returns {boolean} - True if the cached representation is still valid
+ */
+export function isFresh(reqHeaders: IncomingHttpHeaders, resHeaders: OutgoingHttpHeaders): boolean {
+    const ifNoneMatch = reqHeaders['if-none-match'];
+    const ifModifiedSince = reqHeaders['if-modified-since'];
+
+    if (!ifNoneMatch && !ifModifiedSince) {
+        return false;
+    }
+
+    // Never serve a cached copy when the client explicitly asks for a fresh one
+    if (/(?:^|,)\s*no-cache\s*(?:,|$)/.test(String(reqHeaders['cache-control'] || ''))) {
+        return false;
+    }
+
+    if (ifNoneMatch) {
+        const etag = resHeaders['etag'];
+        return etag !== undefined && matchesETag(ifNoneMatch, String(etag), false);
+    }
+
+    const lastModified = parseDate(resHeaders['last-modified'] as string | undefined);
+    const since = parseDate(ifModifiedSince);
+    return lastModified !== undefined && since !== undefined && lastModified <= since;
+}
+
+/**
+ * Evaluate If-Match and If-Unmodified-Since against the current validators of a resource
+ * If-Match uses strong comparison and takes precedence over If-Unmodified-Since
+ * @param {IncomingHttpHeaders} reqHeaders - Request headers
+ * @param {ResourceValidators} current - Current validators of the resource (no etag means the resource does not exist)
+ * @returns {boolean} - True if the request may proceed, false if it must fail with 412
+ * @example
+ * if (!checkPreconditions(req.headers, { etag: `"${article.version}"` })) throw new PreconditionFailedException()
+ */
+export function checkPreconditions(reqHeaders: IncomingHttpHeaders, current: ResourceValidators): boolean {
+    const ifMatch = reqHeaders['if-match'];
+    if (ifMatch) {
+        if (ifMatch.trim() === '*') {
+            return current.etag !== undefined || current.lastModified !== undefined;
+        }
+        return current.etag !== undefined && matchesETag(ifMatch, current.etag, true);
+    }
+
+    const ifUnmodifiedSince = parseDate(reqHeaders['if-unmodified-since']);
+    if (ifUnmodifiedSince !== undefined && current.lastModified !== undefined) {
+        const lastModified = parseDate(current.lastModified);
+        return lastModified !== undefined && lastModified <= ifUnmodifiedSince;
+    }
+
+    return true;
+}
+
+/**
+ * Check whether an ETag is listed in an If-Match / If-None-Match header
+ * @param {string} header - Header value ('*' or a comma separated list of ETags)
+ * @param {string} etag - ETag to look for
+ * @param {boolean} strong - Use strong comparison (weak ETags never match)
+ * @returns {boolean} - True if the ETag matches
+ */
+export function matchesETag(header: string, etag: string, strong: boolean): boolean {
+    if (header.trim() === '*') {
+        return true;
+    }
+
+    if (strong && etag.startsWith('W/')) {
+        return false;
+    }
+
+    const opaque = (tag: string) => tag.replace(/^W\//, '');
+
+    return header.split(',').some((candidate) => {
+        const tag = candidate.trim();
+        if (strong && tag.startsWith('W/')) {
+            return false;
+        }
+        return opaque(tag) === opaque(etag);
+    });
+}
+
+/**
+ * Evaluate If-Range: a Range header is only honoured if the client copy is still current
+ * An ETag is compared strongly, a date must equal Last-Modified exactly
+ * @param {IncomingHttpHeaders} reqHeaders - Request headers
+ * @param {OutgoingHttpHeaders} resHeaders - Response headers (ETag, Last-Modified)
+ * @returns {boolean} - True if the Range header may be used
+ */
+export function isRangeFresh(reqHeaders: IncomingHttpHeaders, resHeaders: OutgoingHttpHeaders): boolean {
+    const ifRange = reqHeaders['if-range'] as string | undefined;
+    if (!ifRange) {
+        return true;
+    }
+
+    if (ifRange.includes('"')) {
+        const etag = resHeaders['etag'];
+        return etag !== undefined && matchesETag(ifRange, String(etag), true);
+    }
+
+    const lastModified = parseDate(resHeaders['last-modified'] as string | undefined);
+    const date = parseDate(ifRange);
+    return lastModified !== undefined && lastModified === date;
+}
+
+// Parse an HTTP date to a timestamp rounded to the second (HTTP dates have no milliseconds)
+function parseDate(value: Date | string | number | undefined): number | undefined {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    const time = value instanceof Date ? value.getTime() : new Date(value).getTime();
+    return Number.isNaN(time) ? undefined : Math.floor(time / 1000) * 1000;
+}
@@ -1,12 +1,31 @@
 export * from './decorators'
 export * from './middlewares'
+export * from './bodyParsers'
+export * from './cbor'
 export * from './Container'
+export * from './contentNegotiation'
 export * from './Controller'
 export * from './DIContainer'
+export * from './etag'
+export * from './Gateway'
+export * from './inject'
 export * from './LyraServer'
+export * from './msgpack'
+export * from './multipart'
 export * from './MultipartParser'
+export * from './openApi'
+export * from './pipes'
+export * from './qs'
+export * from './querySchema'
 export * from './rateLimit'
+export * from './RequestContext'
 export * from './Router'
+export * from './RouteTree'
 export * from './Service'
+export * from './SseStream'
+export * from './staticFiles'
 export * from './serverTypes'
+export * from './trustProxy'
+export * from './WebSocketConnection'
+export * from './WebSocketServer'
 export * from './xmlParser'
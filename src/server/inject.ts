@@ -0,0 +1,300 @@
+import * as http from 'http';
+import * as net from 'net';
+
+/** Request description for an injected (socket-less) request */
+export interface InjectOptions {
+    method?: string;
+    url: string;
+    /** Extra query parameters, appended to the url query string */
+    query?: Record<string, string | number | boolean | Array<string | number | boolean>>;
+    headers?: Record<string, string | string[]>;
+    /** Request body: objects are sent as JSON, strings and Buffers as-is */
+    body?: any;
+    /** Cookies sent in the Cookie header */
+    cookies?: Record<string, string>;
+    /** Client address seen by the application (default: 127.0.0.1) */
+    remoteAddress?: string;
+}
+
+/** Cookie set by an injected response */
+export interface InjectedCookie {
+    name: string;
+    value: string;
+    path?: string;
+    domain?: string;
+    expires?: Date;
+    maxAge?: number;
+    secure?: boolean;
+    httpOnly?: boolean;
+    sameSite?: string;
+}
+
+/** Result of an injected request */
+export interface InjectResponse {
+    statusCode: number;
+    statusMessage: string;
+    headers: http.OutgoingHttpHeaders;
+    /** Parsed body: JSON bodies are parsed, anything else is returned as a string */
+    body: any;
+    /** Raw body as a string */
+    payload: string;
+    /** Raw body as a Buffer */
+    rawPayload: Buffer;
+    /** Cookies set by the response, by name */
+    cookies: Record<string, InjectedCookie>;
+}
+
+/** Function dispatching a request through the application */
+export type InjectDispatch = (req: http.IncomingMessage, res: http.ServerResponse) => void | Promise<void>;
+
+/**
+ * Run a request through a dispatch function without opening a socket
+ * Builds a real IncomingMessage / ServerResponse pair, so the whole pipeline (middlewares,
+ * body parsing, routing, error handling) runs as it would for a network request
+ * @param {InjectDispatch} dispatch - Request handler, e.g. LyraServer.handleRequest
+ * @param {InjectOptions} options - Request to inject
+ * @returns {Promise<InjectResponse>} - Resolves once the response has ended
+ * @example
+ * const res = await injectRequest((req, res) => app.handleRequest(req, res), { method: 'GET', url: '/users/1' })
+ * res.statusCode // 200
+ * res.body // { id: 1, ... }
+ */
+export function injectRequest(dispatch: InjectDispatch, options: InjectOptions): Promise<InjectResponse> {
+    const req = createRequest(options);
+    const res = new http.ServerResponse(req);
+    const chunks: Buffer[] = [];
+
+    return new Promise((resolve, reject) => {
+        captureOutput(res, chunks);
+
+        res.once('finish', () => {
+            req.socket.destroy();
+            resolve(buildResponse(res, Buffer.concat(chunks)));
+        });
+
+        Promise.resolve()
+            .then(() => dispatch(req, res))
+            .catch((error) => {
+                req.socket.destroy();
+                reject(error);
+            });
+    });
+}
+
+// Build an IncomingMessage on an unconnected socket, with the body already queued
+function createRequest(options: InjectOptions): http.IncomingMessage {
+    const socket = new net.Socket();
+    Object.defineProperty(socket, 'remoteAddress', { value: options.remoteAddress || '127.0.0.1' });
+
+    const req = new http.IncomingMessage(socket);
+    req.method = (options.method || 'GET').toUpperCase();
+    req.url = buildUrl(options.url, options.query);
+    req.httpVersion = '1.1';
+    req.httpVersionMajor = 1;
+    req.httpVersionMinor = 1;
+
+    const headers: http.IncomingHttpHeaders = {};
+    for (const [name, value] of Object.entries(options.headers || {})) {
+        headers[name.toLowerCase()] = value;
+    }
+
+    if (!headers.host) {
+        headers.host = 'localhost';
+    }
+
+    if (options.cookies) {
+        const cookieHeader = Object.entries(options.cookies)
+            .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+            .join('; ');
+        headers.cookie = headers.cookie ? `${headers.cookie}; ${cookieHeader}` : cookieHeader;
+    }
+
+    const payload = serializeBody(options.body, headers);
+    if (payload) {
+        headers['content-length'] = headers['content-length'] || String(payload.length);
+        req.push(payload);
+    }
+    req.push(null);
+
+    req.headers = headers;
+    req.rawHeaders = Object.entries(headers).flatMap(([name, value]) =>
+        Array.isArray(value) ? value.flatMap(v => [name, v]) : [name, String(value)]);
+
+    return req;
+}
+
+// Append query parameters to a url
+function buildUrl(url: string, query?: InjectOptions['query']): string {
+    if (!query) {
+        return url;
+    }
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            params.append(key, String(item));
+        }
+    }
+
+    const search = params.toString();
+    if (!search) {
+        return url;
+    }
+    return url + (url.includes('?') ? '&' : '?') + search;
+}
+
+// Serialize the body, defaulting the content type for JSON bodies
+function serializeBody(body: any, headers: http.IncomingHttpHeaders): Buffer | null {
+    if (body === undefined || body === null) {
+        return null;
+    }
+
+    if (Buffer.isBuffer(body)) {
+        return body;
+    }
+
+    if (typeof body === 'string') {
+        return Buffer.from(body);
+    }
+
+    if (!headers['content-type']) {
+        headers['content-type'] = 'application/json';
+    }
+    return Buffer.from(JSON.stringify(body));
+}
+
+// Collect written chunks instead of sending them to a socket
+function captureOutput(res: http.ServerResponse, chunks: Buffer[]): void {
+    const collect = (chunk: any, encoding?: any) => {
+        // Like a socket response, HEAD keeps the headers and drops the body
+        if (chunk === undefined || chunk === null || typeof chunk === 'function' || res.req.method === 'HEAD') {
+            return;
+        }
+        chunks.push(Buffer.isBuffer(chunk)
+            ? chunk
+            : Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : undefined));
+    };
+
+    const callbackOf = (args: any[]) => args.find(arg => typeof arg === 'function');
+
+    // Headers passed to writeHead() are only kept by getHeaders() if they go through setHeader()
+    const writeHead = res.writeHead.bind(res);
+    res.writeHead = ((statusCode: number, ...args: any[]) => {
+        const reason = typeof args[0] === 'string' ? args[0] : undefined;
+        const headers = typeof args[0] === 'string' ? args[1] : args[0];
+
+        if (Array.isArray(headers)) {
+            for (let i = 0; i < headers.length; i += 2) {
+                res.setHeader(headers[i], headers[i + 1]);
+            }
+        } else if (headers) {
+            for (const [name, value] of Object.entries(headers)) {
+                if (value !== undefined) res.setHeader(name, value as any);
+            }
+        }
+
+        return reason ? writeHead(statusCode, reason) : writeHead(statusCode);
+    }) as typeof res.writeHead;
+
+    res.write = ((chunk: any, ...args: any[]) => {
+        if (!res.headersSent) {
+            res.writeHead(res.statusCode);
+        }
+        collect(chunk, args[0]);
+        callbackOf(args)?.();
+        return true;
+    }) as typeof res.write;
+
+    res.end = ((chunk?: any, ...args: any[]) => {
+        if (res.writableEnded) {
+            return res;
+        }
+        if (!res.headersSent) {
+            res.writeHead(res.statusCode);
+        }
+        collect(chunk, args[0]);
+        (res as any).finished = true;
+
+        process.nextTick(() => {
+            callbackOf([chunk, ...args])?.();
+            res.emit('finish');
+            res.emit('close');
+        });
+        return res;
+    }) as typeof res.end;
+}
+
+// Build the injection result from the ended response
+function buildResponse(res: http.ServerResponse, rawPayload: Buffer): InjectResponse {
+    const headers = res.getHeaders();
+    const payload = rawPayload.toString('utf-8');
+    const contentType = String(headers['content-type'] || '');
+
+    let body: any = payload;
+    if (contentType.includes('json') && payload) {
+        try {
+            body = JSON.parse(payload);
+        } catch {
+            body = payload;
+        }
+    }
+
+    return {
+        statusCode: res.statusCode,
+        statusMessage: res.statusMessage,
+        headers,
+        body,
+        payload,
+        rawPayload,
+        cookies: parseSetCookie(headers['set-cookie'])
+    };
+}
+
+// Parse Set-Cookie header values into cookies keyed by name
+function parseSetCookie(header: http.OutgoingHttpHeader | undefined): Record<string, InjectedCookie> {
+    const cookies: Record<string, InjectedCookie> = {};
+    if (header === undefined) {
+        return cookies;
+    }
+
+    const values = Array.isArray(header) ? header : [String(header)];
+
+    for (const value of values) {
+        const [pair, ...attributes] = value.split(';').map(part => part.trim());
+        const separator = pair.indexOf('=');
+        if (separator === -1) continue;
+
+        const cookie: InjectedCookie = {
+            name: decodeCookiePart(pair.slice(0, separator)),
+            value: decodeCookiePart(pair.slice(separator + 1))
+        };
+
+        for (const attribute of attributes) {
+            const [key, ...rest] = attribute.split('=');
+            const attributeValue = rest.join('=');
+
+            switch (key.toLowerCase()) {
+                case 'path': cookie.path = attributeValue; break;
+                case 'domain': cookie.domain = attributeValue; break;
+                case 'expires': cookie.expires = new Date(attributeValue); break;
+                case 'max-age': cookie.maxAge = Number(attributeValue); break;
+                case 'secure': cookie.secure = true; break;
+                case 'httponly': cookie.httpOnly = true; break;
+                case 'samesite': cookie.sameSite = attributeValue; break;
+            }
+        }
+
+        cookies[cookie.name] = cookie;
+    }
+
+    return cookies;
+}
+
+// Cookie values are not always percent-encoded: a malformed sequence ('100%') is kept as sent
+function decodeCookiePart(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
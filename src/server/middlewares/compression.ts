@@ -0,0 +1,240 @@
+import * as zlib from 'zlib';
+import { appendVary } from '../contentNegotiation';
+import { Middleware, NextFunction, Request, Response } from '../serverTypes';
+
+/** Supported content encodings */
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+/** Compression middleware configuration */
+export interface CompressionOptions {
+    /** Minimum body size in bytes to compress, when the size is known (default: 1024) */
+    threshold?: number;
+    /** zlib compression level (gzip/deflate 0-9) or brotli quality (0-11) */
+    level?: number;
+    /** Encodings offered, in server preference order (default: ['br', 'gzip', 'deflate']) */
+    encodings?: CompressionEncoding[];
+    /** Decide whether a response may be compressed (default: compressible content types) */
+    filter?: (req: Request, res: Response) => boolean;
+}
+
+// Text-like types benefit from compression; event streams must not be buffered
+const COMPRESSIBLE_TYPE = /^text\/|[/+](json|xml|javascript|ecmascript)\b|^image\/svg\+xml|^application\/(x-)?(www-form-urlencoded|ndjson)/i;
+
+/**
+ * Default compression filter: compress text, JSON, XML, JavaScript and SVG responses
+ * @param {Request} req - HTTP request
+ * @param {Response} res - HTTP response
+ * @returns {boolean} - True if the response content type is compressible
+ */
+export function shouldCompress(req: Request, res: Response): boolean {
+    const contentType = String(res.getHeader('Content-Type') || '');
+    return COMPRESSIBLE_TYPE.test(contentType) && !/^text\/event-stream/i.test(contentType);
+}
+
+/**
+ * Pick the encoding to use from an Accept-Encoding header
+ * Highest q-value wins, ties are broken by the server preference order, '*' matches unlisted encodings
+ * @param {string | undefined} header - Accept-Encoding header value
+ * @param {CompressionEncoding[]} [encodings] - Encodings offered, in preference order
+ * @returns {CompressionEncoding | null} - Selected encoding, null for identity
+ * @example
+ * negotiateEncoding('gzip;q=1, br;q=0.5') // 'gzip'
+ * negotiateEncoding('gzip, br') // 'br'
+ */
+export function negotiateEncoding(
+    header: string | undefined,
+    encodings: CompressionEncoding[] = ['br', 'gzip', 'deflate']
+): CompressionEncoding | null {
+    if (!header) {
+        return null;
+    }
+
+    const accepted = new Map<string, number>();
+    for (const part of header.split(',')) {
+        const [name, ...params] = part.trim().toLowerCase().split(';');
+        if (!name) continue;
+
+        const qParam = params.map(p => p.trim()).find(p => p.startsWith('q='));
+        const q = qParam ? Number(qParam.slice(2)) : 1;
+        accepted.set(name.trim(), Number.isNaN(q) ? 0 : q);
+    }
+
+    let selected: CompressionEncoding | null = null;
+    let selectedQ = 0;
+
+    for (const encoding of encodings) {
+        const q = accepted.get(encoding) ?? accepted.get('*') ?? 0;
+        if (q > selectedQ) {
+            selected = encoding;
+            selectedQ = q;
+        }
+    }
+
+    return selected;
+}
+
+/**
+ * Compression middleware factory
+ * Compresses response bodies with brotli, gzip or deflate according to Accept-Encoding.
+ * Works with res.json/res.send and with streamed responses (e.g. serveStatic), honouring
+ * back-pressure. Responses with a known size below the threshold, a Content-Encoding,
+ * a Content-Range, 'Cache-Control: no-transform', a 204/206/304 status or a HEAD method are sent as-is.
+ * @param {CompressionOptions} [options={}] - Compression configuration
+ * @returns {Middleware} - Configured compression middleware
+ * @example
+ * app.use(compression())
+ * app.use(compression({ threshold: 2048, encodings: ['gzip'] }))
+ */
+export function compression(options: CompressionOptions = {}): Middleware {
+    const {
+        threshold = 1024,
+        level,
+        encodings = ['br', 'gzip', 'deflate'],
+        filter = shouldCompress
+    } = options;
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        const originalWrite = res.write;
+        const originalEnd = res.end;
+        const originalWriteHead = res.writeHead;
+
+        let decided = false;
+        let ended = false;
+        let stream: zlib.BrotliCompress | zlib.Gzip | zlib.Deflate | null = null;
+
+        // Decide once, right before the headers go out, whether to compress the body
+        const decide = (length?: number) => {
+            decided = true;
+
+            if (req.method === 'HEAD' || res.headersSent || !filter(req, res)) {
+                return;
+            }
+
+            appendVary(res, 'Accept-Encoding');
+
+            const contentLength = length ?? parseLength(res.getHeader('Content-Length'));
+            const cacheControl = String(res.getHeader('Cache-Control') || '');
+
+            // Byte ranges are offsets into the identity body, compressing them would corrupt the client's reassembly
+            if (res.statusCode < 200 || res.statusCode === 204 || res.statusCode === 206 || res.statusCode === 304
+                || res.getHeader('Content-Encoding') || res.getHeader('Content-Range')
+                || /\bno-transform\b/i.test(cacheControl)
+                || (contentLength !== undefined && contentLength < threshold)) {
+                return;
+            }
+
+            const encoding = negotiateEncoding(req.headers['accept-encoding'] as string | undefined, encodings);
+            if (!encoding) {
+                return;
+            }
+
+            res.setHeader('Content-Encoding', encoding);
+            res.removeHeader('Content-Length');
+
+            stream = createStream(encoding, level);
+            const compressor = stream;
+
+            compressor.on('data', (chunk: Buffer) => {
+                if ((originalWrite as any).call(res, chunk) === false) {
+                    compressor.pause();
+                }
+            });
+            res.on('drain', () => compressor.resume());
+            // Writers wait for 'drain' on the response when the compressor is full (e.g. piped file streams)
+            compressor.on('drain', () => res.emit('drain'));
+            compressor.on('end', () => (originalEnd as any).call(res));
+            compressor.on('error', (error) => res.destroy(error));
+        };
+
+        res.writeHead = function (this: Response, ...args: any[]) {
+            if (!decided) {
+                // Headers passed to writeHead() must be visible to the decision
+                const headers = typeof args[1] === 'object' ? args[1] : args[2];
+                if (headers && !Array.isArray(headers)) {
+                    for (const [name, value] of Object.entries(headers)) {
+                        if (value !== undefined) res.setHeader(name, value as any);
+                    }
+                    args = typeof args[1] === 'object' ? [args[0]] : [args[0], args[1]];
+                }
+                res.statusCode = args[0];
+                decide();
+            }
+            return (originalWriteHead as any).apply(res, args);
+        } as typeof res.writeHead;
+
+        res.write = function (this: Response, chunk: any, ...args: any[]) {
+            if (!decided) {
+                decide();
+            }
+            if (!stream) {
+                return (originalWrite as any).call(res, chunk, ...args);
+            }
+            const callback = args.find(arg => typeof arg === 'function');
+            return stream.write(toBuffer(chunk, args[0]), callback);
+        } as typeof res.write;
+
+        res.end = function (this: Response, chunk?: any, ...args: any[]) {
+            if (ended) {
+                return res;
+            }
+            ended = true;
+
+            const body = typeof chunk === 'function' ? undefined : chunk;
+            if (!decided) {
+                decide(body === undefined || body === null ? undefined : toBuffer(body, args[0]).length);
+            }
+            if (!stream) {
+                return (originalEnd as any).call(res, chunk, ...args);
+            }
+
+            // The body is flushed asynchronously: flag the response as sent right away
+            (res as any)._responseSent = true;
+
+            const callback = [chunk, ...args].find(arg => typeof arg === 'function');
+            if (callback) {
+                res.once('finish', callback);
+            }
+
+            if (body !== undefined && body !== null) {
+                stream.end(toBuffer(body, args[0]));
+            } else {
+                stream.end();
+            }
+            return res;
+        } as typeof res.end;
+
+        next();
+    };
+}
+
+// Create the zlib stream for an encoding
+function createStream(encoding: CompressionEncoding, level?: number): zlib.BrotliCompress | zlib.Gzip | zlib.Deflate {
+    switch (encoding) {
+        case 'br':
+            return zlib.createBrotliCompress(level === undefined ? {} : {
+                params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level }
+            });
+        case 'gzip':
+            return zlib.createGzip(level === undefined ? {} : { level });
+        case 'deflate':
+            return zlib.createDeflate(level === undefined ? {} : { level });
+    }
+}
+
+function toBuffer(chunk: any, encoding?: any): Buffer {
+    if (Buffer.isBuffer(chunk)) {
+        return chunk;
+    }
+    if (chunk instanceof Uint8Array) {
+        return Buffer.from(chunk);
+    }
+    return Buffer.from(String(chunk), typeof encoding === 'string' ? encoding as BufferEncoding : 'utf-8');
+}
+
+function parseLength(value: number | string | string[] | undefined): number | undefined {
+    if (value === undefined || Array.isArray(value)) {
+        return undefined;
+    }
+    const length = Number(value);
+    return Number.isFinite(length) ? length : undefined;
+}
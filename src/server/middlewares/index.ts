@@ -1,3 +1,4 @@
+export * from './compression'
 export * from './cors'
 export * from './logger'
 export * from './MultipartMiddleware'
\ No newline at end of file
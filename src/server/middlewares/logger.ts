@@ -1,3 +1,4 @@
+import {AsyncResource} from "async_hooks";
 import {NextFunction, Request, Response} from "@/core/server";
 import {HTTP_STATUS} from "@/core/errors/HttpStatus";
 import {logger as coreLogger} from "@/core/logger";
@@ -9,7 +10,7 @@ const STATUS_CODE_TO_NAME: Record<number, string> = Object.entries(HTTP_STATUS).
 }, {} as Record<number, string>);
 
 /**
- * Logging middleware that outputs request method, URL, status name, and status code with timestamp
+ * Logging middleware that outputs client IP, request method, URL, status name, and status code with timestamp
  * Logs to console and writes to log files based on environment (dev.log or prod.log)
  * Uses the Logger class for centralized logging
  * @param {Request} req - HTTP request object
@@ -25,12 +26,12 @@ export function logger(req: Request, res: Response, next: NextFunction) {
     // This ensures we log the actual URL the user requested, not internal forwards
     const originalUrl = req.originalUrl || req.url;
 
-    // Log after response is finished
-    res.on('finish', () => {
+    // Log after response is finished, in the request context so the line carries the request ID
+    res.on('finish', AsyncResource.bind(() => {
         const duration = Date.now() - startTime;
         const statusName = STATUS_CODE_TO_NAME[res.statusCode] || 'UNKNOWN';
         const statusCode = res.statusCode;
-        const logMessage = `[${timestamp}] ${req.method} ${originalUrl} ➞ ${statusName} ${statusCode} (${duration}ms)`;
+        const logMessage = `[${timestamp}] ${req.ip || req.socket?.remoteAddress || '-'} ${req.method} ${originalUrl} ➞ ${statusName} ${statusCode} (${duration}ms)`;
 
         // Use Logger class with appropriate log level based on status code
         if (statusCode >= 500) {
@@ -42,7 +43,7 @@ export function logger(req: Request, res: Response, next: NextFunction) {
         } else {
             coreLogger.success(logMessage);
         }
-    });
+    }));
 
     next();
 }
\ No newline at end of file
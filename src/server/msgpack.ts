@@ -0,0 +1,297 @@
+/**
+ * Built-in MessagePack encoder and decoder for LyraJS
+ * Dates use the timestamp extension (-1), Buffers the bin family; objects are encoded like JSON.stringify
+ * encodes them (toJSON() is honoured, undefined and function properties are skipped)
+ */
+
+/** Maximum nesting of arrays and maps, protecting against cyclic values and hostile payloads */
+const MAX_DEPTH = 512;
+
+/** Timestamp extension type */
+const TIMESTAMP_TYPE = -1;
+
+// 64-bit integer bounds (BigInt literals need ES2020)
+const UINT64_MAX = BigInt('0xffffffffffffffff');
+const INT64_MIN = -BigInt('0x8000000000000000');
+
+/** Value of an extension type other than the timestamp */
+export interface MsgPackExtension {
+    type: number;
+    data: Buffer;
+}
+
+/**
+ * Encode a value as MessagePack
+ * @param {any} value - Value to encode
+ * @returns {Buffer} - Encoded bytes
+ * @throws {RangeError} - When the value nests too deeply (or is cyclic), or a bigint does not fit 64 bits
+ * @example
+ * res.end(encodeMsgPack({ id: 1, tags: ['a'], createdAt: new Date() }))
+ */
+export function encodeMsgPack(value: any): Buffer {
+    const parts: Buffer[] = [];
+    encodeValue(value, parts, 0);
+    return Buffer.concat(parts);
+}
+
+/**
+ * Decode a MessagePack document
+ * @param {Buffer} data - Encoded bytes, holding exactly one value
+ * @returns {any} - Decoded value (64-bit integers outside the safe range become bigints)
+ * @throws {RangeError} - When the data is truncated, malformed or followed by trailing bytes
+ * @example
+ * const body = decodeMsgPack(buffer)
+ */
+export function decodeMsgPack(data: Buffer): any {
+    const reader = { data, offset: 0 };
+    const value = decodeValue(reader, 0);
+    if (reader.offset !== data.length) {
+        throw new RangeError('Unexpected trailing bytes after MessagePack value');
+    }
+    return value;
+}
+
+function encodeValue(value: any, parts: Buffer[], depth: number): void {
+    if (depth > MAX_DEPTH) {
+        throw new RangeError('MessagePack value is nested too deeply');
+    }
+
+    if (value === null || value === undefined) {
+        parts.push(Buffer.from([0xc0]));
+    } else if (typeof value === 'boolean') {
+        parts.push(Buffer.from([value ? 0xc3 : 0xc2]));
+    } else if (typeof value === 'number') {
+        encodeNumber(value, parts);
+    } else if (typeof value === 'bigint') {
+        encodeBigInt(value, parts);
+    } else if (typeof value === 'string') {
+        const bytes = Buffer.from(value, 'utf-8');
+        parts.push(lengthHeader(bytes.length, [0xa0, 32], 0xd9, 0xda, 0xdb), bytes);
+    } else if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+        parts.push(lengthHeader(value.length, undefined, 0xc4, 0xc5, 0xc6), Buffer.from(value));
+    } else if (value instanceof Date) {
+        encodeTimestamp(value, parts);
+    } else if (Array.isArray(value)) {
+        parts.push(lengthHeader(value.length, [0x90, 16], undefined, 0xdc, 0xdd));
+        value.forEach(item => encodeValue(item, parts, depth + 1));
+    } else if (value instanceof Map) {
+        parts.push(lengthHeader(value.size, [0x80, 16], undefined, 0xde, 0xdf));
+        value.forEach((item, key) => {
+            encodeValue(key, parts, depth + 1);
+            encodeValue(item, parts, depth + 1);
+        });
+    } else if (typeof value.toJSON === 'function') {
+        encodeValue(value.toJSON(), parts, depth + 1);
+    } else if (typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined && typeof item !== 'function');
+        parts.push(lengthHeader(entries.length, [0x80, 16], undefined, 0xde, 0xdf));
+        for (const [key, item] of entries) {
+            encodeValue(key, parts, depth + 1);
+            encodeValue(item, parts, depth + 1);
+        }
+    } else {
+        // Functions and symbols have no MessagePack representation
+        parts.push(Buffer.from([0xc0]));
+    }
+}
+
+// Integers use the smallest int/uint family, other numbers a float32 when lossless, else a float64
+function encodeNumber(value: number, parts: Buffer[]): void {
+    if (!Number.isSafeInteger(value) || Object.is(value, -0)) {
+        if (Math.fround(value) === value || Number.isNaN(value)) {
+            parts.push(withHeader(0xca, 4, buffer => buffer.writeFloatBE(value, 1)));
+        } else {
+            parts.push(withHeader(0xcb, 8, buffer => buffer.writeDoubleBE(value, 1)));
+        }
+    } else if (value >= 0) {
+        if (value < 0x80) parts.push(Buffer.from([value]));
+        else if (value <= 0xff) parts.push(Buffer.from([0xcc, value]));
+        else if (value <= 0xffff) parts.push(withHeader(0xcd, 2, buffer => buffer.writeUInt16BE(value, 1)));
+        else if (value <= 0xffffffff) parts.push(withHeader(0xce, 4, buffer => buffer.writeUInt32BE(value, 1)));
+        else parts.push(withHeader(0xcf, 8, buffer => buffer.writeBigUInt64BE(BigInt(value), 1)));
+    } else {
+        if (value >= -32) parts.push(Buffer.from([0xe0 | (value + 32)]));
+        else if (value >= -0x80) parts.push(withHeader(0xd0, 1, buffer => buffer.writeInt8(value, 1)));
+        else if (value >= -0x8000) parts.push(withHeader(0xd1, 2, buffer => buffer.writeInt16BE(value, 1)));
+        else if (value >= -0x80000000) parts.push(withHeader(0xd2, 4, buffer => buffer.writeInt32BE(value, 1)));
+        else parts.push(withHeader(0xd3, 8, buffer => buffer.writeBigInt64BE(BigInt(value), 1)));
+    }
+}
+
+function encodeBigInt(value: bigint, parts: Buffer[]): void {
+    if (value >= BigInt(0) && value <= UINT64_MAX) {
+        parts.push(withHeader(0xcf, 8, buffer => buffer.writeBigUInt64BE(value, 1)));
+    } else if (value < BigInt(0) && value >= INT64_MIN) {
+        parts.push(withHeader(0xd3, 8, buffer => buffer.writeBigInt64BE(value, 1)));
+    } else {
+        throw new RangeError(`${value} does not fit a 64-bit MessagePack integer`);
+    }
+}
+
+// Timestamp 32 for whole seconds since 1970 that fit 32 bits, timestamp 96 otherwise
+function encodeTimestamp(date: Date, parts: Buffer[]): void {
+    const time = date.getTime();
+    const seconds = Math.floor(time / 1000);
+    const nanoseconds = (time - seconds * 1000) * 1e6;
+
+    if (nanoseconds === 0 && seconds >= 0 && seconds <= 0xffffffff) {
+        parts.push(withHeader(0xd6, 5, buffer => {
+            buffer.writeInt8(TIMESTAMP_TYPE, 1);
+            buffer.writeUInt32BE(seconds, 2);
+        }));
+    } else {
+        parts.push(withHeader(0xc7, 14, buffer => {
+            buffer[1] = 12;
+            buffer.writeInt8(TIMESTAMP_TYPE, 2);
+            buffer.writeUInt32BE(nanoseconds, 3);
+            buffer.writeBigInt64BE(BigInt(seconds), 7);
+        }));
+    }
+}
+
+// Header of a str, bin, array or map: fix form (prefix, limit), then 8, 16 and 32-bit length forms
+function lengthHeader(length: number, fix: [number, number] | undefined, code8: number | undefined, code16: number, code32: number): Buffer {
+    if (fix && length < fix[1]) return Buffer.from([fix[0] | length]);
+    if (code8 !== undefined && length <= 0xff) return Buffer.from([code8, length]);
+    if (length <= 0xffff) return withHeader(code16, 2, buffer => buffer.writeUInt16BE(length, 1));
+    return withHeader(code32, 4, buffer => buffer.writeUInt32BE(length, 1));
+}
+
+function withHeader(code: number, size: number, write: (buffer: Buffer) => void): Buffer {
+    const buffer = Buffer.alloc(1 + size);
+    buffer[0] = code;
+    write(buffer);
+    return buffer;
+}
+
+interface Reader {
+    data: Buffer;
+    offset: number;
+}
+
+// Reserve bytes of the input, failing on truncated data
+function take(reader: Reader, size: number): number {
+    if (reader.offset + size > reader.data.length) {
+        throw new RangeError('Unexpected end of MessagePack data');
+    }
+    const offset = reader.offset;
+    reader.offset += size;
+    return offset;
+}
+
+function decodeValue(reader: Reader, depth: number): any {
+    if (depth > MAX_DEPTH) {
+        throw new RangeError('MessagePack value is nested too deeply');
+    }
+
+    const { data } = reader;
+    const code = data[take(reader, 1)];
+
+    if (code < 0x80) return code;
+    if (code >= 0xe0) return code - 0x100;
+    if ((code & 0xf0) === 0x80) return decodeMap(reader, code & 0x0f, depth);
+    if ((code & 0xf0) === 0x90) return decodeArray(reader, code & 0x0f, depth);
+    if ((code & 0xe0) === 0xa0) return decodeString(reader, code & 0x1f);
+
+    switch (code) {
+        case 0xc0: return null;
+        case 0xc2: return false;
+        case 0xc3: return true;
+        case 0xc4: return decodeBinary(reader, data.readUInt8(take(reader, 1)));
+        case 0xc5: return decodeBinary(reader, data.readUInt16BE(take(reader, 2)));
+        case 0xc6: return decodeBinary(reader, data.readUInt32BE(take(reader, 4)));
+        case 0xc7: return decodeExtension(reader, data.readUInt8(take(reader, 1)));
+        case 0xc8: return decodeExtension(reader, data.readUInt16BE(take(reader, 2)));
+        case 0xc9: return decodeExtension(reader, data.readUInt32BE(take(reader, 4)));
+        case 0xca: return data.readFloatBE(take(reader, 4));
+        case 0xcb: return data.readDoubleBE(take(reader, 8));
+        case 0xcc: return data.readUInt8(take(reader, 1));
+        case 0xcd: return data.readUInt16BE(take(reader, 2));
+        case 0xce: return data.readUInt32BE(take(reader, 4));
+        case 0xcf: return toSafeNumber(data.readBigUInt64BE(take(reader, 8)));
+        case 0xd0: return data.readInt8(take(reader, 1));
+        case 0xd1: return data.readInt16BE(take(reader, 2));
+        case 0xd2: return data.readInt32BE(take(reader, 4));
+        case 0xd3: return toSafeNumber(data.readBigInt64BE(take(reader, 8)));
+        case 0xd4: return decodeExtension(reader, 1);
+        case 0xd5: return decodeExtension(reader, 2);
+        case 0xd6: return decodeExtension(reader, 4);
+        case 0xd7: return decodeExtension(reader, 8);
+        case 0xd8: return decodeExtension(reader, 16);
+        case 0xd9: return decodeString(reader, data.readUInt8(take(reader, 1)));
+        case 0xda: return decodeString(reader, data.readUInt16BE(take(reader, 2)));
+        case 0xdb: return decodeString(reader, data.readUInt32BE(take(reader, 4)));
+        case 0xdc: return decodeArray(reader, data.readUInt16BE(take(reader, 2)), depth);
+        case 0xdd: return decodeArray(reader, data.readUInt32BE(take(reader, 4)), depth);
+        case 0xde: return decodeMap(reader, data.readUInt16BE(take(reader, 2)), depth);
+        case 0xdf: return decodeMap(reader, data.readUInt32BE(take(reader, 4)), depth);
+        default:
+            throw new RangeError(`Invalid MessagePack type 0x${code.toString(16)}`);
+    }
+}
+
+function decodeString(reader: Reader, length: number): string {
+    const offset = take(reader, length);
+    return reader.data.toString('utf-8', offset, offset + length);
+}
+
+function decodeBinary(reader: Reader, length: number): Buffer {
+    const offset = take(reader, length);
+    return Buffer.from(reader.data.subarray(offset, offset + length));
+}
+
+function decodeArray(reader: Reader, length: number, depth: number): any[] {
+    // Every item takes at least one byte: reject impossible lengths before looping
+    if (length > reader.data.length - reader.offset) {
+        throw new RangeError('Unexpected end of MessagePack data');
+    }
+    const items: any[] = [];
+    for (let i = 0; i < length; i++) {
+        items.push(decodeValue(reader, depth + 1));
+    }
+    return items;
+}
+
+function decodeMap(reader: Reader, length: number, depth: number): Record<string, any> {
+    if (length * 2 > reader.data.length - reader.offset) {
+        throw new RangeError('Unexpected end of MessagePack data');
+    }
+    const map: Record<string, any> = {};
+    for (let i = 0; i < length; i++) {
+        const key = String(decodeValue(reader, depth + 1));
+        const value = decodeValue(reader, depth + 1);
+        // Define the property so a '__proto__' key cannot replace the prototype
+        Object.defineProperty(map, key, { value, enumerable: true, writable: true, configurable: true });
+    }
+    return map;
+}
+
+function decodeExtension(reader: Reader, length: number): Date | MsgPackExtension {
+    const { data } = reader;
+    const type = data.readInt8(take(reader, 1));
+    const offset = take(reader, length);
+
+    if (type !== TIMESTAMP_TYPE) {
+        return { type, data: Buffer.from(data.subarray(offset, offset + length)) };
+    }
+
+    switch (length) {
+        case 4:
+            return new Date(data.readUInt32BE(offset) * 1000);
+        case 8: {
+            // 30-bit nanoseconds followed by 34-bit seconds
+            const value = data.readBigUInt64BE(offset);
+            const nanoseconds = Number(value >> BigInt(34));
+            const seconds = Number(value & BigInt(0x3ffffffff));
+            return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+        }
+        case 12:
+            return new Date(Number(data.readBigInt64BE(offset + 4)) * 1000 + Math.floor(data.readUInt32BE(offset) / 1e6));
+        default:
+            throw new RangeError(`Invalid MessagePack timestamp length ${length}`);
+    }
+}
+
+function toSafeNumber(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
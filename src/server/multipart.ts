@@ -0,0 +1,190 @@
+import Busboy from 'busboy';
+import {randomBytes} from 'crypto';
+import {createWriteStream, promises as fsPromises, WriteStream} from 'fs';
+import {tmpdir} from 'os';
+import * as path from 'path';
+import {BadRequestException, PayloadTooLargeException} from '@/core/errors';
+import {ParsedMultipartData, UploadedFileData} from './MultipartParser';
+import {Request} from './serverTypes';
+
+/** Where uploaded files are stored while the request is handled */
+export type MultipartStorage = 'memory' | 'temp' | 'disk';
+
+/** Multipart parsing options, set globally with the 'upload options' setting or per route with @Upload */
+export interface MultipartOptions {
+    /**
+     * 'temp' files are written to dest and removed once the response is sent, 'disk' files are written
+     * to dest and kept, 'memory' files are Buffers (default: 'temp')
+     */
+    storage?: MultipartStorage;
+    /** Directory of 'temp' and 'disk' files (default: the OS temp directory for 'temp', ./uploads for 'disk') */
+    dest?: string;
+    /** Maximum size of each file in bytes (default: 10MB) */
+    maxFileSize?: number;
+    /** Maximum number of files (default: 10) */
+    maxFiles?: number;
+    /** Maximum number of non-file fields (default: 1000) */
+    maxFields?: number;
+    /** Maximum size of each non-file field value in bytes (default: 1MB) */
+    maxFieldSize?: number;
+}
+
+/** Default multipart options */
+export const DEFAULT_MULTIPART_OPTIONS: Required<Omit<MultipartOptions, 'dest'>> = {
+    storage: 'temp',
+    maxFileSize: 10 * 1024 * 1024,
+    maxFiles: 10,
+    maxFields: 1000,
+    maxFieldSize: 1024 * 1024
+};
+
+/**
+ * Stream a multipart/form-data request, writing files to disk (or memory) as they arrive
+ * Limits are enforced while streaming: the first breach stops reading, removes the files written
+ * so far and rejects with a 413. Files are removed as well when the client aborts the request
+ * @param {Request} req - Request, its body not consumed yet
+ * @param {MultipartOptions} [options] - Storage and limits
+ * @returns {Promise<ParsedMultipartData>} - Fields and files, files having a path ('temp', 'disk') or data ('memory')
+ * @throws {PayloadTooLargeException} - 413 when a file, field or count limit is exceeded
+ * @throws {BadRequestException} - 400 when the body is malformed or the request is aborted
+ * @example
+ * const { fields, files } = await parseMultipart(req, { storage: 'disk', dest: './uploads', maxFileSize: 500 * 1024 * 1024 })
+ */
+export async function parseMultipart(req: Request, options: MultipartOptions = {}): Promise<ParsedMultipartData> {
+    const settings = { ...DEFAULT_MULTIPART_OPTIONS, ...options };
+    const dest = settings.dest || (settings.storage === 'disk' ? path.join(process.cwd(), 'uploads') : tmpdir());
+
+    if (settings.storage !== 'memory') {
+        await fsPromises.mkdir(dest, { recursive: true });
+    }
+
+    return new Promise((resolve, reject) => {
+        const fields: Record<string, string> = {};
+        const files: UploadedFileData[] = [];
+        const paths: string[] = [];
+        const outputs: WriteStream[] = [];
+        const writes: Promise<void>[] = [];
+        let failed = false;
+        let busboy: Busboy.Busboy;
+
+        try {
+            busboy = Busboy({
+                headers: req.headers,
+                limits: {
+                    fileSize: settings.maxFileSize,
+                    files: settings.maxFiles,
+                    fields: settings.maxFields,
+                    fieldSize: settings.maxFieldSize
+                }
+            });
+        } catch {
+            reject(new BadRequestException('Invalid multipart body'));
+            return;
+        }
+
+        // Stop reading, remove the files written so far, then reject
+        const fail = (error: Error) => {
+            if (failed) return;
+            failed = true;
+
+            req.unpipe(busboy);
+            // Discard the rest of the body so the error response reaches the client
+            req.resume();
+            outputs.forEach(output => output.destroy());
+
+            Promise.all(writes)
+                .then(() => removeFiles(paths))
+                .then(() => reject(error));
+        };
+
+        if (settings.storage === 'temp') {
+            req._tempFiles = paths;
+        }
+
+        busboy.on('file', (fieldname, stream, info) => {
+            if (failed) {
+                stream.resume();
+                return;
+            }
+
+            const file: UploadedFileData = { fieldname, name: info.filename, encoding: info.encoding, mimetype: info.mimeType, size: 0 };
+            files.push(file);
+
+            stream.on('data', (chunk: Buffer) => {
+                file.size += chunk.length;
+            });
+            stream.on('limit', () => {
+                fail(new PayloadTooLargeException(`File "${info.filename}" exceeds the maximum size of ${settings.maxFileSize} bytes`));
+            });
+
+            // Busboy finishes once every file stream ended
+            if (settings.storage === 'memory') {
+                const chunks: Buffer[] = [];
+                stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+                stream.on('end', () => {
+                    file.data = Buffer.concat(chunks);
+                });
+                return;
+            }
+
+            // Random names: the client filename never reaches the file system
+            file.path = path.join(dest, `lyra-upload-${randomBytes(16).toString('hex')}`);
+            paths.push(file.path);
+
+            const output = createWriteStream(file.path);
+            outputs.push(output);
+            writes.push(new Promise<void>((done, fault) => {
+                output.on('close', done);
+                output.on('error', fault);
+            }).catch(fail));
+            stream.pipe(output);
+        });
+
+        busboy.on('field', (name, value, info) => {
+            if (info.valueTruncated) {
+                fail(new PayloadTooLargeException(`Field "${name}" exceeds the maximum size of ${settings.maxFieldSize} bytes`));
+                return;
+            }
+            // Define the property so a '__proto__' field cannot replace the prototype
+            Object.defineProperty(fields, name, { value, enumerable: true, writable: true, configurable: true });
+        });
+
+        busboy.on('filesLimit', () => fail(new PayloadTooLargeException(`Too many files, the maximum is ${settings.maxFiles}`)));
+        busboy.on('fieldsLimit', () => fail(new PayloadTooLargeException(`Too many fields, the maximum is ${settings.maxFields}`)));
+        busboy.on('error', () => fail(new BadRequestException('Error parsing multipart data')));
+
+        busboy.on('finish', () => {
+            Promise.all(writes).then(() => {
+                if (!failed) {
+                    resolve({ fields, files });
+                }
+            });
+        });
+
+        // A client closing the connection mid-upload leaves no files behind
+        req.on('close', () => {
+            if (!req.readableEnded) {
+                fail(new BadRequestException('Request aborted during upload'));
+            }
+        });
+
+        req.pipe(busboy);
+    });
+}
+
+/**
+ * Remove the 'temp' storage files of a request, files already moved away (e.g. by FileManager) are skipped
+ * @param {Request} req - Request
+ * @returns {Promise<void>}
+ */
+export async function removeTempFiles(req: Request): Promise<void> {
+    const paths = req._tempFiles;
+    if (paths && paths.length > 0) {
+        req._tempFiles = [];
+        await removeFiles(paths);
+    }
+}
+
+function removeFiles(paths: string[]): Promise<void> {
+    return Promise.all(paths.map(file => fsPromises.unlink(file).catch(() => undefined))).then(() => undefined);
+}
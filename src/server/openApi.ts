@@ -0,0 +1,597 @@
+import 'reflect-metadata';
+import {ProtectedRouteType} from '../types';
+import {BuiltinParserType, ParserType} from './bodyParsers';
+import {formatMimeTypes} from './contentNegotiation';
+import {getConsumes, getProduces} from './decorators/ContentTypeDecorator';
+import {getRoles} from './decorators/GuardDecorator';
+import {ApiSchema, getApiBody, getApiOperation, getApiResponses, getApiTags} from './decorators/OpenApiDecorator';
+import {getParamMetadata} from './decorators/ParamDecorator';
+import {getRoutePrefix, getRoutes} from './decorators/RouteDecorator';
+import {QueryParamType, QuerySchema} from './querySchema';
+import {RouteTree} from './RouteTree';
+import {HttpMethod, RouteParamType} from './serverTypes';
+import {getValidationMetadata} from '../validator/ValidationDecorators';
+
+/** OpenAPI schema object */
+export type OpenApiSchema = Record<string, any>;
+
+/** OpenAPI 3.1 document */
+export interface OpenApiDocument {
+    openapi: '3.1.0';
+    info: { title: string; version: string; description?: string };
+    servers?: Array<{ url: string; description?: string }>;
+    paths: Record<string, Record<string, any>>;
+    components: {
+        schemas: Record<string, OpenApiSchema>;
+        securitySchemes?: Record<string, any>;
+    };
+    tags?: Array<{ name: string }>;
+}
+
+/** Route documented in the generated document */
+export interface OpenApiRoute {
+    method: HttpMethod;
+    /** Full path, base path and controller prefix included */
+    path: string;
+    controller?: Function;
+    methodName?: string;
+    parserType?: ParserType;
+    params?: Record<string, RouteParamType>;
+    resolve?: Record<string, any>;
+    sse?: boolean;
+    /** Body DTO class */
+    body?: Function;
+    /** Query DTO class */
+    query?: Function;
+    /** Query parameter types */
+    querySchema?: QuerySchema;
+}
+
+/** Document generation options */
+export interface OpenApiOptions {
+    /** API title (default: 'API') */
+    title?: string;
+    /** API version (default: '1.0.0') */
+    version?: string;
+    description?: string;
+    servers?: Array<{ url: string; description?: string }>;
+    /** Body parser used by routes without their own parserType (default: 'json') */
+    parserType?: ParserType;
+    /** security.yaml access_control rules: matching operations require a JWT */
+    accessControl?: ProtectedRouteType[];
+    /** Entities documented in components even when no operation references them */
+    entities?: Function[];
+}
+
+/** Options of LyraServer.serveOpenApi(): document options and where the Swagger UI page loads its assets from */
+export interface OpenApiServeOptions extends OpenApiOptions {
+    /**
+     * Base URL of the swagger-ui-dist files (swagger-ui.css, swagger-ui-bundle.js), default: the unpkg CDN.
+     * Set it for offline or CSP-restricted deployments, e.g. serving node_modules/swagger-ui-dist with serveStatic()
+     */
+    swaggerUiUrl?: string;
+}
+
+/** Swagger UI assets loaded by the documentation page when no swaggerUiUrl is given, pinned to an exact version */
+export const SWAGGER_UI_CDN_URL = 'https://unpkg.com/swagger-ui-dist@5.33.1';
+
+// Subresource Integrity hashes of the SWAGGER_UI_CDN_URL files, update them with the version
+const SWAGGER_UI_CDN_INTEGRITY = {
+    css: 'sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW',
+    js: 'sha384-ZPehFMQommnnuaZ4rpxgkgTT2DKFVp4hZC/7pLit+9Lek9T1YGSo23eHFbvNkXkw'
+};
+
+/** Request body media type per built-in body parser, custom parsers are documented as binary */
+const PARSER_CONTENT_TYPES: Record<BuiltinParserType, string> = {
+    json: 'application/json',
+    xml: 'application/xml',
+    urlencoded: 'application/x-www-form-urlencoded',
+    text: 'text/plain',
+    raw: 'text/plain',
+    buffer: 'application/octet-stream',
+    ndjson: 'application/x-ndjson',
+    msgpack: 'application/msgpack',
+    cbor: 'application/cbor',
+    multipart: 'multipart/form-data'
+};
+
+/** Schema of declared route param types */
+const PARAM_TYPE_SCHEMAS: Record<RouteParamType, OpenApiSchema> = {
+    int: { type: 'integer' },
+    float: { type: 'number' },
+    number: { type: 'number' },
+    boolean: { type: 'boolean' },
+    uuid: { type: 'string', format: 'uuid' },
+    string: { type: 'string' }
+};
+
+const BODY_METHODS: HttpMethod[] = ['POST', 'PUT', 'PATCH'];
+
+/**
+ * List the routes of a decorated controller for documentation
+ * @param {Function} controller - Controller class
+ * @param {string} [basePath=''] - Prefix added before the controller prefix (router.base_path)
+ * @returns {OpenApiRoute[]} - Routes in declaration order
+ * @example
+ * const routes = collectControllerRoutes(UserController, '/api')
+ */
+export function collectControllerRoutes(controller: Function, basePath: string = ''): OpenApiRoute[] {
+    const prefix = getRoutePrefix(controller);
+
+    return getRoutes(controller).map(route => ({
+        method: route.method,
+        path: basePath + prefix + route.path,
+        controller,
+        methodName: route.methodName,
+        parserType: route.parserType,
+        params: route.params,
+        resolve: route.resolve,
+        sse: !!route.sse,
+        body: route.body,
+        query: route.query,
+        querySchema: route.querySchema
+    }));
+}
+
+/**
+ * Build an OpenAPI 3.1 document
+ * Paths come from the routes, parameters from their names and declared types (or the primary key
+ * of resolved entities), request bodies from the body parser, schemas from entity @Column metadata
+ * and body/query DTO validation decorators, and documentation from the @ApiOperation, @ApiTags,
+ * @ApiBody and @ApiResponse decorators.
+ * Operations under an access_control path require a JWT
+ * @param {OpenApiRoute[]} routes - Routes to document
+ * @param {OpenApiOptions} [options={}] - Document options
+ * @returns {OpenApiDocument} - OpenAPI document
+ * @example
+ * const document = buildOpenApiDocument(collectControllerRoutes(UserController, '/api'), {
+ *     title: 'Shop API',
+ *     accessControl: [{ path: '/api/admin', roles: ['ROLE_ADMIN'] }]
+ * })
+ */
+export function buildOpenApiDocument(routes: OpenApiRoute[], options: OpenApiOptions = {}): OpenApiDocument {
+    const schemas: Record<string, OpenApiSchema> = {};
+    const tags = new Set<string>();
+    const accessControl = options.accessControl || [];
+    const paths: Record<string, Record<string, any>> = {};
+    let secured = false;
+
+    const resolveSchema = (schema: ApiSchema): OpenApiSchema => {
+        if (Array.isArray(schema)) {
+            return { type: 'array', items: resolveSchema(schema[0]) };
+        }
+        if (typeof schema === 'function') {
+            if (!schemas[schema.name]) {
+                // Placeholder first: a DTO may reference itself
+                schemas[schema.name] = {};
+                schemas[schema.name] = isDto(schema) ? dtoToSchema(schema, resolveSchema) : entityToSchema(schema);
+            }
+            return { $ref: `#/components/schemas/${schema.name}` };
+        }
+        return schema;
+    };
+
+    for (const entity of options.entities || []) {
+        resolveSchema(entity);
+    }
+
+    for (const route of routes) {
+        const path = toOpenApiPath(route.path);
+        const operation = buildOperation(route, options.parserType || 'json', resolveSchema);
+
+        // @Roles on the handler or its controller, else the access_control rules covering the path
+        const decoratorRoles = route.controller && route.methodName ? getRoles(route.controller, route.methodName) : [];
+        const roles = decoratorRoles.length > 0 ? decoratorRoles : accessControlRoles(route.path, accessControl);
+        if (roles) {
+            secured = true;
+            operation.security = [{ bearerAuth: [] }, { cookieAuth: [] }];
+            if (roles.length > 0) {
+                operation['x-roles'] = roles;
+            }
+            operation.responses['401'] ??= { description: 'Missing, invalid or insufficient token' };
+        }
+
+        for (const tag of operation.tags || []) {
+            tags.add(tag);
+        }
+
+        paths[path] ??= {};
+        paths[path][route.method.toLowerCase()] = operation;
+    }
+
+    const document: OpenApiDocument = {
+        openapi: '3.1.0',
+        info: {
+            title: options.title || 'API',
+            version: options.version || '1.0.0',
+            ...(options.description ? { description: options.description } : {})
+        },
+        ...(options.servers ? { servers: options.servers } : {}),
+        paths,
+        components: { schemas }
+    };
+
+    // Declared once an operation references them, whether through @Roles or access_control
+    if (secured) {
+        document.components.securitySchemes = {
+            bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+            cookieAuth: { type: 'apiKey', in: 'cookie', name: 'Token' }
+        };
+    }
+    if (tags.size > 0) {
+        document.tags = [...tags].sort().map(name => ({ name }));
+    }
+
+    return document;
+}
+
+/**
+ * Build the schema of an entity from its @Column metadata
+ * Columns are nullable unless declared nullable: false; required columns are the non-nullable ones
+ * without default value, primary keys are read-only
+ * @param {Function} entity - Entity class
+ * @returns {OpenApiSchema} - Object schema
+ * @example
+ * entityToSchema(User)
+ * // { type: 'object', properties: { id: { type: 'integer', readOnly: true }, email: { ... } }, required: ['email'] }
+ */
+export function entityToSchema(entity: Function): OpenApiSchema {
+    const columns: any[] = Reflect.getMetadata('entity:columns', entity.prototype) || [];
+    const properties: Record<string, OpenApiSchema> = {};
+    const required: string[] = [];
+
+    for (const column of columns) {
+        if (!column?.name || !column.type) {
+            continue;
+        }
+
+        properties[column.name] = columnToSchema(column);
+        if (column.nullable === false && !column.pk && column.default === undefined) {
+            required.push(column.name);
+        }
+    }
+
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/**
+ * Map an entity column to a JSON schema
+ * @param {{ type: string, size?: string | number, nullable?: boolean, pk?: boolean, default?: any, references?: string }} column - Column metadata
+ * @returns {OpenApiSchema} - Property schema
+ * @example
+ * columnToSchema({ type: 'varchar', size: 255, nullable: false }) // { type: 'string', maxLength: 255 }
+ * columnToSchema({ type: 'datetime' }) // { type: ['string', 'null'], format: 'date-time' }
+ */
+export function columnToSchema(column: {
+    type: string;
+    size?: string | number;
+    nullable?: boolean;
+    pk?: boolean;
+    default?: any;
+    references?: string;
+}): OpenApiSchema {
+    const schema = sqlTypeToSchema(column.type.toLowerCase(), column.size);
+
+    if (column.pk) {
+        schema.readOnly = true;
+    } else if (column.nullable !== false && schema.type) {
+        schema.type = [schema.type, 'null'];
+    }
+    if (column.default !== undefined && column.default !== null) {
+        schema.default = column.default;
+    }
+    if (column.references) {
+        schema.description = `References ${column.references}`;
+    }
+
+    return schema;
+}
+
+/**
+ * Build the schema of a DTO from its validation decorators
+ * @param {Function} dto - DTO class
+ * @param {(schema: Function) => OpenApiSchema} [resolveNested] - Schema of nested DTOs (default: inlined)
+ * @returns {OpenApiSchema} - Object schema, properties not marked @IsOptional are required
+ * @example
+ * dtoToSchema(CreateUserDto)
+ * // { type: 'object', properties: { email: { type: 'string', format: 'email' } }, required: ['email'] }
+ */
+export function dtoToSchema(dto: Function, resolveNested: (schema: Function) => OpenApiSchema = nested => dtoToSchema(nested)): OpenApiSchema {
+    const properties: Record<string, OpenApiSchema> = {};
+    const required: string[] = [];
+
+    for (const [name, property] of Object.entries(getValidationMetadata(dto))) {
+        let schema: OpenApiSchema = {};
+        for (const rule of property.rules) {
+            if (rule.each) {
+                schema.items = { ...schema.items, ...rule.schema };
+            } else {
+                Object.assign(schema, rule.schema);
+            }
+        }
+
+        if (property.nested) {
+            const nested = resolveNested(property.nested());
+            schema = schema.type === 'array' ? { ...schema, items: { ...schema.items, ...nested } } : { ...schema, ...nested };
+        }
+
+        properties[name] = schema;
+        if (!property.optional) {
+            required.push(name);
+        }
+    }
+
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/**
+ * Convert a route path to an OpenAPI path template
+ * Param constraints, optional (?) and wildcard (*) markers are dropped
+ * @param {string} path - Route path
+ * @returns {string} - Path template
+ * @example
+ * toOpenApiPath('/posts/:id(\\d+)/:page?') // '/posts/{id}/{page}'
+ */
+export function toOpenApiPath(path: string): string {
+    let result = '';
+    let index = 0;
+
+    while (index < path.length) {
+        const match = path[index] === ':' ? /^:(\w+)/.exec(path.slice(index)) : null;
+        if (!match) {
+            result += path[index++];
+            continue;
+        }
+
+        result += `{${match[1]}}`;
+        index += match[0].length;
+
+        // Skip a (constraint), which may contain nested groups
+        if (path[index] === '(') {
+            let depth = 0;
+            do {
+                if (path[index] === '\\') index++;
+                else if (path[index] === '(') depth++;
+                else if (path[index] === ')') depth--;
+                index++;
+            } while (depth > 0 && index < path.length);
+        }
+        if (path[index] === '?' || path[index] === '*') {
+            index++;
+        }
+    }
+
+    return result || '/';
+}
+
+/**
+ * Render a Swagger UI page loading a document
+ * The page loads swagger-ui-dist from the unpkg CDN, checked against SRI hashes, unless another asset URL is given
+ * @param {string} specUrl - URL of the OpenAPI JSON document
+ * @param {string} [title='API documentation'] - Page title
+ * @param {string} [assetsUrl=SWAGGER_UI_CDN_URL] - Base URL of the swagger-ui-dist files
+ * @returns {string} - HTML page
+ * @example
+ * renderOpenApiUi('/docs/openapi.json', 'Shop API', '/vendor/swagger-ui')
+ */
+export function renderOpenApiUi(specUrl: string, title: string = 'API documentation', assetsUrl: string = SWAGGER_UI_CDN_URL): string {
+    // Escape '<' so the URL cannot close the script element
+    const url = JSON.stringify(specUrl).replace(/</g, '\\u003c');
+    const assets = escapeHtml(assetsUrl.replace(/\/+$/, ''));
+    // Self-hosted assets may be another version: only the pinned CDN files are checked
+    const integrity = (hash: string) => assetsUrl === SWAGGER_UI_CDN_URL ? ` integrity="${hash}" crossorigin="anonymous"` : '';
+
+    return '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n'
+        + '<meta name="viewport" content="width=device-width, initial-scale=1">\n'
+        + `<title>${escapeHtml(title)}</title>\n`
+        + `<link rel="stylesheet" href="${assets}/swagger-ui.css"${integrity(SWAGGER_UI_CDN_INTEGRITY.css)}>\n`
+        + '</head>\n<body>\n<div id="swagger-ui"></div>\n'
+        + `<script src="${assets}/swagger-ui-bundle.js"${integrity(SWAGGER_UI_CDN_INTEGRITY.js) || ' crossorigin'}></script>\n`
+        + `<script>window.onload = () => { window.ui = SwaggerUIBundle({ url: ${url}, dom_id: '#swagger-ui' }) }</script>\n`
+        + '</body>\n</html>\n';
+}
+
+function buildOperation(
+    route: OpenApiRoute,
+    defaultParserType: ParserType,
+    resolveSchema: (schema: ApiSchema) => OpenApiSchema
+): Record<string, any> {
+    const { controller, methodName } = route;
+    const documented = controller && methodName ? getApiOperation(controller, methodName) : undefined;
+    const operation: Record<string, any> = {};
+
+    if (documented?.summary) operation.summary = documented.summary;
+    if (documented?.description) operation.description = documented.description;
+
+    const tags = documented?.tags || (controller ? defaultTags(controller) : []);
+    if (tags.length > 0) operation.tags = tags;
+
+    if (documented?.operationId) {
+        operation.operationId = documented.operationId;
+    } else if (controller && methodName) {
+        operation.operationId = `${controller.name}_${methodName}`;
+    }
+    if (documented?.deprecated) operation.deprecated = true;
+
+    const parameters: Array<Record<string, any>> = [...new Set(RouteTree.paramNames(route.path))].map(name => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: paramSchema(route, name)
+    }));
+    if (route.query) {
+        const query = dtoToSchema(route.query, resolveSchema);
+        for (const [name, schema] of Object.entries<OpenApiSchema>(query.properties)) {
+            parameters.push({ name, in: 'query', required: (query.required || []).includes(name), schema });
+        }
+    }
+    for (const [name, type] of Object.entries(route.querySchema || {})) {
+        if (parameters.some(parameter => parameter.in === 'query' && parameter.name === name)) continue;
+        parameters.push(typeof type === 'object'
+            ? { name, in: 'query', style: 'deepObject', explode: true, schema: querySchemaToSchema(type) }
+            : { name, in: 'query', schema: queryTypeSchema(type) });
+    }
+    if (parameters.length > 0) operation.parameters = parameters;
+
+    const body = (controller && methodName ? getApiBody(controller, methodName) : undefined)
+        || (route.body ? { schema: route.body } : undefined);
+    if (body || BODY_METHODS.includes(route.method)) {
+        const parserType = route.parserType || defaultParserType;
+        const consumes = controller && methodName ? getConsumes(controller, methodName).map(format => formatMimeTypes(format)[0]) : [];
+        const contentTypes = consumes.length > 0 ? consumes : [PARSER_CONTENT_TYPES[parserType as BuiltinParserType]
+            || (parserType.includes('/') ? parserType : 'application/octet-stream')];
+        const schema = body ? resolveSchema(body.schema) : {};
+        operation.requestBody = {
+            ...(body?.description ? { description: body.description } : {}),
+            required: body?.required ?? true,
+            content: Object.fromEntries(contentTypes.map(contentType => [contentType, { schema }]))
+        };
+    }
+
+    operation.responses = {};
+    const responses = controller && methodName ? getApiResponses(controller, methodName) : {};
+    const produces = controller && methodName ? getProduces(controller, methodName).map(format => formatMimeTypes(format)[0]) : [];
+    const responseTypes = route.sse ? ['text/event-stream'] : produces.length > 0 ? produces : ['application/json'];
+    for (const [status, response] of Object.entries(responses)) {
+        const schema = response.schema ? resolveSchema(response.schema) : undefined;
+        operation.responses[status] = {
+            description: response.description || defaultDescription(Number(status)),
+            ...(schema ? { content: Object.fromEntries(responseTypes.map(type => [type, { schema }])) } : {})
+        };
+    }
+    if (Object.keys(operation.responses).length === 0) {
+        operation.responses['200'] = route.sse
+            ? { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } }
+            : { description: 'OK' };
+    }
+
+    return operation;
+}
+
+// DTO classes carry validation decorators, entities carry @Column metadata
+function isDto(schema: Function): boolean {
+    return Object.keys(getValidationMetadata(schema)).length > 0;
+}
+
+// Controller tags, defaulting to the class name without its Controller suffix
+function defaultTags(controller: Function): string[] {
+    const tags = getApiTags(controller);
+    if (tags.length > 0) {
+        return tags;
+    }
+    const name = controller.name.replace(/Controller$/, '');
+    return name ? [name] : [];
+}
+
+// Declared type first, then the primary key of an entity resolved from the param
+// Schema of a query schema type ('int', 'date[]'...)
+function queryTypeSchema(type: QueryParamType | `${QueryParamType}[]`): OpenApiSchema {
+    if (type.endsWith('[]')) {
+        return { type: 'array', items: queryTypeSchema(type.slice(0, -2) as QueryParamType) };
+    }
+    return type === 'date' ? { type: 'string', format: 'date-time' } : { ...PARAM_TYPE_SCHEMAS[type as Exclude<QueryParamType, 'date'>] };
+}
+
+// Schema of a nested query schema (filter[status]=open)
+function querySchemaToSchema(schema: QuerySchema): OpenApiSchema {
+    const properties: Record<string, OpenApiSchema> = {};
+    for (const [name, type] of Object.entries(schema)) {
+        properties[name] = typeof type === 'object' ? querySchemaToSchema(type) : queryTypeSchema(type);
+    }
+    return { type: 'object', properties };
+}
+
+function paramSchema(route: OpenApiRoute, name: string): OpenApiSchema {
+    const type = route.params?.[name];
+    if (type) {
+        return { ...PARAM_TYPE_SCHEMAS[type] };
+    }
+
+    let entity = route.resolve?.[name];
+    if (!entity && route.controller && route.methodName) {
+        entity = getParamMetadata(route.controller.prototype, route.methodName)
+            .find(param => param.routeParamName === name)?.entityType;
+    }
+
+    const columns: any[] = typeof entity === 'function' ? Reflect.getMetadata('entity:columns', entity.prototype) || [] : [];
+    const primaryKey = columns.find(column => column?.pk && column.type);
+    return primaryKey ? sqlTypeToSchema(primaryKey.type.toLowerCase(), primaryKey.size) : { type: 'string' };
+}
+
+function sqlTypeToSchema(type: string, size?: string | number): OpenApiSchema {
+    switch (type) {
+        case 'tinyint':
+        case 'smallint':
+        case 'mediumint':
+        case 'int':
+        case 'integer':
+        case 'year':
+            return { type: 'integer' };
+        case 'bigint':
+        case 'relation':
+            return { type: 'integer', format: 'int64' };
+        case 'bool':
+            return { type: 'boolean' };
+        case 'float':
+            return { type: 'number', format: 'float' };
+        case 'double':
+            return { type: 'number', format: 'double' };
+        case 'decimal':
+            return { type: 'number' };
+        case 'char':
+        case 'varchar': {
+            const maxLength = Number(size);
+            return Number.isInteger(maxLength) && maxLength > 0 ? { type: 'string', maxLength } : { type: 'string' };
+        }
+        case 'tinytext':
+        case 'text':
+        case 'mediumtext':
+        case 'longtext':
+            return { type: 'string' };
+        case 'tinyblob':
+        case 'blob':
+        case 'mediumblob':
+        case 'longblob':
+            return { type: 'string', contentEncoding: 'base64' };
+        case 'date':
+            return { type: 'string', format: 'date' };
+        case 'time':
+            return { type: 'string', format: 'time' };
+        case 'datetime':
+        case 'timestamp':
+            return { type: 'string', format: 'date-time' };
+        case 'enum':
+            return { type: 'string' };
+        default:
+            // json columns hold any value
+            return {};
+    }
+}
+
+// Roles required for a path: undefined if no access_control rule covers it
+function accessControlRoles(path: string, rules: ProtectedRouteType[]): string[] | undefined {
+    const matching = rules.filter(rule => {
+        const prefix = rule.path.replace(/\/+$/, '');
+        return path === rule.path || path === prefix || path.startsWith(prefix + '/');
+    });
+
+    if (matching.length === 0) {
+        return undefined;
+    }
+    return [...new Set(matching.flatMap(rule => rule.roles || []))];
+}
+
+function defaultDescription(status: number): string {
+    if (status >= 200 && status < 300) return 'Success';
+    if (status >= 300 && status < 400) return 'Redirection';
+    if (status >= 400 && status < 500) return 'Client error';
+    return 'Server error';
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
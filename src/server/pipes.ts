@@ -0,0 +1,153 @@
+import {ValidationException} from '@/core/errors';
+import {assertDto, DtoClass} from '../validator';
+
+/** Where a handler parameter is read from */
+export type ParamSource = 'req' | 'res' | 'next' | 'param' | 'query' | 'body' | 'headers' | 'cookie' | 'user' | 'file' | 'files';
+
+/** Parameter a pipe is transforming */
+export interface ArgumentMetadata {
+    source: ParamSource;
+    /** Field name (route param, query key, header...), undefined when the whole source is injected */
+    name?: string;
+}
+
+/**
+ * Transformer applied to a handler parameter before the handler runs
+ * Pipes run in declaration order, each receiving the previous result; throwing rejects the request
+ * @example
+ * class TrimPipe implements PipeTransform<string, string> {
+ *     transform(value: string) {
+ *         return typeof value === 'string' ? value.trim() : value;
+ *     }
+ * }
+ */
+export interface PipeTransform<T = any, R = any> {
+    transform(value: T, metadata: ArgumentMetadata): R | Promise<R>;
+}
+
+/**
+ * Pipe accepted by the parameter decorators: a pipe instance, a pipe class (instantiated once),
+ * or a DTO class validated with its validation decorators
+ */
+export type Pipe = PipeTransform | (new () => PipeTransform) | Function;
+
+/**
+ * Parse an integer
+ * @example
+ * async show(@Param('id', ParseIntPipe) id: number) { ... }
+ */
+export class ParseIntPipe implements PipeTransform<any, number> {
+    transform(value: any, metadata: ArgumentMetadata): number {
+        const parsed = typeof value === 'number' ? value : typeof value === 'string' && /^-?\d+$/.test(value.trim()) ? Number(value) : NaN;
+        if (!Number.isSafeInteger(parsed)) {
+            throw pipeError(metadata, 'must be an integer');
+        }
+        return parsed;
+    }
+}
+
+/**
+ * Parse a finite number
+ * @example
+ * async search(@Query('lat', ParseFloatPipe) lat: number) { ... }
+ */
+export class ParseFloatPipe implements PipeTransform<any, number> {
+    transform(value: any, metadata: ArgumentMetadata): number {
+        const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+        if (!Number.isFinite(parsed)) {
+            throw pipeError(metadata, 'must be a number');
+        }
+        return parsed;
+    }
+}
+
+/**
+ * Parse a boolean ('true', 'false', '1', '0')
+ * @example
+ * async list(@Query('archived', new DefaultValuePipe(false), ParseBoolPipe) archived: boolean) { ... }
+ */
+export class ParseBoolPipe implements PipeTransform<any, boolean> {
+    transform(value: any, metadata: ArgumentMetadata): boolean {
+        if (value === true || value === 'true' || value === '1') return true;
+        if (value === false || value === 'false' || value === '0') return false;
+        throw pipeError(metadata, 'must be a boolean');
+    }
+}
+
+/**
+ * Require a UUID
+ * @example
+ * async show(@Param('uuid', ParseUUIDPipe) uuid: string) { ... }
+ */
+export class ParseUUIDPipe implements PipeTransform<any, string> {
+    transform(value: any, metadata: ArgumentMetadata): string {
+        if (typeof value !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+            throw pipeError(metadata, 'must be a UUID');
+        }
+        return value;
+    }
+}
+
+/**
+ * Replace a missing (undefined, null or empty string) value by a default
+ * @example
+ * async list(@Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number) { ... }
+ */
+export class DefaultValuePipe<T = any> implements PipeTransform<any, T> {
+    constructor(private readonly defaultValue: T) {}
+
+    transform(value: any): T {
+        return value === undefined || value === null || value === '' ? this.defaultValue : value;
+    }
+}
+
+/**
+ * Validate a value against a DTO class and return the DTO instance
+ * Passing the DTO class to a parameter decorator is a shorthand for this pipe
+ * @example
+ * async create(@Body(new ValidationPipe(CreateUserDto)) dto: CreateUserDto) { ... }
+ * async create(@Body(CreateUserDto) dto: CreateUserDto) { ... }
+ */
+export class ValidationPipe<T = any> implements PipeTransform<any, T> {
+    constructor(private readonly dto: DtoClass<T>) {}
+
+    transform(value: any): Promise<T> {
+        return assertDto(this.dto, value);
+    }
+}
+
+/**
+ * Normalize a pipe given to a parameter decorator into a pipe instance
+ * @param {Pipe} pipe - Pipe instance, pipe class or DTO class
+ * @returns {PipeTransform} - Pipe instance
+ */
+export function toPipe(pipe: Pipe): PipeTransform {
+    if (typeof pipe !== 'function') {
+        return pipe;
+    }
+    if (typeof pipe.prototype?.transform === 'function') {
+        return new (pipe as new () => PipeTransform)();
+    }
+    return new ValidationPipe(pipe as DtoClass);
+}
+
+/**
+ * Run a value through pipes, in order
+ * @param {any} value - Raw value
+ * @param {PipeTransform[]} pipes - Pipes to apply
+ * @param {ArgumentMetadata} metadata - Parameter being transformed
+ * @returns {Promise<any>} - Transformed value
+ */
+export async function applyPipes(value: any, pipes: PipeTransform[], metadata: ArgumentMetadata): Promise<any> {
+    for (const pipe of pipes) {
+        value = await pipe.transform(value, metadata);
+    }
+    return value;
+}
+
+// 400 naming the parameter, with the same per-field map as DTO validation
+function pipeError(metadata: ArgumentMetadata, reason: string): ValidationException {
+    const label = metadata.name || metadata.source;
+    const message = `${label} ${reason}`;
+    return new ValidationException(message, undefined, { [label]: [message] });
+}
@@ -0,0 +1,155 @@
+/**
+ * qs-style parser for query strings and application/x-www-form-urlencoded bodies
+ * Repeated keys become arrays, '+' decodes to a space and bracket keys nest: a[b][]=c gives { a: { b: ['c'] } }
+ */
+
+/** Limits applied while parsing, protecting against oversized or deeply nested input */
+export interface QueryStringOptions {
+    /** Maximum bracket nesting, deeper segments are kept as a literal key (default: 5) */
+    depth?: number;
+    /** Maximum number of parameters parsed, the remaining ones are ignored (default: 1000) */
+    parameterLimit?: number;
+    /** Highest explicit array index (a[20]=x), larger indices become object keys (default: 20) */
+    arrayLimit?: number;
+}
+
+/** Parsed query string or urlencoded body */
+export interface ParsedQueryString {
+    [key: string]: string | string[] | ParsedQueryString | ParsedQueryString[] | undefined;
+}
+
+/** Default parsing limits */
+export const DEFAULT_QUERY_STRING_OPTIONS: Required<QueryStringOptions> = {
+    depth: 5,
+    parameterLimit: 1000,
+    arrayLimit: 20
+};
+
+// Keys that would reach Object.prototype when assigned
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Parse a query string or urlencoded body
+ * @param {string} input - Query string, with or without the leading '?'
+ * @param {QueryStringOptions} [options] - Depth, parameter and array index limits
+ * @returns {ParsedQueryString} - Parsed parameters
+ * @example
+ * parseQueryString('tag=a&tag=b&user[name]=Ada+Lovelace&ids[]=1')
+ * // { tag: ['a', 'b'], user: { name: 'Ada Lovelace' }, ids: ['1'] }
+ */
+export function parseQueryString(input: string, options: QueryStringOptions = {}): ParsedQueryString {
+    const limits = { ...DEFAULT_QUERY_STRING_OPTIONS, ...options };
+    const result: ParsedQueryString = {};
+    const query = input.startsWith('?') ? input.slice(1) : input;
+    if (!query) {
+        return result;
+    }
+
+    const pairs = query.split('&', limits.parameterLimit);
+    for (const pair of pairs) {
+        if (!pair) continue;
+
+        const separator = pair.indexOf('=');
+        const key = decodeComponent(separator === -1 ? pair : pair.slice(0, separator));
+        const value = separator === -1 ? '' : decodeComponent(pair.slice(separator + 1));
+        if (!key) continue;
+
+        const segments = splitKey(key, limits.depth);
+        if (segments.some(segment => FORBIDDEN_KEYS.has(segment))) continue;
+
+        assign(result, segments, value, limits.arrayLimit);
+    }
+
+    return compact(result);
+}
+
+// Decode a component, '+' standing for a space; malformed escapes are kept as-is
+function decodeComponent(value: string): string {
+    const spaced = value.replace(/\+/g, ' ');
+    try {
+        return decodeURIComponent(spaced);
+    } catch {
+        return spaced;
+    }
+}
+
+// 'a[b][]' -> ['a', 'b', ''], segments past the depth limit are kept as one literal key
+function splitKey(key: string, depth: number): string[] {
+    const bracket = key.indexOf('[');
+    if (bracket <= 0 || !key.endsWith(']')) {
+        return [key];
+    }
+
+    const segments = [key.slice(0, bracket)];
+    const pattern = /\[([^\[\]]*)\]/g;
+    pattern.lastIndex = bracket;
+    let match: RegExpExecArray | null;
+    let consumed = bracket;
+
+    while (segments.length <= depth && (match = pattern.exec(key)) !== null && match.index === consumed) {
+        segments.push(match[1]);
+        consumed = pattern.lastIndex;
+    }
+
+    if (consumed < key.length) {
+        segments.push(key.slice(consumed));
+    }
+    return segments;
+}
+
+// Set a value at the segment path, turning repeated leaves into arrays
+function assign(container: any, segments: string[], value: string, arrayLimit: number): void {
+    const [key, ...rest] = segments;
+    const target = Array.isArray(container) && key === '' ? container.length : key;
+
+    if (rest.length === 0) {
+        const existing = ownValue(container, target);
+        if (existing === undefined) {
+            defineKey(container, target, value);
+        } else if (Array.isArray(existing)) {
+            existing.push(value);
+        } else if (typeof existing === 'string') {
+            defineKey(container, target, [existing, value]);
+        }
+        return;
+    }
+
+    const next = rest[0];
+    const index = /^\d+$/.test(next) ? parseInt(next, 10) : NaN;
+    const wantsArray = next === '' || index <= arrayLimit;
+    let child = ownValue(container, target);
+
+    if (child === undefined) {
+        child = wantsArray ? [] : {};
+    } else if (typeof child === 'string') {
+        child = wantsArray ? [child] : { [child]: '' };
+    } else if (Array.isArray(child) && !wantsArray) {
+        child = Object.assign({}, child);
+    }
+    defineKey(container, target, child);
+
+    assign(child, rest, value, arrayLimit);
+}
+
+// Inherited members (toString, valueOf...) are not existing values
+function ownValue(container: any, key: string | number): any {
+    return Object.prototype.hasOwnProperty.call(container, key) ? container[key] : undefined;
+}
+
+// Define the property so inherited setters and prototype members are never reached
+function defineKey(container: any, key: string | number, value: any): void {
+    Object.defineProperty(container, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+// Remove the holes left by sparse indices (a[1]=x&a[5]=y -> ['x', 'y'])
+function compact(value: any): any {
+    if (Array.isArray(value)) {
+        return value.filter(item => item !== undefined).map(compact);
+    }
+    if (value && typeof value === 'object') {
+        for (const key of Object.keys(value)) {
+            value[key] = compact(value[key]);
+        }
+    }
+    return value;
+}
@@ -0,0 +1,100 @@
+import {ValidationException} from '@/core/errors';
+import {ParsedQuery} from './serverTypes';
+
+// ISO 8601 date, with an optional time and offset (2024-05-01, 2024-05-01T10:00:00Z)
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Scalar types a query parameter can be coerced to ('date' expects ISO 8601 dates) */
+export type QueryParamType = 'string' | 'int' | 'float' | 'number' | 'boolean' | 'date';
+
+/**
+ * Query schema declared by a route: a type per parameter, 'type[]' for lists and nested schemas
+ * for bracket parameters (filter[status]=open)
+ * @example
+ * const schema: QuerySchema = { page: 'int', tags: 'string[]', filter: { status: 'string', since: 'date' } }
+ */
+export interface QuerySchema {
+    [name: string]: QueryParamType | `${QueryParamType}[]` | QuerySchema;
+}
+
+/**
+ * Coerce the parameters declared by a query schema; undeclared parameters are kept as parsed
+ * Lists accept a single value (?tag=a gives ['a']), absent parameters stay undefined
+ * @param {ParsedQuery} query - Parsed query string
+ * @param {QuerySchema} schema - Declared parameter types
+ * @returns {ParsedQuery} - Query with coerced values
+ * @throws {ValidationException} - 400 listing every invalid parameter (filter.since, tags[1]...)
+ * @example
+ * coerceQuery({ page: '2', active: 'true' }, { page: 'int', active: 'boolean' }) // { page: 2, active: true }
+ */
+export function coerceQuery(query: ParsedQuery, schema: QuerySchema): ParsedQuery {
+    const errors: Record<string, string[]> = {};
+    const value = coerceObject(query, schema, '', errors);
+
+    if (Object.keys(errors).length > 0) {
+        throw new ValidationException('Invalid query parameters', undefined, errors);
+    }
+    return value;
+}
+
+// Coerce the declared keys of an object, recording errors under their dotted path
+function coerceObject(source: any, schema: QuerySchema, prefix: string, errors: Record<string, string[]>): any {
+    const result = { ...source };
+
+    for (const [name, type] of Object.entries(schema)) {
+        const path = prefix + name;
+        const raw = source[name];
+        if (raw === undefined) continue;
+
+        if (typeof type === 'object') {
+            if (typeof raw !== 'object' || Array.isArray(raw)) {
+                errors[path] = [`${path} must be an object`];
+                continue;
+            }
+            result[name] = coerceObject(raw, type, `${path}.`, errors);
+        } else if (type.endsWith('[]')) {
+            const itemType = type.slice(0, -2) as QueryParamType;
+            const items: any[] = Array.isArray(raw) ? raw : [raw];
+            result[name] = items.map((item, index) => coerceValue(item, itemType, `${path}[${index}]`, errors));
+        } else if (Array.isArray(raw)) {
+            errors[path] = [`${path} must be a single value`];
+        } else {
+            result[name] = coerceValue(raw, type as QueryParamType, path, errors);
+        }
+    }
+
+    return result;
+}
+
+// Coerce a scalar query value, recording an error when it does not match the type
+function coerceValue(value: any, type: QueryParamType, path: string, errors: Record<string, string[]>): any {
+    if (typeof value !== 'string') {
+        errors[path] = [`${path} must be a single value`];
+        return value;
+    }
+
+    switch (type) {
+        case 'int':
+            if (/^-?\d+$/.test(value)) return parseInt(value, 10);
+            errors[path] = [`${path} must be an integer`];
+            return value;
+        case 'float':
+        case 'number':
+            if (value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+            errors[path] = [`${path} must be a number`];
+            return value;
+        case 'boolean':
+            if (value === 'true' || value === '1') return true;
+            if (value === 'false' || value === '0') return false;
+            errors[path] = [`${path} must be a boolean`];
+            return value;
+        case 'date': {
+            const date = new Date(value);
+            if (ISO_DATE.test(value) && !isNaN(date.getTime())) return date;
+            errors[path] = [`${path} must be a valid date`];
+            return value;
+        }
+        default:
+            return value;
+    }
+}
@@ -15,6 +15,21 @@ interface RateLimitStore {
     resetTime: number;
 }
 
+/** Teardown callbacks of every rate limiter created in this process */
+const activeLimiters: Set<() => void> = new Set();
+
+/**
+ * Stop the cleanup timers of every rate limiter and clear their stores
+ * Called automatically by LyraServer.close()
+ * @returns {void}
+ */
+export function destroyRateLimiters(): void {
+    for (const destroy of activeLimiters) {
+        destroy();
+    }
+    activeLimiters.clear();
+}
+
 /**
  * In-memory rate limiter store
  * For production with multiple servers, consider using Redis or another distributed store
@@ -92,10 +107,8 @@ export function rateLimit(options: RateLimitOptions) {
         message = 'Too many requests, please try again later.',
         statusCode = 429,
         keyGenerator = (req: Request) => {
-            // Default: use IP address as key
-            return req.headers['x-forwarded-for'] as string ||
-                   req.headers['x-real-ip'] as string ||
-                   (req.socket?.remoteAddress || 'unknown');
+            // Default: use client IP address as key (resolved through trusted proxies only)
+            return req.ip || req.socket?.remoteAddress || 'unknown';
         },
         skip = () => false,
         handler
@@ -141,10 +154,17 @@ export function rateLimit(options: RateLimitOptions) {
         next();
     };
 
+    const destroy = () => {
+        store.destroy();
+        activeLimiters.delete(destroy);
+    };
+    activeLimiters.add(destroy);
+
     // Attach store to middleware for testing/debugging
     (middleware as any).store = store;
     (middleware as any).resetKey = (key: string) => store.reset(key);
     (middleware as any).resetAll = () => store.resetAll();
+    (middleware as any).destroy = destroy;
 
     return middleware;
 }
@@ -160,9 +180,7 @@ export function rateLimitSliding(options: RateLimitOptions) {
         message = 'Too many requests, please try again later.',
         statusCode = 429,
         keyGenerator = (req: Request) => {
-            return req.headers['x-forwarded-for'] as string ||
-                   req.headers['x-real-ip'] as string ||
-                   (req.socket?.remoteAddress || 'unknown');
+            return req.ip || req.socket?.remoteAddress || 'unknown';
         },
         skip = () => false,
         handler
@@ -235,11 +253,18 @@ export function rateLimitSliding(options: RateLimitOptions) {
         }
     }, windowMs);
 
+    const destroy = () => {
+        clearInterval(cleanupInterval);
+        store.clear();
+        activeLimiters.delete(destroy);
+    };
+    activeLimiters.add(destroy);
+
     // Attach utilities
     (middleware as any).store = store;
     (middleware as any).resetKey = (key: string) => store.delete(key);
     (middleware as any).resetAll = () => store.clear();
-    (middleware as any).destroy = () => clearInterval(cleanupInterval);
+    (middleware as any).destroy = destroy;
 
     return middleware;
 }
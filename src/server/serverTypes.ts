@@ -1,6 +1,12 @@
-import { IncomingMessage, ServerResponse } from 'http';
+import { IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { Server as HttpsServer } from 'https';
+import { Http2SecureServer, Http2Server } from 'http2';
 import { User } from '@/core/loader';
+import { ParserType } from './bodyParsers';
 import { ParsedMultipartData } from './MultipartParser';
+import { MultipartOptions } from './multipart';
+import { ResourceValidators } from './etag';
+import { SseOptions, SseStream } from './SseStream';
 
 /** Supported HTTP methods */
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'OPTIONS';
@@ -20,24 +26,59 @@ export interface RouteParams {
     [key: string]: string;
 }
 
-/** Parsed query string parameters */
+/** Route URL parameter value: a string, or a number or boolean once coerced to its declared type */
+export type RouteParamValue = string | number | boolean;
+
+/** Declared route param types, coerced before the handler runs */
+export type RouteParamType = 'int' | 'float' | 'number' | 'boolean' | 'uuid' | 'string';
+
+/**
+ * Parsed query string parameters: repeated keys give arrays and bracket keys nested objects
+ * (?tag=a&tag=b&filter[status]=open), coerced when the route declares a query schema
+ */
 export interface ParsedQuery {
-    [key: string]: string | string[] | undefined;
+    [key: string]: any;
 }
 
-/** Enhanced HTTP Request with routing capabilities */
-export interface Request extends IncomingMessage {
+/**
+ * Enhanced HTTP Request with routing capabilities
+ * Route params are strings, type the coerced values of routes declaring param types with P
+ * @example
+ * // @Get({ path: '/:id', params: { id: 'int' } })
+ * async show(req: Request<{ id: number }>, res: Response) {}
+ */
+export interface Request<P extends object = RouteParams> extends IncomingMessage {
     url: string;
     originalUrl?: string;
+    requestId?: string;
+    /** Client IP address (resolved through trusted proxies, see the 'trust proxy' setting) */
+    ip: string;
+    /** Forwarded addresses from the client to the closest trusted proxy */
+    ips: string[];
+    protocol: 'http' | 'https';
+    secure: boolean;
+    hostname: string;
     method: string;
     headers: IncomingMessage['headers'];
-    params: RouteParams;
+    params: P;
     query: ParsedQuery;
     body: any;
     cookies: { [key: string]: string };
     user?: typeof User | Partial<typeof User> | null;
     multipartData: ParsedMultipartData;
+    /**
+     * Check If-Match / If-Unmodified-Since against the current validators of the resource
+     * @param {ResourceValidators} current - Current ETag and/or last modification date
+     * @throws {PreconditionFailedException} - 412 when the client copy is outdated
+     * @example
+     * req.assertPreconditions({ etag: `"${article.version}"` })
+     */
+    assertPreconditions: (current: ResourceValidators) => void;
     _server?: any; // Internal reference to server for error handling
+    _hooks?: LifecycleHookMap; // Internal: lifecycle hooks applying to this request
+    _produces?: string[]; // Internal: response MIME types allowed by @Produces
+    _upload?: MultipartOptions; // Internal: multipart options of @Upload
+    _tempFiles?: string[]; // Internal: 'temp' upload files removed once the response is sent
 }
 
 /** Enhanced HTTP Response with helper methods */
@@ -71,18 +112,53 @@ export interface Response extends ServerResponse {
      * @returns {void}
      */
     text: (data: any) => void;
+    /**
+     * Send MessagePack response
+     * @param {any} data - Data to send as MessagePack
+     * @returns {void}
+     */
+    msgpack: (data: any) => void;
+    /**
+     * Send CBOR response
+     * @param {any} data - Data to send as CBOR
+     * @returns {void}
+     */
+    cbor: (data: any) => void;
     /**
      * Send response data
+     * Objects are sent as JSON, or in the format negotiated from the Accept header when the
+     * 'content negotiation' setting is enabled or the route declares @Produces (406 when none is acceptable)
      * @param {any} data - Data to send
      * @returns {void}
      */
     send: (data: any) => void;
+    /**
+     * Respond with the callback of the format the Accept header prefers (406 when none matches and no default is given)
+     * @param {Record<string, () => any>} handlers - Callbacks keyed by format name or MIME type, plus an optional default
+     * @returns {any} - Value returned by the chosen callback
+     * @example
+     * res.format({
+     *     json: () => res.json(user),
+     *     msgpack: () => res.msgpack(user),
+     *     html: () => res.html(`<h1>${user.name}</h1>`)
+     * })
+     */
+    format: (handlers: Record<string, () => any>) => any;
     /**
      * Set HTTP status code
      * @param {number} code - HTTP status code
      * @returns {Response} - Response instance for chaining
      */
     status: (code: number) => Response;
+    /**
+     * Open a Server-Sent Events stream (text/event-stream) on the response
+     * @param {SseOptions} [options] - Heartbeat interval and reconnection delay
+     * @returns {SseStream} - Stream writer
+     * @example
+     * const stream = res.sse()
+     * stream.send({ event: 'tick', data: { at: Date.now() } })
+     */
+    sse: (options?: SseOptions) => SseStream;
     /**
      * Redirect to URL
      * @param {string} url - Target URL
@@ -151,24 +227,47 @@ export type RouteHandler = (
     next: NextFunction
 ) => void | Promise<void>;
 
-/** Internal route structure (not exported to avoid conflict with Route decorator) */
-interface Route {
-    pattern: RegExp;
+/** Registered route structure (named RouteEntry to avoid conflict with Route decorator) */
+export interface RouteEntry {
+    path: string;
     paramNames: string[];
     handlers: RouteHandler[];
-    parserType?: 'json' | 'xml' | 'urlencoded' | 'raw';
+    parserType?: ParserType;
+    paramTypes?: Record<string, RouteParamType>;
+    hooks?: LifecycleHookMap;
 }
 
 /** Routes registry organized by HTTP method and path */
-export type Routes = Record<HttpMethod, Record<string, Route>>;
+export type Routes = Record<HttpMethod, Record<string, RouteEntry>>;
 
 /** Matched route result */
 export interface MatchedRoute {
     handlers: RouteHandler[];
     params: RouteParams;
-    parserType?: 'json' | 'xml' | 'urlencoded' | 'raw';
+    parserType?: ParserType;
+    hooks?: LifecycleHookMap;
+}
+
+/** Request lifecycle hook names, in invocation order */
+export type HookName = 'onRequest' | 'preHandler' | 'onSend' | 'onResponse' | 'onError';
+
+/** Request lifecycle hook signatures */
+export interface LifecycleHooks {
+    /** After routing, before the body is parsed (sending a response skips the handlers) */
+    onRequest: (req: Request, res: Response) => void | Promise<void>;
+    /** After the body is parsed, right before the route handlers (sending a response skips the handlers) */
+    preHandler: (req: Request, res: Response) => void | Promise<void>;
+    /** Before a response helper (res.json, res.send, ...) serializes its payload; return a value to replace the payload */
+    onSend: (req: Request, res: Response, payload: any) => any;
+    /** After the response has been sent */
+    onResponse: (req: Request, res: Response) => void | Promise<void>;
+    /** When the request pipeline throws, before the error handler (sending a response replaces the error handler) */
+    onError: (error: any, req: Request, res: Response) => void | Promise<void>;
 }
 
+/** Lifecycle hooks grouped by name */
+export type LifecycleHookMap = { [K in HookName]?: LifecycleHooks[K][] };
+
 /** CORS middleware configuration */
 export interface CorsOptions {
     origin?: string;
@@ -199,3 +298,26 @@ export interface MiddlewareRoute {
     path: string;
     middleware: Middleware;
 }
+
+/** TLS material for HTTPS / HTTP/2 (each value is a file path or PEM content) */
+export interface TlsOptions {
+    key: string | Buffer;
+    cert: string | Buffer;
+    ca?: string | Buffer;
+    passphrase?: string;
+}
+
+/** Options accepted by LyraServer.listen() */
+export interface ListenOptions {
+    port?: number | string;
+    host?: string;
+    /** Serve HTTPS (or HTTP/2 over TLS when combined with http2) */
+    tls?: TlsOptions;
+    /** Use the HTTP/2 compatibility API (HTTP/1.1 clients are still accepted over TLS) */
+    http2?: boolean;
+    /** Port of a plain HTTP server redirecting every request to HTTPS (requires tls) */
+    redirectHttp?: number | string;
+}
+
+/** Server instance returned by LyraServer.listen() */
+export type LyraHttpServer = HttpServer | HttpsServer | Http2Server | Http2SecureServer;
@@ -0,0 +1,412 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServerResponse } from 'http';
+import { negotiateEncoding } from './middlewares/compression';
+
+/** Resolve the MIME type of a file, undefined to fall back to the built-in table */
+export type MimeLookup = (filePath: string) => string | undefined;
+
+/** Precompressed sibling encodings served by serveStatic ('.br' and '.gz' files) */
+export type PrecompressedEncoding = 'br' | 'gzip';
+
+/** serveStatic configuration */
+export interface StaticOptions {
+    /** Root directory to serve files from, relative to the project root (default: 'public') */
+    root?: string;
+    /** Cache-Control max-age in seconds (default: 0, i.e. no-cache) */
+    maxAge?: number;
+    /**
+     * Mark fingerprinted files ('app.3f9a2c1d.js') as immutable and cache them for a year.
+     * true uses the default fingerprint pattern, a RegExp is tested against the file name
+     */
+    immutable?: boolean | RegExp;
+    /** Allowed file extensions (e.g. ['.css', '.js', '.png']) */
+    allowedExtensions?: string[];
+    /** How to handle dotfiles (default: 'deny') */
+    dotfiles?: 'allow' | 'deny' | 'ignore';
+    /** Index files tried for directory requests, false to disable (default: ['index.html']) */
+    index?: string[] | false;
+    /** Render an HTML listing for directories without an index file (default: false) */
+    listing?: boolean;
+    /** Serve '.br' / '.gz' siblings to clients accepting them, false to disable (default: ['br', 'gzip']) */
+    precompressed?: boolean | PrecompressedEncoding[];
+    /** Answer Range requests with 206 Partial Content (default: true) */
+    acceptRanges?: boolean;
+    /** Maximum number of ranges in a multi-range request, larger requests get the whole file (default: 16) */
+    maxRanges?: number;
+    /** Extra or overriding MIME types by extension (e.g. { '.glb': 'model/gltf-binary' }) */
+    mimeTypes?: Record<string, string>;
+    /** Custom MIME lookup, tried before the built-in table */
+    mimeLookup?: MimeLookup;
+}
+
+/** Inclusive byte range */
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+/** Directory entry shown in a listing */
+export interface DirectoryEntry {
+    name: string;
+    isDirectory: boolean;
+    size: number;
+    mtime: Date;
+}
+
+/** File selected for a request, possibly a precompressed sibling */
+export interface ResolvedFile {
+    path: string;
+    stats: fs.Stats;
+    encoding?: PrecompressedEncoding;
+}
+
+/** Built-in MIME types by extension */
+export const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.css': 'text/css',
+    '.js': 'application/javascript',
+    '.mjs': 'application/javascript',
+    '.cjs': 'application/javascript',
+    '.map': 'application/json',
+    '.json': 'application/json',
+    '.jsonld': 'application/ld+json',
+    '.webmanifest': 'application/manifest+json',
+    '.wasm': 'application/wasm',
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.csv': 'text/csv',
+    '.ics': 'text/calendar',
+    '.vtt': 'text/vtt',
+    '.xml': 'application/xml',
+    '.rss': 'application/rss+xml',
+    '.atom': 'application/atom+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.ico': 'image/x-icon',
+    '.webp': 'image/webp',
+    '.avif': 'image/avif',
+    '.bmp': 'image/bmp',
+    '.tif': 'image/tiff',
+    '.tiff': 'image/tiff',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.ttf': 'font/ttf',
+    '.otf': 'font/otf',
+    '.eot': 'application/vnd.ms-fontobject',
+    '.mp4': 'video/mp4',
+    '.m4v': 'video/mp4',
+    '.webm': 'video/webm',
+    '.ogv': 'video/ogg',
+    '.mov': 'video/quicktime',
+    '.mkv': 'video/x-matroska',
+    '.m3u8': 'application/vnd.apple.mpegurl',
+    '.ts': 'video/mp2t',
+    '.mp3': 'audio/mpeg',
+    '.m4a': 'audio/mp4',
+    '.aac': 'audio/aac',
+    '.ogg': 'audio/ogg',
+    '.oga': 'audio/ogg',
+    '.opus': 'audio/opus',
+    '.wav': 'audio/wav',
+    '.flac': 'audio/flac',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.tar': 'application/x-tar',
+    '.7z': 'application/x-7z-compressed',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.ppt': 'application/vnd.ms-powerpoint',
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    '.odt': 'application/vnd.oasis.opendocument.text',
+    '.epub': 'application/epub+zip'
+};
+
+/** Default pattern for fingerprinted file names: a hash of 8+ hex chars before the extension */
+export const FINGERPRINT_PATTERN = /[.-][0-9a-f]{8,}\.[a-z0-9]+$/i;
+
+// File extensions of precompressed siblings
+const ENCODING_EXTENSIONS: Record<PrecompressedEncoding, string> = {
+    br: '.br',
+    gzip: '.gz'
+};
+
+/**
+ * Resolve the MIME type of a file
+ * @param {string} filePath - File path or name
+ * @param {Pick<StaticOptions, 'mimeTypes' | 'mimeLookup'>} [options] - Custom lookup and extra types
+ * @returns {string} - MIME type, 'application/octet-stream' when unknown
+ * @example
+ * lookupMimeType('video.webm') // 'video/webm'
+ * lookupMimeType('scene.glb', { mimeTypes: { '.glb': 'model/gltf-binary' } }) // 'model/gltf-binary'
+ */
+export function lookupMimeType(filePath: string, options: Pick<StaticOptions, 'mimeTypes' | 'mimeLookup'> = {}): string {
+    const custom = options.mimeLookup?.(filePath);
+    if (custom) {
+        return custom;
+    }
+
+    const ext = path.extname(filePath).toLowerCase();
+    return options.mimeTypes?.[ext] || MIME_TYPES[ext] || 'application/octet-stream';
+}
+
+/**
+ * Parse a Range header for a representation of a given size
+ * Overlapping and adjacent ranges are coalesced, so a client cannot make the server send the same bytes twice
+ * @param {string} header - Range header value ('bytes=0-499', 'bytes=-500', 'bytes=0-0,-1')
+ * @param {number} size - Representation size in bytes
+ * @param {number} [maxRanges=16] - Maximum number of ranges after coalescing
+ * @returns {ByteRange[] | null} - Ranges to send, an empty array if none is satisfiable (416),
+ * null if the header must be ignored (malformed, unknown unit or too many ranges)
+ * @example
+ * parseRange('bytes=0-99', 1000) // [{ start: 0, end: 99 }]
+ * parseRange('bytes=-100', 1000) // [{ start: 900, end: 999 }]
+ * parseRange('bytes=2000-', 1000) // []
+ */
+export function parseRange(header: string, size: number, maxRanges: number = 16): ByteRange[] | null {
+    const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+    if (!match) {
+        return null;
+    }
+
+    const ranges: ByteRange[] = [];
+
+    for (const spec of match[1].split(',')) {
+        const parts = spec.trim().match(/^(\d*)-(\d*)$/);
+        if (!parts || (parts[1] === '' && parts[2] === '')) {
+            return null;
+        }
+
+        let start: number;
+        let end: number;
+
+        if (parts[1] === '') {
+            // Suffix range: the last N bytes
+            const suffix = Number(parts[2]);
+            if (suffix === 0) continue;
+            start = Math.max(size - suffix, 0);
+            end = size - 1;
+        } else {
+            start = Number(parts[1]);
+            end = parts[2] === '' ? size - 1 : Math.min(Number(parts[2]), size - 1);
+            if (parts[2] !== '' && Number(parts[2]) < start) {
+                return null;
+            }
+        }
+
+        if (start < size) {
+            ranges.push({ start, end });
+        }
+    }
+
+    const coalesced = coalesceRanges(ranges);
+    return coalesced.length > maxRanges ? null : coalesced;
+}
+
+/**
+ * Check whether a file name is fingerprinted and may be cached as immutable
+ * @param {string} filePath - File path or name
+ * @param {boolean | RegExp} [immutable=true] - immutable option of serveStatic
+ * @returns {boolean} - True if the file must be served with 'immutable'
+ */
+export function isImmutableFile(filePath: string, immutable: boolean | RegExp = true): boolean {
+    if (!immutable) {
+        return false;
+    }
+    const pattern = immutable instanceof RegExp ? immutable : FINGERPRINT_PATTERN;
+    return pattern.test(path.basename(filePath));
+}
+
+/**
+ * Find the file to serve, preferring a precompressed sibling accepted by the client
+ * @param {string} filePath - Absolute path of the original file
+ * @param {fs.Stats} stats - Stats of the original file
+ * @param {string | undefined} acceptEncoding - Accept-Encoding request header
+ * @param {PrecompressedEncoding[]} encodings - Sibling encodings to look for, in preference order
+ * @returns {Promise<ResolvedFile>} - Selected file
+ */
+export async function resolvePrecompressed(
+    filePath: string,
+    stats: fs.Stats,
+    acceptEncoding: string | undefined,
+    encodings: PrecompressedEncoding[]
+): Promise<ResolvedFile> {
+    const available: PrecompressedEncoding[] = [];
+    const siblings = new Map<PrecompressedEncoding, fs.Stats>();
+
+    if (acceptEncoding) {
+        for (const encoding of encodings) {
+            const sibling = await statFile(filePath + ENCODING_EXTENSIONS[encoding]);
+            if (sibling?.isFile()) {
+                available.push(encoding);
+                siblings.set(encoding, sibling);
+            }
+        }
+    }
+
+    const encoding = negotiateEncoding(acceptEncoding, available) as PrecompressedEncoding | null;
+    if (!encoding) {
+        return { path: filePath, stats };
+    }
+
+    return { path: filePath + ENCODING_EXTENSIONS[encoding], stats: siblings.get(encoding)!, encoding };
+}
+
+/**
+ * Stat a path without throwing
+ * @param {string} filePath - Path to stat
+ * @returns {Promise<fs.Stats | null>} - Stats, null if the path does not exist or is not readable
+ */
+export async function statFile(filePath: string): Promise<fs.Stats | null> {
+    try {
+        return await fs.promises.stat(filePath);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the entries of a directory for a listing, directories first
+ * @param {string} dirPath - Absolute directory path
+ * @param {boolean} [includeDotfiles=false] - Include entries starting with a dot
+ * @returns {Promise<DirectoryEntry[]>} - Sorted entries
+ */
+export async function readDirectory(dirPath: string, includeDotfiles: boolean = false): Promise<DirectoryEntry[]> {
+    const names = await fs.promises.readdir(dirPath);
+    const entries: DirectoryEntry[] = [];
+
+    for (const name of names) {
+        if (!includeDotfiles && name.startsWith('.')) continue;
+
+        const stats = await statFile(path.join(dirPath, name));
+        if (!stats) continue;
+
+        entries.push({ name, isDirectory: stats.isDirectory(), size: stats.size, mtime: stats.mtime });
+    }
+
+    return entries.sort((a, b) =>
+        Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Render an HTML directory listing
+ * @param {string} urlPath - URL of the directory (with trailing slash)
+ * @param {DirectoryEntry[]} entries - Directory entries
+ * @returns {string} - HTML document
+ */
+export function renderDirectoryListing(urlPath: string, entries: DirectoryEntry[]): string {
+    const title = `Index of ${escapeHtml(decodeURIComponentSafe(urlPath))}`;
+    const rows = entries.map((entry) => {
+        const name = entry.isDirectory ? `${entry.name}/` : entry.name;
+        const href = encodeURIComponent(entry.name) + (entry.isDirectory ? '/' : '');
+        const size = entry.isDirectory ? '-' : String(entry.size);
+        return `<tr><td><a href="${href}">${escapeHtml(name)}</a></td><td>${size}</td><td>${entry.mtime.toISOString()}</td></tr>`;
+    });
+
+    if (urlPath !== '/') {
+        rows.unshift('<tr><td><a href="../">../</a></td><td>-</td><td></td></tr>');
+    }
+
+    return `<!DOCTYPE html>\n<html><head><meta charset="utf-8"><title>${title}</title></head>`
+        + `<body><h1>${title}</h1><table><thead><tr><th>Name</th><th>Size</th><th>Modified</th></tr></thead>`
+        + `<tbody>${rows.join('')}</tbody></table></body></html>`;
+}
+
+/**
+ * Stream a file (or a byte range of it) to the response
+ * Resolves once the data has been handed to the response or the client went away
+ * @param {ServerResponse} res - HTTP response
+ * @param {string} filePath - Absolute file path
+ * @param {ByteRange} [range] - Byte range to send, whole file when omitted
+ * @param {boolean} [end=true] - End the response after the file
+ * @returns {Promise<void>}
+ */
+export function streamFile(res: ServerResponse, filePath: string, range?: ByteRange, end: boolean = true): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const stream = fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : {});
+
+        const onClose = () => {
+            stream.destroy();
+            resolve();
+        };
+
+        res.once('close', onClose);
+        stream.once('error', (error) => {
+            res.off('close', onClose);
+            reject(error);
+        });
+        stream.once('end', () => {
+            res.off('close', onClose);
+            resolve();
+        });
+
+        stream.pipe(res, { end });
+    });
+}
+
+/**
+ * Build the multipart/byteranges framing for a multi-range response
+ * @param {ByteRange[]} ranges - Ranges to send
+ * @param {number} size - Representation size
+ * @param {string} contentType - Content type of the representation
+ * @param {string} boundary - Multipart boundary
+ * @returns {{ headers: string[], trailer: string, length: number }} - Part headers (one per range), closing delimiter and total body length
+ */
+export function multipartByteranges(
+    ranges: ByteRange[],
+    size: number,
+    contentType: string,
+    boundary: string
+): { headers: string[]; trailer: string; length: number } {
+    const headers = ranges.map((range, index) =>
+        `${index === 0 ? '' : '\r\n'}--${boundary}\r\n`
+        + `Content-Type: ${contentType}\r\n`
+        + `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`);
+    const trailer = `\r\n--${boundary}--\r\n`;
+
+    const length = headers.reduce((total, header) => total + Buffer.byteLength(header), 0)
+        + ranges.reduce((total, range) => total + range.end - range.start + 1, 0)
+        + Buffer.byteLength(trailer);
+
+    return { headers, trailer, length };
+}
+
+// Sort ranges and merge the overlapping or adjacent ones
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+    const sorted = ranges.slice().sort((a, b) => a.start - b.start);
+    const merged: ByteRange[] = [];
+
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end + 1) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+
+    return merged;
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function decodeURIComponentSafe(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
@@ -0,0 +1,279 @@
+import { IncomingMessage } from 'http';
+
+/**
+ * Value of the 'trust proxy' setting
+ * - boolean: trust every proxy (true) or none (false)
+ * - number: trust that many hops from the server
+ * - string / string[]: trusted addresses or CIDR ranges ('10.0.0.0/8', 'loopback, uniquelocal')
+ * - function: custom check receiving the address and its hop index (0 = closest)
+ */
+export type TrustProxySetting = boolean | number | string | string[] | ((address: string, hop: number) => boolean);
+
+/** Compiled trust check */
+export type TrustFunction = (address: string, hop: number) => boolean;
+
+/** Client information resolved through trusted proxies */
+export interface ProxyInfo {
+    ip: string;
+    ips: string[];
+    protocol: 'http' | 'https';
+    secure: boolean;
+    hostname: string;
+}
+
+/** Named ranges usable in the 'trust proxy' setting */
+const PRESET_RANGES: Record<string, string[]> = {
+    loopback: ['127.0.0.0/8', '::1/128'],
+    linklocal: ['169.254.0.0/16', 'fe80::/10'],
+    uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7']
+};
+
+/** Parsed CIDR range */
+interface AddressRange {
+    bytes: number[];
+    prefix: number;
+}
+
+/**
+ * Compile a 'trust proxy' setting into a trust check
+ * @param {TrustProxySetting} setting - Setting value
+ * @returns {TrustFunction} - Function telling whether the address at a given hop is a trusted proxy
+ * @throws {Error} - If an address or CIDR range is invalid
+ * @example
+ * const trust = compileTrust('loopback, 10.0.0.0/8')
+ * trust('10.1.2.3', 0) // true
+ * compileTrust(2)('203.0.113.9', 1) // true: second hop
+ */
+export function compileTrust(setting: TrustProxySetting | undefined | null): TrustFunction {
+    if (typeof setting === 'function') {
+        return setting;
+    }
+
+    if (setting === true) {
+        return () => true;
+    }
+
+    if (typeof setting === 'number') {
+        return (_address, hop) => hop < setting;
+    }
+
+    if (typeof setting === 'string' || Array.isArray(setting)) {
+        const entries = (Array.isArray(setting) ? setting : setting.split(','))
+            .map(entry => entry.trim())
+            .filter(Boolean);
+        const ranges = entries
+            .flatMap(entry => PRESET_RANGES[entry] || [entry])
+            .map(parseRange);
+
+        return (address) => {
+            const bytes = parseAddress(address);
+            return !!bytes && ranges.some(range => inRange(bytes, range));
+        };
+    }
+
+    return () => false;
+}
+
+/**
+ * Resolve client IP, protocol and hostname, honouring X-Forwarded-* / Forwarded headers of trusted proxies only
+ * @param {IncomingMessage} req - Incoming request
+ * @param {TrustFunction} trust - Compiled trust check
+ * @returns {ProxyInfo} - Resolved client information
+ * @example
+ * // Socket 10.0.0.2, X-Forwarded-For: 203.0.113.7, trust 'uniquelocal'
+ * resolveProxyInfo(req, compileTrust('uniquelocal')).ip // '203.0.113.7'
+ */
+export function resolveProxyInfo(req: IncomingMessage, trust: TrustFunction): ProxyInfo {
+    const socketAddress = normalizeAddress(req.socket?.remoteAddress || '');
+    const forwarded = parseForwarded(req);
+
+    // Closest address first: the socket peer, then forwarded addresses from right to left
+    const chain = [socketAddress, ...forwarded.for.slice().reverse()];
+    let index = 0;
+    while (index < chain.length - 1 && trust(chain[index], index)) {
+        index++;
+    }
+
+    const trusted = chain.slice(0, index + 1);
+    const socketTrusted = chain.length > 0 && trust(socketAddress, 0);
+    const encrypted = !!(req.socket as any)?.encrypted;
+
+    let protocol: 'http' | 'https' = encrypted ? 'https' : 'http';
+    if (socketTrusted && forwarded.proto) {
+        protocol = forwarded.proto.toLowerCase() === 'https' ? 'https' : 'http';
+    }
+
+    const host = socketTrusted && forwarded.host
+        ? forwarded.host
+        : (req.headers.host || (req.headers as any)[':authority'] || '');
+
+    return {
+        ip: trusted[trusted.length - 1] || socketAddress,
+        ips: trusted.slice(1).reverse(),
+        protocol,
+        secure: protocol === 'https',
+        hostname: stripPort(String(host))
+    };
+}
+
+// Read forwarded addresses, protocol and host from X-Forwarded-* headers, falling back to RFC 7239 Forwarded
+function parseForwarded(req: IncomingMessage): { for: string[]; proto?: string; host?: string } {
+    const xForwardedFor = headerValue(req, 'x-forwarded-for');
+
+    if (xForwardedFor !== undefined) {
+        return {
+            for: splitList(xForwardedFor).map(normalizeAddress),
+            proto: splitList(headerValue(req, 'x-forwarded-proto') || '')[0],
+            host: splitList(headerValue(req, 'x-forwarded-host') || '')[0]
+        };
+    }
+
+    const header = headerValue(req, 'forwarded');
+    if (!header) {
+        return {
+            for: [],
+            proto: splitList(headerValue(req, 'x-forwarded-proto') || '')[0],
+            host: splitList(headerValue(req, 'x-forwarded-host') || '')[0]
+        };
+    }
+
+    const elements = splitList(header).map(element => {
+        const pairs: Record<string, string> = {};
+        for (const pair of element.split(';')) {
+            const separator = pair.indexOf('=');
+            if (separator === -1) continue;
+            const key = pair.slice(0, separator).trim().toLowerCase();
+            pairs[key] = pair.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+        }
+        return pairs;
+    });
+
+    return {
+        for: elements.filter(e => e.for).map(e => normalizeAddress(stripForwardedPort(e.for))),
+        proto: elements[0]?.proto,
+        host: elements[0]?.host
+    };
+}
+
+// Join repeated headers into a single comma-separated value
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value.join(',') : value;
+}
+
+function splitList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Remove the port of a Forwarded 'for' node ('192.0.2.60:4711', '[2001:db8::1]:4711')
+function stripForwardedPort(node: string): string {
+    if (node.startsWith('[')) {
+        return node.slice(1, node.indexOf(']'));
+    }
+    return node.split(':').length === 2 ? node.split(':')[0] : node;
+}
+
+// Remove the port of a Host header value, keeping IPv6 literals intact
+function stripPort(host: string): string {
+    if (host.startsWith('[')) {
+        return host.slice(0, host.indexOf(']') + 1);
+    }
+    const separator = host.indexOf(':');
+    return separator === -1 ? host : host.slice(0, separator);
+}
+
+// Map IPv4-mapped IPv6 addresses ('::ffff:10.0.0.1') to plain IPv4
+function normalizeAddress(address: string): string {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    return mapped ? mapped[1] : address;
+}
+
+function parseRange(entry: string): AddressRange {
+    const [address, prefixText] = entry.split('/');
+    const bytes = parseAddress(normalizeAddress(address));
+
+    if (!bytes) {
+        throw new Error(`Invalid trust proxy address: '${entry}'`);
+    }
+
+    const prefix = prefixText === undefined ? bytes.length * 8 : Number(prefixText);
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > bytes.length * 8) {
+        throw new Error(`Invalid trust proxy range: '${entry}'`);
+    }
+
+    return { bytes, prefix };
+}
+
+function inRange(bytes: number[], range: AddressRange): boolean {
+    if (bytes.length !== range.bytes.length) {
+        return false;
+    }
+
+    for (let bit = 0; bit < range.prefix; bit += 8) {
+        const remaining = range.prefix - bit;
+        const mask = remaining >= 8 ? 0xff : (0xff << (8 - remaining)) & 0xff;
+        if ((bytes[bit / 8] & mask) !== (range.bytes[bit / 8] & mask)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+// Parse an IPv4 (4 bytes) or IPv6 (16 bytes) address, null if invalid
+function parseAddress(address: string): number[] | null {
+    const ipv4 = parseIPv4(address);
+    if (ipv4) {
+        return ipv4;
+    }
+    return address.includes(':') ? parseIPv6(address) : null;
+}
+
+function parseIPv4(address: string): number[] | null {
+    const parts = address.split('.');
+    if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+        return null;
+    }
+    return parts.map(Number);
+}
+
+function parseIPv6(address: string): number[] | null {
+    const zoneless = address.split('%')[0];
+    const halves = zoneless.split('::');
+    if (halves.length > 2) {
+        return null;
+    }
+
+    const toGroups = (part: string): number[] | null => {
+        if (part === '') return [];
+        const groups: number[] = [];
+        const items = part.split(':');
+
+        for (let i = 0; i < items.length; i++) {
+            // Embedded IPv4 in the last position ('::ffff:1.2.3.4')
+            if (i === items.length - 1 && items[i].includes('.')) {
+                const ipv4 = parseIPv4(items[i]);
+                if (!ipv4) return null;
+                groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+                continue;
+            }
+            if (!/^[0-9a-f]{1,4}$/i.test(items[i])) return null;
+            groups.push(parseInt(items[i], 16));
+        }
+        return groups;
+    };
+
+    const head = toGroups(halves[0]);
+    const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+    if (!head || !tail) {
+        return null;
+    }
+
+    const missing = 8 - head.length - tail.length;
+    if ((halves.length === 1 && missing !== 0) || missing < 0) {
+        return null;
+    }
+
+    const groups = [...head, ...new Array(missing).fill(0), ...tail];
+    return groups.flatMap(group => [group >> 8, group & 0xff]);
+}
@@ -1,15 +1,553 @@
 /**
- * Built-in lightweight XML parser and serializer for LyraJS
- * Converts XML strings to JavaScript objects and vice versa
+ * Built-in XML parser and serializer for LyraJS
+ * Converts XML strings to JavaScript objects and vice versa. Parsing goes through a streaming tokenizer
+ * that rejects DOCTYPE declarations (no external or custom entities, so no XXE or entity expansion)
+ * and enforces depth and size limits
  */
 
+/** Attribute and text mapping shared by parseXML and serializeToXML, plus the parser limits */
+export interface XmlOptions {
+    /** Prefix of attribute keys, must not be empty (default: '@') */
+    attributePrefix?: string;
+    /** Key of the text of elements having attributes or child elements (default: '_text') */
+    textKey?: string;
+    /** Trim the text of elements (default: true) */
+    trimText?: boolean;
+    /** Drop namespace prefixes and xmlns attributes, soap:Envelope giving Envelope (default: false) */
+    stripNamespaces?: boolean;
+    /** Maximum element nesting (default: 100) */
+    maxDepth?: number;
+    /** Maximum document length in characters (default: 10485760) */
+    maxSize?: number;
+}
+
+/** Token emitted by XmlTokenizer, entity references being decoded */
+export type XmlToken =
+    | { type: 'open'; name: string; attributes: [string, string][]; selfClosing: boolean }
+    | { type: 'close'; name: string }
+    | { type: 'text'; value: string }
+    | { type: 'cdata'; value: string }
+    | { type: 'comment'; value: string }
+    | { type: 'pi'; target: string; value: string };
+
+/** Malformed or rejected XML document */
+export class XmlParseError extends Error {
+    /**
+     * @param {string} reason - What is wrong
+     * @param {number} line - Line of the offending markup, from 1
+     * @param {number} column - Column of the offending markup, from 1
+     */
+    constructor(public readonly reason: string, public readonly line: number, public readonly column: number) {
+        super(`${reason} (line ${line}, column ${column})`);
+        this.name = 'XmlParseError';
+    }
+}
+
+const DEFAULT_MAX_DEPTH = 100;
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+
+// Entities predefined by XML 1.0, the only named ones without a DOCTYPE
+const PREDEFINED_ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\''
+};
+
+// XML names, non-ASCII name characters being accepted as a whole
+const NAME = /^[A-Za-z_:\u00C0-\uFFFF][A-Za-z0-9_:.\-\u00B7\u00C0-\uFFFF]*$/;
+
+// Markup that an incomplete '<!' may turn out to be
+const DECLARATIONS = ['<!--', '<![CDATA[', '<!DOCTYPE'];
+
+/**
+ * Streaming XML tokenizer: feed it chunks with write() and it emits tokens as soon as they are complete
+ * @example
+ * const tokenizer = new XmlTokenizer(token => console.log(token))
+ * tokenizer.write('<a href="x">te')
+ * tokenizer.write('xt</a>')
+ * tokenizer.end()
+ */
+export class XmlTokenizer {
+    private buffer = '';
+    private pos = 0;
+    private size = 0;
+    private offset = 0;
+    private line = 1;
+    private column = 1;
+    private ended = false;
+
+    /**
+     * @param {(token: XmlToken) => void} onToken - Token listener
+     * @param {number} [maxSize] - Maximum document length in characters
+     */
+    constructor(private readonly onToken: (token: XmlToken) => void, private readonly maxSize: number = DEFAULT_MAX_SIZE) {}
+
+    /**
+     * Tokenize a chunk of the document
+     * @param {string} chunk - Next characters of the document
+     * @returns {this} - Tokenizer for chaining
+     * @throws {XmlParseError} - When the document is malformed, declares a DOCTYPE or exceeds the size limit
+     */
+    write(chunk: string): this {
+        if (this.ended) {
+            throw this.error('Cannot write after the end of the XML document');
+        }
+
+        this.size += chunk.length;
+        if (this.size > this.maxSize) {
+            throw this.error(`XML document exceeds the maximum size of ${this.maxSize} characters`);
+        }
+
+        // A byte order mark may only start the document
+        if (this.offset === 0 && this.buffer.length === 0 && chunk.charCodeAt(0) === 0xfeff) {
+            chunk = chunk.slice(1);
+        }
+
+        this.buffer = this.buffer.slice(this.pos) + chunk;
+        this.pos = 0;
+        this.process();
+        return this;
+    }
+
+    /**
+     * Flush the remaining input
+     * @returns {void}
+     * @throws {XmlParseError} - When the document ends inside markup
+     */
+    end(): void {
+        this.ended = true;
+        this.process();
+    }
+
+    /**
+     * Build an error located at the markup being tokenized
+     * @param {string} reason - What is wrong
+     * @returns {XmlParseError} - Error to throw
+     */
+    error(reason: string): XmlParseError {
+        return new XmlParseError(reason, this.line, this.column);
+    }
+
+    private process(): void {
+        while (this.pos < this.buffer.length) {
+            const length = this.buffer[this.pos] === '<' ? this.readMarkup() : this.readText();
+            if (length === 0) {
+                return;
+            }
+            this.advance(length);
+        }
+    }
+
+    // Move past consumed characters, keeping track of the line and column
+    private advance(length: number): void {
+        const end = this.pos + length;
+        for (let i = this.pos; i < end; i++) {
+            if (this.buffer.charCodeAt(i) === 10) {
+                this.line++;
+                this.column = 1;
+            } else {
+                this.column++;
+            }
+        }
+        this.pos = end;
+        this.offset += length;
+    }
+
+    // Markup not complete yet: wait for the next chunk, unless the document ended
+    private incomplete(): number {
+        if (this.ended) {
+            throw this.error('Unexpected end of XML document');
+        }
+        return 0;
+    }
+
+    private readText(): number {
+        const next = this.buffer.indexOf('<', this.pos);
+        let end = next === -1 ? this.buffer.length : next;
+
+        // Keep an entity reference split across chunks for the next write
+        if (next === -1 && !this.ended) {
+            const ampersand = this.buffer.lastIndexOf('&');
+            if (ampersand >= this.pos && this.buffer.indexOf(';', ampersand) === -1) {
+                end = ampersand;
+            }
+        }
+        if (end === this.pos) {
+            return 0;
+        }
+
+        const raw = this.buffer.slice(this.pos, end);
+        if (raw.includes(']]>')) {
+            throw this.error('"]]>" is not allowed in text');
+        }
+        this.onToken({ type: 'text', value: this.decode(raw.replace(/\r\n?/g, '\n')) });
+        return end - this.pos;
+    }
+
+    private readMarkup(): number {
+        const { buffer, pos } = this;
+
+        if (buffer.startsWith('<?', pos)) {
+            return this.readProcessingInstruction();
+        }
+        if (buffer.startsWith('<!--', pos)) {
+            const close = buffer.indexOf('-->', pos + 4);
+            if (close === -1) return this.incomplete();
+            const value = buffer.slice(pos + 4, close);
+            if (value.includes('--') || value.endsWith('-')) {
+                throw this.error('"--" is not allowed in comments');
+            }
+            this.onToken({ type: 'comment', value });
+            return close + 3 - pos;
+        }
+        if (buffer.startsWith('<![CDATA[', pos)) {
+            const close = buffer.indexOf(']]>', pos + 9);
+            if (close === -1) return this.incomplete();
+            this.onToken({ type: 'cdata', value: buffer.slice(pos + 9, close).replace(/\r\n?/g, '\n') });
+            return close + 3 - pos;
+        }
+        if (buffer.startsWith('<!', pos)) {
+            const start = buffer.slice(pos, pos + 9);
+            if (start.length < 9 && DECLARATIONS.some(declaration => declaration.startsWith(start))) {
+                return this.incomplete();
+            }
+            // No DTD means no custom or external entities: XXE and entity expansion attacks are impossible
+            throw this.error(start.startsWith('<!DOCTYPE') ? 'DOCTYPE declarations are not allowed' : 'Invalid markup declaration');
+        }
+        if (buffer.startsWith('</', pos)) {
+            const close = buffer.indexOf('>', pos);
+            if (close === -1) return this.incomplete();
+            const name = buffer.slice(pos + 2, close).trimEnd();
+            if (!NAME.test(name)) {
+                throw this.error(`Invalid closing tag </${name}>`);
+            }
+            this.onToken({ type: 'close', name });
+            return close + 1 - pos;
+        }
+        return this.readStartTag();
+    }
+
+    private readProcessingInstruction(): number {
+        const { buffer, pos } = this;
+        const close = buffer.indexOf('?>', pos + 2);
+        if (close === -1) return this.incomplete();
+
+        const [, target = '', value = ''] = /^(\S*)([\s\S]*)$/.exec(buffer.slice(pos + 2, close)) || [];
+        if (!NAME.test(target)) {
+            throw this.error(`Invalid processing instruction target "${target}"`);
+        }
+        if (target.toLowerCase() === 'xml') {
+            // The XML declaration is not a processing instruction, and only starts the document
+            if (this.offset !== 0 || target !== 'xml') {
+                throw this.error('The XML declaration is only allowed at the start of the document');
+            }
+        } else {
+            this.onToken({ type: 'pi', target, value: value.trim() });
+        }
+        return close + 2 - pos;
+    }
+
+    private readStartTag(): number {
+        const { buffer, pos } = this;
+        let close = -1;
+        let quote = '';
+
+        // Find the '>' ending the tag, attribute values may contain one
+        for (let i = pos + 1; i < buffer.length; i++) {
+            const char = buffer[i];
+            if (quote) {
+                if (char === quote) quote = '';
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+            } else if (char === '>') {
+                close = i;
+                break;
+            }
+        }
+        if (close === -1) return this.incomplete();
+
+        let content = buffer.slice(pos + 1, close);
+        const selfClosing = content.endsWith('/');
+        if (selfClosing) {
+            content = content.slice(0, -1);
+        }
+
+        const [, name = '', rest = ''] = /^([^\s/>]*)([\s\S]*)$/.exec(content) || [];
+        if (!NAME.test(name)) {
+            throw this.error(`Invalid element name "${name}"`);
+        }
+        this.onToken({ type: 'open', name, attributes: this.readAttributes(name, rest), selfClosing });
+        return close + 1 - pos;
+    }
+
+    private readAttributes(element: string, source: string): [string, string][] {
+        const attributes: [string, string][] = [];
+        const pattern = /\s+([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+        let match: RegExpExecArray | null;
+        let consumed = 0;
+
+        while ((match = pattern.exec(source)) !== null) {
+            consumed = pattern.lastIndex;
+            const [, name, doubleQuoted, singleQuoted] = match;
+            const raw = doubleQuoted ?? singleQuoted;
+            if (!NAME.test(name)) {
+                throw this.error(`Invalid attribute name "${name}" in <${element}>`);
+            }
+            if (attributes.some(([existing]) => existing === name)) {
+                throw this.error(`Duplicate attribute "${name}" in <${element}>`);
+            }
+            if (raw.includes('<')) {
+                throw this.error(`"<" is not allowed in the value of attribute "${name}"`);
+            }
+            // Attribute value normalization: literal whitespace becomes spaces, character references stay
+            attributes.push([name, this.decode(raw.replace(/\r\n|[\t\n\r]/g, ' '))]);
+        }
+
+        if (source.slice(consumed).trim()) {
+            throw this.error(`Invalid attributes in <${element}>`);
+        }
+        return attributes;
+    }
+
+    // Decode the predefined entities and character references
+    private decode(text: string): string {
+        if (!text.includes('&')) {
+            return text;
+        }
+        return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z_:][\w.:-]*)?(;)?/g, (_match, reference?: string, semicolon?: string) => {
+            if (!reference || !semicolon) {
+                throw this.error('"&" must start an entity reference, escape it as &amp;');
+            }
+            if (reference[0] !== '#') {
+                if (!Object.prototype.hasOwnProperty.call(PREDEFINED_ENTITIES, reference)) {
+                    throw this.error(`Unknown entity &${reference};`);
+                }
+                return PREDEFINED_ENTITIES[reference];
+            }
+
+            const code = reference[1] === 'x' ? parseInt(reference.slice(2), 16) : parseInt(reference.slice(1), 10);
+            if (!isXmlChar(code)) {
+                throw this.error(`Invalid character reference &${reference};`);
+            }
+            return String.fromCodePoint(code);
+        });
+    }
+}
+
+// Characters allowed by XML 1.0
+function isXmlChar(code: number): boolean {
+    return code === 0x9 || code === 0xa || code === 0xd
+        || (code >= 0x20 && code <= 0xd7ff)
+        || (code >= 0xe000 && code <= 0xfffd)
+        || (code >= 0x10000 && code <= 0x10ffff);
+}
+
+interface ElementFrame {
+    name: string;
+    value: Record<string, any>;
+    text: string;
+    hasAttributes: boolean;
+    hasChildren: boolean;
+    namespaces: Record<string, string>;
+    /** Keys of the repeated children, whose arrays were created by the parser */
+    repeated: Set<string>;
+}
+
+/**
+ * Streaming XML to object converter
+ * Attributes become prefixed keys, repeated sibling elements arrays, and elements holding only text
+ * strings; the text of elements with attributes or children goes under the text key. CDATA sections
+ * are kept verbatim, comments and processing instructions are skipped
+ * @example
+ * const parser = new XmlParser({ stripNamespaces: true })
+ * for await (const chunk of stream) parser.write(chunk)
+ * const body = parser.end()
+ */
+export class XmlParser {
+    private readonly tokenizer: XmlTokenizer;
+    private readonly stack: ElementFrame[] = [];
+    private readonly attributePrefix: string;
+    private readonly textKey: string;
+    private readonly trimText: boolean;
+    private readonly stripNamespaces: boolean;
+    private readonly maxDepth: number;
+    private root?: Record<string, any>;
+
+    /**
+     * @param {XmlOptions} [options] - Mapping and limits
+     */
+    constructor(options: XmlOptions = {}) {
+        this.attributePrefix = options.attributePrefix || '@';
+        this.textKey = options.textKey ?? '_text';
+        this.trimText = options.trimText ?? true;
+        this.stripNamespaces = options.stripNamespaces ?? false;
+        this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+        this.tokenizer = new XmlTokenizer(token => this.onToken(token), options.maxSize ?? DEFAULT_MAX_SIZE);
+    }
+
+    /**
+     * Parse a chunk of the document
+     * @param {string} chunk - Next characters of the document
+     * @returns {this} - Parser for chaining
+     * @throws {XmlParseError} - When the document is malformed or exceeds a limit
+     */
+    write(chunk: string): this {
+        this.tokenizer.write(chunk);
+        return this;
+    }
+
+    /**
+     * Finish the document
+     * @returns {Record<string, any>} - Object holding the root element under its name
+     * @throws {XmlParseError} - When an element is left open or there is no root element
+     */
+    end(): Record<string, any> {
+        this.tokenizer.end();
+        if (this.stack.length > 0) {
+            throw this.tokenizer.error(`Unclosed element <${this.stack[this.stack.length - 1].name}>`);
+        }
+        if (!this.root) {
+            throw this.tokenizer.error('XML document has no root element');
+        }
+        return this.root;
+    }
+
+    private onToken(token: XmlToken): void {
+        switch (token.type) {
+            case 'open':
+                this.open(token.name, token.attributes);
+                if (token.selfClosing) {
+                    this.close(token.name);
+                }
+                break;
+            case 'close':
+                this.close(token.name);
+                break;
+            case 'text':
+            case 'cdata':
+                this.text(token.value, token.type === 'cdata');
+                break;
+        }
+    }
+
+    private open(name: string, attributes: [string, string][]): void {
+        if (this.stack.length >= this.maxDepth) {
+            throw this.tokenizer.error(`XML document exceeds the maximum depth of ${this.maxDepth}`);
+        }
+        if (this.stack.length === 0 && this.root) {
+            throw this.tokenizer.error('Only one root element is allowed');
+        }
+
+        const parent = this.stack[this.stack.length - 1];
+        let namespaces = parent ? parent.namespaces : { xml: 'http://www.w3.org/XML/1998/namespace' };
+        for (const [attribute, uri] of attributes) {
+            if (attribute.startsWith('xmlns:')) {
+                namespaces = { ...namespaces, [attribute.slice(6)]: uri };
+            }
+        }
+
+        const frame: ElementFrame = { name, value: {}, text: '', hasAttributes: false, hasChildren: false, namespaces, repeated: new Set() };
+        this.checkPrefix(name, namespaces);
+
+        for (const [attribute, value] of attributes) {
+            const isDeclaration = attribute === 'xmlns' || attribute.startsWith('xmlns:');
+            if (!isDeclaration) {
+                this.checkPrefix(attribute, namespaces);
+            } else if (this.stripNamespaces) {
+                continue;
+            }
+            defineKey(frame.value, this.attributePrefix + this.localName(attribute), value);
+            frame.hasAttributes = true;
+        }
+        this.stack.push(frame);
+    }
+
+    private close(name: string): void {
+        const frame = this.stack.pop();
+        if (!frame) {
+            throw this.tokenizer.error(`Unexpected closing tag </${name}>`);
+        }
+        if (frame.name !== name) {
+            throw this.tokenizer.error(`Expected </${frame.name}> but found </${name}>`);
+        }
+
+        const key = this.localName(name);
+        const value = this.elementValue(frame);
+        const parent = this.stack[this.stack.length - 1];
+
+        if (!parent) {
+            this.root = {};
+            defineKey(this.root, key, value);
+            return;
+        }
+
+        // Repeated sibling elements become arrays, grown in place so many siblings stay linear
+        if (parent.repeated.has(key)) {
+            parent.value[key].push(value);
+        } else if (Object.prototype.hasOwnProperty.call(parent.value, key)) {
+            defineKey(parent.value, key, [parent.value[key], value]);
+            parent.repeated.add(key);
+        } else {
+            defineKey(parent.value, key, value);
+        }
+        parent.hasChildren = true;
+    }
+
+    private text(value: string, cdata: boolean): void {
+        const frame = this.stack[this.stack.length - 1];
+        if (!frame) {
+            if (cdata || value.trim()) {
+                throw this.tokenizer.error('Text is not allowed outside the root element');
+            }
+            return;
+        }
+        frame.text += value;
+    }
+
+    // Text only elements give their text, others an object with their attributes, children and text
+    private elementValue(frame: ElementFrame): any {
+        const text = this.trimText ? frame.text.trim() : frame.text;
+        if (!frame.hasAttributes && !frame.hasChildren) {
+            return text;
+        }
+        // Indentation between child elements is not text
+        if (text && (!frame.hasChildren || text.trim())) {
+            defineKey(frame.value, this.textKey, text);
+        }
+        return frame.value;
+    }
+
+    private checkPrefix(name: string, namespaces: Record<string, string>): void {
+        const colon = name.indexOf(':');
+        if (colon !== -1 && !Object.prototype.hasOwnProperty.call(namespaces, name.slice(0, colon))) {
+            throw this.tokenizer.error(`Unbound namespace prefix "${name.slice(0, colon)}" in "${name}"`);
+        }
+    }
+
+    private localName(name: string): string {
+        return this.stripNamespaces ? name.slice(name.indexOf(':') + 1) : name;
+    }
+}
+
+// Define the property so a '__proto__' element cannot replace the prototype
+function defineKey(target: Record<string, any>, key: string, value: any): void {
+    Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
 /**
  * Serialize JavaScript object to XML string
+ * Uses the mapping of parseXML, so parsing the result gives back objects of strings
  * @param {any} obj - Object to serialize
  * @param {string} [rootName='root'] - Root element name
+ * @param {XmlOptions} [options] - Attribute prefix and text key
  * @returns {string} - XML string
  */
-export function serializeToXML(obj: any, rootName: string = 'root'): string {
+export function serializeToXML(obj: any, rootName: string = 'root', options: XmlOptions = {}): string {
+    const attributePrefix = options.attributePrefix || '@';
+    const textKey = options.textKey ?? '_text';
+
     /**
      * Convert a value to XML element
      * @param {string} key - Element name
@@ -30,11 +568,11 @@ export function serializeToXML(obj: any, rootName: string = 'root'): string {
             const children: string[] = [];
 
             for (const [k, v] of Object.entries(value)) {
-                if (k.startsWith('@')) {
+                if (k.startsWith(attributePrefix)) {
                     // Attribute
-                    const attrName = k.substring(1);
-                    attributes.push(`${attrName}="${escapeXML(String(v))}"`);
-                } else if (k === '_text') {
+                    const attrName = k.substring(attributePrefix.length);
+                    attributes.push(`${attrName}="${escapeAttribute(String(v))}"`);
+                } else if (k === textKey) {
                     // Text content
                     children.push(escapeXML(String(v)));
                 } else {
@@ -77,13 +615,25 @@ export function serializeToXML(obj: any, rootName: string = 'root'): string {
             .replace(/</g, '&lt;')
             .replace(/>/g, '&gt;')
             .replace(/"/g, '&quot;')
-            .replace(/'/g, '&apos;');
+            .replace(/'/g, '&apos;')
+            .replace(/\r/g, '&#13;');
+    }
+
+    /**
+     * Escape an attribute value, whitespace included since parsers normalize it to spaces
+     * @param {string} str - String to escape
+     * @returns {string} - Escaped string
+     */
+    function escapeAttribute(str: string): string {
+        return escapeXML(str)
+            .replace(/\t/g, '&#9;')
+            .replace(/\n/g, '&#10;');
     }
 
     // Handle root element
-    if (typeof obj === 'object' && !Array.isArray(obj)) {
+    if (typeof obj === 'object' && obj !== null && !Array.isArray(obj)) {
         const keys = Object.keys(obj);
-        if (keys.length === 1 && !keys[0].startsWith('@')) {
+        if (keys.length === 1 && !keys[0].startsWith(attributePrefix) && keys[0] !== textKey) {
             // Object has single key, use it as root
             const key = keys[0];
             return `<?xml version="1.0" encoding="UTF-8"?>\n${valueToXML(key, obj[key], 0)}`;
@@ -96,178 +646,33 @@ export function serializeToXML(obj: any, rootName: string = 'root'): string {
 /**
  * Parse XML string to JavaScript object
  * @param {string} xml - XML string to parse
- * @returns {any} - Parsed object
+ * @param {XmlOptions} [options] - Mapping and limits
+ * @returns {Record<string, any>} - Object holding the root element under its name
+ * @throws {XmlParseError} - When the document is malformed, declares a DOCTYPE or exceeds a limit
+ * @example
+ * parseXML('<user id="1"><name>Ada</name><role>admin</role><role>dev</role></user>')
+ * // { user: { '@id': '1', name: 'Ada', role: ['admin', 'dev'] } }
  */
-export function parseXML(xml: string): any {
-    // Remove XML declaration and comments
-    xml = xml.replace(/<\?xml.*?\?>/g, '').replace(/<!--.*?-->/gs, '').trim();
-
-    /**
-     * Parse a single XML node
-     * @param {string} xmlString - XML string
-     * @returns {any} - Parsed node
-     */
-    function parseNode(xmlString: string): any {
-        xmlString = xmlString.trim();
-
-        // Match opening tag with attributes
-        const tagMatch = xmlString.match(/^<([^\s>]+)(\s[^>]*)?>/)
-        if (!tagMatch) return xmlString;
-
-        const tagName = tagMatch[1];
-        const attributesString = tagMatch[2] || '';
-
-        // Check if it's a self-closing tag
-        if (xmlString.match(/^<[^>]+\/>/)) {
-            const attributes = parseAttributes(attributesString);
-            return { [tagName]: { ...attributes } };
-        }
-
-        // Find matching closing tag
-        const closingTag = `</${tagName}>`;
-        const closingIndex = findClosingTag(xmlString, tagName);
-
-        if (closingIndex === -1) {
-            // No closing tag found, treat as text
-            return xmlString;
-        }
-
-        // Extract content between opening and closing tags
-        const contentStart = tagMatch[0].length;
-        const content = xmlString.substring(contentStart, closingIndex).trim();
-
-        // Parse attributes
-        const attributes = parseAttributes(attributesString);
-
-        // Check if content contains child elements or is just text
-        if (!content.includes('<')) {
-            // Plain text content
-            const result: any = {};
-            if (Object.keys(attributes).length > 0) {
-                result[tagName] = {
-                    _text: content,
-                    ...attributes
-                };
-            } else {
-                result[tagName] = content;
-            }
-            return result;
-        }
-
-        // Parse child elements
-        const children = parseChildren(content);
-
-        const result: any = {};
-        if (Object.keys(attributes).length > 0) {
-            result[tagName] = {
-                ...attributes,
-                ...children
-            };
-        } else {
-            result[tagName] = children;
-        }
-
-        return result;
-    }
-
-    /**
-     * Find the index of the matching closing tag
-     * @param {string} xml - XML string
-     * @param {string} tagName - Tag name to find closing tag for
-     * @returns {number} - Index of closing tag or -1 if not found
-     */
-    function findClosingTag(xml: string, tagName: string): number {
-        const openTag = new RegExp(`<${tagName}[\\s>]`, 'g');
-        const closeTag = new RegExp(`</${tagName}>`, 'g');
-
-        let depth = 0;
-        let position = 0;
-
-        while (position < xml.length) {
-            openTag.lastIndex = position;
-            closeTag.lastIndex = position;
-
-            const openMatch = openTag.exec(xml);
-            const closeMatch = closeTag.exec(xml);
-
-            if (!closeMatch) return -1;
-
-            if (openMatch && openMatch.index < closeMatch.index) {
-                depth++;
-                position = openMatch.index + openMatch[0].length;
-            } else {
-                if (depth === 0) {
-                    return closeMatch.index;
-                }
-                depth--;
-                position = closeMatch.index + closeMatch[0].length;
-            }
-        }
-
-        return -1;
-    }
-
-    /**
-     * Parse attributes from attribute string
-     * @param {string} attrString - Attributes string
-     * @returns {any} - Object with attributes
-     */
-    function parseAttributes(attrString: string): any {
-        const attributes: any = {};
-        const attrRegex = /(\w+)=["']([^"']*)["']/g;
-        let match;
-
-        while ((match = attrRegex.exec(attrString)) !== null) {
-            attributes[`@${match[1]}`] = match[2];
-        }
-
-        return attributes;
-    }
-
-    /**
-     * Parse child elements
-     * @param {string} content - Content string
-     * @returns {any} - Parsed children
-     */
-    function parseChildren(content: string): any {
-        const children: any = {};
-        let position = 0;
-
-        while (position < content.length) {
-            const remaining = content.substring(position).trim();
-            if (!remaining || !remaining.startsWith('<')) break;
-
-            // Find the next tag
-            const tagMatch = remaining.match(/^<([^\s>\/]+)/);
-            if (!tagMatch) break;
-
-            const tagName = tagMatch[1];
-            const closingIndex = findClosingTag(remaining, tagName);
-
-            if (closingIndex === -1) break;
-
-            const endOfTag = remaining.indexOf(`</${tagName}>`) + `</${tagName}>`.length;
-            const element = remaining.substring(0, endOfTag);
-            const parsed = parseNode(element);
-
-            // Merge into children
-            const key = Object.keys(parsed)[0];
-            if (children[key]) {
-                // Multiple elements with same tag name - convert to array
-                if (!Array.isArray(children[key])) {
-                    children[key] = [children[key]];
-                }
-                children[key].push(parsed[key]);
-            } else {
-                children[key] = parsed[key];
-            }
+export function parseXML(xml: string, options?: XmlOptions): Record<string, any> {
+    return new XmlParser(options).write(xml).end();
+}
 
-            position += content.indexOf(element, position) + element.length;
-        }
+/**
+ * Parse an XML document from a stream, without buffering it
+ * @param {AsyncIterable<string | Buffer>} source - Readable stream or other chunk source, Buffers being UTF-8
+ * @param {XmlOptions} [options] - Mapping and limits
+ * @returns {Promise<Record<string, any>>} - Object holding the root element under its name
+ * @throws {XmlParseError} - When the document is malformed, declares a DOCTYPE or exceeds a limit
+ * @example
+ * app.addContentTypeParser('application/soap+xml', req => parseXMLStream(req, { stripNamespaces: true }), { stream: true })
+ */
+export async function parseXMLStream(source: AsyncIterable<string | Buffer>, options?: XmlOptions): Promise<Record<string, any>> {
+    const parser = new XmlParser(options);
+    const decoder = new TextDecoder('utf-8');
 
-        return children;
+    for await (const chunk of source) {
+        parser.write(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
     }
-
-    // Start parsing from root
-    return parseNode(xml);
+    parser.write(decoder.decode());
+    return parser.end();
 }
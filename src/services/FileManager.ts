@@ -116,10 +116,15 @@ export class FileManager extends Service {
       // Buffer-based upload
       await fs.promises.writeFile(filePath, file.data)
     } else if (file.path) {
-      // Multer or similar (temporary file)
-      await fs.promises.copyFile(file.path, filePath)
-      // Clean up temp file
-      await fs.promises.unlink(file.path)
+      // Disk-based upload (LyraJS 'temp' / 'disk' storage, multer...): move the file
+      try {
+        await fs.promises.rename(file.path, filePath)
+      } catch (error: any) {
+        if (error.code !== "EXDEV") throw error
+        // Temp directory on another device
+        await fs.promises.copyFile(file.path, filePath)
+        await fs.promises.unlink(file.path)
+      }
     } else if (file.stream) {
       // Stream-based upload
       const writeStream = createWriteStream(filePath)
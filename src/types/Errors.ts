@@ -35,4 +35,26 @@ export interface ErrorResponse {
   timestamp?: string
   /** Unique request identifier for tracking */
   requestId?: string
+  /** Validation error messages per field */
+  errors?: Record<string, string[]>
+}
+
+/**
+ * RFC 9457 problem details, sent as application/problem+json when error_format is "problem"
+ */
+export interface ProblemDetails {
+  /** URI identifying the problem type, "about:blank" when the status code says it all */
+  type: string
+  /** Short summary of the problem type (HTTP reason phrase for "about:blank") */
+  title: string
+  /** HTTP status code */
+  status: number
+  /** Explanation of this occurrence of the problem */
+  detail: string
+  /** Request path where the problem occurred */
+  instance?: string
+  /** Validation error messages per field */
+  errors?: Record<string, string[]>
+  /** Unique request identifier for tracking */
+  requestId?: string
 }
@@ -2,4 +2,6 @@ export interface RouteInfo {
   httpMethod: string
   controller: string
   path: string
+  /** Roles allowed by @Roles, or by the security.yaml access_control rules covering the path */
+  roles?: string[]
 }
@@ -0,0 +1,404 @@
+import "reflect-metadata"
+
+import { Validator } from "./index"
+
+const VALIDATION_KEY = Symbol("validation")
+
+/** Options shared by the validation decorators */
+export interface ValidationOptions {
+  /** Error message replacing the default one */
+  message?: string
+  /** Apply the constraint to each element of an array value */
+  each?: boolean
+}
+
+/** Single constraint declared on a DTO property */
+export interface ValidationRule {
+  name: string
+  validate: (value: any, dto: Record<string, any>) => boolean | Promise<boolean>
+  defaultMessage: (label: string) => string
+  /** Converts a string value (query string, form field) to the expected type, undefined when it can't */
+  coerce?: (value: string) => any
+  /** JSON schema fragment documenting the constraint (used by the OpenAPI generator) */
+  schema?: Record<string, any>
+  message?: string
+  each?: boolean
+}
+
+/** Validation metadata of a DTO property */
+export interface PropertyValidation {
+  optional: boolean
+  rules: ValidationRule[]
+  /** DTO class of a nested object, or of each element of a nested array */
+  nested?: () => Function
+}
+
+/**
+ * Get the validation metadata of a DTO class, including inherited properties
+ * @param {Function} dto - DTO class
+ * @returns {Record<string, PropertyValidation>} - Validation metadata by property name
+ */
+export function getValidationMetadata(dto: Function): Record<string, PropertyValidation> {
+  return Reflect.getMetadata(VALIDATION_KEY, dto) || {}
+}
+
+/**
+ * Declare a custom validation rule on a property
+ * Building block of the validation decorators, also used to write reusable ones
+ * @param {Omit<ValidationRule, "message" | "each">} rule - Rule definition
+ * @param {ValidationOptions} [options={}] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ * @example
+ * export const IsSlug = (options?: ValidationOptions) =>
+ *   ValidateRule({
+ *     name: "isSlug",
+ *     validate: (value) => typeof value === "string" && /^[a-z0-9-]+$/.test(value),
+ *     defaultMessage: (label) => `${label} must be a slug`
+ *   }, options)
+ */
+export function ValidateRule(rule: Omit<ValidationRule, "message" | "each">, options: ValidationOptions = {}): PropertyDecorator {
+  return updateProperty((property) => {
+    // Decorators are applied bottom-up: prepend to keep declaration order
+    property.rules = [{ ...rule, message: options.message, each: options.each }, ...property.rules]
+  })
+}
+
+/**
+ * Custom validator: the function receives the value and the whole DTO
+ * @param {(value: any, dto: Record<string, any>) => boolean | Promise<boolean>} validator - Returns true when valid
+ * @param {ValidationOptions} [options={}] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ * @example
+ * @Validate((value, dto) => value === dto.password, { message: "passwords do not match" })
+ * passwordConfirmation!: string
+ */
+export function Validate(
+  validator: (value: any, dto: Record<string, any>) => boolean | Promise<boolean>,
+  options: ValidationOptions = {}
+): PropertyDecorator {
+  return ValidateRule({ name: "validate", validate: validator, defaultMessage: (label) => `${label} is invalid` }, options)
+}
+
+/**
+ * Allow the property to be missing (undefined or null): its other constraints are skipped then
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsOptional(): PropertyDecorator {
+  return updateProperty((property) => {
+    property.optional = true
+  })
+}
+
+/**
+ * Validate a nested DTO, or each element of an array of nested DTOs
+ * @param {() => Function} [type] - DTO class thunk, defaults to the declared property type
+ * @returns {PropertyDecorator} - Property decorator
+ * @example
+ * @ValidateNested(() => AddressDto)
+ * address!: AddressDto
+ *
+ * @IsArray()
+ * @ValidateNested(() => LineDto)
+ * lines!: LineDto[]
+ */
+export function ValidateNested(type?: () => Function): PropertyDecorator {
+  return function (target: object, propertyKey: string | symbol) {
+    const designType = Reflect.getMetadata("design:type", target, propertyKey)
+    const nested = type || (designType && designType !== Array && designType !== Object ? () => designType : undefined)
+
+    if (!nested) {
+      throw new Error(`@ValidateNested on ${propertyKey.toString()} needs the DTO class: @ValidateNested(() => Dto)`)
+    }
+
+    updateProperty((property) => {
+      property.nested = nested
+    })(target, propertyKey)
+  }
+}
+
+/**
+ * Require a string
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsString(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isString",
+      validate: (value) => typeof value === "string",
+      defaultMessage: (label) => `${label} must be a string`,
+      schema: { type: "string" }
+    },
+    options
+  )
+}
+
+/**
+ * Require a finite number (numeric strings are converted)
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsNumber(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isNumber",
+      validate: (value) => typeof value === "number" && Number.isFinite(value),
+      defaultMessage: (label) => `${label} must be a number`,
+      coerce: toNumber,
+      schema: { type: "number" }
+    },
+    options
+  )
+}
+
+/**
+ * Require an integer (integer strings are converted)
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsInt(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isInt",
+      validate: (value) => Number.isInteger(value),
+      defaultMessage: (label) => `${label} must be an integer`,
+      coerce: toNumber,
+      schema: { type: "integer" }
+    },
+    options
+  )
+}
+
+/**
+ * Require a boolean ('true', 'false', '1' and '0' strings are converted)
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsBoolean(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isBoolean",
+      validate: (value) => typeof value === "boolean",
+      defaultMessage: (label) => `${label} must be a boolean`,
+      coerce: (value) => (value === "true" || value === "1" ? true : value === "false" || value === "0" ? false : undefined),
+      schema: { type: "boolean" }
+    },
+    options
+  )
+}
+
+/**
+ * Require a valid date (ISO strings are converted to Date)
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsDate(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isDate",
+      validate: (value) => value instanceof Date && !isNaN(value.getTime()),
+      defaultMessage: (label) => `${label} must be a valid date`,
+      coerce: (value) => (value.trim() === "" ? undefined : new Date(value)),
+      schema: { type: "string", format: "date-time" }
+    },
+    options
+  )
+}
+
+/**
+ * Require an email address
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsEmail(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isEmail",
+      validate: (value) => typeof value === "string" && Validator.isEmailValid(value),
+      defaultMessage: (label) => `${label} must be an email`,
+      schema: { type: "string", format: "email" }
+    },
+    options
+  )
+}
+
+/**
+ * Require a UUID
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsUUID(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isUUID",
+      validate: (value) =>
+        typeof value === "string" && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+      defaultMessage: (label) => `${label} must be a UUID`,
+      schema: { type: "string", format: "uuid" }
+    },
+    options
+  )
+}
+
+/**
+ * Require an array (a single query string value becomes a one-element array)
+ * @param {ValidationOptions} [options] - Message option
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsArray(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isArray",
+      validate: (value) => Array.isArray(value),
+      defaultMessage: (label) => `${label} must be an array`,
+      coerce: (value) => [value],
+      schema: { type: "array" }
+    },
+    options
+  )
+}
+
+/**
+ * Require a non-empty value: not an empty or blank string, not an empty array
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function IsNotEmpty(options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isNotEmpty",
+      validate: (value) =>
+        value !== "" && !(typeof value === "string" && value.trim() === "") && !(Array.isArray(value) && value.length === 0),
+      defaultMessage: (label) => `${label} should not be empty`
+    },
+    options
+  )
+}
+
+/**
+ * Require one of the allowed values
+ * @param {readonly any[]} values - Allowed values
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ * @example
+ * @IsIn(["asc", "desc"])
+ * order!: "asc" | "desc"
+ */
+export function IsIn(values: readonly any[], options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "isIn",
+      validate: (value) => values.includes(value),
+      defaultMessage: (label) => `${label} must be one of: ${values.join(", ")}`,
+      schema: { enum: [...values] }
+    },
+    options
+  )
+}
+
+/**
+ * Require a string (or array) length within bounds
+ * @param {number} min - Minimum length
+ * @param {number} [max] - Maximum length
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ * @example
+ * @Length(2, 50)
+ * name!: string
+ */
+export function Length(min: number, max?: number, options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "length",
+      validate: (value) =>
+        (typeof value === "string" || Array.isArray(value)) &&
+        value.length >= min &&
+        (max === undefined || value.length <= max),
+      defaultMessage: (label) =>
+        max === undefined
+          ? `${label} must be at least ${min} characters long`
+          : `${label} must be between ${min} and ${max} characters long`,
+      schema: { minLength: min, ...(max !== undefined ? { maxLength: max } : {}) }
+    },
+    options
+  )
+}
+
+/**
+ * Require a number greater than or equal to a minimum
+ * @param {number} min - Minimum value
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function Min(min: number, options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "min",
+      validate: (value) => typeof value === "number" && value >= min,
+      defaultMessage: (label) => `${label} must not be less than ${min}`,
+      coerce: toNumber,
+      schema: { minimum: min }
+    },
+    options
+  )
+}
+
+/**
+ * Require a number less than or equal to a maximum
+ * @param {number} max - Maximum value
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ */
+export function Max(max: number, options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "max",
+      validate: (value) => typeof value === "number" && value <= max,
+      defaultMessage: (label) => `${label} must not be greater than ${max}`,
+      coerce: toNumber,
+      schema: { maximum: max }
+    },
+    options
+  )
+}
+
+/**
+ * Require a string matching a pattern
+ * @param {RegExp} pattern - Pattern to match
+ * @param {ValidationOptions} [options] - Message and each options
+ * @returns {PropertyDecorator} - Property decorator
+ * @example
+ * @Matches(/^[A-Z]{2}\d{4}$/)
+ * reference!: string
+ */
+export function Matches(pattern: RegExp, options?: ValidationOptions): PropertyDecorator {
+  return ValidateRule(
+    {
+      name: "matches",
+      validate: (value) => typeof value === "string" && new RegExp(pattern.source, pattern.flags.replace("g", "")).test(value),
+      defaultMessage: (label) => `${label} must match ${pattern}`,
+      schema: { type: "string", pattern: pattern.source }
+    },
+    options
+  )
+}
+
+// Copy-on-write update of a property's metadata, so parent DTOs are not mutated
+function updateProperty(update: (property: PropertyValidation) => void): PropertyDecorator {
+  return function (target: object, propertyKey: string | symbol) {
+    const constructor = target.constructor
+    const metadata: Record<string, PropertyValidation> = { ...getValidationMetadata(constructor) }
+    const key = propertyKey.toString()
+    const property: PropertyValidation = metadata[key]
+      ? { ...metadata[key], rules: [...metadata[key].rules] }
+      : { optional: false, rules: [] }
+
+    update(property)
+    metadata[key] = property
+    Reflect.defineMetadata(VALIDATION_KEY, metadata, constructor)
+  }
+}
+
+function toNumber(value: string): number | undefined {
+  return value.trim() === "" ? undefined : Number(value)
+}
@@ -70,3 +70,6 @@ export class Validator {
     return this.patterns.date.test(stringDate)
   }
 }
+
+export * from "./ValidationDecorators"
+export * from "./validateDto"
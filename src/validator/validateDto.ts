@@ -0,0 +1,142 @@
+import { ValidationException } from "@/core/errors"
+
+import { getValidationMetadata, PropertyValidation } from "./ValidationDecorators"
+
+/** Error messages per field, nested fields use dot paths (address.city, lines.0.quantity) */
+export type ValidationErrors = Record<string, string[]>
+
+/** Class of a DTO: constructible without arguments */
+export type DtoClass<T = any> = new () => T
+
+/** Result of a DTO validation */
+export interface DtoValidationResult<T> {
+  /** DTO instance holding the declared properties, string values converted to their declared type */
+  value: T
+  /** Error messages per field, empty when the input is valid */
+  errors: ValidationErrors
+}
+
+/**
+ * Validate an input against a DTO class
+ * Only properties declared with validation decorators are copied to the DTO instance, so extra
+ * input fields are dropped. String values are converted to the declared type first (query strings,
+ * form fields), missing properties are errors unless marked @IsOptional, and class field initializers
+ * act as default values
+ * @param {DtoClass<T>} dto - DTO class
+ * @param {any} input - Parsed body or query
+ * @returns {Promise<DtoValidationResult<T>>} - DTO instance and errors
+ * @example
+ * const { value, errors } = await validateDto(CreateUserDto, req.body)
+ * if (Object.keys(errors).length > 0) return this.unprocessableEntity(errors)
+ */
+export async function validateDto<T>(dto: DtoClass<T>, input: any): Promise<DtoValidationResult<T>> {
+  const errors: ValidationErrors = {}
+  const value = await validateObject(dto, input, "", errors)
+  return { value: value as T, errors }
+}
+
+/**
+ * Validate an input against a DTO class and return the DTO instance
+ * @param {DtoClass<T>} dto - DTO class
+ * @param {any} input - Parsed body or query
+ * @returns {Promise<T>} - DTO instance
+ * @throws {ValidationException} - 400 with the error messages per field
+ * @example
+ * const user = await assertDto(CreateUserDto, req.body)
+ */
+export async function assertDto<T>(dto: DtoClass<T>, input: any): Promise<T> {
+  const { value, errors } = await validateDto(dto, input)
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationException("Validation Error", undefined, errors)
+  }
+  return value
+}
+
+async function validateObject(dto: Function, input: any, prefix: string, errors: ValidationErrors): Promise<any> {
+  const source = input !== null && typeof input === "object" && !Array.isArray(input) ? input : {}
+  const instance = new (dto as DtoClass)()
+
+  for (const [name, property] of Object.entries(getValidationMetadata(dto))) {
+    const label = prefix + name
+    let value = coerce(source[name], property)
+
+    if (value === undefined || value === null) {
+      if (value === null) {
+        instance[name] = null
+      }
+      if (!property.optional && (instance[name] === undefined || instance[name] === null)) {
+        addError(errors, label, `${label} is required`)
+      }
+      continue
+    }
+
+    const failures = await checkRules(value, property, source, label)
+    if (failures.length > 0) {
+      errors[label] = failures
+      continue
+    }
+
+    if (property.nested) {
+      value = await validateNested(value, property.nested(), label, errors)
+    }
+
+    instance[name] = value
+  }
+
+  return instance
+}
+
+async function validateNested(value: any, dto: Function, label: string, errors: ValidationErrors): Promise<any> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item, index) => validateNested(item, dto, `${label}.${index}`, errors)))
+  }
+  if (value === null || typeof value !== "object") {
+    addError(errors, label, `${label} must be an object`)
+    return value
+  }
+  return validateObject(dto, value, `${label}.`, errors)
+}
+
+// Convert strings to the type expected by the first converting rule (each rules convert array elements)
+function coerce(value: any, property: PropertyValidation): any {
+  const converter = property.rules.find((rule) => rule.coerce && !rule.each)?.coerce
+  if (typeof value === "string" && converter) {
+    const converted = converter(value)
+    value = converted === undefined ? value : converted
+  }
+
+  const elementConverter = property.rules.find((rule) => rule.coerce && rule.each)?.coerce
+  if (Array.isArray(value) && elementConverter) {
+    value = value.map((item) => {
+      const converted = typeof item === "string" ? elementConverter(item) : undefined
+      return converted === undefined ? item : converted
+    })
+  }
+
+  return value
+}
+
+async function checkRules(value: any, property: PropertyValidation, dto: Record<string, any>, label: string): Promise<string[]> {
+  const failures: string[] = []
+
+  for (const rule of property.rules) {
+    let valid: boolean
+    if (rule.each && Array.isArray(value)) {
+      const results = await Promise.all(value.map((item) => rule.validate(item, dto)))
+      valid = results.every(Boolean)
+    } else {
+      valid = await rule.validate(value, dto)
+    }
+
+    if (!valid) {
+      failures.push(rule.message || rule.defaultMessage(rule.each ? `each value in ${label}` : label))
+    }
+  }
+
+  return failures
+}
+
+function addError(errors: ValidationErrors, label: string, message: string): void {
+  if (!errors[label]) errors[label] = []
+  errors[label].push(message)
+}
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import {
+  DatabaseLockException,
+  DataTooLongException,
+  ForeignKeyConstraintViolationException,
+  NotNullViolationException,
+  RowReferencedException,
+  UniqueConstraintViolationException
+} from "../src/errors/DatabaseExceptions.js"
+import { isDatabaseError, translateDatabaseError } from "../src/orm/DatabaseErrorTranslator.js"
+
+// Shape of the errors thrown by mysql2
+const driverError = (code: string, sqlMessage: string) =>
+  Object.assign(new Error(sqlMessage), { code, sqlMessage, sqlState: "23000", errno: 1062 })
+
+describe("translateDatabaseError", () => {
+  it("maps duplicate entries to 409 with the unique key column", () => {
+    const error = translateDatabaseError(
+      driverError("ER_DUP_ENTRY", "Duplicate entry 'ada@example.com' for key 'users.users_email_unique'"),
+      { table: "users", columns: ["id", "email", "name"] }
+    )
+
+    assert.ok(error instanceof UniqueConstraintViolationException)
+    assert.strictEqual(error.status, 409)
+    assert.strictEqual(error.constraint, "users_email_unique")
+    assert.strictEqual(error.column, "email")
+    assert.deepStrictEqual(error.fields, { email: ["email already exists"] })
+    assert.ok(!error.message.includes("ada@example.com"))
+  })
+
+  it("names the primary key column from the context", () => {
+    const duplicate = () => driverError("ER_DUP_ENTRY", "Duplicate entry 'FR' for key 'countries.PRIMARY'")
+
+    const error = translateDatabaseError(duplicate(), { table: "countries", columns: ["code", "name"], primaryKey: "code" })
+    assert.ok(error instanceof UniqueConstraintViolationException)
+    assert.strictEqual(error.constraint, "PRIMARY")
+    assert.strictEqual(error.column, "code")
+
+    const unknown = translateDatabaseError(duplicate(), { table: "countries" })
+    assert.strictEqual((unknown as UniqueConstraintViolationException).column, undefined)
+  })
+
+  it("maps foreign key violations to 422 and 409", () => {
+    const fk = "a foreign key constraint fails (`shop`.`orders`, CONSTRAINT `fk_orders_user` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`))"
+
+    const missing = translateDatabaseError(driverError("ER_NO_REFERENCED_ROW_2", `Cannot add or update a child row: ${fk}`))
+    assert.ok(missing instanceof ForeignKeyConstraintViolationException)
+    assert.strictEqual(missing.status, 422)
+    assert.strictEqual(missing.column, "user_id")
+    assert.strictEqual(missing.referencedTable, "users")
+    assert.strictEqual(missing.constraint, "fk_orders_user")
+
+    const referenced = translateDatabaseError(driverError("ER_ROW_IS_REFERENCED_2", `Cannot delete or update a parent row: ${fk}`))
+    assert.ok(referenced instanceof RowReferencedException)
+    assert.strictEqual(referenced.status, 409)
+    assert.strictEqual(referenced.table, "orders")
+    assert.strictEqual(referenced.fields, undefined)
+  })
+
+  it("maps column errors to 422", () => {
+    const tooLong = translateDatabaseError(driverError("ER_DATA_TOO_LONG", "Data too long for column 'title' at row 1"))
+    assert.ok(tooLong instanceof DataTooLongException)
+    assert.deepStrictEqual(tooLong.fields, { title: ["title is too long"] })
+
+    const notNull = translateDatabaseError(driverError("ER_BAD_NULL_ERROR", "Column 'name' cannot be null"))
+    assert.ok(notNull instanceof NotNullViolationException)
+    assert.strictEqual(notNull.status, 422)
+    assert.strictEqual(notNull.column, "name")
+  })
+
+  it("maps deadlocks and lock wait timeouts to 503", () => {
+    for (const code of ["ER_LOCK_DEADLOCK", "ER_LOCK_WAIT_TIMEOUT"]) {
+      const error = translateDatabaseError(driverError(code, "try restarting transaction"))
+      assert.ok(error instanceof DatabaseLockException)
+      assert.strictEqual(error.status, 503)
+    }
+  })
+
+  it("returns other errors unchanged", () => {
+    const syntax = driverError("ER_PARSE_ERROR", "You have an error in your SQL syntax")
+    const plain = new Error("boom")
+
+    assert.strictEqual(translateDatabaseError(syntax), syntax)
+    assert.strictEqual(translateDatabaseError(plain), plain)
+    assert.strictEqual(isDatabaseError(plain), false)
+  })
+})
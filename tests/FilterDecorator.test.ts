@@ -0,0 +1,42 @@
+import "reflect-metadata"
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { Catch, filterCatches, getFilters, UseFilters } from "../src/server/decorators/FilterDecorator.js"
+
+class PaymentError extends Error {}
+class CardDeclinedError extends PaymentError {}
+
+class PaymentFilter {
+  catch() {}
+}
+Catch(PaymentError)(PaymentFilter)
+
+class CatchAllFilter {
+  catch() {}
+}
+Catch()(CatchAllFilter)
+
+class PaymentController {
+  pay() {}
+  refund() {}
+}
+UseFilters(CatchAllFilter)(PaymentController)
+UseFilters(PaymentFilter)(PaymentController.prototype, "pay", {})
+
+describe("FilterDecorator", () => {
+  it("matches the @Catch types and their subclasses", () => {
+    const filter = new PaymentFilter()
+    assert.strictEqual(filterCatches(filter, new PaymentError()), true)
+    assert.strictEqual(filterCatches(filter, new CardDeclinedError()), true)
+    assert.strictEqual(filterCatches(filter, new TypeError()), false)
+  })
+
+  it("catches every error without @Catch types", () => {
+    assert.strictEqual(filterCatches(new CatchAllFilter(), "thrown string"), true)
+  })
+
+  it("tries handler filters before controller filters", () => {
+    assert.deepStrictEqual(getFilters(PaymentController, "pay"), [PaymentFilter, CatchAllFilter])
+    assert.deepStrictEqual(getFilters(PaymentController, "refund"), [CatchAllFilter])
+  })
+})
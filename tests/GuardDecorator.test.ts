@@ -0,0 +1,104 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { after, describe, it, mock } from "node:test"
+import * as assert from "node:assert"
+import { getGuards, getRoles, Roles, UseGuards } from "../src/server/decorators/GuardDecorator.js"
+import { Get, Route } from "../src/server/decorators/index.js"
+import { Controller } from "../src/server/Controller.js"
+import { createServer } from "../src/server/LyraServer.js"
+import { AccessControl } from "../src/security/AccessControl.js"
+
+class AuthGuard {
+  canActivate() {
+    return true
+  }
+}
+
+class OwnerGuard {
+  canActivate() {
+    return false
+  }
+}
+
+class ArticleController {
+  list() {}
+  remove() {}
+  static stats() {}
+}
+Roles("ROLE_EDITOR")(ArticleController)
+UseGuards(AuthGuard)(ArticleController)
+Roles("ROLE_ADMIN")(ArticleController.prototype, "remove", {})
+UseGuards(OwnerGuard)(ArticleController.prototype, "remove", {})
+Roles("ROLE_ADMIN", "ROLE_STATS")(ArticleController, "stats", {})
+
+describe("GuardDecorator", () => {
+  it("falls back to the controller roles", () => {
+    assert.deepStrictEqual(getRoles(ArticleController, "list"), ["ROLE_EDITOR"])
+  })
+
+  it("lets handler roles replace the controller roles", () => {
+    assert.deepStrictEqual(getRoles(ArticleController, "remove"), ["ROLE_ADMIN"])
+    assert.deepStrictEqual(getRoles(ArticleController, "stats"), ["ROLE_ADMIN", "ROLE_STATS"])
+  })
+
+  it("runs controller guards before handler guards", () => {
+    assert.deepStrictEqual(getGuards(ArticleController, "list"), [AuthGuard])
+    assert.deepStrictEqual(getGuards(ArticleController, "remove"), [AuthGuard, OwnerGuard])
+  })
+
+  it("does not leak guards to a parent controller", () => {
+    class DraftController extends ArticleController {}
+    UseGuards(OwnerGuard)(DraftController)
+
+    assert.deepStrictEqual(getGuards(DraftController, "list"), [AuthGuard, OwnerGuard])
+    assert.deepStrictEqual(getGuards(ArticleController, "list"), [AuthGuard])
+  })
+
+  it("leaves undecorated handlers unrestricted", () => {
+    class PublicController {
+      index() {}
+    }
+    assert.deepStrictEqual(getRoles(PublicController, "index"), [])
+    assert.deepStrictEqual(getGuards(PublicController, "index"), [])
+  })
+})
+
+// security.yaml of the fixture app only lists /admin in access_control
+describe("@Roles on the server", () => {
+  const users: Record<string, { id: number; role: string }> = {
+    "admin-token": { id: 1, role: "ROLE_ADMIN" },
+    "user-token": { id: 2, role: "ROLE_USER" }
+  }
+  mock.method(AccessControl, "authenticateToken", async (token: string) => {
+    if (!users[token]) throw new Error("invalid signature")
+    return users[token]
+  })
+
+  class ReportController extends Controller {
+    async index() {
+      return this.res.json({ user: this.req.user.id })
+    }
+  }
+  Get("/weekly")(ReportController.prototype, "index", {})
+  Roles("ROLE_ADMIN")(ReportController.prototype, "index", {})
+  Route({ path: "/reports" })(ReportController)
+
+  const app = createServer()
+  app.registerController(ReportController as any)
+  after(() => app.close())
+
+  it("authenticates routes missing from access_control", async () => {
+    const res = await app.inject({ url: "/reports/weekly", headers: { authorization: "Bearer admin-token" } })
+    assert.strictEqual(res.statusCode, 200)
+    assert.deepStrictEqual(res.body, { user: 1 })
+
+    const viaCookie = await app.inject({ url: "/reports/weekly", cookies: { Token: "admin-token" } })
+    assert.strictEqual(viaCookie.statusCode, 200)
+  })
+
+  it("answers 401 without a valid token and 403 without the role", async () => {
+    assert.strictEqual((await app.inject({ url: "/reports/weekly" })).statusCode, 401)
+    assert.strictEqual((await app.inject({ url: "/reports/weekly", headers: { authorization: "Bearer forged" } })).statusCode, 401)
+    assert.strictEqual((await app.inject({ url: "/reports/weekly", headers: { authorization: "Bearer user-token" } })).statusCode, 403)
+  })
+})
@@ -0,0 +1,44 @@
+import "reflect-metadata"
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { getInterceptors, UseInterceptors } from "../src/server/decorators/InterceptorDecorator.js"
+
+class TimingInterceptor {
+  intercept(_ctx: any, next: () => Promise<any>) {
+    return next()
+  }
+}
+
+const envelope = {
+  async intercept(_ctx: any, next: () => Promise<any>) {
+    return { data: await next() }
+  }
+}
+
+class ArticleController {
+  list() {}
+  show() {}
+  static count() {}
+}
+UseInterceptors(TimingInterceptor)(ArticleController)
+UseInterceptors(envelope)(ArticleController.prototype, "show", {})
+UseInterceptors(envelope)(ArticleController, "count", {})
+
+describe("InterceptorDecorator", () => {
+  it("applies controller interceptors to every handler", () => {
+    assert.deepStrictEqual(getInterceptors(ArticleController, "list"), [TimingInterceptor])
+  })
+
+  it("runs controller interceptors before handler interceptors", () => {
+    assert.deepStrictEqual(getInterceptors(ArticleController, "show"), [TimingInterceptor, envelope])
+    assert.deepStrictEqual(getInterceptors(ArticleController, "count"), [TimingInterceptor, envelope])
+  })
+
+  it("does not leak interceptors to a parent controller", () => {
+    class DraftController extends ArticleController {}
+    UseInterceptors(envelope)(DraftController)
+
+    assert.deepStrictEqual(getInterceptors(DraftController, "list"), [TimingInterceptor, envelope])
+    assert.deepStrictEqual(getInterceptors(ArticleController, "list"), [TimingInterceptor])
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { RequestContext } from "../src/server/RequestContext.js"
+
+describe("RequestContext", () => {
+  it("should be undefined outside of a context", () => {
+    assert.strictEqual(RequestContext.get(), undefined)
+    assert.strictEqual(RequestContext.getRequestId(), undefined)
+  })
+
+  it("should follow async work started inside the context", async () => {
+    const requestId = await RequestContext.run({ requestId: "abc" }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      return RequestContext.getRequestId()
+    })
+
+    assert.strictEqual(requestId, "abc")
+  })
+
+  it("should keep concurrent contexts isolated", async () => {
+    const read = (id: string, delay: number) =>
+      RequestContext.run({ requestId: id }, async () => {
+        RequestContext.set("id", id)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        return [RequestContext.getRequestId(), RequestContext.getValue("id")]
+      })
+
+    const results = await Promise.all([read("a", 10), read("b", 1)])
+
+    assert.deepStrictEqual(results, [["a", "a"], ["b", "b"]])
+  })
+
+  it("should generate a request ID when none is given", () => {
+    RequestContext.run({}, () => {
+      assert.match(RequestContext.getRequestId()!, /^[0-9a-f-]{36}$/)
+    })
+  })
+
+  it("should expose the user", () => {
+    RequestContext.run({ user: { id: 7 } }, () => {
+      assert.deepStrictEqual(RequestContext.getUser(), { id: 7 })
+    })
+  })
+
+  describe("resolveRequestId()", () => {
+    it("should reuse a well-formed header value", () => {
+      assert.strictEqual(RequestContext.resolveRequestId("req-123.abc"), "req-123.abc")
+      assert.strictEqual(RequestContext.resolveRequestId(["first", "second"]), "first")
+    })
+
+    it("should generate an ID for missing or unsafe values", () => {
+      assert.notStrictEqual(RequestContext.resolveRequestId(undefined), undefined)
+      assert.notStrictEqual(RequestContext.resolveRequestId("bad id\nInjected: line"), "bad id\nInjected: line")
+      assert.notStrictEqual(RequestContext.resolveRequestId("x".repeat(200)), "x".repeat(200))
+    })
+  })
+})
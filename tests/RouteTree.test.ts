@@ -0,0 +1,168 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { RouteTree } from "../src/server/RouteTree.js"
+
+const route = (path: string, paramNames: string[] = [], paramTypes?: Record<string, any>) =>
+  ({ path, paramNames, handlers: [], paramTypes })
+
+describe("RouteTree", () => {
+  describe("match()", () => {
+    it("should match static routes", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/users"))
+
+      const match = tree.match("GET", "/users")
+
+      assert.strictEqual(match?.route.path, "/users")
+      assert.deepStrictEqual(match?.params, {})
+    })
+
+    it("should capture param values by name", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/users/:userId/posts/:postId", ["userId", "postId"]))
+
+      const match = tree.match("GET", "/users/7/posts/42")
+
+      assert.deepStrictEqual(match?.params, { userId: "7", postId: "42" })
+    })
+
+    it("should prefer static segments over params regardless of registration order", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/users/:id", ["id"]))
+      tree.insert("GET", route("/users/me"))
+
+      assert.strictEqual(tree.match("GET", "/users/me")?.route.path, "/users/me")
+      assert.strictEqual(tree.match("GET", "/users/12")?.route.path, "/users/:id")
+    })
+
+    it("should prefer params over wildcards", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/files/:path*", ["path"]))
+      tree.insert("GET", route("/files/:name", ["name"]))
+
+      assert.strictEqual(tree.match("GET", "/files/a.txt")?.route.path, "/files/:name")
+      assert.strictEqual(tree.match("GET", "/files/a/b.txt")?.route.path, "/files/:path*")
+    })
+
+    it("should capture multiple segments with a wildcard", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/public/:filepath*", ["filepath"]))
+
+      assert.deepStrictEqual(tree.match("GET", "/public/css/app.css")?.params, { filepath: "css/app.css" })
+      assert.strictEqual(tree.match("GET", "/public/"), null)
+    })
+
+    it("should backtrack when a static branch does not lead to a route", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/users/me/settings"))
+      tree.insert("GET", route("/users/:id/posts", ["id"]))
+
+      assert.deepStrictEqual(tree.match("GET", "/users/me/posts")?.params, { id: "me" })
+    })
+
+    it("should match mixed segments", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/download/:name.:ext", ["name", "ext"]))
+
+      assert.deepStrictEqual(tree.match("GET", "/download/report.pdf")?.params, { name: "report", ext: "pdf" })
+    })
+
+    it("should keep trailing slashes significant", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/users"))
+
+      assert.strictEqual(tree.match("GET", "/users/"), null)
+    })
+
+    it("should not match another method", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/users"))
+
+      assert.strictEqual(tree.match("POST", "/users"), null)
+    })
+  })
+
+  describe("constraints and optional segments", () => {
+    it("should treat a failed inline constraint as a non-match", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/orders/:id(\\d+)", ["id"]))
+
+      assert.deepStrictEqual(tree.match("GET", "/orders/12")?.params, { id: "12" })
+      assert.strictEqual(tree.match("GET", "/orders/abc"), null)
+    })
+
+    it("should fall through to the next route when a constraint fails", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/posts/:id(\\d+)", ["id"]))
+      tree.insert("GET", route("/posts/:slug([a-z-]+)", ["slug"]))
+
+      assert.strictEqual(tree.match("GET", "/posts/42")?.route.path, "/posts/:id(\\d+)")
+      assert.deepStrictEqual(tree.match("GET", "/posts/hello-world")?.params, { slug: "hello-world" })
+      assert.strictEqual(tree.match("GET", "/posts/Hello"), null)
+    })
+
+    it("should prefer constrained params over plain params", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/items/:name", ["name"]))
+      tree.insert("GET", route("/items/:id(\\d+)", ["id"]))
+
+      assert.strictEqual(tree.match("GET", "/items/3")?.route.path, "/items/:id(\\d+)")
+      assert.strictEqual(tree.match("GET", "/items/three")?.route.path, "/items/:name")
+    })
+
+    it("should keep param positions when constraints contain groups", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/files/:name(report|invoice)-:year(\\d{4})", ["name", "year"]))
+
+      assert.deepStrictEqual(tree.match("GET", "/files/invoice-2024")?.params, { name: "invoice", year: "2024" })
+    })
+
+    it("should match optional segments when present or absent", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/posts/:page?", ["page"]))
+
+      assert.deepStrictEqual(tree.match("GET", "/posts")?.params, {})
+      assert.deepStrictEqual(tree.match("GET", "/posts/2")?.params, { page: "2" })
+    })
+
+    it("should derive constraints from declared param types", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/orders/:id", ["id"], { id: "int" }))
+
+      assert.deepStrictEqual(tree.match("GET", "/orders/-5")?.params, { id: "-5" })
+      assert.strictEqual(tree.match("GET", "/orders/abc"), null)
+    })
+
+    it("should extract param names from every syntax", () => {
+      assert.deepStrictEqual(
+        RouteTree.paramNames("/a/:id(\\d+)/:slug?/:name.:ext/:rest*"),
+        ["id", "slug", "name", "ext", "rest"]
+      )
+    })
+
+    it("should reject optional params inside mixed segments", () => {
+      const tree = new RouteTree()
+
+      assert.throws(() => tree.insert("GET", route("/files/:name.:ext?", ["name", "ext"])))
+    })
+  })
+
+  describe("allowedMethods()", () => {
+    it("should list methods registered for a path", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/users/:id", ["id"]))
+      tree.insert("DELETE", route("/users/:id", ["id"]))
+      tree.insert("PATCH", route("/users/me"))
+
+      assert.deepStrictEqual(tree.allowedMethods("/users/me").sort(), ["DELETE", "GET", "PATCH"])
+      assert.deepStrictEqual(tree.allowedMethods("/users/5").sort(), ["DELETE", "GET"])
+    })
+
+    it("should return an empty list for unknown paths", () => {
+      const tree = new RouteTree()
+      tree.insert("GET", route("/users"))
+
+      assert.deepStrictEqual(tree.allowedMethods("/posts"), [])
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import * as http from "node:http"
+import * as net from "node:net"
+import { formatSseEvent, getLastEventId, SseStream } from "../src/server/SseStream.js"
+
+// Response writing into memory
+const createExchange = (headers: Record<string, string> = {}) => {
+  const req = new http.IncomingMessage(new net.Socket())
+  req.headers = headers
+  req.httpVersionMajor = 1
+  const res = new http.ServerResponse(req)
+  const chunks: string[] = []
+  res.write = ((chunk: any) => {
+    chunks.push(String(chunk))
+    return true
+  }) as any
+  res.flushHeaders = () => undefined
+  return { req, res, chunks }
+}
+
+describe("formatSseEvent", () => {
+  it("should format id, event, retry and JSON data", () => {
+    assert.strictEqual(
+      formatSseEvent({ id: 7, event: "price", retry: 3000, data: { eur: 12.5 } }),
+      'id: 7\nevent: price\nretry: 3000\ndata: {"eur":12.5}\n\n'
+    )
+  })
+
+  it("should split multi-line data and strip line breaks from fields", () => {
+    assert.strictEqual(formatSseEvent({ event: "a\nb", data: "one\r\ntwo" }), "event: ab\ndata: one\ndata: two\n\n")
+  })
+})
+
+describe("getLastEventId", () => {
+  it("should read the header, then the query parameter", () => {
+    const { req } = createExchange({ "last-event-id": "42" })
+    assert.strictEqual(getLastEventId(req), "42")
+
+    const other = createExchange().req as any
+    other.query = { lastEventId: "7" }
+    assert.strictEqual(getLastEventId(other), "7")
+    assert.strictEqual(getLastEventId(createExchange().req), undefined)
+  })
+})
+
+describe("SseStream", () => {
+  it("should send event-stream headers and the retry field", () => {
+    const { req, res, chunks } = createExchange({ "last-event-id": "3" })
+    const stream = new SseStream(req, res, { heartbeat: 0, retry: 5000 })
+
+    assert.strictEqual(res.getHeader("content-type"), "text/event-stream; charset=utf-8")
+    assert.strictEqual(res.getHeader("cache-control"), "no-cache, no-transform")
+    assert.strictEqual(stream.lastEventId, "3")
+    assert.deepStrictEqual(chunks, ["retry: 5000\n\n"])
+    stream.close()
+  })
+
+  it("should send events and plain data", () => {
+    const { req, res, chunks } = createExchange()
+    const stream = new SseStream(req, res, { heartbeat: 0 })
+
+    stream.send({ event: "tick", data: 1 })
+    stream.send({ data: 1, total: 2 })
+    stream.comment("keep")
+
+    assert.deepStrictEqual(chunks, ["event: tick\ndata: 1\n\n", 'data: {"data":1,"total":2}\n\n', ": keep\n\n"])
+    stream.close()
+  })
+
+  it("should write heartbeats", (t) => {
+    t.mock.timers.enable({ apis: ["setInterval"] })
+    const { req, res, chunks } = createExchange()
+    const stream = new SseStream(req, res, { heartbeat: 10 })
+
+    t.mock.timers.tick(35)
+    stream.close()
+    t.mock.timers.tick(20)
+
+    assert.strictEqual(chunks.filter((chunk) => chunk === ": heartbeat\n\n").length, 3)
+  })
+
+  it("should run close listeners and abort the signal once the client goes away", () => {
+    const { req, res } = createExchange()
+    const stream = new SseStream(req, res, { heartbeat: 0 })
+    let closed = 0
+    stream.onClose(() => closed++)
+
+    res.emit("close")
+    res.emit("close")
+
+    assert.strictEqual(closed, 1)
+    assert.strictEqual(stream.closed, true)
+    assert.strictEqual(stream.signal.aborted, true)
+    assert.strictEqual(stream.send("late"), false)
+  })
+})
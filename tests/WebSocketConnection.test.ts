@@ -0,0 +1,161 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { Duplex } from "node:stream"
+import {
+  computeAcceptKey,
+  selectProtocol,
+  validateHandshake,
+  WebSocketConnection
+} from "../src/server/WebSocketConnection.js"
+
+// In-memory socket recording what the server writes
+const createSocket = () => {
+  const written: Buffer[] = []
+  const socket = new Duplex({
+    read() {},
+    write(chunk, _encoding, callback) {
+      written.push(chunk)
+      callback()
+    }
+  })
+  return { socket, written }
+}
+
+// Masked client frame
+const clientFrame = (opcode: number, payload: Buffer | string, fin = true) => {
+  const data = Buffer.from(payload)
+  const mask = Buffer.from([1, 2, 3, 4])
+  const masked = Buffer.from(data.map((byte, i) => byte ^ mask[i % 4]))
+  return Buffer.concat([Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | data.length]), mask, masked])
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve))
+
+const handshakeRequest = (headers: Record<string, string>, method = "GET") =>
+  ({ method, headers }) as any
+
+describe("computeAcceptKey", () => {
+  it("should match the RFC 6455 example", () => {
+    assert.strictEqual(computeAcceptKey("dGhlIHNhbXBsZSBub25jZQ=="), "s3pPLMBiTxaQ9kYGzzhZRbK+xOo=")
+  })
+})
+
+describe("validateHandshake", () => {
+  const valid = { upgrade: "websocket", "sec-websocket-version": "13", "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==" }
+
+  it("should accept a valid upgrade request", () => {
+    assert.strictEqual(validateHandshake(handshakeRequest(valid)), null)
+  })
+
+  it("should reject other versions with 426 and the supported version", () => {
+    const error = validateHandshake(handshakeRequest({ ...valid, "sec-websocket-version": "8" }))
+    assert.strictEqual(error?.statusCode, 426)
+    assert.deepStrictEqual(error?.headers, { "Sec-WebSocket-Version": "13" })
+  })
+
+  it("should reject invalid keys and methods", () => {
+    assert.strictEqual(validateHandshake(handshakeRequest({ ...valid, "sec-websocket-key": "short" }))?.statusCode, 400)
+    assert.strictEqual(validateHandshake(handshakeRequest(valid, "POST"))?.statusCode, 400)
+  })
+})
+
+describe("selectProtocol", () => {
+  it("should pick the first supported subprotocol", () => {
+    assert.strictEqual(selectProtocol("v1.chat, v2.chat", ["v2.chat", "v1.chat"]), "v2.chat")
+    assert.strictEqual(selectProtocol("mqtt", ["v2.chat"]), undefined)
+    assert.strictEqual(selectProtocol(undefined, ["v2.chat"]), undefined)
+  })
+})
+
+describe("WebSocketConnection", () => {
+  it("should emit text and binary messages", async () => {
+    const { socket } = createSocket()
+    const connection = new WebSocketConnection(socket)
+    const messages: any[] = []
+    connection.on("message", (data, isBinary) => messages.push([data, isBinary]))
+
+    socket.push(clientFrame(0x1, "hello"))
+    socket.push(clientFrame(0x2, Buffer.from([1, 2])))
+    await tick()
+
+    assert.deepStrictEqual(messages, [["hello", false], [Buffer.from([1, 2]), true]])
+  })
+
+  it("should reassemble fragmented messages around control frames", async () => {
+    const { socket, written } = createSocket()
+    const connection = new WebSocketConnection(socket)
+    const messages: string[] = []
+    connection.on("message", (data) => messages.push(data))
+
+    socket.push(clientFrame(0x1, "hel", false))
+    socket.push(clientFrame(0x9, "p"))
+    socket.push(clientFrame(0x0, "lo"))
+    await tick()
+
+    assert.deepStrictEqual(messages, ["hello"])
+    // Pong echoing the ping payload
+    assert.deepStrictEqual(written[0], Buffer.from([0x8a, 0x01, 0x70]))
+  })
+
+  it("should write unmasked frames with extended lengths", () => {
+    const { socket, written } = createSocket()
+    const connection = new WebSocketConnection(socket)
+
+    connection.send("hi")
+    connection.send(Buffer.alloc(300))
+
+    assert.deepStrictEqual(written[0], Buffer.from([0x81, 0x02, 0x68, 0x69]))
+    assert.deepStrictEqual(written[1].subarray(0, 4), Buffer.from([0x82, 126, 0x01, 0x2c]))
+    assert.strictEqual(written[1].length, 304)
+  })
+
+  it("should fail with 1002 on unmasked client frames", async () => {
+    const { socket, written } = createSocket()
+    const connection = new WebSocketConnection(socket)
+    const closed = new Promise((resolve) => connection.once("close", (code) => resolve(code)))
+
+    socket.push(Buffer.from([0x81, 0x02, 0x68, 0x69]))
+    await tick()
+
+    assert.strictEqual(written[0].readUInt16BE(2), 1002)
+    socket.destroy()
+    assert.strictEqual(await closed, 1002)
+  })
+
+  it("should fail with 1009 when a message exceeds maxPayload", async () => {
+    const { socket, written } = createSocket()
+    new WebSocketConnection(socket, { maxPayload: 4 })
+
+    socket.push(clientFrame(0x1, "too long"))
+    await tick()
+
+    assert.strictEqual(written[0].readUInt16BE(2), 1009)
+    socket.destroy()
+  })
+
+  it("should fail with 1007 on invalid UTF-8 text", async () => {
+    const { socket, written } = createSocket()
+    new WebSocketConnection(socket)
+
+    socket.push(clientFrame(0x1, Buffer.from([0xc3, 0x28])))
+    await tick()
+
+    assert.strictEqual(written[0].readUInt16BE(2), 1007)
+    socket.destroy()
+  })
+
+  it("should answer a client close frame and report its code", async () => {
+    const { socket, written } = createSocket()
+    const connection = new WebSocketConnection(socket)
+    const closed = new Promise((resolve) => connection.once("close", (code, reason) => resolve([code, reason])))
+
+    socket.push(clientFrame(0x8, Buffer.concat([Buffer.from([0x03, 0xe8]), Buffer.from("bye")])))
+    await tick()
+
+    assert.deepStrictEqual(written[0], Buffer.from([0x88, 0x02, 0x03, 0xe8]))
+    assert.strictEqual(connection.readyState, "closing")
+    socket.destroy()
+    assert.deepStrictEqual(await closed, [1000, "bye"])
+    assert.strictEqual(connection.readyState, "closed")
+  })
+})
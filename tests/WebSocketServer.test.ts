@@ -0,0 +1,121 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { Duplex } from "node:stream"
+import { WebSocketServer } from "../src/server/WebSocketServer.js"
+
+// In-memory socket recording what the server writes
+const createSocket = () => {
+  const written: Buffer[] = []
+  const socket = new Duplex({
+    read() {},
+    write(chunk, _encoding, callback) {
+      written.push(chunk)
+      callback()
+    }
+  })
+  return { socket, written }
+}
+
+// Masked client text frame
+const clientFrame = (payload: string) => {
+  const data = Buffer.from(payload)
+  const mask = Buffer.from([1, 2, 3, 4])
+  const masked = Buffer.from(data.map((byte, i) => byte ^ mask[i % 4]))
+  return Buffer.concat([Buffer.from([0x81, 0x80 | data.length]), mask, masked])
+}
+
+// Text payloads of the unmasked server frames written after the handshake
+const serverMessages = (written: Buffer[]) =>
+  written.slice(1).map((frame) => JSON.parse(frame.subarray(2).toString()))
+
+const tick = () => new Promise((resolve) => setImmediate(resolve))
+
+const upgradeRequest = (headers: Record<string, string> = {}) =>
+  ({
+    method: "GET",
+    url: "/ws",
+    headers: {
+      host: "app.example.com",
+      upgrade: "websocket",
+      "sec-websocket-version": "13",
+      "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+      ...headers
+    }
+  }) as any
+
+// Upgrade a request on an authenticated gateway, counting the authentication attempts
+const connect = async (headers: Record<string, string>, origins?: string[] | ((origin: string) => boolean)) => {
+  let authenticated = 0
+  const server = new WebSocketServer(async () => {
+    authenticated++
+    return { id: 1 }
+  })
+  server.addGateway({}, { path: "/ws", auth: true, origins }, [])
+
+  const { socket, written } = createSocket()
+  server.handleUpgrade(upgradeRequest(headers), socket, Buffer.alloc(0))
+  await tick()
+
+  return { status: written[0]?.toString().split("\r\n")[0], authenticated }
+}
+
+describe("WebSocketServer origin check", () => {
+  it("refuses a foreign or missing Origin with 403 before authenticating", async () => {
+    const foreign = await connect({ origin: "https://evil.example", cookie: "Token=abc" }, ["https://app.example.com"])
+    assert.strictEqual(foreign.status, "HTTP/1.1 403 Forbidden")
+    assert.strictEqual(foreign.authenticated, 0)
+
+    const missing = await connect({ cookie: "Token=abc" }, ["https://app.example.com"])
+    assert.strictEqual(missing.status, "HTTP/1.1 403 Forbidden")
+    assert.strictEqual(missing.authenticated, 0)
+  })
+
+  it("accepts allowed origins, from a list or a predicate", async () => {
+    const listed = await connect({ origin: "https://app.example.com" }, ["https://app.example.com"])
+    assert.strictEqual(listed.status, "HTTP/1.1 101 Switching Protocols")
+    assert.strictEqual(listed.authenticated, 1)
+
+    const predicate = await connect({ origin: "https://admin.example.com" }, (origin) => origin.endsWith(".example.com"))
+    assert.strictEqual(predicate.status, "HTTP/1.1 101 Switching Protocols")
+  })
+
+  it("only accepts the gateway own origin when auth is enabled without origins", async () => {
+    assert.strictEqual((await connect({ origin: "https://app.example.com" })).status, "HTTP/1.1 101 Switching Protocols")
+    assert.strictEqual((await connect({ origin: "https://evil.example" })).status, "HTTP/1.1 403 Forbidden")
+  })
+})
+
+describe("WebSocketServer message dispatch", () => {
+  it("handles the messages of a client in arrival order", async () => {
+    const gateway = {
+      async slow() {
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        return "slow"
+      },
+      fast() {
+        return "fast"
+      }
+    }
+    const server = new WebSocketServer()
+    server.addGateway(gateway, { path: "/ws" }, [
+      { event: "slow", methodName: "slow" },
+      { event: "fast", methodName: "fast" }
+    ])
+
+    const { socket, written } = createSocket()
+    server.handleUpgrade(upgradeRequest(), socket, Buffer.alloc(0))
+    await tick()
+
+    socket.push(clientFrame(JSON.stringify({ event: "slow" })))
+    socket.push(clientFrame(JSON.stringify({ event: "fast" })))
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    assert.deepStrictEqual(serverMessages(written), [
+      { event: "slow", data: "slow" },
+      { event: "fast", data: "fast" }
+    ])
+    socket.destroy()
+  })
+})
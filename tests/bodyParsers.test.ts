@@ -0,0 +1,84 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import {
+  BodyParserRegistry,
+  decodeBody,
+  jsonBodyParser,
+  ndjsonBodyParser
+} from "../src/server/bodyParsers.js"
+import { parseQueryString } from "../src/server/qs.js"
+
+const request = (contentType?: string) => ({ headers: contentType ? { "content-type": contentType } : {} }) as any
+
+describe("parseQueryString", () => {
+  it("collects repeated keys into arrays and decodes '+' as a space", () => {
+    assert.deepStrictEqual(parseQueryString("tag=a&tag=b&name=Ada+Lovelace&empty"), {
+      tag: ["a", "b"],
+      name: "Ada Lovelace",
+      empty: ""
+    })
+  })
+
+  it("nests bracket keys", () => {
+    assert.deepStrictEqual(parseQueryString("a[b][]=c&a[b][]=d&user[name]=Ada&ids[1]=x&ids[5]=y"), {
+      a: { b: ["c", "d"] },
+      user: { name: "Ada" },
+      ids: ["x", "y"]
+    })
+  })
+
+  it("applies the depth, parameter and array index limits", () => {
+    assert.deepStrictEqual(parseQueryString("a[b][c][d]=1", { depth: 2 }), { a: { b: { c: { "[d]": "1" } } } })
+    assert.deepStrictEqual(parseQueryString("a=1&b=2&c=3", { parameterLimit: 2 }), { a: "1", b: "2" })
+    assert.deepStrictEqual(parseQueryString("a[30]=x", { arrayLimit: 20 }), { a: { 30: "x" } })
+  })
+
+  it("ignores keys reaching Object.prototype", () => {
+    const parsed: any = parseQueryString("__proto__[admin]=1&a[constructor][x]=1&ok=1")
+    assert.deepStrictEqual(parsed, { ok: "1" })
+    assert.strictEqual(({} as any).admin, undefined)
+  })
+
+  it("treats inherited member names as ordinary keys", () => {
+    const parsed: any = parseQueryString("toString[polluted]=yes&valueOf=1&hasOwnProperty=x&__proto__[x]=1")
+    assert.deepStrictEqual(parsed, { toString: { polluted: "yes" }, valueOf: "1", hasOwnProperty: "x" })
+    assert.strictEqual((Object.prototype.toString as any).polluted, undefined)
+    assert.strictEqual(({} as any).x, undefined)
+  })
+})
+
+describe("BodyParserRegistry", () => {
+  it("matches content types exactly, by suffix, then by wildcard", () => {
+    const registry = new BodyParserRegistry()
+    assert.strictEqual(registry.match("application/json; charset=utf-8")?.name, "json")
+    assert.strictEqual(registry.match("application/problem+json")?.name, "json")
+    assert.strictEqual(registry.match("text/xml")?.name, "xml")
+    assert.strictEqual(registry.match("text/csv")?.name, "text")
+    assert.strictEqual(registry.match("application/pdf"), undefined)
+  })
+
+  it("lets later parsers take precedence and be found by name", () => {
+    const registry = new BodyParserRegistry()
+    const csv = (body: Buffer) => body.toString().split(",")
+    registry.add("text/csv", csv, { name: "csv" })
+
+    assert.strictEqual(registry.match("text/csv")?.parser, csv)
+    assert.strictEqual(registry.get("csv")?.parser, csv)
+    assert.strictEqual(registry.get("text/csv")?.parser, csv)
+    assert.strictEqual(registry.get("text")?.name, "text")
+  })
+})
+
+describe("built-in body parsers", () => {
+  it("decodes text with the Content-Type charset", () => {
+    assert.strictEqual(decodeBody(Buffer.from([0x63, 0x61, 0x66, 0xe9]), "text/plain; charset=ISO-8859-1"), "café")
+    assert.throws(() => decodeBody(Buffer.from("x"), "text/plain; charset=unknown"), { status: 415 })
+  })
+
+  it("rejects malformed JSON and NDJSON with 400", () => {
+    assert.deepStrictEqual(jsonBodyParser(Buffer.from(""), request("application/json")), {})
+    assert.throws(() => jsonBodyParser(Buffer.from("{bad"), request("application/json")), { status: 400 })
+    assert.deepStrictEqual(ndjsonBodyParser(Buffer.from('{"a":1}\n\n{"a":2}\n'), request()), [{ a: 1 }, { a: 2 }])
+    assert.throws(() => ndjsonBodyParser(Buffer.from('{"a":1}\nnope'), request()), /line 2/)
+  })
+})
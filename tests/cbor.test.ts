@@ -0,0 +1,61 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { decodeCbor, encodeCbor } from "../src/server/cbor.js"
+
+const hex = (value: any) => encodeCbor(value).toString("hex")
+const decodeHex = (value: string) => decodeCbor(Buffer.from(value, "hex"))
+
+describe("encodeCbor", () => {
+  it("matches the RFC 8949 examples", () => {
+    assert.strictEqual(hex(0), "00")
+    assert.strictEqual(hex(24), "1818")
+    assert.strictEqual(hex(1000), "1903e8")
+    assert.strictEqual(hex(-1000), "3903e7")
+    assert.strictEqual(hex(BigInt("18446744073709551615")), "1bffffffffffffffff")
+    assert.strictEqual(hex(1.1), "fb3ff199999999999a")
+    assert.strictEqual(hex(100000.0), "1a000186a0")
+    assert.strictEqual(hex(false), "f4")
+    assert.strictEqual(hex("ü"), "62c3bc")
+    assert.strictEqual(hex([1, [2, 3], [4, 5]]), "8301820203820405")
+    assert.strictEqual(hex({ a: 1, b: [2, 3] }), "a26161016162820203")
+    assert.strictEqual(hex(new Date(1363896240000)), "c11a514b67b0")
+  })
+
+  it("rejects cyclic values", () => {
+    const cyclic: any = []
+    cyclic.push(cyclic)
+    assert.throws(() => encodeCbor(cyclic), RangeError)
+  })
+})
+
+describe("decodeCbor", () => {
+  it("decodes floats, simple values and tags", () => {
+    assert.strictEqual(decodeHex("f93e00"), 1.5)
+    assert.strictEqual(decodeHex("f97c00"), Infinity)
+    assert.strictEqual(decodeHex("fa47c35000"), 100000)
+    assert.strictEqual(decodeHex("f7"), undefined)
+    assert.deepStrictEqual(decodeHex("c074323031332d30332d32315432303a30343a30305a"), new Date("2013-03-21T20:04:00Z"))
+    assert.strictEqual(decodeHex("c249010000000000000000"), BigInt("18446744073709551616"))
+    assert.strictEqual(decodeHex("3bffffffffffffffff"), -BigInt("18446744073709551616"))
+  })
+
+  it("decodes indefinite-length items", () => {
+    assert.deepStrictEqual(decodeHex("9f018202039f0405ffff"), [1, [2, 3], [4, 5]])
+    assert.deepStrictEqual(decodeHex("5f42010243030405ff"), Buffer.from([1, 2, 3, 4, 5]))
+    assert.deepStrictEqual(decodeHex("7f657374726561646d696e67ff"), "streaming")
+    assert.deepStrictEqual(decodeHex("bf61610161629f0203ffff"), { a: 1, b: [2, 3] })
+  })
+
+  it("round-trips objects with binaries and dates", () => {
+    const value = { data: Buffer.from("bytes"), at: new Date("2024-05-01T10:00:00.5Z"), list: [-1, 0.5, "x", null] }
+    assert.deepStrictEqual(decodeCbor(encodeCbor(value)), value)
+  })
+
+  it("rejects truncated, oversized and trailing data", () => {
+    assert.throws(() => decodeHex("6361"), /Unexpected end/)
+    assert.throws(() => decodeHex("9affffffff"), /Unexpected end/)
+    assert.throws(() => decodeHex("9f01"), /Unexpected end/)
+    assert.throws(() => decodeHex("0000"), /trailing/)
+    assert.throws(() => decodeHex("ff"), /break/)
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import * as zlib from "node:zlib"
+import { Readable } from "node:stream"
+import { compression, negotiateEncoding } from "../src/server/middlewares/compression.js"
+import { injectRequest } from "../src/server/inject.js"
+import { parseRange } from "../src/server/staticFiles.js"
+
+const run = (
+  handler: (req: any, res: any) => void,
+  headers: Record<string, string> = { "accept-encoding": "gzip, deflate, br" },
+  options = {}
+) => {
+  const middleware = compression(options)
+  return injectRequest((req: any, res: any) => middleware(req, res, () => handler(req, res)), { url: "/", headers })
+}
+
+const largeJson = JSON.stringify({ items: Array.from({ length: 500 }, (_, i) => ({ id: i, name: `item ${i}` })) })
+
+describe("compression", () => {
+  describe("negotiateEncoding()", () => {
+    it("should prefer the server order on equal quality", () => {
+      assert.strictEqual(negotiateEncoding("gzip, deflate, br"), "br")
+      assert.strictEqual(negotiateEncoding("gzip, deflate"), "gzip")
+    })
+
+    it("should honour q-values, wildcards and exclusions", () => {
+      assert.strictEqual(negotiateEncoding("br;q=0.2, gzip;q=0.8"), "gzip")
+      assert.strictEqual(negotiateEncoding("*"), "br")
+      assert.strictEqual(negotiateEncoding("*, br;q=0"), "gzip")
+      assert.strictEqual(negotiateEncoding("identity"), null)
+      assert.strictEqual(negotiateEncoding(undefined), null)
+    })
+  })
+
+  it("should compress large JSON bodies", async () => {
+    const res = await run((req, res) => {
+      res.setHeader("Content-Type", "application/json")
+      res.end(largeJson)
+    }, { "accept-encoding": "gzip" })
+
+    assert.strictEqual(res.headers["content-encoding"], "gzip")
+    assert.strictEqual(res.headers["vary"], "Accept-Encoding")
+    assert.strictEqual(res.headers["content-length"], undefined)
+    assert.strictEqual(zlib.gunzipSync(res.rawPayload).toString(), largeJson)
+  })
+
+  it("should compress with brotli and deflate", async () => {
+    const handler = (req: any, res: any) => {
+      res.setHeader("Content-Type", "text/html")
+      res.end(largeJson)
+    }
+
+    const br = await run(handler, { "accept-encoding": "br" })
+    const deflate = await run(handler, { "accept-encoding": "deflate" })
+
+    assert.strictEqual(zlib.brotliDecompressSync(br.rawPayload).toString(), largeJson)
+    assert.strictEqual(zlib.inflateSync(deflate.rawPayload).toString(), largeJson)
+  })
+
+  it("should skip bodies below the threshold but still vary", async () => {
+    const res = await run((req, res) => {
+      res.setHeader("Content-Type", "application/json")
+      res.end('{"ok":true}')
+    })
+
+    assert.strictEqual(res.headers["content-encoding"], undefined)
+    assert.strictEqual(res.headers["vary"], "Accept-Encoding")
+    assert.strictEqual(res.payload, '{"ok":true}')
+  })
+
+  it("should skip incompressible content types", async () => {
+    const res = await run((req, res) => {
+      res.setHeader("Content-Type", "image/png")
+      res.end(Buffer.alloc(4096))
+    })
+
+    assert.strictEqual(res.headers["content-encoding"], undefined)
+    assert.strictEqual(res.headers["vary"], undefined)
+  })
+
+  it("should skip clients without Accept-Encoding and no-transform responses", async () => {
+    const plain = await run((req, res) => {
+      res.setHeader("Content-Type", "text/plain")
+      res.end(largeJson)
+    }, {})
+    const noTransform = await run((req, res) => {
+      res.setHeader("Content-Type", "text/plain")
+      res.setHeader("Cache-Control", "no-transform")
+      res.end(largeJson)
+    })
+
+    assert.strictEqual(plain.payload, largeJson)
+    assert.strictEqual(noTransform.headers["content-encoding"], undefined)
+  })
+
+  it("should compress piped streams with a Content-Length", async () => {
+    const res = await run((req, res) => {
+      res.setHeader("Content-Type", "text/css")
+      res.setHeader("Content-Length", largeJson.length)
+      Readable.from([largeJson.slice(0, 1000), largeJson.slice(1000)]).pipe(res)
+    }, { "accept-encoding": "gzip" })
+
+    assert.strictEqual(res.headers["content-encoding"], "gzip")
+    assert.strictEqual(res.headers["content-length"], undefined)
+    assert.strictEqual(zlib.gunzipSync(res.rawPayload).toString(), largeJson)
+  })
+
+  it("should send byte ranges uncompressed", async () => {
+    const res = await run((req, res) => {
+      const [range] = parseRange(req.headers.range, largeJson.length)!
+      res.statusCode = 206
+      res.setHeader("Content-Type", "application/json")
+      res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${largeJson.length}`)
+      res.end(largeJson.slice(range.start, range.end + 1))
+    }, { "accept-encoding": "gzip", range: "bytes=100-4999" })
+
+    assert.strictEqual(res.statusCode, 206)
+    assert.strictEqual(res.headers["content-encoding"], undefined)
+    assert.strictEqual(res.headers["content-range"], `bytes 100-4999/${largeJson.length}`)
+    assert.strictEqual(res.payload, largeJson.slice(100, 5000))
+
+    // multipart/byteranges responses carry their ranges in the body
+    const multipart = await run((req, res) => {
+      res.statusCode = 206
+      res.setHeader("Content-Type", "multipart/byteranges; boundary=b")
+      res.end(largeJson)
+    }, { "accept-encoding": "gzip", range: "bytes=0-9,20-29" }, { filter: () => true })
+
+    assert.strictEqual(multipart.headers["content-encoding"], undefined)
+  })
+
+  it("should apply a custom filter", async () => {
+    const res = await run((req, res) => {
+      res.setHeader("Content-Type", "application/json")
+      res.end(largeJson)
+    }, { "accept-encoding": "gzip" }, { filter: () => false })
+
+    assert.strictEqual(res.headers["content-encoding"], undefined)
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { formatMimeTypes, isMediaTypeAllowed, negotiate, parseAccept } from "../src/server/contentNegotiation.js"
+import { Consumes, getConsumes, getProduces, Produces } from "../src/server/decorators/ContentTypeDecorator.js"
+
+const types = ["application/json", "application/msgpack", "application/cbor"]
+
+describe("negotiate", () => {
+  it("accepts the first type without an Accept header or with */*", () => {
+    assert.strictEqual(negotiate(undefined, types), "application/json")
+    assert.strictEqual(negotiate("*/*", types), "application/json")
+  })
+
+  it("picks the type with the highest weight, keeping the server order on ties", () => {
+    assert.strictEqual(negotiate("application/json;q=0.5, application/msgpack", types), "application/msgpack")
+    assert.strictEqual(negotiate("application/cbor, application/msgpack", types), "application/msgpack")
+    assert.strictEqual(negotiate("application/*;q=0.2, application/cbor", types), "application/cbor")
+  })
+
+  it("lets specific ranges override wildcards and excludes q=0", () => {
+    assert.strictEqual(negotiate("*/*, application/json;q=0", types), "application/msgpack")
+    assert.strictEqual(negotiate("image/png, text/*", types), undefined)
+  })
+
+  it("parses media ranges and clamps weights", () => {
+    assert.deepStrictEqual(parseAccept("text/html;level=1;q=0.7, */*;q=2, invalid"), [
+      { type: "text", subtype: "html", q: 0.7 },
+      { type: "*", subtype: "*", q: 1 }
+    ])
+  })
+})
+
+describe("media types", () => {
+  it("resolves format names and matches wildcards", () => {
+    assert.deepStrictEqual(formatMimeTypes("cbor"), ["application/cbor"])
+    assert.deepStrictEqual(formatMimeTypes("Application/Vnd.Api+JSON"), ["application/vnd.api+json"])
+    assert.ok(isMediaTypeAllowed("text/csv; charset=utf-8", ["text/*"]))
+    assert.ok(!isMediaTypeAllowed("application/xml", ["application/json"]))
+  })
+})
+
+describe("@Produces / @Consumes", () => {
+  it("lets handler formats replace controller formats", () => {
+    class ReportController {
+      list() {}
+      export() {}
+    }
+    Produces("json")(ReportController)
+    Consumes("json")(ReportController)
+    Produces("msgpack", "text/csv")(ReportController.prototype, "export", Object.getOwnPropertyDescriptor(ReportController.prototype, "export")!)
+
+    assert.deepStrictEqual(getProduces(ReportController, "list"), ["json"])
+    assert.deepStrictEqual(getProduces(ReportController, "export"), ["msgpack", "text/csv"])
+    assert.deepStrictEqual(getConsumes(ReportController, "export"), ["json"])
+  })
+})
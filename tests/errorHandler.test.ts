@@ -0,0 +1,136 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { after, afterEach, describe, it } from "node:test"
+import * as assert from "node:assert"
+import { NotFoundException, ValidationException } from "../src/errors/HttpExceptions.js"
+import { sendProblemDetails, toProblemDetails } from "../src/middlewares/error/errorHandler.js"
+import { Catch, UseFilters } from "../src/server/decorators/FilterDecorator.js"
+import { Get, Route } from "../src/server/decorators/RouteDecorator.js"
+import { Controller } from "../src/server/Controller.js"
+import { createServer } from "../src/server/LyraServer.js"
+import { injectRequest } from "../src/server/inject.js"
+
+class PaymentError extends Error {}
+class RefundError extends Error {}
+
+class PaymentFilter {
+  catch(error: PaymentError, { res }: any) {
+    res.status(402).json({ payment: error.message })
+  }
+}
+Catch(PaymentError)(PaymentFilter)
+
+class RefundFilter {
+  catch(error: RefundError, { res }: any) {
+    res.status(409).json({ refund: error.message })
+  }
+}
+Catch(RefundError)(RefundFilter)
+
+class CheckoutController extends Controller {
+  async pay() {
+    throw new PaymentError("card declined")
+  }
+
+  async refund() {
+    throw new RefundError("already refunded")
+  }
+}
+Get("/pay")(CheckoutController.prototype, "pay", {})
+Get("/refund")(CheckoutController.prototype, "refund", {})
+UseFilters(RefundFilter)(CheckoutController)
+Route({ path: "/checkout" })(CheckoutController)
+
+const app = createServer()
+app.useGlobalFilters(PaymentFilter)
+app.registerController(CheckoutController as any)
+app.get("/crash", () => {
+  throw new Error("secret connection string")
+})
+app.get("/invalid", () => {
+  throw new ValidationException("Validation Error", undefined, { email: ["must be an email"] })
+})
+app.get("/missing", () => {
+  throw new NotFoundException("Order")
+})
+after(() => app.close())
+
+afterEach(() => {
+  delete process.env.API_ENV
+  delete process.env.ERROR_FORMAT
+})
+
+describe("toProblemDetails", () => {
+  const req = { url: "/orders/7", headers: { "x-request-id": "req-1" } } as any
+
+  it("describes the error, its fields and the request", () => {
+    const error = new ValidationException("Validation Error", undefined, { total: ["must be positive"] })
+    assert.deepStrictEqual(toProblemDetails(error, req), {
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "Validation Error",
+      instance: "/orders/7",
+      errors: { total: ["must be positive"] },
+      requestId: "req-1"
+    })
+  })
+
+  it("masks the detail of 500 errors in production", () => {
+    process.env.API_ENV = "prod"
+    assert.strictEqual(toProblemDetails(new Error("secret"), req).detail, "Internal Server Error")
+    assert.strictEqual(toProblemDetails(new NotFoundException("Order"), req).detail, "Order not found")
+  })
+})
+
+describe("sendProblemDetails", () => {
+  it("answers with application/problem+json and the problem status", async () => {
+    const problem = { type: "about:blank", title: "Conflict", status: 409, detail: "Taken" }
+    const res = await injectRequest((req, res) => sendProblemDetails(res as any, problem), { url: "/" })
+
+    assert.strictEqual(res.statusCode, 409)
+    assert.strictEqual(res.headers["content-type"], "application/problem+json")
+    assert.deepStrictEqual(JSON.parse(res.payload), problem)
+  })
+})
+
+describe("server error handling", () => {
+  it("answers with problem details when error_format is problem", async () => {
+    process.env.ERROR_FORMAT = "problem"
+    const invalid = await app.inject({ url: "/invalid" })
+    assert.strictEqual(invalid.statusCode, 400)
+    assert.strictEqual(invalid.headers["content-type"], "application/problem+json")
+    assert.deepStrictEqual(JSON.parse(invalid.payload).errors, { email: ["must be an email"] })
+
+    const unmatched = await app.inject({ url: "/nowhere" })
+    assert.strictEqual(unmatched.statusCode, 404)
+    assert.strictEqual(JSON.parse(unmatched.payload).title, "Not Found")
+  })
+
+  it("answers with the default JSON body otherwise", async () => {
+    const res = await app.inject({ url: "/missing" })
+    assert.strictEqual(res.statusCode, 404)
+    assert.match(String(res.headers["content-type"]), /^application\/json/)
+    assert.strictEqual(res.body.message, "Order not found")
+  })
+
+  it("runs controller filters and global filters", async () => {
+    const refund = await app.inject({ url: "/checkout/refund" })
+    assert.strictEqual(refund.statusCode, 409)
+    assert.deepStrictEqual(refund.body, { refund: "already refunded" })
+
+    const pay = await app.inject({ url: "/checkout/pay" })
+    assert.strictEqual(pay.statusCode, 402)
+    assert.deepStrictEqual(pay.body, { payment: "card declined" })
+  })
+
+  it("masks 500 messages in production only", async () => {
+    assert.strictEqual((await app.inject({ url: "/crash" })).body.message, "secret connection string")
+
+    process.env.API_ENV = "production"
+    const masked = await app.inject({ url: "/crash" })
+    assert.strictEqual(masked.statusCode, 500)
+    assert.strictEqual(masked.body.message, "Internal Server Error")
+    assert.strictEqual((await app.inject({ url: "/missing" })).body.message, "Order not found")
+  })
+})
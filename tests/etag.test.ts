@@ -0,0 +1,106 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { checkPreconditions, generateETag, isFresh, isRangeFresh, matchesETag, statETag } from "../src/server/etag.js"
+
+describe("generateETag", () => {
+  it("should generate stable weak ETags by default", () => {
+    const etag = generateETag('{"id":1}')
+    assert.match(etag, /^W\/"8-[A-Za-z0-9+/]{27}"$/)
+    assert.strictEqual(generateETag('{"id":1}'), etag)
+    assert.notStrictEqual(generateETag('{"id":2}'), etag)
+  })
+
+  it("should generate strong ETags on demand", () => {
+    assert.match(generateETag(Buffer.from("abc"), false), /^"3-/)
+  })
+})
+
+describe("statETag", () => {
+  it("should derive a strong ETag from size and mtime", () => {
+    const stats = { size: 255, mtimeMs: 4096.7 } as any
+    assert.strictEqual(statETag(stats), '"ff-1000"')
+  })
+})
+
+describe("matchesETag", () => {
+  it("should use weak comparison for If-None-Match", () => {
+    assert.strictEqual(matchesETag('"a", W/"b"', '"b"', false), true)
+    assert.strictEqual(matchesETag('"a"', '"b"', false), false)
+    assert.strictEqual(matchesETag("*", '"b"', false), true)
+  })
+
+  it("should never match weak ETags with strong comparison", () => {
+    assert.strictEqual(matchesETag('W/"b"', '"b"', true), false)
+    assert.strictEqual(matchesETag('"b"', 'W/"b"', true), false)
+    assert.strictEqual(matchesETag('"a", "b"', '"b"', true), true)
+  })
+})
+
+describe("isFresh", () => {
+  const lastModified = "Mon, 19 Oct 2026 10:00:00 GMT"
+
+  it("should be fresh when If-None-Match matches the ETag", () => {
+    assert.strictEqual(isFresh({ "if-none-match": 'W/"x"' }, { etag: 'W/"x"' }), true)
+    assert.strictEqual(isFresh({ "if-none-match": 'W/"y"' }, { etag: 'W/"x"' }), false)
+  })
+
+  it("should give If-None-Match precedence over If-Modified-Since", () => {
+    const headers = { "if-none-match": '"y"', "if-modified-since": lastModified }
+    assert.strictEqual(isFresh(headers, { etag: '"x"', "last-modified": lastModified }), false)
+  })
+
+  it("should compare If-Modified-Since with Last-Modified", () => {
+    assert.strictEqual(isFresh({ "if-modified-since": lastModified }, { "last-modified": lastModified }), true)
+    assert.strictEqual(
+      isFresh({ "if-modified-since": "Mon, 19 Oct 2026 09:59:59 GMT" }, { "last-modified": lastModified }),
+      false
+    )
+  })
+
+  it("should not be fresh without validators or with Cache-Control: no-cache", () => {
+    assert.strictEqual(isFresh({}, { etag: '"x"' }), false)
+    assert.strictEqual(isFresh({ "if-none-match": '"x"', "cache-control": "no-cache" }, { etag: '"x"' }), false)
+  })
+})
+
+describe("checkPreconditions", () => {
+  it("should pass without conditional headers", () => {
+    assert.strictEqual(checkPreconditions({}, { etag: '"1"' }), true)
+  })
+
+  it("should require a strong If-Match", () => {
+    assert.strictEqual(checkPreconditions({ "if-match": '"1"' }, { etag: '"1"' }), true)
+    assert.strictEqual(checkPreconditions({ "if-match": '"2"' }, { etag: '"1"' }), false)
+    assert.strictEqual(checkPreconditions({ "if-match": 'W/"1"' }, { etag: '"1"' }), false)
+  })
+
+  it("should only accept If-Match: * for existing resources", () => {
+    assert.strictEqual(checkPreconditions({ "if-match": "*" }, { etag: '"1"' }), true)
+    assert.strictEqual(checkPreconditions({ "if-match": "*" }, {}), false)
+  })
+
+  it("should evaluate If-Unmodified-Since against the last modification date", () => {
+    const headers = { "if-unmodified-since": "Mon, 19 Oct 2026 10:00:00 GMT" }
+    assert.strictEqual(checkPreconditions(headers, { lastModified: new Date("2026-10-19T10:00:00.500Z") }), true)
+    assert.strictEqual(checkPreconditions(headers, { lastModified: new Date("2026-10-19T10:00:01Z") }), false)
+  })
+})
+
+describe("isRangeFresh", () => {
+  const resHeaders = { etag: '"abc"', "last-modified": "Mon, 19 Oct 2026 10:00:00 GMT" }
+
+  it("should honour Range without If-Range", () => {
+    assert.strictEqual(isRangeFresh({}, resHeaders), true)
+  })
+
+  it("should compare an If-Range ETag strongly", () => {
+    assert.strictEqual(isRangeFresh({ "if-range": '"abc"' }, resHeaders), true)
+    assert.strictEqual(isRangeFresh({ "if-range": 'W/"abc"' }, resHeaders), false)
+    assert.strictEqual(isRangeFresh({ "if-range": '"old"' }, resHeaders), false)
+  })
+
+  it("should require an If-Range date equal to Last-Modified", () => {
+    assert.strictEqual(isRangeFresh({ "if-range": "Mon, 19 Oct 2026 10:00:00 GMT" }, resHeaders), true)
+    assert.strictEqual(isRangeFresh({ "if-range": "Mon, 19 Oct 2026 11:00:00 GMT" }, resHeaders), false)
+  })
+})
@@ -0,0 +1,4 @@
+import { fileURLToPath } from "node:url"
+
+// Server tests run inside the fixture app: config/*.yaml is read from the working directory, partly on import
+process.chdir(fileURLToPath(new URL("app", import.meta.url)))
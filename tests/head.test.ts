@@ -0,0 +1,50 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { after, describe, it } from "node:test"
+import * as assert from "node:assert"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { createServer } from "../src/server/LyraServer.js"
+
+const publicDir = fs.mkdtempSync(path.join(os.tmpdir(), "lyra-head-"))
+fs.writeFileSync(path.join(publicDir, "notes.txt"), "static notes")
+
+const app = createServer()
+app.get("/users/:id", (req: any, res: any) => {
+  res.json({ id: req.params.id })
+})
+app.post("/users", (_req: any, res: any) => {
+  res.status(201).json({})
+})
+app.serveStatic("/public", { root: publicDir, precompressed: false })
+after(() => app.close())
+
+describe("HEAD requests", () => {
+  it("run the GET route without sending the body", async () => {
+    const get = await app.inject({ url: "/users/1" })
+    const head = await app.inject({ method: "HEAD", url: "/users/1" })
+
+    assert.strictEqual(head.statusCode, 200)
+    assert.strictEqual(head.headers["content-type"], get.headers["content-type"])
+    assert.strictEqual(head.headers["etag"], get.headers["etag"])
+    assert.strictEqual(head.payload, "")
+  })
+
+  it("serve static file headers without the body", async () => {
+    const head = await app.inject({ method: "HEAD", url: "/public/notes.txt" })
+
+    assert.strictEqual(head.statusCode, 200)
+    assert.strictEqual(head.headers["content-length"], 12)
+    assert.strictEqual(head.payload, "")
+  })
+
+  it("list HEAD with GET in the Allow header", async () => {
+    const res = await app.inject({ method: "DELETE", url: "/users/1" })
+    assert.strictEqual(res.statusCode, 405)
+    assert.strictEqual(res.headers["allow"], "GET, HEAD, OPTIONS")
+
+    const options = await app.inject({ method: "OPTIONS", url: "/users" })
+    assert.strictEqual(options.headers["allow"], "POST, OPTIONS")
+  })
+})
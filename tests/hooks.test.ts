@@ -0,0 +1,111 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { after, describe, it } from "node:test"
+import * as assert from "node:assert"
+import { Hook } from "../src/server/decorators/HookDecorator.js"
+import { Get, Route } from "../src/server/decorators/RouteDecorator.js"
+import { Controller } from "../src/server/Controller.js"
+import { createServer } from "../src/server/LyraServer.js"
+
+// Each request records the hooks and handlers it went through
+const record = (name: string) => (req: any) => {
+  req.trace.push(name)
+}
+
+class OrderController extends Controller {
+  async list() {
+    this.req.trace.push("handler")
+    return this.res.json({ trace: this.req.trace })
+  }
+
+  async fail() {
+    this.req.trace.push("handler")
+    throw new Error("boom")
+  }
+}
+Get("/")(OrderController.prototype, "list", {})
+Hook("onRequest", record("route onRequest"))(OrderController.prototype, "list", {})
+Hook("preHandler", record("route preHandler"))(OrderController.prototype, "list", {})
+Hook("onSend", (req: any, res: any, payload: any) => ({ ...payload, route: true }))(OrderController.prototype, "list", {})
+Get("/fail")(OrderController.prototype, "fail", {})
+Hook("onRequest", record("controller onRequest"))(OrderController)
+Hook("preHandler", record("controller preHandler"))(OrderController)
+Hook("onSend", (req: any, res: any, payload: any) => ({ ...payload, controller: true }))(OrderController)
+Route({ path: "/orders" })(OrderController)
+
+const responses: string[][] = []
+
+const app = createServer()
+app.addHook("onRequest", (req: any, res: any) => {
+  req.trace = ["global onRequest"]
+  if (req.headers["x-stop"] === "onRequest") res.status(403).json({ stoppedBy: "onRequest", trace: req.trace })
+})
+app.addHook("preHandler", (req: any, res: any) => {
+  req.trace.push("global preHandler")
+  if (req.headers["x-stop"] === "preHandler") res.status(429).json({ stoppedBy: "preHandler", trace: req.trace })
+})
+app.addHook("onSend", (req: any, res: any, payload: any) => ({ ...payload, global: true }))
+app.addHook("onResponse", (req: any) => {
+  responses.push(req.trace)
+})
+app.addHook("onError", (error: any, req: any) => {
+  req.trace.push(`global onError: ${error.message}`)
+})
+app.addHook("onError", (error: any, req: any, res: any) => {
+  req.trace.push("second onError")
+  if (req.headers["x-recover"]) res.status(503).json({ recovered: req.trace })
+})
+app.registerController(OrderController as any)
+after(() => app.close())
+
+describe("lifecycle hooks", () => {
+  it("run global, controller then route hooks around the handler", async () => {
+    const res = await app.inject({ url: "/orders/" })
+
+    assert.deepStrictEqual(res.body, {
+      trace: [
+        "global onRequest",
+        "controller onRequest",
+        "route onRequest",
+        "global preHandler",
+        "controller preHandler",
+        "route preHandler",
+        "handler"
+      ],
+      global: true,
+      controller: true,
+      route: true
+    })
+    assert.deepStrictEqual(responses.at(-1), res.body.trace)
+  })
+
+  it("skip the rest of the pipeline when onRequest sends a response", async () => {
+    const res = await app.inject({ url: "/orders/", headers: { "x-stop": "onRequest" } })
+
+    assert.strictEqual(res.statusCode, 403)
+    assert.strictEqual(res.body.stoppedBy, "onRequest")
+    assert.deepStrictEqual(res.body.trace, ["global onRequest"])
+  })
+
+  it("skip the handlers when preHandler sends a response", async () => {
+    const res = await app.inject({ url: "/orders/", headers: { "x-stop": "preHandler" } })
+
+    assert.strictEqual(res.statusCode, 429)
+    assert.deepStrictEqual(res.body.trace, ["global onRequest", "controller onRequest", "route onRequest", "global preHandler"])
+  })
+
+  it("run onError hooks in order before the error handler", async () => {
+    const res = await app.inject({ url: "/orders/fail" })
+
+    assert.strictEqual(res.statusCode, 500)
+    assert.strictEqual(res.body.message, "boom")
+    assert.deepStrictEqual(responses.at(-1)?.slice(-3), ["handler", "global onError: boom", "second onError"])
+  })
+
+  it("let an onError hook sending a response replace the error handler", async () => {
+    const res = await app.inject({ url: "/orders/fail", headers: { "x-recover": "1" } })
+
+    assert.strictEqual(res.statusCode, 503)
+    assert.deepStrictEqual(res.body.recovered.slice(-2), ["global onError: boom", "second onError"])
+  })
+})
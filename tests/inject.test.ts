@@ -0,0 +1,115 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { Readable } from "node:stream"
+import { injectRequest } from "../src/server/inject.js"
+
+const readBody = (req: any): Promise<string> =>
+  new Promise((resolve) => {
+    let data = ""
+    req.on("data", (chunk: Buffer) => (data += chunk))
+    req.on("end", () => resolve(data))
+  })
+
+describe("injectRequest", () => {
+  it("should pass method, url, query and headers to the dispatcher", async () => {
+    const res = await injectRequest(
+      (req, res) => {
+        res.setHeader("Content-Type", "application/json")
+        res.end(JSON.stringify({ method: req.method, url: req.url, auth: req.headers.authorization }))
+      },
+      { method: "delete", url: "/users/1?force=1", query: { tag: ["a", "b"] }, headers: { Authorization: "Bearer t" } }
+    )
+
+    assert.deepStrictEqual(res.body, { method: "DELETE", url: "/users/1?force=1&tag=a&tag=b", auth: "Bearer t" })
+  })
+
+  it("should send object bodies as JSON", async () => {
+    const res = await injectRequest(
+      async (req, res) => {
+        const body = await readBody(req)
+        res.end(`${req.headers["content-type"]}|${req.headers["content-length"]}|${body}`)
+      },
+      { method: "POST", url: "/", body: { name: "Ada" } }
+    )
+
+    assert.strictEqual(res.payload, 'application/json|14|{"name":"Ada"}')
+  })
+
+  it("should send cookies and expose the client address", async () => {
+    const res = await injectRequest(
+      (req, res) => res.end(`${req.headers.cookie}|${req.socket.remoteAddress}`),
+      { url: "/", cookies: { session: "a b", theme: "dark" }, remoteAddress: "10.0.0.5" }
+    )
+
+    assert.strictEqual(res.payload, "session=a%20b; theme=dark|10.0.0.5")
+  })
+
+  it("should capture status and headers given to writeHead()", async () => {
+    const res = await injectRequest(
+      (req, res) => {
+        res.writeHead(201, "Made", { "X-Id": "42" })
+        res.end()
+      },
+      { url: "/" }
+    )
+
+    assert.strictEqual(res.statusCode, 201)
+    assert.strictEqual(res.statusMessage, "Made")
+    assert.strictEqual(res.headers["x-id"], "42")
+    assert.strictEqual(res.payload, "")
+  })
+
+  it("should parse cookies set by the response", async () => {
+    const res = await injectRequest(
+      (req, res) => {
+        res.setHeader("Set-Cookie", ["token=abc; Path=/; Max-Age=60; HttpOnly; SameSite=Strict", "old=; Expires=Thu, 01 Jan 1970 00:00:00 GMT"])
+        res.end()
+      },
+      { url: "/" }
+    )
+
+    assert.deepStrictEqual(res.cookies.token, {
+      name: "token",
+      value: "abc",
+      path: "/",
+      maxAge: 60,
+      httpOnly: true,
+      sameSite: "Strict"
+    })
+    assert.strictEqual(res.cookies.old.expires?.getTime(), 0)
+  })
+
+  it("should keep malformed percent-encoded cookies as sent", async () => {
+    const res = await injectRequest(
+      (req, res) => {
+        res.setHeader("Set-Cookie", ["discount=100%", "name=Ada%20L"])
+        res.end()
+      },
+      { url: "/" }
+    )
+
+    assert.strictEqual(res.cookies.discount.value, "100%")
+    assert.strictEqual(res.cookies.name.value, "Ada L")
+  })
+
+  it("should collect streamed responses", async () => {
+    const res = await injectRequest(
+      (req, res) => {
+        res.setHeader("Content-Type", "text/plain")
+        Readable.from(["a", "b", "c"]).pipe(res)
+      },
+      { url: "/" }
+    )
+
+    assert.strictEqual(res.body, "abc")
+  })
+
+  it("should reject when the dispatcher throws", async () => {
+    await assert.rejects(
+      injectRequest(() => {
+        throw new Error("boom")
+      }, { url: "/" }),
+      /boom/
+    )
+  })
+})
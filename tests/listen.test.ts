@@ -0,0 +1,83 @@
+import "./fixtures/app.js"
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import * as http from "node:http"
+import * as net from "node:net"
+import { createServer } from "../src/server/LyraServer.js"
+
+// Send a request over an agent keeping its connection open once the response is read
+const get = (port: number, path: string, agent: http.Agent): Promise<{ status: number; body: string }> =>
+  new Promise((resolve, reject) => {
+    http
+      .get({ port, path, agent }, (res) => {
+        let body = ""
+        res.on("data", (chunk) => (body += chunk))
+        res.on("end", () => resolve({ status: res.statusCode!, body }))
+      })
+      .on("error", reject)
+  })
+
+describe("LyraServer.listen()", () => {
+  it("reads string flags of server.yaml as booleans", async () => {
+    process.env.PORT = "0"
+    process.env.HTTP2 = "false"
+    const app = createServer()
+    const server = await app.listen()
+    try {
+      assert.ok(server instanceof http.Server)
+      assert.ok((server.address() as net.AddressInfo).port > 0)
+    } finally {
+      await app.close()
+    }
+
+    process.env.HTTP2 = "true"
+    const http2App = createServer()
+    const http2Server = await http2App.listen()
+    try {
+      assert.ok(http2Server instanceof net.Server)
+      assert.ok(!(http2Server instanceof http.Server))
+    } finally {
+      await http2App.close()
+    }
+  })
+
+  it("lets listen() arguments override server.yaml", async () => {
+    process.env.HTTP2 = "1"
+    const app = createServer()
+    const server = await app.listen({ port: 0, http2: false })
+    try {
+      assert.ok(server instanceof http.Server)
+    } finally {
+      await app.close()
+    }
+  })
+})
+
+describe("LyraServer.close()", () => {
+  it("waits for in-flight requests and closes idle keep-alive connections", async () => {
+    const app = createServer()
+    app.get("/slow", async (req: any, res: any) => {
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      res.send("done")
+    })
+    app.get("/fast", (req: any, res: any) => res.send("ok"))
+    const server = await app.listen({ port: 0, http2: false })
+    const { port } = server.address() as net.AddressInfo
+    const agent = new http.Agent({ keepAlive: true })
+
+    try {
+      // Leaves an idle keep-alive connection behind
+      assert.strictEqual((await get(port, "/fast", agent)).body, "ok")
+
+      const slow = get(port, "/slow", agent)
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      const closed = app.close()
+
+      assert.deepStrictEqual(await slow, { status: 200, body: "done" })
+      await closed
+      assert.strictEqual(server.listening, false)
+    } finally {
+      agent.destroy()
+    }
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { decodeMsgPack, encodeMsgPack } from "../src/server/msgpack.js"
+
+const hex = (value: any) => encodeMsgPack(value).toString("hex")
+
+describe("encodeMsgPack", () => {
+  it("uses the most compact representation", () => {
+    assert.strictEqual(hex({ compact: true, schema: 0 }), "82a7636f6d70616374c3a6736368656d6100")
+    assert.strictEqual(hex(-1), "ff")
+    assert.strictEqual(hex(200), "ccc8")
+    assert.strictEqual(hex(-200), "d1ff38")
+    assert.strictEqual(hex(2 ** 40), "cf0000010000000000")
+    assert.strictEqual(hex(1.5), "ca3fc00000")
+    assert.strictEqual(hex(0.1), "cb3fb999999999999a")
+    assert.strictEqual(hex(null), "c0")
+    assert.strictEqual(hex(Buffer.from([1, 2])), "c4020102")
+    assert.strictEqual(hex(new Date(1000)), "d6ff00000001")
+  })
+
+  it("encodes objects like JSON.stringify", () => {
+    const value = { skipped: undefined, fn: () => 1, nested: { toJSON: () => "serialized" } }
+    assert.deepStrictEqual(decodeMsgPack(encodeMsgPack(value)), { nested: "serialized" })
+  })
+
+  it("rejects cyclic values", () => {
+    const cyclic: any = {}
+    cyclic.self = cyclic
+    assert.throws(() => encodeMsgPack(cyclic), RangeError)
+  })
+})
+
+describe("decodeMsgPack", () => {
+  it("round-trips strings, arrays, maps, binaries and dates", () => {
+    const value = {
+      text: "é".repeat(40),
+      list: Array.from({ length: 20 }, (_, i) => i * 1000),
+      data: Buffer.from("bytes"),
+      at: new Date("2024-05-01T10:00:00.123Z"),
+      big: BigInt("18446744073709551615"),
+      negative: -(2 ** 40)
+    }
+    assert.deepStrictEqual(decodeMsgPack(encodeMsgPack(value)), value)
+  })
+
+  it("keeps __proto__ keys as plain properties", () => {
+    const decoded = decodeMsgPack(Buffer.from("81a95f5f70726f746f5f5f81a16101", "hex"))
+    assert.strictEqual(Object.getPrototypeOf(decoded), Object.prototype)
+    assert.deepStrictEqual(Object.keys(decoded), ["__proto__"])
+    assert.strictEqual(({} as any).a, undefined)
+  })
+
+  it("rejects truncated, oversized and trailing data", () => {
+    assert.throws(() => decodeMsgPack(Buffer.from("a5616263", "hex")), /Unexpected end/)
+    assert.throws(() => decodeMsgPack(Buffer.from("ddffffffff", "hex")), /Unexpected end/)
+    assert.throws(() => decodeMsgPack(Buffer.from("0101", "hex")), /trailing/)
+    assert.throws(() => decodeMsgPack(Buffer.from("c1", "hex")), /Invalid MessagePack type/)
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import * as fs from "node:fs"
+import * as http from "node:http"
+import * as net from "node:net"
+import * as os from "node:os"
+import * as path from "node:path"
+import { injectRequest } from "../src/server/inject.js"
+import { MultipartOptions, parseMultipart, removeTempFiles } from "../src/server/multipart.js"
+import { getUploadOptions, Upload } from "../src/server/decorators/UploadDecorator.js"
+
+const BOUNDARY = "----lyra-test"
+
+type Part = { name: string; value: string; filename?: string; type?: string }
+
+const formData = (parts: Part[]): Buffer =>
+  Buffer.from(
+    parts
+      .map((part) => {
+        const disposition = `form-data; name="${part.name}"${part.filename ? `; filename="${part.filename}"` : ""}`
+        const type = part.filename ? `\r\nContent-Type: ${part.type || "application/octet-stream"}` : ""
+        return `--${BOUNDARY}\r\nContent-Disposition: ${disposition}${type}\r\n\r\n${part.value}\r\n`
+      })
+      .join("") + `--${BOUNDARY}--\r\n`
+  )
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), "lyra-multipart-"))
+
+// Parse a multipart body through a real IncomingMessage, answering with the result or the error
+const upload = async (parts: Part[], options: MultipartOptions) => {
+  let result: any
+  let error: any
+  let req: any
+
+  await injectRequest(
+    async (incoming, res) => {
+      req = incoming
+      try {
+        result = await parseMultipart(req, options)
+      } catch (caught) {
+        error = caught
+      }
+      res.end()
+    },
+    {
+      method: "POST",
+      url: "/upload",
+      headers: { "content-type": `multipart/form-data; boundary=${BOUNDARY}` },
+      body: formData(parts)
+    }
+  )
+  return { result, error, req }
+}
+
+describe("parseMultipart", () => {
+  it("streams files to temp files and removes them with removeTempFiles", async () => {
+    const dest = tempDir()
+    const { result, req } = await upload(
+      [
+        { name: "title", value: "Holidays" },
+        { name: "photo", value: "jpeg bytes", filename: "beach.jpg", type: "image/jpeg" }
+      ],
+      { dest }
+    )
+
+    assert.deepStrictEqual(result.fields, { title: "Holidays" })
+    const [file] = result.files
+    assert.strictEqual(file.fieldname, "photo")
+    assert.strictEqual(file.name, "beach.jpg")
+    assert.strictEqual(file.mimetype, "image/jpeg")
+    assert.strictEqual(file.size, 10)
+    assert.strictEqual(file.data, undefined)
+    assert.strictEqual(path.dirname(file.path), dest)
+    assert.strictEqual(fs.readFileSync(file.path, "utf-8"), "jpeg bytes")
+
+    await removeTempFiles(req)
+    assert.deepStrictEqual(fs.readdirSync(dest), [])
+  })
+
+  it("keeps files in memory with the memory storage", async () => {
+    const { result } = await upload([{ name: "doc", value: "hello", filename: "a.txt" }], { storage: "memory" })
+    assert.strictEqual(result.files[0].data.toString(), "hello")
+    assert.strictEqual(result.files[0].path, undefined)
+  })
+
+  it("answers 413 and removes written files when a file is too large", async () => {
+    const dest = tempDir()
+    const { error } = await upload(
+      [
+        { name: "small", value: "ok", filename: "small.bin" },
+        { name: "big", value: "x".repeat(64), filename: "big.bin" }
+      ],
+      { storage: "disk", dest, maxFileSize: 16 }
+    )
+
+    assert.strictEqual(error.status, 413)
+    assert.strictEqual(error.message, 'File "big.bin" exceeds the maximum size of 16 bytes')
+    assert.deepStrictEqual(fs.readdirSync(dest), [])
+  })
+
+  it("enforces file count, field count and field size limits", async () => {
+    const files = [1, 2, 3].map((n) => ({ name: "f", value: "x", filename: `${n}.txt` }))
+    assert.strictEqual((await upload(files, { storage: "memory", maxFiles: 2 })).error.message, "Too many files, the maximum is 2")
+
+    const fields = [1, 2, 3].map((n) => ({ name: `field${n}`, value: "x" }))
+    assert.strictEqual((await upload(fields, { maxFields: 2 })).error.message, "Too many fields, the maximum is 2")
+
+    const { error } = await upload([{ name: "bio", value: "y".repeat(20) }], { maxFieldSize: 10 })
+    assert.strictEqual(error.status, 413)
+    assert.strictEqual(error.message, 'Field "bio" exceeds the maximum size of 10 bytes')
+  })
+
+  it("removes written files when the client aborts the upload", async () => {
+    const dest = tempDir()
+    let failure: any
+    const done = new Promise<void>((resolve) => {
+      const server = http.createServer(async (req: any, res) => {
+        try {
+          await parseMultipart(req, { dest })
+        } catch (error) {
+          failure = error
+        }
+        res.destroy()
+        server.close(() => resolve())
+      })
+
+      server.listen(0, () => {
+        const { port } = server.address() as net.AddressInfo
+        const socket = net.connect(port, "127.0.0.1", () => {
+          socket.write(
+            `POST / HTTP/1.1\r\nHost: localhost\r\nContent-Type: multipart/form-data; boundary=${BOUNDARY}\r\nContent-Length: 100000\r\n\r\n` +
+              `--${BOUNDARY}\r\nContent-Disposition: form-data; name="f"; filename="partial.bin"\r\n\r\n${"z".repeat(1000)}`
+          )
+          setTimeout(() => socket.destroy(), 100)
+        })
+      })
+    })
+
+    await done
+    assert.strictEqual(failure.message, "Request aborted during upload")
+    assert.deepStrictEqual(fs.readdirSync(dest), [])
+  })
+})
+
+describe("@Upload", () => {
+  it("merges method options over controller options", () => {
+    class VideoController {
+      static upload() {}
+      static list() {}
+    }
+    Upload({ storage: "disk", maxFiles: 1 })(VideoController)
+    Upload({ maxFileSize: 500 })(VideoController, "upload", Object.getOwnPropertyDescriptor(VideoController, "upload")!)
+
+    assert.deepStrictEqual(getUploadOptions(VideoController, "upload"), { storage: "disk", maxFiles: 1, maxFileSize: 500 })
+    assert.deepStrictEqual(getUploadOptions(VideoController, "list"), { storage: "disk", maxFiles: 1 })
+
+    class PlainController {}
+    assert.strictEqual(getUploadOptions(PlainController, "index"), undefined)
+  })
+})
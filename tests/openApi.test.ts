@@ -0,0 +1,260 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { after, describe, it } from "node:test"
+import * as assert from "node:assert"
+import { ApiBody, ApiOperation, ApiResponse, ApiTags } from "../src/server/decorators/OpenApiDecorator.js"
+import { Get, Post, Route, Sse } from "../src/server/decorators/RouteDecorator.js"
+import { Roles } from "../src/server/decorators/GuardDecorator.js"
+import { IsEmail, IsInt, IsOptional, Min } from "../src/validator/ValidationDecorators.js"
+import {
+  buildOpenApiDocument,
+  collectControllerRoutes,
+  columnToSchema,
+  dtoToSchema,
+  entityToSchema,
+  renderOpenApiUi,
+  toOpenApiPath
+} from "../src/server/openApi.js"
+import { Controller } from "../src/server/Controller.js"
+import { createServer } from "../src/server/LyraServer.js"
+
+class Product {}
+Reflect.defineMetadata(
+  "entity:columns",
+  [
+    { name: "id", type: "bigint", pk: true },
+    { name: "name", type: "varchar", size: 120, nullable: false },
+    { name: "price", type: "decimal", nullable: false, default: 0 },
+    { name: "createdAt", type: "datetime" }
+  ],
+  Product.prototype
+)
+
+// Test files are outside the tsconfig include, so tsx compiles decorator syntax as standard (TC39)
+// decorators, which the legacy decorators of the framework do not support: every test applies them by hand
+class ProductController {
+  list() {}
+  show() {}
+  import() {}
+  reviews() {}
+  live() {}
+}
+const decorate = (name: string, ...decorators: MethodDecorator[]) =>
+  decorators.reverse().forEach((decorator) => decorator(ProductController.prototype, name, {}))
+decorate("list", ApiOperation("List products"), ApiResponse(200, { description: "Products", schema: [Product] }), Get("/"))
+decorate("show", Get({ path: "/:product", resolve: { product: Product } }))
+decorate("import", ApiBody(Product), Post({ path: "/import", parserType: "xml" }))
+decorate("reviews", Get({ path: "/:id(\\d+)/reviews/:page?", params: { id: "int" } }))
+decorate("live", Sse("/live"))
+ApiTags("Catalog")(ProductController)
+Route({ path: "/products" })(ProductController)
+
+class AdminController {}
+Route({ path: "/admin" })(AdminController)
+Post("/purge")(AdminController.prototype, "purge", {})
+
+describe("toOpenApiPath", () => {
+  it("should convert params to path templates", () => {
+    assert.strictEqual(toOpenApiPath("/users/:id"), "/users/{id}")
+    assert.strictEqual(toOpenApiPath("/posts/:id(\\d+)/:page?"), "/posts/{id}/{page}")
+    assert.strictEqual(toOpenApiPath("/files/:path*"), "/files/{path}")
+    assert.strictEqual(toOpenApiPath("/a/:code((?:ab|cd)\\))"), "/a/{code}")
+    assert.strictEqual(toOpenApiPath(""), "/")
+  })
+})
+
+describe("entityToSchema", () => {
+  it("should map columns to properties", () => {
+    assert.deepStrictEqual(entityToSchema(Product), {
+      type: "object",
+      properties: {
+        id: { type: "integer", format: "int64", readOnly: true },
+        name: { type: "string", maxLength: 120 },
+        price: { type: "number", default: 0 },
+        createdAt: { type: ["string", "null"], format: "date-time" }
+      },
+      required: ["name"]
+    })
+  })
+
+  it("should map column types", () => {
+    assert.deepStrictEqual(columnToSchema({ type: "BOOL", nullable: false }), { type: "boolean" })
+    assert.deepStrictEqual(columnToSchema({ type: "date", nullable: false }), { type: "string", format: "date" })
+    assert.deepStrictEqual(columnToSchema({ type: "json" }), {})
+    assert.deepStrictEqual(columnToSchema({ type: "relation", nullable: false, references: "user.id" }), {
+      type: "integer",
+      format: "int64",
+      description: "References user.id"
+    })
+  })
+})
+
+describe("buildOpenApiDocument", () => {
+  const routes = [
+    ...collectControllerRoutes(ProductController, "/api"),
+    ...collectControllerRoutes(AdminController, "/api")
+  ]
+  const document = buildOpenApiDocument(routes, {
+    title: "Shop",
+    version: "2.0.0",
+    accessControl: [{ path: "/api/admin", roles: ["ROLE_ADMIN"] }]
+  })
+
+  it("should document paths with base path and prefix", () => {
+    assert.strictEqual(document.openapi, "3.1.0")
+    assert.deepStrictEqual(document.info, { title: "Shop", version: "2.0.0" })
+    assert.deepStrictEqual(Object.keys(document.paths), [
+      "/api/products/",
+      "/api/products/{product}",
+      "/api/products/import",
+      "/api/products/{id}/reviews/{page}",
+      "/api/products/live",
+      "/api/admin/purge"
+    ])
+  })
+
+  it("should use decorators for summaries, tags and responses", () => {
+    const list = document.paths["/api/products/"].get
+    assert.strictEqual(list.summary, "List products")
+    assert.deepStrictEqual(list.tags, ["Catalog"])
+    assert.strictEqual(list.operationId, "ProductController_list")
+    assert.deepStrictEqual(list.responses["200"].content["application/json"].schema, {
+      type: "array",
+      items: { $ref: "#/components/schemas/Product" }
+    })
+    assert.ok(document.components.schemas.Product)
+    assert.deepStrictEqual(document.tags, [{ name: "Admin" }, { name: "Catalog" }])
+  })
+
+  it("should type params from declared types and resolved entities", () => {
+    const reviews = document.paths["/api/products/{id}/reviews/{page}"].get
+    assert.deepStrictEqual(reviews.parameters, [
+      { name: "id", in: "path", required: true, schema: { type: "integer" } },
+      { name: "page", in: "path", required: true, schema: { type: "string" } }
+    ])
+    const show = document.paths["/api/products/{product}"].get
+    assert.deepStrictEqual(show.parameters[0].schema, { type: "integer", format: "int64" })
+  })
+
+  it("should document request bodies with the route parser content type", () => {
+    const importOperation = document.paths["/api/products/import"].post
+    assert.deepStrictEqual(importOperation.requestBody, {
+      required: true,
+      content: { "application/xml": { schema: { $ref: "#/components/schemas/Product" } } }
+    })
+    assert.ok(document.paths["/api/admin/purge"].post.requestBody.content["application/json"])
+  })
+
+  it("should document event streams", () => {
+    const live = document.paths["/api/products/live"].get
+    assert.ok(live.responses["200"].content["text/event-stream"])
+  })
+
+  it("should require a JWT on access_control paths", () => {
+    const purge = document.paths["/api/admin/purge"].post
+    assert.deepStrictEqual(purge.security, [{ bearerAuth: [] }, { cookieAuth: [] }])
+    assert.deepStrictEqual(purge["x-roles"], ["ROLE_ADMIN"])
+    assert.ok(purge.responses["401"])
+    assert.strictEqual(document.paths["/api/products/"].get.security, undefined)
+    assert.strictEqual(document.components.securitySchemes?.bearerAuth.scheme, "bearer")
+  })
+
+  it("should include listed entities without security schemes when nothing is protected", () => {
+    const bare = buildOpenApiDocument([], { entities: [Product] })
+    assert.deepStrictEqual(Object.keys(bare.components.schemas), ["Product"])
+    assert.strictEqual(bare.components.securitySchemes, undefined)
+  })
+
+  it("should declare security schemes for @Roles without access_control", () => {
+    class ReportController {}
+    Get("/")(ReportController.prototype, "index", {})
+    Roles("ROLE_ADMIN")(ReportController.prototype, "index", {})
+    Route({ path: "/reports" })(ReportController)
+
+    const secured = buildOpenApiDocument(collectControllerRoutes(ReportController, ""), {})
+    assert.deepStrictEqual(secured.paths["/reports/"].get.security, [{ bearerAuth: [] }, { cookieAuth: [] }])
+    assert.deepStrictEqual(Object.keys(secured.components.securitySchemes!), ["bearerAuth", "cookieAuth"])
+  })
+})
+
+describe("dtoToSchema", () => {
+  class InviteDto {}
+  IsEmail()(InviteDto.prototype, "email")
+  Min(1)(InviteDto.prototype, "seats")
+  IsInt()(InviteDto.prototype, "seats")
+  IsOptional()(InviteDto.prototype, "seats")
+
+  it("should document validation decorators", () => {
+    assert.deepStrictEqual(dtoToSchema(InviteDto), {
+      type: "object",
+      properties: {
+        email: { type: "string", format: "email" },
+        seats: { type: "integer", minimum: 1 }
+      },
+      required: ["email"]
+    })
+  })
+
+  it("should document body and query DTOs of routes", () => {
+    const document = buildOpenApiDocument([
+      { method: "POST", path: "/invites", body: InviteDto },
+      { method: "GET", path: "/invites", query: InviteDto }
+    ])
+    assert.deepStrictEqual(document.paths["/invites"].post.requestBody.content["application/json"].schema, {
+      $ref: "#/components/schemas/InviteDto"
+    })
+    assert.deepStrictEqual(document.components.schemas.InviteDto, dtoToSchema(InviteDto))
+    assert.deepStrictEqual(document.paths["/invites"].get.parameters, [
+      { name: "email", in: "query", required: true, schema: { type: "string", format: "email" } },
+      { name: "seats", in: "query", required: false, schema: { type: "integer", minimum: 1 } }
+    ])
+  })
+})
+
+describe("renderOpenApiUi", () => {
+  it("should load the document and escape the title", () => {
+    const html = renderOpenApiUi("/docs/openapi.json", "<Shop>")
+    assert.ok(html.includes('url: "/docs/openapi.json"'))
+    assert.ok(html.includes("<title>&lt;Shop&gt;</title>"))
+  })
+
+  it("should pin the CDN assets and check them with SRI hashes", () => {
+    const html = renderOpenApiUi("/docs/openapi.json")
+    assert.match(html, /<link rel="stylesheet" href="https:\/\/unpkg\.com\/swagger-ui-dist@5\.33\.1\/swagger-ui\.css" integrity="sha384-[^"]+" crossorigin="anonymous">/)
+    assert.match(html, /<script src="https:\/\/unpkg\.com\/swagger-ui-dist@5\.33\.1\/swagger-ui-bundle\.js" integrity="sha384-[^"]+" crossorigin="anonymous">/)
+  })
+
+  it("should load Swagger UI from a local asset URL", () => {
+    const html = renderOpenApiUi("/docs/openapi.json", "Shop", "/vendor/swagger-ui/")
+    assert.ok(html.includes('href="/vendor/swagger-ui/swagger-ui.css"'))
+    assert.ok(html.includes('src="/vendor/swagger-ui/swagger-ui-bundle.js"'))
+    assert.ok(!html.includes("unpkg.com"))
+    assert.ok(!html.includes("integrity="))
+  })
+})
+
+describe("serveOpenApi", () => {
+  class CatalogController extends Controller {
+    async list() {}
+  }
+  Get("/")(CatalogController.prototype, "list", {})
+  Route({ path: "/catalog" })(CatalogController)
+
+  const app = createServer()
+  app.registerController(CatalogController as any)
+  app.serveOpenApi("/docs", { title: "Shop", entities: [Product], swaggerUiUrl: "/vendor/swagger-ui" })
+  after(() => app.close())
+
+  it("should serve the document with the listed entities", async () => {
+    const res = await app.inject({ url: "/docs/openapi.json" })
+    assert.strictEqual(res.body.info.title, "Shop")
+    assert.strictEqual(res.body.components.schemas.Product.type, "object")
+    assert.strictEqual(res.body.swaggerUiUrl, undefined)
+    assert.ok(res.body.paths["/catalog/"].get)
+  })
+
+  it("should serve the UI page with the configured assets", async () => {
+    const res = await app.inject({ url: "/docs" })
+    assert.ok(res.payload.includes('src="/vendor/swagger-ui/swagger-ui-bundle.js"'))
+  })
+})
@@ -0,0 +1,80 @@
+import "reflect-metadata"
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { ValidationException } from "../src/errors/HttpExceptions.js"
+import { IsInt, Min } from "../src/validator/ValidationDecorators.js"
+import {
+  applyPipes,
+  DefaultValuePipe,
+  ParseBoolPipe,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  ValidationPipe
+} from "../src/server/pipes.js"
+import { Body, getHandlerParams, getParamMetadata, Headers, Param, Query } from "../src/server/decorators/ParamDecorator.js"
+
+class PageDto {
+  page!: number
+}
+IsInt()(PageDto.prototype, "page")
+Min(1)(PageDto.prototype, "page")
+
+class User {}
+
+describe("pipes", () => {
+  it("parses integers and booleans", async () => {
+    assert.strictEqual(await applyPipes("42", [new ParseIntPipe()], { source: "param", name: "id" }), 42)
+    assert.strictEqual(await applyPipes("0", [new ParseBoolPipe()], { source: "query", name: "archived" }), false)
+  })
+
+  it("rejects invalid values with a 400 naming the parameter", async () => {
+    await assert.rejects(
+      applyPipes("4.2", [new ParseIntPipe()], { source: "param", name: "id" }),
+      (error: any) => error instanceof ValidationException && error.status === 400 && error.fields?.id[0] === "id must be an integer"
+    )
+    await assert.rejects(applyPipes("nope", [new ParseUUIDPipe()], { source: "param", name: "uuid" }), ValidationException)
+  })
+
+  it("runs pipes in order", async () => {
+    const pipes = [new DefaultValuePipe("1"), new ParseIntPipe()]
+    assert.strictEqual(await applyPipes(undefined, pipes, { source: "query", name: "page" }), 1)
+    assert.strictEqual(await applyPipes("3", pipes, { source: "query", name: "page" }), 3)
+  })
+
+  it("validates DTOs", async () => {
+    const dto = await applyPipes({ page: "2", extra: true }, [new ValidationPipe(PageDto)], { source: "query" })
+    assert.ok(dto instanceof PageDto)
+    assert.deepStrictEqual({ ...dto }, { page: 2 })
+    await assert.rejects(applyPipes({ page: "0" }, [new ValidationPipe(PageDto)], { source: "query" }), ValidationException)
+  })
+})
+
+describe("parameter decorators", () => {
+  class UserController {
+    show() {}
+    list() {}
+  }
+  Param("id", User)(UserController.prototype, "show", 0)
+  Body(PageDto)(UserController.prototype, "show", 1)
+  Query("page", new DefaultValuePipe(1), ParseIntPipe)(UserController.prototype, "list", 1)
+  Headers("X-Signature")(UserController.prototype, "list", 0)
+
+  it("stores parameters sorted by index with instantiated pipes", () => {
+    const params = getHandlerParams(UserController.prototype, "list")
+    assert.deepStrictEqual(params.map((param) => [param.parameterIndex, param.source, param.name]), [
+      [0, "headers", "x-signature"],
+      [1, "query", "page"]
+    ])
+    assert.ok(params[1].pipes[0] instanceof DefaultValuePipe)
+    assert.ok(params[1].pipes[1] instanceof ParseIntPipe)
+  })
+
+  it("tells entities from pipes and DTOs", () => {
+    const params = getHandlerParams(UserController.prototype, "show")
+    assert.strictEqual(params[0].entityType, User)
+    assert.ok(params[1].pipes[0] instanceof ValidationPipe)
+    assert.deepStrictEqual(getParamMetadata(UserController.prototype, "show"), [
+      { parameterIndex: 0, routeParamName: "id", entityType: User }
+    ])
+  })
+})
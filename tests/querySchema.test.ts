@@ -0,0 +1,53 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { ValidationException } from "../src/errors/HttpExceptions.js"
+import { coerceQuery } from "../src/server/querySchema.js"
+import { parseQueryString } from "../src/server/qs.js"
+
+describe("coerceQuery", () => {
+  it("coerces numbers, booleans, dates, lists and nested parameters", () => {
+    const query = coerceQuery(
+      parseQueryString("page=2&ratio=0.5&active=false&tags=a&since=2024-05-01&filter[ids][]=1&filter[ids][]=2&q=x"),
+      { page: "int", ratio: "float", active: "boolean", tags: "string[]", since: "date", filter: { ids: "int[]" } }
+    )
+
+    assert.deepStrictEqual(query, {
+      page: 2,
+      ratio: 0.5,
+      active: false,
+      tags: ["a"],
+      since: new Date("2024-05-01"),
+      filter: { ids: [1, 2] },
+      q: "x"
+    })
+  })
+
+  it("leaves absent parameters undefined", () => {
+    assert.deepStrictEqual(coerceQuery({}, { page: "int", filter: { status: "string" } }), {})
+  })
+
+  it("reports every invalid parameter by path", () => {
+    assert.throws(
+      () => coerceQuery(
+        parseQueryString("page=1.5&page2=x&ids[]=1&ids[]=a&filter=open&since=5"),
+        { page: "int", page2: "number", ids: "int[]", filter: { status: "string" }, since: "date" }
+      ),
+      (error: any) => {
+        assert.ok(error instanceof ValidationException)
+        assert.strictEqual(error.status, 400)
+        assert.deepStrictEqual(error.fields, {
+          page: ["page must be an integer"],
+          page2: ["page2 must be a number"],
+          "ids[1]": ["ids[1] must be an integer"],
+          filter: ["filter must be an object"],
+          since: ["since must be a valid date"]
+        })
+        return true
+      }
+    )
+  })
+
+  it("rejects repeated values for scalar parameters", () => {
+    assert.throws(() => coerceQuery({ page: ["1", "2"] }, { page: "int" }), { fields: { page: ["page must be a single value"] } })
+  })
+})
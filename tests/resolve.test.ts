@@ -0,0 +1,90 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { after, describe, it } from "node:test"
+import * as assert from "node:assert"
+import { Get, Route } from "../src/server/decorators/RouteDecorator.js"
+import { Controller } from "../src/server/Controller.js"
+import { createServer } from "../src/server/LyraServer.js"
+
+class User {}
+class Book {}
+
+const repository = (kind: string) => ({ find: async (id: string) => ({ kind, id }) })
+
+class ReviewController extends Controller {
+  userRepository = repository("user")
+  bookRepository = repository("book")
+
+  async pair(req: any, res: any, next: any, author: any, reviewer: any) {
+    return { author, reviewer }
+  }
+
+  async untyped(req: any, res: any, next: any, user: any) {
+    return { user }
+  }
+
+  async renamed(req: any, res: any, next: any, owner: any, book: any) {
+    return { owner, book }
+  }
+}
+Get({ path: "/pair/:author/:reviewer", resolve: { author: User, reviewer: User } })(ReviewController.prototype, "pair", {})
+Get({ path: "/untyped/:user", resolve: { user: User } })(ReviewController.prototype, "untyped", {})
+Get({ path: "/renamed/:user/:book", resolve: { user: User, book: Book } })(ReviewController.prototype, "renamed", {})
+Route({ path: "/reviews" })(ReviewController)
+
+// design:paramtypes as emitDecoratorMetadata writes it, untyped parameters being Object
+Reflect.defineMetadata("design:paramtypes", [Object, Object, Function, User, User], ReviewController.prototype, "pair")
+Reflect.defineMetadata("design:paramtypes", [Object, Object, Function, Object], ReviewController.prototype, "untyped")
+Reflect.defineMetadata("design:paramtypes", [Object, Object, Function, User, Book], ReviewController.prototype, "renamed")
+
+describe("route-level resolve", () => {
+  const app = createServer()
+  app.registerController(ReviewController as any)
+  after(() => app.close())
+
+  it("places entities of the same type by parameter name", async () => {
+    const res = await app.inject({ url: "/reviews/pair/1/2" })
+    assert.deepStrictEqual(res.body, { author: { kind: "user", id: "1" }, reviewer: { kind: "user", id: "2" } })
+  })
+
+  it("resolves untyped parameters by name", async () => {
+    const res = await app.inject({ url: "/reviews/untyped/7" })
+    assert.deepStrictEqual(res.body, { user: { kind: "user", id: "7" } })
+  })
+
+  it("places entities by parameter type before name", async () => {
+    const res = await app.inject({ url: "/reviews/renamed/3/4" })
+    assert.deepStrictEqual(res.body, { owner: { kind: "user", id: "3" }, book: { kind: "book", id: "4" } })
+  })
+})
+
+describe("route-level resolve placement", () => {
+  it("fails registration when entities of the same type cannot be told apart", () => {
+    // Minified parameter names match no route param
+    class MinifiedController extends Controller {
+      async pair(a: any, b: any, c: any, d: any, e: any) {
+        return { d, e }
+      }
+    }
+    Get({ path: "/:author/:reviewer", resolve: { author: User, reviewer: User } })(MinifiedController.prototype, "pair", {})
+    Reflect.defineMetadata("design:paramtypes", [Object, Object, Function, User, User], MinifiedController.prototype, "pair")
+
+    const app = createServer()
+    after(() => app.close())
+    assert.throws(() => app.registerController(MinifiedController as any), /Cannot resolve 'author' on MinifiedController\.pair/)
+  })
+
+  it("fails registration when two entries land on the same parameter", () => {
+    class OverlapController extends Controller {
+      async show(req: any, res: any, next: any, user: any) {
+        return { user }
+      }
+    }
+    Get({ path: "/:user/:owner", resolve: { user: User, owner: Book } })(OverlapController.prototype, "show", {})
+    Reflect.defineMetadata("design:paramtypes", [Object, Object, Function, Book], OverlapController.prototype, "show")
+
+    const app = createServer()
+    after(() => app.close())
+    assert.throws(() => app.registerController(OverlapController as any), /'owner' resolves to the same parameter/)
+  })
+})
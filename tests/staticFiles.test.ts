@@ -0,0 +1,126 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { after, describe, it } from "node:test"
+import * as assert from "node:assert"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { createServer } from "../src/server/LyraServer.js"
+import {
+  isImmutableFile,
+  lookupMimeType,
+  multipartByteranges,
+  parseRange,
+  renderDirectoryListing
+} from "../src/server/staticFiles.js"
+
+describe("parseRange", () => {
+  it("should parse single, open-ended and suffix ranges", () => {
+    assert.deepStrictEqual(parseRange("bytes=0-99", 1000), [{ start: 0, end: 99 }])
+    assert.deepStrictEqual(parseRange("bytes=900-", 1000), [{ start: 900, end: 999 }])
+    assert.deepStrictEqual(parseRange("bytes=-100", 1000), [{ start: 900, end: 999 }])
+  })
+
+  it("should clamp ranges to the representation size", () => {
+    assert.deepStrictEqual(parseRange("bytes=990-2000", 1000), [{ start: 990, end: 999 }])
+    assert.deepStrictEqual(parseRange("bytes=-5000", 1000), [{ start: 0, end: 999 }])
+  })
+
+  it("should coalesce overlapping and adjacent ranges", () => {
+    assert.deepStrictEqual(parseRange("bytes=50-99,0-9,10-20,60-70", 1000), [
+      { start: 0, end: 20 },
+      { start: 50, end: 99 }
+    ])
+  })
+
+  it("should return an empty array when no range is satisfiable", () => {
+    assert.deepStrictEqual(parseRange("bytes=1000-", 1000), [])
+    assert.deepStrictEqual(parseRange("bytes=-0", 1000), [])
+  })
+
+  it("should ignore malformed headers and too many ranges", () => {
+    assert.strictEqual(parseRange("items=0-1", 1000), null)
+    assert.strictEqual(parseRange("bytes=5-1", 1000), null)
+    assert.strictEqual(parseRange("bytes=a-b", 1000), null)
+    assert.strictEqual(parseRange("bytes=0-0,2-2,4-4", 1000, 2), null)
+  })
+})
+
+describe("lookupMimeType", () => {
+  it("should use the built-in table and default to octet-stream", () => {
+    assert.strictEqual(lookupMimeType("/var/www/movie.MP4"), "video/mp4")
+    assert.strictEqual(lookupMimeType("archive.unknown"), "application/octet-stream")
+  })
+
+  it("should prefer the custom lookup, then extra types", () => {
+    const options = {
+      mimeTypes: { ".glb": "model/gltf-binary", ".js": "text/javascript" },
+      mimeLookup: (file: string) => (file.endsWith(".usdz") ? "model/vnd.usdz+zip" : undefined)
+    }
+    assert.strictEqual(lookupMimeType("scene.usdz", options), "model/vnd.usdz+zip")
+    assert.strictEqual(lookupMimeType("scene.glb", options), "model/gltf-binary")
+    assert.strictEqual(lookupMimeType("app.js", options), "text/javascript")
+  })
+})
+
+describe("isImmutableFile", () => {
+  it("should detect fingerprinted file names", () => {
+    assert.strictEqual(isImmutableFile("/assets/app.3f9a2c1d.js"), true)
+    assert.strictEqual(isImmutableFile("/assets/vendor-8c1e44ab90.css"), true)
+    assert.strictEqual(isImmutableFile("/assets/app.js"), false)
+    assert.strictEqual(isImmutableFile("/assets/app.3f9a2c1d.js", false), false)
+  })
+
+  it("should accept a custom pattern", () => {
+    assert.strictEqual(isImmutableFile("/assets/app.v2.js", /\.v\d+\./), true)
+  })
+})
+
+describe("multipartByteranges", () => {
+  it("should frame each range and compute the body length", () => {
+    const ranges = [{ start: 0, end: 1 }, { start: 5, end: 9 }]
+    const { headers, trailer, length } = multipartByteranges(ranges, 10, "text/plain", "b0undary")
+
+    assert.strictEqual(headers[0], "--b0undary\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-1/10\r\n\r\n")
+    assert.ok(headers[1].startsWith("\r\n--b0undary\r\n"))
+    assert.strictEqual(trailer, "\r\n--b0undary--\r\n")
+    assert.strictEqual(length, headers.join("").length + 2 + 5 + trailer.length)
+  })
+})
+
+describe("renderDirectoryListing", () => {
+  it("should list entries with escaped names and encoded links", () => {
+    const html = renderDirectoryListing("/files/docs/", [
+      { name: "sub", isDirectory: true, size: 0, mtime: new Date(0) },
+      { name: "<a b>.txt", isDirectory: false, size: 12, mtime: new Date(0) }
+    ])
+
+    assert.ok(html.includes("<title>Index of /files/docs/</title>"))
+    assert.ok(html.includes('<a href="../">../</a>'))
+    assert.ok(html.includes('<a href="sub/">sub/</a>'))
+    assert.ok(html.includes('<a href="%3Ca%20b%3E.txt">&lt;a b&gt;.txt</a>'))
+  })
+})
+
+describe("serveStatic", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "lyra-static-"))
+  fs.writeFileSync(path.join(root, "video.bin"), "0123456789")
+
+  const app = createServer()
+  app.serveStatic("/files", { root, precompressed: false })
+  after(() => app.close())
+
+  it("should resume a download with an ETag If-Range", async () => {
+    const first = await app.inject({ url: "/files/video.bin" })
+    const etag = String(first.headers["etag"])
+
+    const resumed = await app.inject({ url: "/files/video.bin", headers: { range: "bytes=4-", "if-range": etag } })
+    assert.strictEqual(resumed.statusCode, 206)
+    assert.strictEqual(resumed.headers["content-range"], "bytes 4-9/10")
+    assert.strictEqual(resumed.payload, "456789")
+
+    const changed = await app.inject({ url: "/files/video.bin", headers: { range: "bytes=4-", "if-range": '"old"' } })
+    assert.strictEqual(changed.statusCode, 200)
+    assert.strictEqual(changed.payload, "0123456789")
+  })
+})
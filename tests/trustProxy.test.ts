@@ -0,0 +1,117 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { compileTrust, resolveProxyInfo } from "../src/server/trustProxy.js"
+
+const request = (remoteAddress: string, headers: Record<string, string> = {}, encrypted = false) =>
+  ({ socket: { remoteAddress, encrypted }, headers }) as any
+
+describe("trustProxy", () => {
+  describe("compileTrust()", () => {
+    it("should trust nothing by default and everything with true", () => {
+      assert.strictEqual(compileTrust(false)("10.0.0.1", 0), false)
+      assert.strictEqual(compileTrust(undefined)("10.0.0.1", 0), false)
+      assert.strictEqual(compileTrust(true)("203.0.113.1", 5), true)
+    })
+
+    it("should trust a number of hops", () => {
+      const trust = compileTrust(2)
+
+      assert.strictEqual(trust("203.0.113.1", 0), true)
+      assert.strictEqual(trust("203.0.113.1", 1), true)
+      assert.strictEqual(trust("203.0.113.1", 2), false)
+    })
+
+    it("should match IPv4 and IPv6 CIDR ranges and presets", () => {
+      const trust = compileTrust("loopback, 10.0.0.0/8, 2001:db8::/32")
+
+      assert.strictEqual(trust("127.0.0.1", 0), true)
+      assert.strictEqual(trust("::1", 0), true)
+      assert.strictEqual(trust("10.200.3.4", 0), true)
+      assert.strictEqual(trust("11.0.0.1", 0), false)
+      assert.strictEqual(trust("2001:db8:abcd::1", 0), true)
+      assert.strictEqual(trust("2001:db9::1", 0), false)
+    })
+
+    it("should accept arrays and single addresses", () => {
+      const trust = compileTrust(["172.16.0.0/12", "192.168.1.10"])
+
+      assert.strictEqual(trust("172.31.255.255", 0), true)
+      assert.strictEqual(trust("172.32.0.0", 0), false)
+      assert.strictEqual(trust("192.168.1.10", 0), true)
+      assert.strictEqual(trust("192.168.1.11", 0), false)
+    })
+
+    it("should reject invalid ranges", () => {
+      assert.throws(() => compileTrust("10.0.0.0/33"))
+      assert.throws(() => compileTrust("not-an-ip"))
+    })
+  })
+
+  describe("resolveProxyInfo()", () => {
+    it("should ignore forwarded headers when the proxy is not trusted", () => {
+      const info = resolveProxyInfo(
+        request("203.0.113.9", { host: "api.local:3000", "x-forwarded-for": "1.2.3.4", "x-forwarded-proto": "https" }),
+        compileTrust(false)
+      )
+
+      assert.deepStrictEqual(info, { ip: "203.0.113.9", ips: [], protocol: "http", secure: false, hostname: "api.local" })
+    })
+
+    it("should resolve the client through trusted proxies", () => {
+      const info = resolveProxyInfo(
+        request("10.0.0.2", {
+          host: "internal:8080",
+          "x-forwarded-for": "198.51.100.7, 10.0.0.5",
+          "x-forwarded-proto": "https",
+          "x-forwarded-host": "example.com"
+        }),
+        compileTrust("uniquelocal")
+      )
+
+      assert.deepStrictEqual(info, {
+        ip: "198.51.100.7",
+        ips: ["198.51.100.7", "10.0.0.5"],
+        protocol: "https",
+        secure: true,
+        hostname: "example.com"
+      })
+    })
+
+    it("should stop at the first untrusted address", () => {
+      const info = resolveProxyInfo(
+        request("10.0.0.2", { "x-forwarded-for": "6.6.6.6, 198.51.100.7" }),
+        compileTrust("10.0.0.0/8")
+      )
+
+      assert.strictEqual(info.ip, "198.51.100.7")
+      assert.deepStrictEqual(info.ips, ["198.51.100.7"])
+    })
+
+    it("should limit trust by hop count", () => {
+      const info = resolveProxyInfo(
+        request("10.0.0.2", { "x-forwarded-for": "6.6.6.6, 198.51.100.7, 10.0.0.5" }),
+        compileTrust(2)
+      )
+
+      assert.strictEqual(info.ip, "198.51.100.7")
+    })
+
+    it("should read the RFC 7239 Forwarded header", () => {
+      const info = resolveProxyInfo(
+        request("::ffff:127.0.0.1", { forwarded: 'for="[2001:db8::1]:4711";proto=https;host=shop.example, for=127.0.0.1' }),
+        compileTrust("loopback")
+      )
+
+      assert.strictEqual(info.ip, "2001:db8::1")
+      assert.strictEqual(info.protocol, "https")
+      assert.strictEqual(info.hostname, "shop.example")
+    })
+
+    it("should report https for TLS sockets", () => {
+      const info = resolveProxyInfo(request("203.0.113.9", { host: "[::1]:8443" }, true), compileTrust(false))
+
+      assert.strictEqual(info.secure, true)
+      assert.strictEqual(info.hostname, "[::1]")
+    })
+  })
+})
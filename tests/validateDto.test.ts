@@ -0,0 +1,173 @@
+import "reflect-metadata"
+import "./fixtures/app.js"
+import { after, describe, it } from "node:test"
+import * as assert from "node:assert"
+import { ValidationException } from "../src/errors/HttpExceptions.js"
+import {
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+  Validate,
+  ValidateNested
+} from "../src/validator/ValidationDecorators.js"
+import { assertDto, validateDto } from "../src/validator/validateDto.js"
+import { Post } from "../src/server/decorators/RouteDecorator.js"
+import { createServer } from "../src/server/LyraServer.js"
+
+const decorate = (dto: Function, property: string, ...decorators: PropertyDecorator[]) =>
+  decorators.reverse().forEach((decorator) => decorator(dto.prototype, property))
+
+class AddressDto {
+  city!: string
+}
+decorate(AddressDto, "city", IsString(), Length(2))
+
+class CreateUserDto {
+  email!: string
+  name!: string
+  password!: string
+  passwordConfirmation!: string
+  role = "user"
+  address?: AddressDto
+}
+decorate(CreateUserDto, "email", IsEmail())
+decorate(CreateUserDto, "name", IsString(), Length(2, 20))
+decorate(CreateUserDto, "password", IsString(), Matches(/\d/, { message: "password must contain a digit" }))
+decorate(CreateUserDto, "passwordConfirmation", Validate((value, dto) => value === dto.password, { message: "passwords do not match" }))
+decorate(CreateUserDto, "role", IsOptional(), IsIn(["user", "admin"]))
+decorate(CreateUserDto, "address", IsOptional(), ValidateNested(() => AddressDto))
+
+class ListQueryDto {
+  page = 1
+  tags?: number[]
+  archived?: boolean
+}
+decorate(ListQueryDto, "page", IsOptional(), IsInt(), Min(1), Max(100))
+decorate(ListQueryDto, "tags", IsOptional(), IsArray(), IsInt({ each: true }))
+decorate(ListQueryDto, "archived", IsOptional(), IsBoolean())
+
+class OrderDto {
+  lines!: AddressDto[]
+}
+decorate(OrderDto, "lines", IsArray(), ValidateNested(() => AddressDto))
+
+describe("validateDto", () => {
+  it("should return a DTO instance without undeclared fields", async () => {
+    const { value, errors } = await validateDto(CreateUserDto, {
+      email: "jane@example.com",
+      name: "Jane",
+      password: "secret1",
+      passwordConfirmation: "secret1",
+      isAdmin: true
+    })
+    assert.deepStrictEqual(errors, {})
+    assert.ok(value instanceof CreateUserDto)
+    assert.strictEqual(value.role, "user")
+    assert.strictEqual((value as any).isAdmin, undefined)
+  })
+
+  it("should report errors per field", async () => {
+    const { errors } = await validateDto(CreateUserDto, {
+      email: "nope",
+      name: 42,
+      password: "secret",
+      passwordConfirmation: "other",
+      role: "root",
+      address: { city: "X" }
+    })
+    assert.deepStrictEqual(errors, {
+      email: ["email must be an email"],
+      name: ["name must be a string", "name must be between 2 and 20 characters long"],
+      password: ["password must contain a digit"],
+      passwordConfirmation: ["passwords do not match"],
+      role: ["role must be one of: user, admin"],
+      "address.city": ["address.city must be at least 2 characters long"]
+    })
+  })
+
+  it("should require properties not marked optional", async () => {
+    const { errors } = await validateDto(CreateUserDto, undefined)
+    assert.deepStrictEqual(Object.keys(errors), ["email", "name", "password", "passwordConfirmation"])
+    assert.deepStrictEqual(errors.email, ["email is required"])
+  })
+
+  it("should convert query strings to declared types", async () => {
+    const { value, errors } = await validateDto(ListQueryDto, { page: "3", tags: "7", archived: "false" })
+    assert.deepStrictEqual(errors, {})
+    assert.deepStrictEqual({ ...value }, { page: 3, tags: [7], archived: false })
+  })
+
+  it("should keep unconvertible values and report them", async () => {
+    const { value, errors } = await validateDto(ListQueryDto, { page: "abc", tags: ["1", "x"] })
+    assert.deepStrictEqual(errors, {
+      page: ["page must be an integer", "page must not be less than 1", "page must not be greater than 100"],
+      tags: ["each value in tags must be an integer"]
+    })
+    assert.strictEqual(value.page, 1)
+  })
+
+  it("should validate arrays of nested DTOs with indexed paths", async () => {
+    const { errors } = await validateDto(OrderDto, { lines: [{ city: "Lyon" }, { city: 3 }, "x"] })
+    assert.deepStrictEqual(errors, {
+      "lines.1.city": ["lines.1.city must be a string", "lines.1.city must be at least 2 characters long"],
+      "lines.2": ["lines.2 must be an object"]
+    })
+  })
+})
+
+describe("assertDto", () => {
+  it("should throw a ValidationException with the field map", async () => {
+    await assert.rejects(assertDto(ListQueryDto, { page: "0" }), (error: any) => {
+      assert.ok(error instanceof ValidationException)
+      assert.strictEqual(error.status, 400)
+      assert.deepStrictEqual(error.fields, { page: ["page must not be less than 1"] })
+      return true
+    })
+  })
+
+  it("should return the DTO when valid", async () => {
+    const query = await assertDto(ListQueryDto, {})
+    assert.strictEqual(query.page, 1)
+  })
+})
+
+describe("route body and query DTOs", () => {
+  class PageDto {
+    page = 1
+  }
+  decorate(PageDto, "page", IsInt(), Min(1))
+
+  class ImportController {
+    static async run(req: any, res: any) {
+      res.json({ body: req.body.page, query: req.query.page })
+    }
+  }
+  Post({ path: "/imports", body: PageDto, query: ListQueryDto })(ImportController, "run", {})
+
+  const app = createServer()
+  app.registerController(ImportController)
+  after(() => app.close())
+
+  it("should report the errors of each source under its own prefix", async () => {
+    const res = await app.inject({ method: "POST", url: "/imports?page=0", body: { page: "x" } })
+
+    assert.strictEqual(res.statusCode, 400)
+    assert.deepStrictEqual(res.body.errors, {
+      "body.page": ["page must be an integer", "page must not be less than 1"],
+      "query.page": ["page must not be less than 1"]
+    })
+  })
+
+  it("should hand the DTO instances to the handler", async () => {
+    const res = await app.inject({ method: "POST", url: "/imports?page=2", body: { page: 5 } })
+    assert.deepStrictEqual(res.body, { body: 5, query: 2 })
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it } from "node:test"
+import * as assert from "node:assert"
+import { Readable } from "node:stream"
+import { parseXML, parseXMLStream, serializeToXML, XmlParseError, XmlTokenizer, XmlToken } from "../src/server/xmlParser.js"
+
+describe("parseXML", () => {
+  it("maps attributes, text and repeated siblings", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<order id="42">
+  <item sku="a">Pen</item>
+  <item sku="b">Ink</item>
+  <note>Fragile &amp; &lt;urgent&gt; &#169;&#x1F600;</note>
+  <empty />
+</order>`
+
+    assert.deepStrictEqual(parseXML(xml), {
+      order: {
+        "@id": "42",
+        item: [{ "@sku": "a", _text: "Pen" }, { "@sku": "b", _text: "Ink" }],
+        note: "Fragile & <urgent> ©\u{1F600}",
+        empty: ""
+      }
+    })
+  })
+
+  it("keeps CDATA verbatim and skips comments and processing instructions", () => {
+    const xml = "<doc><!-- note --><?render fast?><code><![CDATA[if (a < b && c) { <b>x</b> }]]></code></doc>"
+    assert.deepStrictEqual(parseXML(xml), { doc: { code: "if (a < b && c) { <b>x</b> }" } })
+  })
+
+  it("parses SOAP envelopes, keeping or stripping namespaces", () => {
+    const xml = `<soap:Envelope xmlns:soap="http://www.w3.org/2003/05/soap-envelope" xmlns:m="urn:orders">
+  <soap:Header/>
+  <soap:Body>
+    <m:GetOrder><m:Id>7</m:Id></m:GetOrder>
+  </soap:Body>
+</soap:Envelope>`
+
+    assert.deepStrictEqual(parseXML(xml), {
+      "soap:Envelope": {
+        "@xmlns:soap": "http://www.w3.org/2003/05/soap-envelope",
+        "@xmlns:m": "urn:orders",
+        "soap:Header": "",
+        "soap:Body": { "m:GetOrder": { "m:Id": "7" } }
+      }
+    })
+    assert.deepStrictEqual(parseXML(xml, { stripNamespaces: true }), {
+      Envelope: { Header: "", Body: { GetOrder: { Id: "7" } } }
+    })
+  })
+
+  it("uses the configured attribute prefix and text key", () => {
+    assert.deepStrictEqual(
+      parseXML('<price currency="EUR"> 12.50 </price>', { attributePrefix: "$", textKey: "#text", trimText: false }),
+      { price: { $currency: "EUR", "#text": " 12.50 " } }
+    )
+  })
+
+  it("rejects DOCTYPE declarations and unknown entities", () => {
+    const xxe = '<?xml version="1.0"?><!DOCTYPE foo [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><foo>&xxe;</foo>'
+    assert.throws(() => parseXML(xxe), /DOCTYPE declarations are not allowed/)
+    assert.throws(() => parseXML("<foo>&xxe;</foo>"), /Unknown entity &xxe;/)
+  })
+
+  it("reports malformed documents with their location", () => {
+    assert.throws(() => parseXML("<a>\n  <b></a>"), (error: any) => {
+      assert.ok(error instanceof XmlParseError)
+      assert.strictEqual(error.reason, "Expected </b> but found </a>")
+      assert.strictEqual(error.line, 2)
+      return true
+    })
+    assert.throws(() => parseXML("<a><b></b>"), /Unclosed element <a>/)
+    assert.throws(() => parseXML("<a/><b/>"), /Only one root element is allowed/)
+    assert.throws(() => parseXML('<a x="1" x="2"/>'), /Duplicate attribute "x"/)
+    assert.throws(() => parseXML("<a>fish & chips</a>"), /escape it as &amp;/)
+    assert.throws(() => parseXML("<x:a/>"), /Unbound namespace prefix "x"/)
+    assert.throws(() => parseXML(""), /no root element/)
+  })
+
+  it("enforces depth and size limits", () => {
+    assert.throws(() => parseXML("<a>".repeat(11) + "</a>".repeat(11), { maxDepth: 10 }), /maximum depth of 10/)
+    assert.throws(() => parseXML(`<a>${"x".repeat(100)}</a>`, { maxSize: 50 }), /maximum size of 50 characters/)
+  })
+
+  it("parses many repeated siblings in linear time", () => {
+    const started = Date.now()
+    const result = parseXML(`<list>${"<a/>".repeat(40000)}</list>`)
+    assert.strictEqual(result.list.a.length, 40000)
+    assert.ok(Date.now() - started < 2000)
+  })
+
+  it("cannot be polluted through element names", () => {
+    const result = parseXML("<a><__proto__><polluted>yes</polluted></__proto__></a>")
+    assert.strictEqual(({} as any).polluted, undefined)
+    assert.deepStrictEqual(Object.keys(result.a), ["__proto__"])
+  })
+})
+
+describe("XmlTokenizer", () => {
+  it("emits the same tokens whatever the chunk boundaries", () => {
+    const xml = '<a href="x>y"><![CDATA[z]]>t&amp;u<!-- c --></a>'
+    const tokens: XmlToken[] = []
+    const tokenizer = new XmlTokenizer(token => tokens.push(token))
+    for (const char of xml) tokenizer.write(char)
+    tokenizer.end()
+
+    const text = tokens.filter(token => token.type === "text").map(token => (token as any).value).join("")
+    assert.deepStrictEqual(tokens[0], { type: "open", name: "a", attributes: [["href", "x>y"]], selfClosing: false })
+    assert.strictEqual(text, "t&u")
+    assert.ok(tokens.some(token => token.type === "cdata" && token.value === "z"))
+    assert.deepStrictEqual(tokens[tokens.length - 1], { type: "close", name: "a" })
+  })
+})
+
+describe("parseXMLStream", () => {
+  it("parses a stream chunk by chunk", async () => {
+    // "€" is split across chunks
+    const euro = Buffer.from("€")
+    const source = Readable.from([Buffer.concat([Buffer.from("<list><v>"), euro.subarray(0, 1)]), euro.subarray(1), Buffer.from("1</v><v>2</v></list>")])
+    assert.deepStrictEqual(await parseXMLStream(source), { list: { v: ["€1", "2"] } })
+  })
+})
+
+describe("serializeToXML", () => {
+  it("round-trips with parseXML", () => {
+    const value = {
+      envelope: {
+        "@version": "2",
+        "@note": "line 1\nline 2",
+        header: "",
+        item: [{ "@id": "1", _text: "a < b" }, { "@id": "2", _text: "\"quoted\" & 'apostrophes'" }],
+        body: { title: "Hello", tags: ["x", "y"] }
+      }
+    }
+
+    assert.deepStrictEqual(parseXML(serializeToXML(value)), value)
+  })
+
+  it("round-trips a custom mapping", () => {
+    const options = { attributePrefix: "$", textKey: "#text" }
+    const value = { price: { $currency: "EUR", "#text": "12.50" } }
+    assert.deepStrictEqual(parseXML(serializeToXML(value, "root", options), options), value)
+  })
+})